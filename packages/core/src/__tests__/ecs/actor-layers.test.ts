@@ -0,0 +1,128 @@
+import { World } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import {
+    ALL_LAYERS,
+    LayerMatrix,
+    LayerMatrixError,
+} from '../../component-system/core/layer-matrix';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+class Position {
+    x = 0;
+}
+
+const registry = { Position };
+
+describe('Actor tag and layer indexes', () => {
+    let world: World<typeof registry>;
+
+    beforeEach(() => {
+        world = new World(registry);
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    const spawn = (tag: string, layer: number) =>
+        new Actor(world, { tag: tag as any, layer: layer as any });
+
+    it('should find actors by tag', () => {
+        const a = spawn('Enemy', 0);
+        const b = spawn('Enemy', 2);
+        spawn('Player', 0);
+
+        expect(world.findActorsByTag('Enemy')).toEqual([a, b]);
+        expect(world.findActorByTag('Enemy')).toBe(a);
+        expect(world.findActorsByTag('Missing')).toEqual([]);
+        expect(world.findActorByTag('Missing')).toBeUndefined();
+    });
+
+    it('should find actors in any layer of a mask', () => {
+        const ground = spawn('Default', 1);
+        const water = spawn('Default', 4);
+        spawn('Default', 2);
+
+        expect(world.findActorsInLayers((1 << 1) | (1 << 4))).toEqual([ground, water]);
+        expect(world.findActorsInLayers(0)).toEqual([]);
+        expect(world.findActorsInLayers(ALL_LAYERS)).toHaveLength(3);
+    });
+
+    it('should reindex actors when tag or layer change', () => {
+        const actor = spawn('Enemy', 3);
+
+        actor.tag = 'Ally' as any;
+        actor.layer = 5 as any;
+
+        expect(world.findActorsByTag('Enemy')).toEqual([]);
+        expect(world.findActorsByTag('Ally')).toEqual([actor]);
+        expect(world.findActorsInLayers(1 << 3)).toEqual([]);
+        expect(world.findActorsInLayers(1 << 5)).toEqual([actor]);
+    });
+
+    it('should drop destroyed actors from the indexes', () => {
+        const actor = spawn('Enemy', 1);
+        const other = spawn('Enemy', 1);
+
+        actor.destroy();
+        world.destroyEntity(other.entity);
+
+        expect(world.findActorsByTag('Enemy')).toEqual([]);
+        expect(world.findActorsInLayers(1 << 1)).toEqual([]);
+    });
+});
+
+describe('LayerMatrix', () => {
+    it('should let every layer interact by default', () => {
+        const matrix = new LayerMatrix();
+
+        expect(matrix.canInteract(0, 31)).toBe(true);
+        expect(matrix.getInteractionMask(7)).toBe(ALL_LAYERS);
+    });
+
+    it('should toggle interactions symmetrically by index or name', () => {
+        const matrix = new LayerMatrix({ names: { 1: 'Player', 2: 'Enemy', 3: 'UI' } });
+
+        matrix.setInteraction('Player', 'UI', false);
+
+        expect(matrix.canInteract(1, 3)).toBe(false);
+        expect(matrix.canInteract('UI', 'Player')).toBe(false);
+        expect(matrix.canInteract('Player', 'Enemy')).toBe(true);
+        expect(matrix.getInteractionMask('UI') & matrix.mask('Player')).toBe(0);
+
+        matrix.setInteraction(3, 1);
+        expect(matrix.canInteract('Player', 'UI')).toBe(true);
+    });
+
+    it('should build masks and round trip through its config', () => {
+        const matrix = new LayerMatrix({ names: { 0: 'Default', 31: 'Debug' } });
+        matrix.setInteraction('Debug', 'Default', false).setInteraction('Debug', 'Debug', false);
+
+        expect(matrix.mask('Default', 'Debug')).toBe(0x80000001);
+
+        const copy = new LayerMatrix(matrix.toJSON());
+        expect(copy.getName(31)).toBe('Debug');
+        expect(copy.canInteract(0, 31)).toBe(false);
+        expect(copy.canInteract(31, 31)).toBe(false);
+        expect(copy.canInteract(0, 0)).toBe(true);
+    });
+
+    it('should be configurable through the world', () => {
+        const world = new World(registry, {
+            layers: { names: { 8: 'Ghost' }, ignore: [['Ghost', 0]] },
+        });
+
+        expect(world.layers.canInteract('Ghost', 0)).toBe(false);
+        expect(world.layers.resolve('Ghost')).toBe(8);
+        world.clear();
+    });
+
+    it('should reject invalid layers and names', () => {
+        const matrix = new LayerMatrix({ names: { 1: 'Player' } });
+
+        expect(() => matrix.resolve(32)).toThrow(LayerMatrixError);
+        expect(() => matrix.resolve(-1)).toThrow(LayerMatrixError);
+        expect(() => matrix.resolve('Missing')).toThrow(LayerMatrixError);
+        expect(() => matrix.setName(2, 'Player')).toThrow(LayerMatrixError);
+    });
+});
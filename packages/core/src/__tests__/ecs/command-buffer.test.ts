@@ -0,0 +1,231 @@
+import { World, WorldError } from '../../component-system/core/world';
+import { CommandBuffer } from '../../component-system/commands/command-buffer';
+import { SystemManager, SystemPhase } from '../../component-system/systems/system-manager';
+import type { Entity, SystemId } from '../../component-system/types/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Position {
+    x = 0;
+    y = 0;
+}
+
+class Velocity {
+    vx = 0;
+    vy = 0;
+}
+
+class Dead {}
+
+const registry = { Position, Velocity, Dead };
+type Registry = typeof registry;
+
+describe('CommandBuffer', () => {
+    let world: World<Registry>;
+    let commands: CommandBuffer<Registry>;
+
+    beforeEach(() => {
+        world = new World(registry);
+        commands = new CommandBuffer(world);
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    it('should defer structural changes until playback', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Position');
+
+        commands.addComponent(entity, 'Velocity').removeComponent(entity, 'Position');
+
+        expect(commands.size).toBe(2);
+        expect(world.hasComponent(entity, 'Velocity')).toBe(false);
+
+        commands.playback();
+
+        expect(commands.isEmpty).toBe(true);
+        expect(world.hasComponent(entity, 'Velocity')).toBe(true);
+        expect(world.hasComponent(entity, 'Position')).toBe(false);
+    });
+
+    it('should resolve placeholder entities on playback', () => {
+        const placeholder = commands.createEntity();
+        commands.addComponent(placeholder, 'Position');
+        commands.setComponent(placeholder, 'Position', { x: 4 });
+
+        expect(CommandBuffer.isPlaceholder(placeholder)).toBe(true);
+        expect(world.getEntityCount()).toBe(0);
+
+        const resolved = commands.playback();
+        const entity = resolved.get(placeholder)!;
+
+        expect(entity).toBeGreaterThan(0);
+        expect(world.getComponent(entity, 'Position')!.x).toBe(4);
+    });
+
+    it('should reject placeholders it did not create', () => {
+        expect(() => commands.addComponent(-5 as Entity, 'Position')).toThrow(WorldError);
+        expect(() => commands.addComponent(world.createEntity(), 'Missing' as any)).toThrow(
+            WorldError
+        );
+    });
+
+    it('should apply set patches after components are added and mark them changed', () => {
+        const entity = world.createEntity();
+        commands.addComponent(entity, 'Velocity');
+        commands.setComponent(entity, 'Velocity', { vx: 2 });
+        commands.setComponent(entity, 'Velocity', { vy: 3 });
+
+        commands.playback();
+
+        const velocity = world.getComponent(entity, 'Velocity')!;
+        expect(velocity.vx).toBe(2);
+        expect(velocity.vy).toBe(3);
+        expect(world.getChangeTick(entity, 'Velocity')).toBe(world.changeTick);
+    });
+
+    it('should skip commands for entities destroyed in the same buffer', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Position');
+
+        commands.addComponent(entity, 'Velocity');
+        commands.destroyEntity(entity);
+        commands.addComponent(entity, 'Dead');
+
+        commands.playback();
+
+        expect(world.getAllEntities()).not.toContain(entity);
+        expect(world.query('Position')).toHaveLength(0);
+    });
+
+    it('should use the last operation recorded for a component', () => {
+        const entity = world.createEntity();
+        const velocity = new Velocity();
+
+        commands.addComponent(entity, 'Position');
+        commands.removeComponent(entity, 'Position');
+        commands.addComponent(entity, 'Velocity', velocity);
+
+        commands.playback();
+
+        expect(world.hasComponent(entity, 'Position')).toBe(false);
+        expect(world.getComponent(entity, 'Velocity')).toBe(velocity);
+    });
+
+    it('should replace a component removed and re-added in the same buffer', () => {
+        const entity = world.createEntity();
+        const original = world.addComponent(entity, 'Position');
+        original.x = 7;
+        const replacement = new Position();
+
+        commands.removeComponent(entity, 'Position');
+        commands.addComponent(entity, 'Position', replacement);
+        commands.addComponent(entity, 'Velocity');
+        commands.removeComponent(entity, 'Velocity');
+        commands.addComponent(entity, 'Velocity');
+        commands.playback();
+
+        expect(world.getComponent(entity, 'Position')).toBe(replacement);
+        expect(world.getComponent(entity, 'Velocity')).toBeDefined();
+    });
+
+    it('should not carry set patches over to a component removed and re-added', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Position');
+
+        commands.setComponent(entity, 'Position', { x: 5 });
+        commands.removeComponent(entity, 'Position');
+        commands.addComponent(entity, 'Position');
+        commands.setComponent(entity, 'Velocity', { vx: 1 });
+        commands.addComponent(entity, 'Velocity');
+        commands.playback();
+
+        expect(world.getComponent(entity, 'Position')!.x).toBe(0);
+        expect(world.getComponent(entity, 'Velocity')!.vx).toBe(0);
+    });
+
+    it('should emit Changed events for set commands like setComponent does', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Position');
+        const listener = vi.fn();
+        world.on('PositionChanged', listener);
+
+        commands.setComponent(entity, 'Position', { x: 3 });
+        commands.setComponent(entity, 'Position', { y: 0 });
+        commands.playback();
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][0].changes).toEqual([
+            expect.objectContaining({ path: 'x', previous: 0, current: 3 }),
+        ]);
+    });
+
+    it('should move each entity between archetypes once and invalidate queries once', () => {
+        const entities = [world.createEntity(), world.createEntity(), world.createEntity()];
+        world.addComponent(entities[0], 'Position');
+        world.addComponent(entities[0], 'Velocity');
+        world.query('Position');
+
+        for (const entity of entities) {
+            commands.addComponent(entity, 'Position').addComponent(entity, 'Velocity');
+        }
+
+        const cache = (world as any)._queryCache;
+        const invalidate = vi.spyOn(cache, 'invalidate');
+
+        commands.playback();
+
+        expect(invalidate).toHaveBeenCalledTimes(1);
+        expect(world.query('Position', 'Velocity')).toHaveLength(3);
+        expect(world.getArchetypeCount()).toBe(3);
+    });
+
+    it('should clear the buffer even when playback fails', () => {
+        const entity = world.createEntity();
+        commands.addComponent(entity, 'Position');
+        world.destroyEntity(entity);
+
+        expect(() => commands.playback()).toThrow(WorldError);
+        expect(commands.isEmpty).toBe(true);
+    });
+
+    describe('with SystemManager', () => {
+        it('should play back commands at phase boundaries', () => {
+            const systems = new SystemManager(world);
+            const entity = world.createEntity();
+            world.addComponent(entity, 'Position');
+            const seenInUpdate: number[] = [];
+
+            systems.addSystem(
+                {
+                    id: 'spawner' as SystemId,
+                    query: ['Position'],
+                    priority: 0,
+                    enabled: true,
+                    execute: (entities) => {
+                        for (const { entity: current } of entities) {
+                            systems.commands.addComponent(current, 'Velocity');
+                            const spawned = systems.commands.createEntity();
+                            systems.commands.addComponent(spawned, 'Position');
+                        }
+                        seenInUpdate.push(world.query('Position').length);
+                    },
+                },
+                SystemPhase.PreUpdate
+            );
+            systems.addSystem({
+                id: 'mover' as SystemId,
+                query: ['Velocity'],
+                priority: 0,
+                enabled: true,
+                execute: (entities) => seenInUpdate.push(entities.length),
+            });
+
+            systems.executeAll(0.016);
+
+            expect(seenInUpdate).toEqual([1, 1]);
+            expect(world.query('Position')).toHaveLength(2);
+            expect(systems.commands.isEmpty).toBe(true);
+        });
+    });
+});
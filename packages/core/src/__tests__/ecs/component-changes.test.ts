@@ -0,0 +1,178 @@
+import { ComponentError, World } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import { Component } from '../../component-system/core/component';
+import { defineComponent } from '../../component-system/schema';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Stats {
+    hp = 100;
+    name = 'orc';
+    offset = { x: 0, y: 0 };
+    tags: string[] = [];
+}
+
+class Health extends Component {
+    current = 10;
+}
+
+const Velocity = defineComponent({ x: 'f32', y: 'f32' }, { name: 'Velocity' });
+
+class Shield {
+    private _charge = 50;
+
+    get charge(): number {
+        return this._charge;
+    }
+
+    set charge(value: number) {
+        this._charge = Math.min(value, 100);
+    }
+}
+
+const registry = { Stats, Health, Velocity, Shield };
+
+describe('Component change events', () => {
+    let world: World<typeof registry>;
+
+    beforeEach(() => {
+        world = new World(registry);
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    it('should emit field diffs for patched values', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Stats');
+        const listener = vi.fn();
+        world.on('StatsChanged', listener);
+
+        const changes = world.setComponent(entity, 'Stats', { hp: 80, offset: { y: 3 } });
+
+        expect(changes).toEqual([
+            { path: 'hp', previous: 100, current: 80 },
+            { path: 'offset.y', previous: 0, current: 3 },
+        ]);
+        expect(listener).toHaveBeenCalledWith({
+            entity,
+            component: world.getComponent(entity, 'Stats'),
+            actor: undefined,
+            changes,
+        });
+        expect(world.getComponent(entity, 'Stats')).toMatchObject({
+            hp: 80,
+            offset: { x: 0, y: 3 },
+        });
+    });
+
+    it('should skip patches that change nothing', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Stats');
+        const listener = vi.fn();
+        world.on('StatsChanged', listener);
+        const tick = world.getChangeTick(entity, 'Stats');
+
+        expect(world.setComponent(entity, 'Stats', { hp: 100, offset: { x: 0 } })).toEqual([]);
+        expect(listener).not.toHaveBeenCalled();
+        expect(world.getChangeTick(entity, 'Stats')).toBe(tick);
+    });
+
+    it('should bump the change tick so changed queries pick up patches', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Stats');
+        const tick = world.getChangeTick(entity, 'Stats')!;
+
+        world.setComponent(entity, 'Stats', { name: 'troll' });
+
+        expect(world.getChangeTick(entity, 'Stats')!).toBeGreaterThan(tick);
+    });
+
+    it('should replace arrays and class instances wholesale', () => {
+        const entity = world.createEntity();
+        const stats = world.addComponent(entity, 'Stats');
+        const tags = stats.tags;
+
+        const changes = world.setComponent(entity, 'Stats', { tags: ['boss'] });
+
+        expect(changes).toEqual([{ path: 'tags', previous: tags, current: ['boss'] }]);
+    });
+
+    it('should reject patches for missing components', () => {
+        const entity = world.createEntity();
+
+        expect(() => world.setComponent(entity, 'Stats', { hp: 1 })).toThrow(ComponentError);
+        expect(() => world.trackComponent(entity, 'Stats')).toThrow(ComponentError);
+    });
+
+    it('should report writes through a tracked proxy', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Stats');
+        const changes: unknown[] = [];
+        world.on('StatsChanged', (event) => changes.push(...event.changes));
+
+        const tracked = world.trackComponent(entity, 'Stats');
+        tracked.hp -= 5;
+        tracked.hp = 95;
+        tracked.offset.x = 2;
+        tracked.tags.push('elite');
+
+        expect(changes).toEqual([
+            { path: 'hp', previous: 100, current: 95 },
+            { path: 'offset.x', previous: 0, current: 2 },
+            { path: 'tags.0', previous: undefined, current: 'elite' },
+        ]);
+        expect(world.getComponent(entity, 'Stats')!.hp).toBe(95);
+    });
+
+    it('should report accessor writes once', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Shield');
+        const changes: unknown[] = [];
+        world.on('ShieldChanged', (event) => changes.push(...event.changes));
+
+        world.trackComponent(entity, 'Shield').charge = 150;
+
+        expect(changes).toEqual([{ path: 'charge', previous: 50, current: 100 }]);
+        expect(world.getComponent(entity, 'Shield')!.charge).toBe(100);
+    });
+
+    it('should stop reporting once the component is removed', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Stats');
+        const tracked = world.trackComponent(entity, 'Stats');
+        const listener = vi.fn();
+        world.on('StatsChanged', listener);
+
+        world.removeComponent(entity, 'Stats');
+        tracked.hp = 1;
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should patch typed components through their column views', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Velocity');
+
+        const changes = world.setComponent(entity, 'Velocity', { x: 2 });
+
+        expect(changes).toEqual([{ path: 'x', previous: 0, current: 2 }]);
+        expect(world.getComponent(entity, 'Velocity')!.x).toBe(2);
+    });
+
+    it('should include the actor and feed the changed observable', () => {
+        const actor = new Actor(world);
+        const health = actor.addComponent(Health);
+        const observed = vi.fn();
+        world.getObservables().getComponentObservables('Health').changed.addObserver(observed);
+
+        world.setComponent(actor.entity, 'Health', { current: 4 });
+
+        expect(observed.mock.calls[0][0]).toEqual({
+            entity: actor.entity,
+            component: health,
+            actor,
+            changes: [{ path: 'current', previous: 10, current: 4 }],
+        });
+    });
+});
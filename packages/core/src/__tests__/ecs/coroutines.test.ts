@@ -0,0 +1,333 @@
+import { World } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import { Component, ComponentError } from '../../component-system/core/component';
+import { ManualClock } from '../../component-system/loop/clock';
+import { WorldRunner } from '../../component-system/loop/world-runner';
+import {
+    WaitForEvent,
+    WaitForFrames,
+    WaitForSeconds,
+    WaitForTween,
+    WaitUntil,
+    CoroutineError,
+    type CoroutineRoutine,
+    type TweenLike,
+} from '../../component-system/coroutines';
+import { EventEmitter } from '../../event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Spawner extends Component {
+    spawned = 0;
+
+    spawn(): void {
+        this.spawned++;
+    }
+}
+
+class Position {
+    x = 0;
+}
+
+const registry = { Spawner, Position };
+type Registry = typeof registry;
+
+class FakeTween implements TweenLike {
+    status = 'running';
+
+    isPlaying(): boolean {
+        return this.status === 'running';
+    }
+
+    getStatus(): string {
+        return this.status;
+    }
+}
+
+describe('Coroutines', () => {
+    let world: World<Registry>;
+    let runner: WorldRunner<Registry>;
+    let actor: Actor;
+    let spawner: Spawner;
+
+    beforeEach(() => {
+        world = new World(registry);
+        runner = new WorldRunner(world, { clock: new ManualClock() });
+        actor = new Actor(world);
+        spawner = actor.addComponent(Spawner);
+    });
+
+    afterEach(() => {
+        runner.stop();
+        world.clear();
+    });
+
+    it('should run up to the first yield and resume after the waited time', () => {
+        const steps: string[] = [];
+        const coroutine = spawner.startCoroutine(function* () {
+            steps.push('start');
+            yield new WaitForSeconds(0.25);
+            steps.push('after');
+        });
+
+        expect(steps).toEqual(['start']);
+        runner.step(0.1);
+        runner.step(0.1);
+        expect(steps).toEqual(['start']);
+        runner.step(0.1);
+        expect(steps).toEqual(['start', 'after']);
+        expect(coroutine.state).toBe('completed');
+        expect(world.coroutines.count).toBe(0);
+    });
+
+    it('should wait for frames and treat null as a single frame', () => {
+        const frames: number[] = [];
+        spawner.startCoroutine(function* () {
+            yield null;
+            frames.push(world.coroutines.frame);
+            yield new WaitForFrames(3);
+            frames.push(world.coroutines.frame);
+        });
+
+        for (let i = 0; i < 5; i++) runner.step(0.016);
+
+        expect(frames).toEqual([1, 4]);
+    });
+
+    it('should wait until a predicate holds', () => {
+        let ready = false;
+        const done = vi.fn();
+        spawner.startCoroutine(function* () {
+            yield new WaitUntil(() => ready);
+            done();
+        });
+
+        runner.step(0.016);
+        expect(done).not.toHaveBeenCalled();
+        ready = true;
+        runner.step(0.016);
+        expect(done).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for a tween to finish', () => {
+        const tween = new FakeTween();
+        const done = vi.fn();
+        spawner.startCoroutine(function* () {
+            yield new WaitForTween(tween);
+            done();
+        });
+
+        tween.status = 'paused';
+        runner.step(0.016);
+        expect(done).not.toHaveBeenCalled();
+        tween.status = 'completed';
+        runner.step(0.016);
+        expect(done).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resume with the payload of an awaited event', () => {
+        const events = new EventEmitter<{ hit: { damage: number } }>();
+        const received: number[] = [];
+        spawner.startCoroutine(function* () {
+            const hit: { damage: number } = yield new WaitForEvent(
+                events,
+                'hit',
+                (data: { damage: number }) => data.damage > 5
+            );
+            received.push(hit.damage);
+        });
+
+        events.emitSync('hit', { damage: 1 });
+        events.emitSync('hit', { damage: 10 });
+        runner.step(0.016);
+
+        expect(received).toEqual([10]);
+        expect(events.listenerCount('hit')).toBe(0);
+    });
+
+    it('should wait for nested coroutines', () => {
+        const steps: string[] = [];
+        function* child(): CoroutineRoutine {
+            steps.push('child');
+            yield new WaitForFrames(2);
+            steps.push('child done');
+        }
+
+        spawner.startCoroutine(function* () {
+            yield child();
+            steps.push('parent done');
+        });
+
+        runner.step(0.016);
+        expect(steps).toEqual(['child']);
+        runner.step(0.016);
+        runner.step(0.016);
+        expect(steps).toEqual(['child', 'child done', 'parent done']);
+    });
+
+    it('should stop nested coroutines with their parent', () => {
+        const steps: string[] = [];
+        function* child(): CoroutineRoutine {
+            yield new WaitForSeconds(0.5);
+            steps.push('child done');
+        }
+        const other = spawner.startCoroutine(function* () {
+            yield new WaitForSeconds(0.5);
+        });
+
+        const parent = spawner.startCoroutine(function* () {
+            yield child();
+        });
+        const waiting = spawner.startCoroutine(function* () {
+            yield other;
+        });
+        spawner.stopCoroutine(parent);
+        spawner.stopCoroutine(waiting);
+        runner.step(0.25);
+        runner.step(0.25);
+
+        expect(steps).toEqual([]);
+        expect(other.state).toBe('completed');
+        expect(world.coroutines.count).toBe(0);
+    });
+
+    it('should stop coroutines explicitly and run finally blocks', () => {
+        const cleanup = vi.fn();
+        const coroutine = spawner.startCoroutine(function* () {
+            try {
+                yield new WaitForSeconds(10);
+            } finally {
+                cleanup();
+            }
+        });
+
+        spawner.stopCoroutine(coroutine);
+
+        expect(coroutine.state).toBe('stopped');
+        expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report failing coroutines without breaking the tick', () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const done = vi.fn();
+        const failing = spawner.startCoroutine(function* () {
+            yield null;
+            throw new Error('boom');
+        });
+        spawner.startCoroutine(function* () {
+            yield null;
+            done();
+        });
+
+        runner.step(0.016);
+
+        expect(failing.state).toBe('failed');
+        expect(failing.error?.message).toBe('boom');
+        expect(errorSpy.mock.calls[0][0]).toBeInstanceOf(CoroutineError);
+        expect(done).toHaveBeenCalledTimes(1);
+        errorSpy.mockRestore();
+    });
+
+    it('should invoke a method once after a delay', () => {
+        spawner.invoke('spawn', 0.2);
+
+        expect(spawner.isInvoking('spawn')).toBe(true);
+        runner.step(0.1);
+        expect(spawner.spawned).toBe(0);
+        runner.step(0.1);
+        expect(spawner.spawned).toBe(1);
+        runner.step(0.5);
+        expect(spawner.spawned).toBe(1);
+        expect(spawner.isInvoking()).toBe(false);
+    });
+
+    it('should invoke repeatedly until cancelled', () => {
+        spawner.invokeRepeating('spawn', 0.1, 0.2);
+
+        runner.step(0.1);
+        expect(spawner.spawned).toBe(1);
+        runner.step(0.2);
+        runner.step(0.2);
+        expect(spawner.spawned).toBe(3);
+
+        spawner.cancelInvoke('spawn');
+        runner.step(0.2);
+        expect(spawner.spawned).toBe(3);
+        expect(spawner.isInvoking('spawn')).toBe(false);
+    });
+
+    it('should carry overshoot into the next repeat', () => {
+        spawner.invokeRepeating('spawn', 0.0625, 0.0625);
+
+        runner.step(0.09375);
+        expect(spawner.spawned).toBe(1);
+        runner.step(0.03125);
+        expect(spawner.spawned).toBe(2);
+
+        // A long frame fires every repeat that fell inside it.
+        runner.step(0.25);
+        expect(spawner.spawned).toBe(6);
+    });
+
+    it('should keep invocations and coroutines separate', () => {
+        const callback = vi.fn();
+        const coroutine = spawner.startCoroutine(function* () {
+            yield new WaitForSeconds(1);
+        });
+        spawner.invoke(callback, 0.1);
+
+        spawner.stopAllCoroutines();
+        expect(coroutine.running).toBe(false);
+        expect(spawner.isInvoking(callback)).toBe(true);
+
+        spawner.startCoroutine(function* () {
+            yield new WaitForSeconds(1);
+        });
+        spawner.cancelInvoke();
+        expect(spawner.isInvoking()).toBe(false);
+        expect(world.coroutines.getCoroutines(spawner)).toHaveLength(1);
+    });
+
+    it('should reject invalid invocations', () => {
+        expect(() => spawner.invoke('missing', 1)).toThrow(ComponentError);
+        expect(() => spawner.invokeRepeating('spawn', 0, 0)).toThrow(ComponentError);
+        expect(() => new Spawner().startCoroutine(function* () {})).toThrow(ComponentError);
+    });
+
+    it('should stop everything when the component is disabled', () => {
+        spawner.invokeRepeating('spawn', 0, 0.1);
+        spawner.startCoroutine(function* () {
+            yield new WaitForSeconds(1);
+        });
+        expect(spawner.spawned).toBe(0);
+
+        spawner.enabled = false;
+
+        expect(world.coroutines.getCoroutines(spawner)).toHaveLength(0);
+        runner.step(1);
+        expect(spawner.spawned).toBe(0);
+    });
+
+    it('should stop everything when the actor is deactivated or destroyed', () => {
+        const other = new Actor(world).addComponent(Spawner);
+        spawner.invokeRepeating('spawn', 0.1, 0.1);
+        other.invokeRepeating('spawn', 0.1, 0.1);
+
+        actor.active = false;
+        (other as any).actor.destroy();
+        runner.step(1);
+
+        expect(spawner.spawned).toBe(0);
+        expect(other.spawned).toBe(0);
+        expect(world.coroutines.count).toBe(0);
+    });
+
+    it('should stop everything when the component is removed', () => {
+        spawner.invoke('spawn', 0.1);
+
+        actor.removeComponent(Spawner);
+        runner.step(1);
+
+        expect(spawner.spawned).toBe(0);
+        expect(world.coroutines.count).toBe(0);
+    });
+});
@@ -0,0 +1,212 @@
+import { World, WorldError } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import { Component } from '../../component-system/core/component';
+import { ScriptHotReloader } from '../../component-system/core/hot-reload';
+import { script } from '../../component-system/decorators/script';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const calls: string[] = [];
+
+class Tracked extends Component {
+    awake(): void {
+        calls.push(`${this.label()}:awake`);
+    }
+    start(): void {
+        calls.push(`${this.label()}:start`);
+    }
+    onEnable(): void {
+        calls.push(`${this.label()}:onEnable`);
+    }
+    onDisable(): void {
+        calls.push(`${this.label()}:onDisable`);
+    }
+    onDestroy(): void {
+        calls.push(`${this.label()}:onDestroy`);
+    }
+    protected label(): string {
+        return 'v?';
+    }
+}
+
+const EnemyV1 = (() => {
+    class Enemy extends Tracked {
+        hp = 100;
+        speed = 2;
+        protected label(): string {
+            return 'v1';
+        }
+    }
+    return Enemy;
+})();
+
+const defineEnemyV2 = () => {
+    class Enemy extends Tracked {
+        health = 0;
+        speed = 1;
+        fromVersion: string | undefined;
+
+        migrate(fromVersion: string | undefined, data: Record<string, any>) {
+            this.fromVersion = fromVersion;
+            const { hp, ...rest } = data;
+            return { ...rest, health: hp };
+        }
+
+        protected label(): string {
+            return 'v2';
+        }
+    }
+    return script({ scriptName: 'HotEnemy', version: '2.0.0', hotReload: true })(Enemy);
+};
+
+class Marker {
+    value = 0;
+}
+
+describe('ScriptHotReloader', () => {
+    let world: World<any>;
+    let reloader: ScriptHotReloader;
+
+    beforeEach(() => {
+        calls.length = 0;
+        // The script registry is global, so every test starts from the original class.
+        script({ scriptName: 'HotEnemy', version: '1.0.0' })(EnemyV1);
+        world = new World({ Enemy: EnemyV1, Marker });
+        reloader = new ScriptHotReloader(world);
+    });
+
+    afterEach(() => {
+        reloader.dispose();
+        world.clear();
+    });
+
+    it('should swap script instances on every actor when a class is redefined', () => {
+        const a = new Actor(world);
+        const b = new Actor(world);
+        a.addComponent(EnemyV1).hp = 40;
+        b.addComponent(EnemyV1).speed = 5;
+        calls.length = 0;
+
+        const EnemyV2 = defineEnemyV2();
+
+        const enemyA = a.getComponent(EnemyV2 as any) as any;
+        const enemyB = b.getComponent(EnemyV2 as any) as any;
+        expect(enemyA).toBeInstanceOf(EnemyV2);
+        expect(a.getComponent(EnemyV1)).toBeUndefined();
+        expect(enemyA).toMatchObject({ health: 40, speed: 2, fromVersion: '1.0.0' });
+        expect(enemyB).toMatchObject({ health: 100, speed: 5 });
+        expect(world.getComponent(a.entity, 'Enemy')).toBe(enemyA);
+        expect(world.query('Enemy').map(({ components }) => components.Enemy)).toEqual([
+            enemyA,
+            enemyB,
+        ]);
+    });
+
+    it('should re-run the lifecycle in order', () => {
+        new Actor(world).addComponent(EnemyV1);
+        calls.length = 0;
+
+        defineEnemyV2();
+
+        expect(calls).toEqual([
+            'v1:onDisable',
+            'v1:onDestroy',
+            'v2:awake',
+            'v2:onEnable',
+            'v2:start',
+        ]);
+    });
+
+    it('should skip hooks that do not apply to inactive or unstarted actors', () => {
+        const actor = new Actor(world, { autoStart: false });
+        actor.addComponent(EnemyV1);
+        actor.active = false;
+        calls.length = 0;
+
+        defineEnemyV2();
+
+        expect(calls).toEqual(['v1:onDestroy', 'v2:awake']);
+    });
+
+    it('should point the world registry at the new class', () => {
+        const entity = world.createEntity();
+        (world.addComponent(entity, 'Enemy') as any).hp = 7;
+
+        const EnemyV2 = defineEnemyV2();
+        const other = world.createEntity();
+
+        expect(world.registry.Enemy).toBe(EnemyV2);
+        expect(world.getComponent(entity, 'Enemy')).toMatchObject({ health: 7 });
+        expect(world.addComponent(other, 'Enemy')).toBeInstanceOf(EnemyV2);
+    });
+
+    it('should reload worlds that share one registry independently', () => {
+        const registry = { Enemy: EnemyV1, Marker };
+        const worlds = [new World(registry), new World(registry)];
+        const reloaders = worlds.map((shared) => new ScriptHotReloader(shared));
+        const entities = worlds.map((shared) => {
+            const entity = shared.createEntity();
+            (shared.addComponent(entity, 'Enemy') as any).hp = 9;
+            return entity;
+        });
+
+        const EnemyV2 = defineEnemyV2();
+
+        expect(registry.Enemy).toBe(EnemyV1);
+        worlds.forEach((shared, i) => {
+            expect(shared.registry.Enemy).toBe(EnemyV2);
+            expect(shared.getComponent(entities[i], 'Enemy')).toBeInstanceOf(EnemyV2);
+            expect(shared.getComponent(entities[i], 'Enemy')).toMatchObject({ health: 9 });
+        });
+
+        reloaders.forEach((shared) => shared.dispose());
+        worlds.forEach((shared) => shared.clear());
+    });
+
+    it('should report reloads and ignore scripts the world does not use', () => {
+        const listener = vi.fn();
+        reloader.onReload(listener);
+        new Actor(world).addComponent(EnemyV1);
+
+        defineEnemyV2();
+        const Unused = class Other extends Component {};
+        expect(
+            reloader.reload({ scriptName: 'Other', previous: Unused, next: Unused })
+        ).toBeUndefined();
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][0]).toMatchObject({
+            scriptName: 'HotEnemy',
+            componentName: 'Enemy',
+            entities: 1,
+        });
+    });
+
+    it('should only reload classes that opt in', () => {
+        const actor = new Actor(world);
+        actor.addComponent(EnemyV1);
+
+        class Enemy extends Component {}
+        script({ scriptName: 'HotEnemy' })(Enemy);
+
+        expect(actor.getComponent(EnemyV1)).toBeInstanceOf(EnemyV1);
+    });
+
+    it('should stop listening once disposed', () => {
+        const actor = new Actor(world);
+        actor.addComponent(EnemyV1);
+
+        reloader.dispose();
+        defineEnemyV2();
+
+        expect(reloader.disposed).toBe(true);
+        expect(actor.getComponent(EnemyV1)).toBeInstanceOf(EnemyV1);
+    });
+
+    it('should reject replacements that change the component name', () => {
+        class Renamed extends Component {}
+
+        expect(() =>
+            reloader.reload({ scriptName: 'HotEnemy', previous: EnemyV1, next: Renamed })
+        ).toThrow(WorldError);
+    });
+});
@@ -0,0 +1,283 @@
+import { World } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import { Component } from '../../component-system/core/component';
+import { SystemManager, SystemPhase } from '../../component-system/systems/system-manager';
+import type { SystemId } from '../../component-system/types/core';
+import type { System } from '../../component-system/types/system';
+import {
+    InMemoryChannel,
+    InspectorClient,
+    InspectorError,
+    WorldInspector,
+    createMessagePortChannel,
+} from '../../component-system/inspector';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Position {
+    x = 0;
+    y = 0;
+    offset = { z: 1 };
+}
+
+class Health extends Component {
+    current = 10;
+}
+
+class Tag {}
+
+const registry = { Position, Health, Tag };
+type Registry = typeof registry;
+
+const createSystem = (id: string, execute = vi.fn()): System<Registry, ['Position']> => ({
+    id: id as SystemId,
+    query: ['Position'],
+    priority: 0,
+    enabled: true,
+    execute,
+});
+
+describe('WorldInspector', () => {
+    let world: World<Registry>;
+    let systems: SystemManager<Registry>;
+    let inspector: WorldInspector<Registry>;
+
+    beforeEach(() => {
+        world = new World(registry, { componentStorage: { Tag: 'sparse' } });
+        systems = new SystemManager(world);
+        inspector = new WorldInspector(world, { systems });
+    });
+
+    afterEach(() => {
+        inspector.dispose();
+        world.clear();
+    });
+
+    it('should describe the world', () => {
+        world.addComponent(world.createEntity(), 'Position');
+
+        expect(inspector.getWorldInfo()).toMatchObject({
+            protocolVersion: 1,
+            state: 'ready',
+            entityCount: 1,
+            componentTypes: ['Position', 'Health', 'Tag'],
+        });
+    });
+
+    it('should list entities with paging and component filters', () => {
+        const entities = Array.from({ length: 5 }, () => world.createEntity());
+        world.addComponent(entities[1], 'Position');
+        world.addComponent(entities[3], 'Position');
+        world.addComponent(entities[3], 'Tag');
+
+        expect(inspector.listEntities({ offset: 1, limit: 2 })).toEqual({
+            total: 5,
+            entities: [
+                { entity: entities[1], components: ['Position'] },
+                { entity: entities[2], components: [] },
+            ],
+        });
+        expect(
+            inspector.listEntities({ component: 'Position' }).entities.map(({ entity }) => entity)
+        ).toEqual([entities[1], entities[3]]);
+        expect(inspector.listEntities({ component: 'Tag' }).entities[0].components).toEqual([
+            'Position',
+            'Tag',
+        ]);
+    });
+
+    it('should describe a single entity with its actor, hierarchy and data', () => {
+        const actor = new Actor(world, { name: 'Player', tag: 'hero' as any });
+        actor.addComponent(Health);
+        const child = world.createEntity();
+        world.setParent(child, actor.entity);
+
+        const details = inspector.getEntity(actor.entity);
+
+        expect(details).toMatchObject({
+            entity: actor.entity,
+            name: 'Player',
+            actor: { id: actor.id, tag: 'hero', layer: 0, active: true },
+            children: [child],
+            data: { Health: expect.objectContaining({ current: 10 }) },
+        });
+        expect(inspector.getEntity(child).parent).toBe(actor.entity);
+    });
+
+    it('should list archetypes', () => {
+        world.addComponent(world.createEntity(), 'Position');
+
+        expect(inspector.listArchetypes()).toContainEqual(
+            expect.objectContaining({ signature: ['Position'], entityCount: 1 })
+        );
+    });
+
+    it('should read and write component fields through change events', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Position');
+        const changed = vi.fn();
+        world.on('PositionChanged', changed);
+
+        const changes = inspector.setComponent(entity, 'Position', { x: 3, offset: { z: 2 } });
+
+        expect(changes).toEqual([
+            { path: 'x', previous: 0, current: 3 },
+            { path: 'offset.z', previous: 1, current: 2 },
+        ]);
+        expect(changed).toHaveBeenCalledTimes(1);
+        expect(inspector.getComponent(entity, 'Position')).toEqual({
+            x: 3,
+            y: 0,
+            offset: { z: 2 },
+        });
+    });
+
+    it('should reject unknown entities, components and methods', () => {
+        const entity = world.createEntity();
+
+        expect(() => inspector.getEntity(999)).toThrow(InspectorError);
+        expect(() => inspector.getComponent(entity, 'Missing')).toThrow(InspectorError);
+        expect(() => inspector.getComponent(entity, 'Position')).toThrow(InspectorError);
+        expect(() => inspector.handle('nope' as any)).toThrow(InspectorError);
+    });
+
+    it('should report systems with their timings and toggle them', () => {
+        const execute = vi.fn();
+        const system = createSystem('movement', execute);
+        const onDisable = vi.fn();
+        systems.addSystem({ ...system, onDisable }, SystemPhase.Update);
+
+        systems.executePhase(SystemPhase.Update, 0.016);
+        systems.executePhase(SystemPhase.Update, 0.016);
+
+        expect(inspector.listSystems()).toEqual([
+            expect.objectContaining({
+                id: 'movement',
+                phase: SystemPhase.Update,
+                enabled: true,
+                executions: 2,
+            }),
+        ]);
+
+        expect(inspector.setSystemEnabled('movement', false).enabled).toBe(false);
+        systems.executePhase(SystemPhase.Update, 0.016);
+
+        expect(execute).toHaveBeenCalledTimes(2);
+        expect(onDisable).not.toHaveBeenCalled();
+        expect(() => inspector.setSystemEnabled('missing', true)).toThrow(InspectorError);
+
+        systems.removeSystem('movement' as SystemId);
+        expect(onDisable).toHaveBeenCalledTimes(1);
+    });
+
+    it('should toggle systems that expose enabled through a getter', () => {
+        const execute = vi.fn();
+        const system = createSystem('render', execute);
+        systems.addSystem(
+            Object.defineProperty({ ...system }, 'enabled', { get: () => true }),
+            SystemPhase.Update
+        );
+
+        expect(inspector.setSystemEnabled('render', false).enabled).toBe(false);
+        systems.executePhase(SystemPhase.Update, 0.016);
+        expect(inspector.setSystemEnabled('render', true).enabled).toBe(true);
+        systems.executePhase(SystemPhase.Update, 0.016);
+
+        expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse to enable systems that disable themselves', () => {
+        const execute = vi.fn();
+        systems.addSystem({ ...createSystem('idle', execute), enabled: false }, SystemPhase.Update);
+
+        expect(systems.setSystemEnabled('idle' as SystemId, true)).toBe(false);
+        expect(systems.isSystemEnabled('idle' as SystemId)).toBe(false);
+        expect(() => inspector.setSystemEnabled('idle', true)).toThrow(/disables itself/);
+        expect(inspector.setSystemEnabled('idle', false).enabled).toBe(false);
+
+        systems.executePhase(SystemPhase.Update, 0.016);
+        expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('should refuse writes when read-only and systems calls without a manager', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Position');
+        const readOnly = new WorldInspector(world, { readOnly: true });
+
+        expect(() => readOnly.setComponent(entity, 'Position', { x: 1 })).toThrow(InspectorError);
+        expect(() => readOnly.listSystems()).toThrow(InspectorError);
+    });
+
+    describe('over a channel', () => {
+        it('should answer client requests through an in-memory pair', async () => {
+            const [server, devtools] = InMemoryChannel.pair();
+            inspector.attach(server);
+            const client = new InspectorClient(devtools);
+            const entity = world.createEntity();
+            world.addComponent(entity, 'Position');
+
+            await expect(client.request('world.info')).resolves.toMatchObject({
+                entityCount: 1,
+            });
+            await expect(
+                client.request('component.set', {
+                    entity,
+                    component: 'Position',
+                    values: { y: 5 },
+                })
+            ).resolves.toEqual([{ path: 'y', previous: 0, current: 5 }]);
+            expect(world.getComponent(entity, 'Position')!.y).toBe(5);
+            expect(client.pending).toBe(0);
+        });
+
+        it('should turn handler errors into rejected requests', async () => {
+            const [server, devtools] = InMemoryChannel.pair();
+            inspector.attach(server);
+            const client = new InspectorClient(devtools);
+
+            await expect(client.request('entity.get', { entity: 42 })).rejects.toThrow(
+                /Unknown entity 42/
+            );
+        });
+
+        it('should queue messages until flushed when auto flush is off', async () => {
+            const [server, devtools] = InMemoryChannel.pair({ autoFlush: false });
+            inspector.attach(server);
+            const client = new InspectorClient(devtools);
+
+            const response = client.request('archetypes.list');
+            expect(server.pending).toBe(1);
+            server.flush();
+            devtools.flush();
+
+            await expect(response).resolves.toEqual(expect.any(Array));
+        });
+
+        it('should stop answering once detached and reject pending requests on close', async () => {
+            const [server, devtools] = InMemoryChannel.pair();
+            const detach = inspector.attach(server);
+            const client = new InspectorClient(devtools);
+
+            detach();
+            const response = client.request('world.info');
+            client.close();
+
+            await expect(response).rejects.toThrow(InspectorError);
+            await expect(client.request('world.info')).rejects.toThrow(/closed/);
+        });
+
+        it('should work over a MessagePort', async () => {
+            const { port1, port2 } = new MessageChannel();
+            const server = createMessagePortChannel(port1);
+            const devtools = createMessagePortChannel(port2);
+            inspector.attach(server);
+            const client = new InspectorClient(devtools);
+            world.createEntity();
+
+            const info = await client.request('world.info');
+
+            expect(info.entityCount).toBe(1);
+            server.close!();
+            devtools.close!();
+        });
+    });
+});
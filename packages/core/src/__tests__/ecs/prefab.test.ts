@@ -0,0 +1,234 @@
+import { World, WorldError } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import { Component } from '../../component-system/core/component';
+import { Transform } from '../../component-system/components/transform';
+import { Prefab } from '../../component-system/prefabs/prefab';
+import { ChildOf } from '../../component-system/relations/pair';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Position {
+    x = 0;
+    y = 0;
+}
+
+class Health {
+    current = 100;
+    max = 100;
+    tags: string[] = [];
+}
+
+class Sprite extends Component {
+    texture = 'none';
+    tint = 0xffffff;
+}
+
+const registry = { Position, Health, Sprite, Transform };
+type Registry = typeof registry;
+
+describe('Prefabs', () => {
+    let world: World<Registry>;
+
+    beforeEach(() => {
+        world = new World(registry);
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    const createGoblin = () =>
+        new Prefab<Registry>({
+            name: 'Goblin',
+            components: {
+                Position: { x: 1, y: 2 },
+                Health: { current: 30, max: 30, tags: ['enemy'] },
+            },
+            children: [{ name: 'Weapon', components: { Position: { x: 0.5 } } }],
+        });
+
+    describe('instantiate', () => {
+        it('should create the entity with prefab defaults and overrides', () => {
+            const goblin = createGoblin();
+
+            const entity = world.instantiate(goblin, { Health: { current: 10 } });
+
+            expect(world.getComponent(entity, 'Position')).toMatchObject({ x: 1, y: 2 });
+            expect(world.getComponent(entity, 'Health')).toMatchObject({ current: 10, max: 30 });
+            expect(world.getPrefab(entity)).toBe(goblin);
+            expect(world.getPrefabOverrides(entity)).toEqual({ Health: ['current'] });
+        });
+
+        it('should create child prefabs under the instance', () => {
+            const root = world.instantiate(createGoblin());
+            const [weapon] = world.getChildren(root);
+
+            expect(weapon).toBeDefined();
+            expect(world.getParent(weapon)).toBe(root);
+            expect(world.getComponent(weapon, 'Position')!.x).toBe(0.5);
+            expect(world.getPrefab(weapon)!.name).toBe('Weapon');
+        });
+
+        it('should not share nested default values between instances', () => {
+            const goblin = createGoblin();
+            const a = world.instantiate(goblin);
+            const b = world.instantiate(goblin);
+
+            world.getComponent(a, 'Health')!.tags.push('boss');
+
+            expect(world.getComponent(b, 'Health')!.tags).toEqual(['enemy']);
+            expect(goblin.getDefaults('Health')!.tags).toEqual(['enemy']);
+        });
+
+        it('should move each entity into its archetype in one step', () => {
+            const invalidate = vi.spyOn((world as any)._queryCache, 'invalidate');
+            world.instantiate({ components: { Position: {} } });
+            invalidate.mockClear();
+
+            world.instantiate({ components: { Position: {} } });
+
+            expect(invalidate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should accept plain definitions and reject unknown components', () => {
+            const entity = world.instantiate({ components: { Position: { x: 3 } } });
+            expect(world.getComponent(entity, 'Position')!.x).toBe(3);
+
+            expect(() => world.instantiate({ components: { Missing: {} } as any })).toThrow(
+                WorldError
+            );
+        });
+    });
+
+    describe('propagation', () => {
+        it('should push prefab edits to fields that are not overridden', () => {
+            const goblin = createGoblin();
+            const plain = world.instantiate(goblin);
+            const wounded = world.instantiate(goblin, { Health: { current: 5 } });
+
+            goblin.set('Health', { current: 50, max: 50 });
+
+            expect(world.getComponent(plain, 'Health')).toMatchObject({ current: 50, max: 50 });
+            expect(world.getComponent(wounded, 'Health')).toMatchObject({ current: 5, max: 50 });
+        });
+
+        it('should add and remove components edited on the prefab', () => {
+            const goblin = createGoblin();
+            const entity = world.instantiate(goblin);
+
+            goblin.set('Sprite', { texture: 'goblin.png' });
+            expect(world.getComponent(entity, 'Sprite')!.texture).toBe('goblin.png');
+
+            goblin.removeComponent('Position');
+            expect(world.hasComponent(entity, 'Position')).toBe(false);
+        });
+
+        it('should track overrides set after instantiation and revert them', () => {
+            const goblin = createGoblin();
+            const entity = world.instantiate(goblin);
+
+            world.setOverride(entity, 'Position', { x: 9 });
+            goblin.set('Position', { x: 4, y: 4 });
+
+            expect(world.getComponent(entity, 'Position')).toMatchObject({ x: 9, y: 4 });
+
+            expect(world.revertOverride(entity, 'Position', 'x')).toBe(true);
+            expect(world.getComponent(entity, 'Position')!.x).toBe(4);
+            expect(world.getPrefabOverrides(entity)).toEqual({});
+            expect(world.revertOverride(entity, 'Position')).toBe(false);
+        });
+
+        it('should stop propagating to destroyed instances', () => {
+            const goblin = createGoblin();
+            const entity = world.instantiate(goblin);
+            world.destroyEntity(entity);
+
+            expect(() => goblin.set('Health', { current: 1 })).not.toThrow();
+            expect(world.getPrefab(entity)).toBeUndefined();
+        });
+    });
+
+    describe('actors', () => {
+        it('should instantiate prefabs through Actor.addComponent', () => {
+            const prefab = new Prefab<Registry>({
+                name: 'Player',
+                components: { Sprite: { texture: 'hero.png' }, Position: { x: 2 } },
+                children: [{ name: 'Hat', components: { Sprite: { texture: 'hat.png' } } }],
+            });
+
+            const actor = Actor.instantiate(world, prefab, { Sprite: { tint: 0xff0000 } });
+            const sprite = actor.getComponent(Sprite)!;
+
+            expect(actor.name).toBe('Player');
+            expect(sprite.texture).toBe('hero.png');
+            expect(sprite.tint).toBe(0xff0000);
+            expect(world.getComponent(actor.entity, 'Sprite')).toBe(sprite);
+            expect(world.getComponent(actor.entity, 'Position')!.x).toBe(2);
+
+            const [hat] = world.getRelated(ChildOf, actor.entity);
+            expect(world.getActor(hat)!.getComponent(Sprite)!.texture).toBe('hat.png');
+
+            prefab.set('Sprite', { texture: 'hero-v2.png', tint: 0 });
+            expect(sprite.texture).toBe('hero-v2.png');
+            expect(sprite.tint).toBe(0xff0000);
+        });
+
+        it('should apply prefab values before lifecycle hooks run', () => {
+            const seen: string[] = [];
+            class Tracked extends Component {
+                label = 'default';
+                awake() {
+                    seen.push(`awake:${this.label}`);
+                }
+                start() {
+                    seen.push(`start:${this.label}`);
+                }
+            }
+            const tracked = new World({ Tracked, Position, Transform });
+
+            const actor = Actor.instantiate(
+                tracked,
+                { components: { Tracked: { label: 'prefab' } } },
+                { Tracked: { label: 'override' } }
+            );
+
+            expect(seen).toEqual(['awake:override', 'start:override']);
+            expect(actor.getComponent(Tracked)!.label).toBe('override');
+            tracked.clear();
+        });
+
+        it('should insert all components of an actor in one step', () => {
+            const invalidate = vi.spyOn((world as any)._queryCache, 'invalidate');
+            Actor.instantiate(world, { components: { Sprite: {}, Position: {} } });
+            invalidate.mockClear();
+
+            Actor.instantiate(world, { components: { Sprite: {}, Position: {} } });
+
+            expect(invalidate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should tear child actors down with their parent', () => {
+            const onDestroy = vi.fn();
+            class Hat extends Component {
+                onDestroy() {
+                    onDestroy();
+                }
+            }
+            const hats = new World({ Hat, Transform });
+
+            const actor = Actor.instantiate(hats, {
+                components: {},
+                children: [{ components: { Hat: {} } }],
+            });
+            const [entity] = hats.getRelated(ChildOf, actor.entity);
+            const child = hats.getActor(entity)!;
+
+            expect(child.getComponent(Transform)!.parent).toBe(actor.getComponent(Transform));
+
+            actor.destroy(true);
+
+            expect(onDestroy).toHaveBeenCalledTimes(1);
+            expect(child.isDestroyed).toBe(true);
+            hats.clear();
+        });
+    });
+});
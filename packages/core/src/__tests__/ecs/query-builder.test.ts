@@ -0,0 +1,189 @@
+import { World, WorldError } from '../../component-system/core/world';
+import { QueryBuilder } from '../../component-system/archetype/query-builder';
+import type { Entity } from '../../component-system/types/core';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+class Position {
+    x = 0;
+    y = 0;
+}
+
+class Velocity {
+    vx = 0;
+    vy = 0;
+}
+
+class Health {
+    current = 100;
+}
+
+class Frozen {}
+
+const registry = { Position, Velocity, Health, Frozen };
+
+describe('QueryBuilder', () => {
+    let world: World<typeof registry>;
+
+    beforeEach(() => {
+        world = new World(registry);
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    const spawn = (...components: (keyof typeof registry)[]): Entity => {
+        const entity = world.createEntity();
+        for (const name of components) {
+            world.addComponent(entity, name);
+        }
+        return entity;
+    };
+
+    const entitiesOf = (results: readonly { entity: Entity }[]): Entity[] =>
+        results.map((result) => result.entity).sort((a, b) => a - b);
+
+    it('should be created from the world', () => {
+        expect(world.queryBuilder()).toBeInstanceOf(QueryBuilder);
+    });
+
+    describe('with', () => {
+        it('should match entities that have all required components', () => {
+            const a = spawn('Position', 'Velocity');
+            spawn('Position');
+            const c = spawn('Position', 'Velocity', 'Health');
+
+            const results = world.queryBuilder().with('Position', 'Velocity').execute();
+
+            expect(entitiesOf(results)).toEqual([a, c]);
+            expect(results[0].components.Position).toBeInstanceOf(Position);
+            expect(results[0].components.Velocity).toBeInstanceOf(Velocity);
+        });
+    });
+
+    describe('without', () => {
+        it('should exclude entities that have any excluded component', () => {
+            const a = spawn('Position');
+            spawn('Position', 'Frozen');
+            const c = spawn('Position', 'Velocity');
+
+            const results = world.queryBuilder().with('Position').without('Frozen').execute();
+
+            expect(entitiesOf(results)).toEqual([a, c]);
+        });
+
+        it('should reject components that are both included and excluded', () => {
+            expect(() => world.queryBuilder().with('Position').without('Position')).toThrow(
+                WorldError
+            );
+            expect(() => world.queryBuilder().without('Frozen').optional('Frozen')).toThrow(
+                WorldError
+            );
+        });
+
+        it('should reject unknown components', () => {
+            expect(() => world.queryBuilder().without('Missing' as any)).toThrow(WorldError);
+        });
+    });
+
+    describe('optional', () => {
+        it('should include optional components when present', () => {
+            const a = spawn('Position', 'Velocity');
+            const b = spawn('Position');
+
+            const results = world.queryBuilder().with('Position').optional('Velocity').execute();
+            const byEntity = new Map(results.map((result) => [result.entity, result]));
+
+            expect(entitiesOf(results)).toEqual([a, b]);
+            expect(byEntity.get(a)!.components.Velocity).toBeInstanceOf(Velocity);
+            expect(byEntity.get(b)!.components.Velocity).toBeUndefined();
+            expect('Velocity' in byEntity.get(b)!.components).toBe(false);
+        });
+    });
+
+    describe('changed', () => {
+        it('should report every entity on the first run', () => {
+            const a = spawn('Health');
+            const b = spawn('Health', 'Position');
+
+            const results = world.queryBuilder().changed('Health').execute();
+
+            expect(entitiesOf(results)).toEqual([a, b]);
+        });
+
+        it('should only report entities changed since the previous run', () => {
+            const a = spawn('Health');
+            const b = spawn('Health');
+            const query = world.queryBuilder().changed('Health');
+
+            query.execute();
+            expect(query.execute()).toHaveLength(0);
+
+            world.getComponent(b, 'Health')!.current = 50;
+            world.markChanged(b, 'Health');
+
+            expect(entitiesOf(query.execute())).toEqual([b]);
+            expect(query.execute()).toHaveLength(0);
+            expect(world.getChangeTick(a, 'Health')).toBeLessThan(
+                world.getChangeTick(b, 'Health')!
+            );
+        });
+
+        it('should keep change ticks when entities move between archetypes', () => {
+            const a = spawn('Health');
+            const query = world.queryBuilder().changed('Health');
+            query.execute();
+
+            world.addComponent(a, 'Position');
+            world.removeComponent(a, 'Position');
+
+            expect(query.execute()).toHaveLength(0);
+        });
+
+        it('should report newly added components as changed', () => {
+            const a = spawn('Position');
+            const query = world.queryBuilder().changed('Health');
+            query.execute();
+
+            world.addComponent(a, 'Health');
+
+            expect(entitiesOf(query.execute())).toEqual([a]);
+        });
+
+        it('should require every changed component to be newer', () => {
+            const a = spawn('Health', 'Position');
+            const query = world.queryBuilder().changed('Health', 'Position');
+            query.execute();
+
+            world.markChanged(a, 'Health');
+            expect(query.execute()).toHaveLength(0);
+
+            world.markChanged(a, 'Health');
+            world.markChanged(a, 'Position');
+            expect(entitiesOf(query.execute())).toEqual([a]);
+        });
+
+        it('should report everything again after reset', () => {
+            const a = spawn('Health');
+            const query = world.queryBuilder().changed('Health');
+            query.execute();
+
+            expect(entitiesOf(query.reset().execute())).toEqual([a]);
+        });
+    });
+
+    describe('caching', () => {
+        it('should cache exclusion masks and invalidate filtered queries on new archetypes', () => {
+            spawn('Position');
+            const query = world.queryBuilder().with('Position').without('Frozen');
+            expect(query.execute()).toHaveLength(1);
+
+            const b = spawn('Position', 'Velocity');
+            expect(entitiesOf(query.execute())).toContain(b);
+
+            const cache = (world as any)._queryCache;
+            expect(cache.exclusionMasks.has('Frozen')).toBe(true);
+            expect(cache.filteredQueries.size).toBeGreaterThan(0);
+        });
+    });
+});
@@ -0,0 +1,172 @@
+import { World, WorldError } from '../../component-system/core/world';
+import { CommandBuffer } from '../../component-system/commands/command-buffer';
+import { ManualClock } from '../../component-system/loop/clock';
+import { WorldRunner } from '../../component-system/loop/world-runner';
+import type { QueryDelta } from '../../component-system/archetype/reactive-query';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Position {
+    x = 0;
+}
+
+class Visible {}
+
+class Marker {}
+
+const registry = { Position, Visible, Marker };
+type Registry = typeof registry;
+
+describe('Reactive queries', () => {
+    let world: World<Registry>;
+
+    beforeEach(() => {
+        world = new World(registry, { componentStorage: { Marker: 'sparse' } });
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    const spawn = (...names: (keyof Registry)[]) => {
+        const entity = world.createEntity();
+        for (const name of names) {
+            world.addComponent(entity, name);
+        }
+        return entity;
+    };
+
+    it('should report existing matches as entered on the first flush', () => {
+        const a = spawn('Position', 'Visible');
+        spawn('Position');
+
+        const query = world.watchQuery('Position', 'Visible');
+
+        expect(query.size).toBe(0);
+        expect(query.flush()).toEqual({ entered: new Set([a]), exited: new Set() });
+        expect(query.has(a)).toBe(true);
+        expect(query.flush()).toBeUndefined();
+    });
+
+    it('should emit deltas as entities move between archetypes', () => {
+        const query = world.watchQuery('Position', 'Visible');
+        const a = spawn('Position');
+        const b = spawn('Position', 'Visible');
+        query.flush();
+
+        world.addComponent(a, 'Visible');
+        world.removeComponent(b, 'Visible');
+
+        expect(query.flush()).toEqual({ entered: new Set([a]), exited: new Set([b]) });
+        expect([...query.entities]).toEqual([a]);
+    });
+
+    it('should cancel out transitions that revert before a flush', () => {
+        const entity = spawn('Position', 'Visible');
+        const query = world.watchQuery('Position', 'Visible');
+        query.flush();
+
+        world.removeComponent(entity, 'Visible');
+        world.addComponent(entity, 'Visible');
+
+        expect(query.flush()).toBeUndefined();
+    });
+
+    it('should report destroyed entities even when their id is reused', () => {
+        const query = world.watchQuery('Position');
+        const entity = spawn('Position');
+        query.flush();
+
+        world.destroyEntity(entity);
+        const reused = spawn('Position');
+
+        expect(reused).toBe(entity);
+        expect(query.flush()).toEqual({
+            entered: new Set([entity]),
+            exited: new Set([entity]),
+        });
+    });
+
+    it('should track sparse components', () => {
+        const query = world.watchQuery('Position', 'Marker');
+        const entity = spawn('Position', 'Marker');
+
+        expect(query.flush()?.entered).toEqual(new Set([entity]));
+
+        world.removeComponent(entity, 'Marker');
+        expect(query.flush()?.exited).toEqual(new Set([entity]));
+    });
+
+    it('should follow command buffer playback', () => {
+        const query = world.watchQuery('Position', 'Visible');
+        const entity = spawn('Position');
+        query.flush();
+
+        new CommandBuffer(world).addComponent(entity, 'Visible').playback();
+
+        expect(query.flush()?.entered).toEqual(new Set([entity]));
+    });
+
+    it('should run enter and exit callbacks', () => {
+        const query = world.watchQuery('Position');
+        const entered = vi.fn();
+        const exited = vi.fn();
+        const unsubscribe = query.onEnter(entered);
+        query.onExit(exited);
+
+        const entity = spawn('Position');
+        query.flush();
+        world.removeComponent(entity, 'Position');
+        query.flush();
+        unsubscribe();
+        world.addComponent(entity, 'Position');
+        query.flush();
+
+        expect(entered.mock.calls).toEqual([[entity]]);
+        expect(exited.mock.calls).toEqual([[entity]]);
+    });
+
+    it('should publish deltas on the changes subject', () => {
+        const query = world.watchQuery('Position');
+        const deltas: QueryDelta[] = [];
+        query.changes.addObserver((delta) => {
+            deltas.push(delta);
+        });
+
+        const entity = spawn('Position');
+        query.flush();
+
+        expect(deltas).toEqual([{ entered: new Set([entity]), exited: new Set() }]);
+    });
+
+    it('should flush once per frame when driven by the runner', () => {
+        const runner = new WorldRunner(world, { clock: new ManualClock() });
+        const query = world.watchQuery('Position');
+        const entered = vi.fn();
+        query.onEnter(entered);
+
+        spawn('Position');
+        spawn('Position');
+        expect(entered).not.toHaveBeenCalled();
+
+        runner.step(0.016);
+
+        expect(entered).toHaveBeenCalledTimes(2);
+        expect(query.pending).toBe(false);
+    });
+
+    it('should stop tracking once disposed', () => {
+        const query = world.watchQuery('Position');
+        query.dispose();
+
+        spawn('Position');
+        world.flushReactiveQueries();
+
+        expect(query.disposed).toBe(true);
+        expect(query.flush()).toBeUndefined();
+        expect(query.size).toBe(0);
+    });
+
+    it('should validate the component list', () => {
+        expect(() => world.watchQuery(...([] as any[]))).toThrow(WorldError);
+    });
+});
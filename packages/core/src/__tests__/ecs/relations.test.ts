@@ -0,0 +1,296 @@
+import { World, EntityError, WorldError } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import { Component } from '../../component-system/core/component';
+import { Transform } from '../../component-system/components/transform';
+import { ChildOf, pairKey, parsePair } from '../../component-system/relations/pair';
+import { decodeWorldSnapshot } from '../../component-system/serialization';
+import type { Entity } from '../../component-system/types/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Position {
+    x = 0;
+}
+
+class Item {
+    name = '';
+}
+
+const registry = { Position, Item };
+
+describe('Entity relations', () => {
+    let world: World<typeof registry>;
+
+    beforeEach(() => {
+        world = new World(registry);
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    const sorted = (entities: readonly Entity[]): Entity[] =>
+        entities.slice().sort((a, b) => a - b);
+
+    describe('pairs', () => {
+        it('should format and parse pair keys', () => {
+            const key = pairKey('Owns', 12 as Entity);
+
+            expect(key).toBe('Owns(12)');
+            expect(parsePair(key)).toEqual({ relation: 'Owns', target: 12 });
+            expect(parsePair('Position')).toBeUndefined();
+        });
+    });
+
+    describe('hierarchy', () => {
+        it('should store ChildOf in the archetype signature', () => {
+            const parent = world.createEntity();
+            const child = world.createEntity();
+            world.addComponent(child, 'Position').x = 5;
+
+            world.setParent(child, parent);
+
+            expect(world.getParent(child)).toBe(parent);
+            expect(world.getChildren(parent)).toEqual([child]);
+            expect(world.getComponent(child, 'Position')!.x).toBe(5);
+            expect(world.query('Position')).toHaveLength(1);
+        });
+
+        it('should keep a single parent', () => {
+            const a = world.createEntity();
+            const b = world.createEntity();
+            const child = world.createEntity();
+
+            world.setParent(child, a);
+            world.setParent(child, b);
+
+            expect(world.getRelationTargets(child, ChildOf)).toEqual([b]);
+            expect(world.getChildren(a)).toEqual([]);
+
+            world.setParent(child, null);
+            expect(world.getParent(child)).toBeUndefined();
+        });
+
+        it('should reject cycles', () => {
+            const root = world.createEntity();
+            const child = world.createEntity();
+            const grandchild = world.createEntity();
+            world.setParent(child, root);
+            world.setParent(grandchild, child);
+
+            expect(() => world.setParent(root, grandchild)).toThrow(EntityError);
+            expect(() => world.setParent(root, root)).toThrow(EntityError);
+        });
+
+        it('should destroy descendants with their parent', () => {
+            const root = world.createEntity();
+            const child = world.createEntity();
+            const grandchild = world.createEntity();
+            const unrelated = world.createEntity();
+            world.setParent(child, root);
+            world.setParent(grandchild, child);
+
+            world.destroyEntity(root);
+
+            expect(sorted(world.getAllEntities())).toEqual([unrelated]);
+        });
+
+        it('should destroy actor descendants through Actor.destroy', () => {
+            class Probe extends Component {
+                onDestroy = vi.fn();
+            }
+            const actorWorld = new World({ Transform, Probe });
+            const parent = new Actor(actorWorld);
+            const child = new Actor(actorWorld);
+            const probe = child.addComponent(Probe);
+            actorWorld.setParent(child.entity, parent.entity);
+
+            actorWorld.destroyEntity(parent.entity);
+
+            expect(probe.onDestroy).toHaveBeenCalledTimes(1);
+            expect(child.isDestroyed).toBe(true);
+            expect(actorWorld.getActor(child.entity)).toBeUndefined();
+            expect(actorWorld.getAllEntities()).toEqual([]);
+            actorWorld.clear();
+        });
+
+        it('should drop pair archetypes of destroyed targets', () => {
+            const parent = world.createEntity();
+            const child = world.createEntity();
+            world.setParent(child, parent);
+            const archetypes = world.getArchetypeCount();
+
+            world.destroyEntity(parent);
+
+            expect(world.getArchetypeCount()).toBe(archetypes - 1);
+        });
+    });
+
+    describe('custom relations', () => {
+        it('should allow many targets for non-exclusive relations', () => {
+            const player = world.createEntity();
+            const sword = world.createEntity();
+            const shield = world.createEntity();
+
+            world.addRelation(player, 'Likes', sword);
+            world.addRelation(player, 'Likes', shield);
+
+            expect(sorted(world.getRelationTargets(player, 'Likes'))).toEqual([sword, shield]);
+            expect(world.hasRelation(player, 'Likes', sword)).toBe(true);
+            expect(world.getRelationOptions('Likes')).toEqual({
+                exclusive: false,
+                onDeleteTarget: 'remove',
+            });
+        });
+
+        it('should find entities with a relation to any target', () => {
+            const a = world.createEntity();
+            const b = world.createEntity();
+            const target = world.createEntity();
+            world.addRelation(a, 'Owns', target);
+            world.addRelation(b, 'Owns', a);
+            world.addRelation(target, 'Likes', a);
+
+            expect(sorted(world.getEntitiesWithRelation('Owns'))).toEqual([a, b]);
+            expect(world.getRelated('Owns', target)).toEqual([a]);
+        });
+
+        it('should remove relations to destroyed targets by default', () => {
+            const owner = world.createEntity();
+            const item = world.createEntity();
+            world.addRelation(owner, 'Owns', item);
+
+            world.destroyEntity(item);
+
+            expect(world.getAllEntities()).toContain(owner);
+            expect(world.hasRelation(owner, 'Owns')).toBe(false);
+        });
+
+        it('should honour configured delete policies', () => {
+            world.registerRelation('OwnedBy', { exclusive: true, onDeleteTarget: 'delete' });
+            world.registerRelation('Anchors', { onDeleteTarget: 'prevent' });
+
+            const owner = world.createEntity();
+            const item = world.createEntity();
+            world.addComponent(item, 'Item');
+            world.addRelation(item, 'OwnedBy', owner);
+
+            world.destroyEntity(owner);
+            expect(world.getAllEntities()).not.toContain(item);
+
+            const anchor = world.createEntity();
+            const boat = world.createEntity();
+            world.addRelation(boat, 'Anchors', anchor);
+
+            expect(() => world.destroyEntity(anchor)).toThrow(EntityError);
+            expect(world.getAllEntities()).toContain(anchor);
+
+            world.removeRelation(boat, 'Anchors');
+            world.destroyEntity(anchor);
+            expect(world.getAllEntities()).not.toContain(anchor);
+        });
+
+        it('should stop cascading at cycles', () => {
+            world.registerRelation('Bound', { onDeleteTarget: 'delete' });
+            const a = world.createEntity();
+            const b = world.createEntity();
+            world.addRelation(a, 'Bound', b);
+            world.addRelation(b, 'Bound', a);
+
+            world.destroyEntity(a);
+
+            expect(world.getAllEntities()).toEqual([]);
+        });
+
+        it('should reject invalid relations', () => {
+            const a = world.createEntity();
+            const b = world.createEntity();
+
+            expect(() => world.addRelation(a, 'Position', b)).toThrow(WorldError);
+            expect(() => world.addRelation(a, 'Bad(name)', b)).toThrow(WorldError);
+            expect(() => world.addRelation(a, 'Likes', 999 as Entity)).toThrow(EntityError);
+        });
+
+        it('should emit relation events', () => {
+            const added = vi.fn();
+            const removed = vi.fn();
+            world.on('RelationAdded', added);
+            world.on('RelationRemoved', removed);
+
+            const a = world.createEntity();
+            const b = world.createEntity();
+            const c = world.createEntity();
+            world.setParent(a, b);
+            world.setParent(a, c);
+
+            expect(added).toHaveBeenCalledTimes(2);
+            expect(removed).toHaveBeenCalledWith({ source: a, relation: ChildOf, target: b });
+        });
+    });
+
+    describe('queries', () => {
+        it('should filter query builders by relation', () => {
+            const inventory = world.createEntity();
+            const other = world.createEntity();
+            const sword = world.createEntity();
+            const shield = world.createEntity();
+            const rock = world.createEntity();
+            for (const item of [sword, shield, rock]) {
+                world.addComponent(item, 'Item');
+            }
+            world.setParent(sword, inventory);
+            world.setParent(shield, inventory);
+            world.setParent(rock, other);
+
+            const inInventory = world
+                .queryBuilder()
+                .with('Item')
+                .relatedTo(ChildOf, inventory)
+                .execute()
+                .map((result) => result.entity);
+            const parented = world
+                .queryBuilder()
+                .withRelation(ChildOf)
+                .execute()
+                .map((result) => result.entity);
+
+            expect(sorted(inInventory)).toEqual([sword, shield]);
+            expect(sorted(parented)).toEqual([sword, shield, rock]);
+        });
+    });
+
+    describe('snapshots', () => {
+        it('should round trip relations through both formats', () => {
+            const parent = world.createEntity();
+            const child = world.createEntity();
+            world.addComponent(child, 'Position');
+            world.setParent(child, parent);
+            world.addRelation(parent, 'Likes', child);
+
+            const snapshot = world.snapshot();
+            expect(snapshot.entities[1].relations).toEqual([{ relation: ChildOf, target: parent }]);
+
+            const restored = World.restore(registry, decodeWorldSnapshot(world.snapshotToBuffer()));
+
+            expect(restored.getParent(child)).toBe(parent);
+            expect(restored.getRelated('Likes', child)).toEqual([parent]);
+
+            restored.destroyEntity(parent);
+            expect(restored.getAllEntities()).toEqual([]);
+
+            restored.clear();
+        });
+
+        it('should reject relations to entities missing from the snapshot', () => {
+            const snapshot = {
+                version: 2,
+                nextEntityId: 3,
+                freeEntities: [2],
+                entities: [
+                    { id: 1, components: {}, relations: [{ relation: 'Likes', target: 2 }] },
+                ],
+            };
+
+            expect(() => World.restore(registry, snapshot)).toThrow(WorldError);
+        });
+    });
+});
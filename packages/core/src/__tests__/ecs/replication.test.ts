@@ -0,0 +1,207 @@
+import { World } from '../../component-system/core/world';
+import { ReplicationError } from '../../component-system/replication/errors';
+import {
+    ReplicationFlags,
+    WorldReplicator,
+    isEmptyDelta,
+} from '../../component-system/replication/replicator';
+import { WorldMirror } from '../../component-system/replication/mirror';
+import { LoopbackTransport } from '../../component-system/replication/transport';
+import { decodeDeltaPacket, encodeDeltaPacket } from '../../component-system/replication/packet';
+import { defineComponent } from '../../component-system/schema/define-component';
+import type { Entity } from '../../component-system/types/core';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+class Position {
+    x = 0;
+    y = 0;
+}
+
+class Health {
+    current = 100;
+    effects: string[] = [];
+}
+
+class Secret {
+    static readonly replication = ReplicationFlags.None;
+    code = '';
+}
+
+class Team {
+    name = '';
+}
+
+const Velocity = defineComponent({ vx: 'f32', vy: 'f32' });
+
+const registry = { Position, Health, Secret, Team, Velocity };
+type Registry = typeof registry;
+
+describe('World replication', () => {
+    let server: World<Registry>;
+    let client: World<Registry>;
+    let replicator: WorldReplicator<Registry>;
+    let mirror: WorldMirror<Registry>;
+    let serverLink: LoopbackTransport;
+    let clientLink: LoopbackTransport;
+
+    beforeEach(() => {
+        server = new World(registry);
+        client = new World(registry);
+        replicator = new WorldReplicator(server, {
+            components: { Team: ReplicationFlags.Presence },
+        });
+        mirror = new WorldMirror(client);
+        [serverLink, clientLink] = LoopbackTransport.pair();
+        mirror.listen(clientLink);
+    });
+
+    afterEach(() => {
+        server.clear();
+        client.clear();
+    });
+
+    const mirrored = (entity: Entity): Entity => mirror.toLocal(entity)!;
+
+    it('should mirror spawns, component changes and despawns', () => {
+        const entity = server.createEntity();
+        server.addComponent(entity, 'Position').x = 4;
+        server.addComponent(entity, 'Health').effects.push('poison');
+
+        replicator.send(serverLink);
+
+        const local = mirrored(entity);
+        expect(client.getComponent(local, 'Position')).toMatchObject({ x: 4, y: 0 });
+        expect(client.getComponent(local, 'Health')!.effects).toEqual(['poison']);
+        expect(mirror.toRemote(local)).toBe(entity);
+
+        server.getComponent(entity, 'Position')!.y = 8;
+        server.removeComponent(entity, 'Health');
+        replicator.send(serverLink);
+
+        expect(client.getComponent(local, 'Position')).toMatchObject({ x: 4, y: 8 });
+        expect(client.hasComponent(local, 'Health')).toBe(false);
+
+        server.destroyEntity(entity);
+        replicator.send(serverLink);
+
+        expect(client.getEntityCount()).toBe(0);
+        expect(mirror.toLocal(entity)).toBeUndefined();
+    });
+
+    it('should only send fields that changed', () => {
+        const entity = server.createEntity();
+        server.addComponent(entity, 'Position');
+        replicator.diff();
+
+        server.getComponent(entity, 'Position')!.x = 2;
+        const delta = replicator.diff();
+
+        expect(delta.changed).toEqual([{ entity, component: 'Position', data: { x: 2 } }]);
+        expect(isEmptyDelta(replicator.diff())).toBe(true);
+    });
+
+    it('should honour per-component replication flags', () => {
+        const entity = server.createEntity();
+        server.addComponent(entity, 'Secret').code = 'hunter2';
+        server.addComponent(entity, 'Team').name = 'red';
+        replicator.send(serverLink);
+
+        server.getComponent(entity, 'Team')!.name = 'blue';
+        replicator.send(serverLink);
+
+        const local = mirrored(entity);
+        expect(replicator.getFlags('Secret')).toBe(ReplicationFlags.None);
+        expect(client.hasComponent(local, 'Secret')).toBe(false);
+        expect(client.getComponent(local, 'Team')!.name).toBe('red');
+
+        expect(
+            () => new WorldReplicator(server, { components: { Team: ReplicationFlags.Changes } })
+        ).toThrow(ReplicationError);
+    });
+
+    it('should spawn and despawn entities as they enter and leave interest', () => {
+        const near = server.createEntity();
+        const far = server.createEntity();
+        server.addComponent(near, 'Position').x = 1;
+        server.addComponent(far, 'Position').x = 100;
+        replicator.setInterest((entity, world) => world.getComponent(entity, 'Position')!.x < 10);
+
+        replicator.send(serverLink);
+        expect(client.getEntityCount()).toBe(1);
+        expect(mirror.toLocal(far)).toBeUndefined();
+
+        server.getComponent(far, 'Position')!.x = 5;
+        server.getComponent(near, 'Position')!.x = 50;
+        const delta = replicator.send(serverLink);
+
+        expect(delta.spawned).toEqual([far]);
+        expect(delta.despawned).toEqual([near]);
+        expect(client.getComponent(mirrored(far), 'Position')!.x).toBe(5);
+        expect(client.getEntityCount()).toBe(1);
+    });
+
+    it('should replicate typed components', () => {
+        const entity = server.createEntity();
+        server.addComponent(entity, 'Velocity').vx = 1.5;
+        replicator.send(serverLink);
+
+        server.getComponent(entity, 'Velocity')!.vy = -2;
+        replicator.send(serverLink);
+
+        expect(client.getComponent(mirrored(entity), 'Velocity')!.serialize()).toEqual({
+            vx: 1.5,
+            vy: -2,
+        });
+    });
+
+    describe('packets', () => {
+        it('should round trip deltas through the binary format', () => {
+            const entity = server.createEntity();
+            server.addComponent(entity, 'Health');
+            const delta = replicator.diff();
+
+            expect(decodeDeltaPacket(encodeDeltaPacket(delta))).toEqual(delta);
+        });
+
+        it('should keep idle ticks small', () => {
+            for (let i = 0; i < 50; i++) {
+                server.addComponent(server.createEntity(), 'Position');
+            }
+            replicator.send(serverLink);
+            const initial = serverLink.bytesSent;
+
+            replicator.send(serverLink);
+
+            expect(serverLink.bytesSent - initial).toBeLessThan(16);
+            expect(serverLink.packetsSent).toBe(2);
+        });
+
+        it('should reject out of order and malformed packets', () => {
+            const first = replicator.createPacket().toUint8Array();
+            const second = replicator.createPacket().toUint8Array();
+
+            expect(() => mirror.apply(second)).toThrow(ReplicationError);
+            mirror.apply(first);
+            mirror.apply(second);
+
+            expect(() => mirror.apply(new Uint8Array([1, 2, 3, 4, 5, 6]))).toThrow(
+                ReplicationError
+            );
+        });
+
+        it('should queue packets until flushed when auto flush is off', () => {
+            const [send, receive] = LoopbackTransport.pair({ autoFlush: false });
+            const other = new WorldMirror(new World(registry));
+            other.listen(receive);
+
+            server.createEntity();
+            replicator.send(send);
+
+            expect(receive.pending).toBe(1);
+            expect(other.world.getEntityCount()).toBe(0);
+            expect(receive.flush()).toBe(1);
+            expect(other.world.getEntityCount()).toBe(1);
+            other.world.clear();
+        });
+    });
+});
@@ -0,0 +1,249 @@
+import { World } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import { Component } from '../../component-system/core/component';
+import { Transform } from '../../component-system/components/transform';
+import { Prefab } from '../../component-system/prefabs/prefab';
+import { Scene } from '../../component-system/scenes/scene';
+import { SceneError } from '../../component-system/scenes/errors';
+import { SceneManager } from '../../component-system/scenes/scene-manager';
+import type { SceneDefinition } from '../../component-system/scenes/scene';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const calls: string[] = [];
+
+class Health {
+    current = 100;
+}
+
+class Tracker extends Component {
+    label = '';
+
+    start(): void {
+        calls.push(`start:${this.label}`);
+    }
+
+    onDestroy(): void {
+        calls.push(`destroy:${this.label}`);
+    }
+
+    onSceneLoaded(scene: Scene): void {
+        calls.push(`loaded:${this.label}:${scene.name}`);
+    }
+
+    onSceneUnloaded(scene: Scene): void {
+        calls.push(`unloaded:${this.label}:${scene.name}`);
+    }
+}
+
+const registry = { Health, Tracker, Transform };
+type Registry = typeof registry;
+
+const level: SceneDefinition<Registry> = {
+    name: 'Level1',
+    actors: [
+        {
+            name: 'Player',
+            persistent: true,
+            components: { Tracker: { label: 'player' }, Health: { current: 80 } },
+        },
+        {
+            name: 'Room',
+            components: {
+                Tracker: { label: 'room' },
+                Transform: { position: { x: 10, y: 0, z: 0 } as any },
+            },
+            children: [
+                {
+                    name: 'Lamp',
+                    tag: 'Light',
+                    components: {
+                        Tracker: { label: 'lamp' },
+                        Transform: { position: { x: 1, y: 2, z: 0 } as any },
+                    },
+                },
+            ],
+        },
+    ],
+};
+
+const hud: SceneDefinition<Registry> = {
+    name: 'HUD',
+    actors: [{ name: 'Overlay', layer: 5, components: { Tracker: { label: 'hud' } } }],
+};
+
+describe('SceneManager', () => {
+    let world: World<Registry>;
+    let scenes: SceneManager<Registry>;
+
+    beforeEach(() => {
+        calls.length = 0;
+        world = new World(registry);
+        scenes = new SceneManager(world).register(level).register(hud);
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    it('should build actors, components and the transform hierarchy', () => {
+        const scene = scenes.load('Level1');
+
+        const room = scene.findActor('Room')!;
+        const lamp = scene.findActor('Lamp')!;
+        expect(scene.actors).toHaveLength(3);
+        expect(scene.rootActors.map((actor) => actor.name)).toEqual(['Player', 'Room']);
+        expect(scenes.activeScene).toBe(scene);
+
+        expect(world.getParent(lamp.entity)).toBe(room.entity);
+        expect(lamp.getComponent(Transform)!.parent).toBe(room.getComponent(Transform));
+        expect(lamp.getComponent(Transform)!.worldPosition.x).toBeCloseTo(11);
+        expect(lamp.tag).toBe('Light');
+        expect(world.getComponent(scene.findActor('Player')!.entity, 'Health')!.current).toBe(80);
+    });
+
+    it('should start actors once the scene is built and then fire onSceneLoaded', () => {
+        scenes.load('Level1');
+
+        expect(calls).toEqual([
+            'start:player',
+            'start:room',
+            'start:lamp',
+            'loaded:player:Level1',
+            'loaded:room:Level1',
+            'loaded:lamp:Level1',
+        ]);
+    });
+
+    it('should unload a scene and destroy its actors', () => {
+        const scene = scenes.load('Level1');
+        const lamp = scene.findActor('Lamp')!;
+        calls.length = 0;
+
+        scenes.unload('Level1');
+
+        expect(calls).toEqual([
+            'unloaded:player:Level1',
+            'unloaded:room:Level1',
+            'unloaded:lamp:Level1',
+            'destroy:lamp',
+            'destroy:room',
+        ]);
+        expect(lamp.isDestroyed).toBe(true);
+        expect(scene.loaded).toBe(false);
+        expect(scenes.activeScene).toBeUndefined();
+        expect(world.getAllActors().map((actor) => actor.name)).toEqual(['Player']);
+    });
+
+    it('should carry persistent actors across scene switches', () => {
+        const player = scenes.load('Level1').findActor('Player')!;
+        calls.length = 0;
+
+        const next = scenes.load({
+            name: 'Level2',
+            actors: [{ name: 'Boss', components: { Tracker: { label: 'boss' } } }],
+        });
+
+        expect(player.isDestroyed).toBe(false);
+        expect(scenes.loadedScenes).toEqual([next]);
+        expect(world.getAllActors().map((actor) => actor.name)).toEqual(['Player', 'Boss']);
+        expect(calls).toContain('loaded:player:Level2');
+        expect(calls).not.toContain('destroy:player');
+    });
+
+    it('should detach persistent children from unloaded parents', () => {
+        const scene = scenes.load({
+            name: 'Cave',
+            actors: [
+                {
+                    name: 'Cart',
+                    components: { Transform: { position: { x: 3, y: 0, z: 0 } as any } },
+                    children: [{ name: 'Companion', persistent: true }],
+                },
+            ],
+        });
+        const companion = scene.findActor('Companion')!;
+
+        scenes.unload(scene);
+
+        expect(companion.isDestroyed).toBe(false);
+        expect(world.getParent(companion.entity)).toBeUndefined();
+        expect(companion.getComponent(Transform)!.parent).toBeUndefined();
+    });
+
+    it('should load additive scenes on top of the active scene', () => {
+        const main = scenes.load('Level1');
+        const overlay = scenes.loadAdditive('HUD');
+
+        expect(scenes.loadedScenes).toEqual([main, overlay]);
+        expect(scenes.activeScene).toBe(main);
+        expect(overlay.additive).toBe(true);
+        expect(overlay.findActor('Overlay')!.layer).toBe(5);
+
+        scenes.unload(main);
+        expect(scenes.activeScene).toBe(overlay);
+        expect(overlay.findActor('Overlay')!.isDestroyed).toBe(false);
+
+        scenes.load('Level1');
+        expect(overlay.loaded).toBe(false);
+    });
+
+    it('should instantiate prefabs and adopt their children', () => {
+        const crate = new Prefab<Registry>({
+            name: 'Crate',
+            components: { Health: { current: 10 } },
+            children: [{ name: 'Lid', components: { Transform: {} } }],
+        });
+
+        const scene = scenes.load({
+            name: 'Warehouse',
+            actors: [{ name: 'BigCrate', prefab: crate, components: { Health: { current: 50 } } }],
+        });
+
+        const lid = scene.findActor('Lid')!;
+        expect(scene.actors.map((actor) => actor.name)).toEqual(['BigCrate', 'Lid']);
+        expect(world.getComponent(scene.findActor('BigCrate')!.entity, 'Health')!.current).toBe(50);
+        expect(lid.getComponent(Transform)!.parent).toBeDefined();
+    });
+
+    it('should track actors added at runtime', () => {
+        const scene = scenes.load('HUD');
+        const pickup = new Actor(world, { name: 'Pickup' });
+        scene.addActor(pickup);
+
+        scenes.unload(scene);
+
+        expect(pickup.isDestroyed).toBe(true);
+        expect(() => scene.addActor(new Actor(world))).toThrow(SceneError);
+    });
+
+    it('should notify scene listeners', () => {
+        const loaded = vi.fn();
+        const unloaded = vi.fn();
+        scenes.onSceneLoaded(loaded);
+        const stop = scenes.onSceneUnloaded(unloaded);
+
+        const scene = scenes.load('HUD');
+        stop();
+        scenes.unload(scene);
+
+        expect(loaded).toHaveBeenCalledWith(scene);
+        expect(unloaded).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown, duplicate and broken scenes', () => {
+        scenes.load('HUD');
+
+        expect(() => scenes.load('Missing')).toThrow(SceneError);
+        expect(() => scenes.loadAdditive('HUD')).toThrow(SceneError);
+        expect(() => scenes.unload('Level1')).toThrow(SceneError);
+        expect(() =>
+            scenes.loadAdditive({
+                name: 'Broken',
+                actors: [{ name: 'Ghost', components: { Missing: {} } as any }],
+            })
+        ).toThrow(SceneError);
+
+        expect(scenes.getScene('Broken')).toBeUndefined();
+        expect(world.getAllActors().map((actor) => actor.name)).toEqual(['Overlay']);
+    });
+});
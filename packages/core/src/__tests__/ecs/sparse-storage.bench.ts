@@ -0,0 +1,49 @@
+import { World } from '../../component-system/core/world';
+import type { Entity } from '../../component-system/types/core';
+import { bench, describe } from 'vitest';
+
+class Position {
+    x = 0;
+    y = 0;
+}
+
+class Velocity {
+    vx = 0;
+    vy = 0;
+}
+
+class Stunned {
+    turns = 0;
+}
+
+const registry = { Position, Velocity, Stunned };
+
+const ENTITY_COUNT = 1000;
+
+const createWorld = (storage: 'table' | 'sparse') => {
+    const world = new World(registry, { componentStorage: { Stunned: storage } });
+    const entities: Entity[] = [];
+    for (let i = 0; i < ENTITY_COUNT; i++) {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Position');
+        world.addComponent(entity, 'Velocity');
+        entities.push(entity);
+    }
+    return { world, entities };
+};
+
+describe('toggling a component on every entity', () => {
+    for (const storage of ['table', 'sparse'] as const) {
+        const { world, entities } = createWorld(storage);
+
+        bench(`${storage} storage`, () => {
+            for (const entity of entities) {
+                world.addComponent(entity, 'Stunned');
+            }
+            world.query('Position', 'Velocity');
+            for (const entity of entities) {
+                world.removeComponent(entity, 'Stunned');
+            }
+        });
+    }
+});
@@ -0,0 +1,216 @@
+import { World, WorldError } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import { Component } from '../../component-system/core/component';
+import { SparseComponentSet } from '../../component-system/memory/sparse-set';
+import type { Entity } from '../../component-system/types/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Position {
+    x = 0;
+    y = 0;
+}
+
+class Stunned {
+    static readonly storage = 'sparse';
+    turns = 0;
+}
+
+class Selected {}
+
+class Highlight extends Component {
+    static readonly storage = 'sparse';
+    color = 0xffffff;
+}
+
+const registry = { Position, Stunned, Selected, Highlight };
+type Registry = typeof registry;
+
+describe('Sparse component storage', () => {
+    let world: World<Registry>;
+
+    beforeEach(() => {
+        world = new World(registry, { componentStorage: { Selected: 'sparse' } });
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    const sorted = (entities: readonly Entity[]): Entity[] =>
+        entities.slice().sort((a, b) => a - b);
+
+    describe('SparseComponentSet', () => {
+        it('should swap-remove while keeping lookups valid', () => {
+            const set = new SparseComponentSet('Stunned', Stunned);
+            const [a, b, c] = [1, 2, 3] as Entity[];
+            set.add(a, new Stunned(), 1);
+            set.add(b, new Stunned(), 2);
+            set.add(c, new Stunned(), 3);
+
+            set.remove(a);
+
+            expect(set.size).toBe(2);
+            expect(set.has(a)).toBe(false);
+            expect(set.getTick(c)).toBe(3);
+            expect(set.entities).toEqual([c, b]);
+        });
+    });
+
+    it('should resolve storage from the component class and the world config', () => {
+        expect(world.getComponentStorage('Position')).toBe('table');
+        expect(world.getComponentStorage('Stunned')).toBe('sparse');
+        expect(world.getComponentStorage('Selected')).toBe('sparse');
+
+        const tableWorld = new World(registry, { componentStorage: { Stunned: 'table' } });
+        expect(tableWorld.getComponentStorage('Stunned')).toBe('table');
+        tableWorld.clear();
+
+        expect(
+            () => new World(registry, { componentStorage: { Position: 'grid' as any } })
+        ).toThrow(WorldError);
+    });
+
+    it('should toggle sparse components without moving the entity', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Position');
+        world.query('Position');
+        const archetypes = world.getArchetypeCount();
+        const invalidate = vi.spyOn((world as any)._queryCache, 'invalidate');
+
+        const stunned = world.addComponent(entity, 'Stunned');
+        stunned.turns = 2;
+
+        expect(world.getComponent(entity, 'Stunned')).toBe(stunned);
+        expect(world.addComponent(entity, 'Stunned')).toBe(stunned);
+        expect(world.getChangeTick(entity, 'Stunned')).toBe(world.changeTick);
+
+        world.removeComponent(entity, 'Stunned');
+
+        expect(world.hasComponent(entity, 'Stunned')).toBe(false);
+        expect(world.hasComponent(entity, 'Position')).toBe(true);
+        expect(world.getArchetypeCount()).toBe(archetypes);
+        expect(invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should combine table and sparse components in queries', () => {
+        const [a, b, c] = [world.createEntity(), world.createEntity(), world.createEntity()];
+        for (const entity of [a, b, c]) {
+            world.addComponent(entity, 'Position');
+        }
+        world.addComponent(a, 'Stunned');
+        world.addComponent(b, 'Stunned');
+        world.addComponent(b, 'Selected');
+        world.addComponent(c, 'Selected');
+
+        expect(sorted(world.query('Position', 'Stunned').map((r) => r.entity))).toEqual([a, b]);
+        expect(world.query('Stunned', 'Selected').map((r) => r.entity)).toEqual([b]);
+        expect(world.query('Stunned', 'Position')[0].components.Stunned).toBe(
+            world.getComponent(a, 'Stunned')
+        );
+
+        const notSelected = world
+            .queryBuilder()
+            .with('Position')
+            .without('Selected')
+            .optional('Stunned')
+            .execute();
+        expect(notSelected.map((r) => r.entity)).toEqual([a]);
+        expect(notSelected[0].components.Stunned).toBe(world.getComponent(a, 'Stunned'));
+
+        const selected = world
+            .queryBuilder()
+            .with('Selected')
+            .execute()
+            .map((r) => r.entity);
+        expect(sorted(selected)).toEqual([b, c]);
+    });
+
+    it('should track changes for sparse components in query builders', () => {
+        const a = world.createEntity();
+        const b = world.createEntity();
+        world.addComponent(a, 'Stunned');
+        world.addComponent(b, 'Stunned');
+
+        const query = world.queryBuilder().changed('Stunned');
+        expect(query.execute()).toHaveLength(2);
+        expect(query.execute()).toHaveLength(0);
+
+        world.markChanged(b, 'Stunned');
+        expect(query.execute().map((r) => r.entity)).toEqual([b]);
+    });
+
+    it('should release sparse components when entities are destroyed', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Stunned');
+
+        world.destroyEntity(entity);
+        const reused = world.createEntity();
+
+        expect(reused).toBe(entity);
+        expect(world.hasComponent(reused, 'Stunned')).toBe(false);
+        expect(world.query('Stunned')).toHaveLength(0);
+    });
+
+    it('should round trip sparse components through snapshots and prefabs', () => {
+        const entity = world.instantiate({
+            components: { Position: { x: 1 }, Stunned: { turns: 3 } },
+        });
+        world.addComponent(entity, 'Selected');
+
+        const restored = World.restore(registry, world.snapshotToBuffer(), {
+            componentStorage: { Selected: 'sparse' },
+        });
+
+        expect(restored.getComponent(entity, 'Stunned')!.turns).toBe(3);
+        expect(restored.hasComponent(entity, 'Selected')).toBe(true);
+        expect(restored.query('Position', 'Stunned')).toHaveLength(1);
+        restored.clear();
+    });
+
+    it('should emit component events for actors', () => {
+        const actor = new Actor(world as World<any>);
+        const added = vi.fn();
+        const removed = vi.fn();
+        world.on('HighlightAdded' as any, added);
+        world.on('HighlightRemoved' as any, removed);
+
+        const highlight = actor.addComponent(Highlight);
+        actor.removeComponent(Highlight);
+
+        expect(added).toHaveBeenCalledWith(expect.objectContaining({ component: highlight }));
+        expect(removed).toHaveBeenCalledTimes(1);
+        expect(world.hasComponent(actor.entity, 'Highlight')).toBe(false);
+    });
+
+    describe('archetype churn', () => {
+        const toggle = (storage: 'table' | 'sparse') => {
+            const churn = new World(registry, { componentStorage: { Stunned: storage } });
+            const entities = Array.from({ length: 50 }, () => {
+                const entity = churn.createEntity();
+                churn.addComponent(entity, 'Position');
+                return entity;
+            });
+            const before = churn.getArchetypeCount();
+            let peak = before;
+
+            for (let frame = 0; frame < 5; frame++) {
+                for (const entity of entities) {
+                    churn.addComponent(entity, 'Stunned');
+                }
+                peak = Math.max(peak, churn.getArchetypeCount());
+                expect(churn.query('Position')).toHaveLength(entities.length);
+                for (const entity of entities) {
+                    churn.removeComponent(entity, 'Stunned');
+                }
+            }
+
+            churn.clear();
+            return peak - before;
+        };
+
+        it('should toggle sparse components without moving entities between archetypes', () => {
+            expect(toggle('table')).toBe(1);
+            expect(toggle('sparse')).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,308 @@
+import { SystemManager, SystemPhase } from '../../component-system/systems/system-manager';
+import {
+    SystemScheduleError,
+    buildSystemSchedule,
+    systemsConflict,
+} from '../../component-system/systems/scheduler';
+import {
+    WorkerStageExecutor,
+    type WorkerJobRequest,
+    type WorkerJobResponse,
+    type WorkerLike,
+} from '../../component-system/systems/stage-executor';
+import { World } from '../../component-system/core/world';
+import type { SystemId } from '../../component-system/types/core';
+import type { System, SystemQuery } from '../../component-system/types/system';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Position {
+    x = 0;
+    y = 0;
+}
+
+class Velocity {
+    vx = 0;
+    vy = 0;
+}
+
+class Health {
+    current = 100;
+}
+
+const registry = { Position, Velocity, Health };
+type Registry = typeof registry;
+
+const createSystem = <Q extends SystemQuery<Registry>>(
+    id: string,
+    query: Q,
+    options: Partial<Omit<System<Registry, Q>, 'id' | 'query'>> = {}
+): System<Registry, Q> => ({
+    id: id as SystemId,
+    query,
+    priority: 0,
+    enabled: true,
+    execute: vi.fn(),
+    ...options,
+});
+
+const ids = (systems: readonly System<Registry, any>[]): string[] =>
+    systems.map((system) => system.id as string);
+
+class FakeWorker implements WorkerLike {
+    readonly received: WorkerJobRequest[] = [];
+    private readonly listeners = new Set<(event: { data: WorkerJobResponse }) => void>();
+
+    constructor(private readonly handler: (request: WorkerJobRequest) => WorkerJobResponse) {}
+
+    postMessage(message: WorkerJobRequest): void {
+        this.received.push(message);
+        const response = this.handler(message);
+        queueMicrotask(() => {
+            for (const listener of this.listeners) {
+                listener({ data: response });
+            }
+        });
+    }
+
+    addEventListener(_: 'message', listener: (event: { data: WorkerJobResponse }) => void): void {
+        this.listeners.add(listener);
+    }
+
+    removeEventListener(
+        _: 'message',
+        listener: (event: { data: WorkerJobResponse }) => void
+    ): void {
+        this.listeners.delete(listener);
+    }
+}
+
+describe('System scheduler', () => {
+    describe('buildSystemSchedule', () => {
+        it('should honour runAfter and runBefore over priority', () => {
+            const input = createSystem('input', ['Velocity'], { priority: 0 });
+            const movement = createSystem('movement', ['Position', 'Velocity'], {
+                priority: 100,
+                runAfter: ['input' as SystemId],
+            });
+            const render = createSystem('render', ['Position'], {
+                priority: 50,
+                runBefore: ['input' as SystemId],
+            });
+
+            const { order } = buildSystemSchedule([input, movement, render]);
+
+            expect(ids(order)).toEqual(['render', 'input', 'movement']);
+        });
+
+        it('should fall back to priority and insertion order', () => {
+            const a = createSystem('a', ['Health'], { priority: 1 });
+            const b = createSystem('b', ['Health'], { priority: 5 });
+            const c = createSystem('c', ['Health'], { priority: 1 });
+
+            expect(ids(buildSystemSchedule([a, b, c]).order)).toEqual(['b', 'a', 'c']);
+        });
+
+        it('should ignore dependencies on systems that are not scheduled', () => {
+            const a = createSystem('a', ['Health'], { runAfter: ['missing' as SystemId] });
+
+            expect(ids(buildSystemSchedule([a]).order)).toEqual(['a']);
+        });
+
+        it('should report every system in a dependency cycle', () => {
+            const a = createSystem('a', ['Health'], { runAfter: ['c' as SystemId] });
+            const b = createSystem('b', ['Health'], { runAfter: ['a' as SystemId] });
+            const c = createSystem('c', ['Health'], { runAfter: ['b' as SystemId] });
+            const d = createSystem('d', ['Health']);
+
+            try {
+                buildSystemSchedule([a, b, c, d]);
+                expect.unreachable();
+            } catch (error) {
+                expect(error).toBeInstanceOf(SystemScheduleError);
+                expect((error as SystemScheduleError).systems).toEqual(['a', 'b', 'c']);
+            }
+        });
+
+        it('should group systems without conflicting access into the same stage', () => {
+            const readA = createSystem('readA', ['Position'], { reads: ['Position'], writes: [] });
+            const readB = createSystem('readB', ['Position'], { reads: ['Position'], writes: [] });
+            const writeHealth = createSystem('health', ['Health']);
+            const move = createSystem('move', ['Position', 'Velocity'], {
+                reads: ['Velocity'],
+                writes: ['Position'],
+            });
+
+            const { stages } = buildSystemSchedule([readA, readB, writeHealth, move]);
+
+            expect(stages.map((stage) => ids(stage.systems))).toEqual([
+                ['readA', 'readB', 'health'],
+                ['move'],
+            ]);
+        });
+
+        it('should place explicitly ordered systems in later stages', () => {
+            const a = createSystem('a', ['Health'], { reads: ['Health'], writes: [] });
+            const b = createSystem('b', ['Position'], { runAfter: ['a' as SystemId] });
+
+            const { stages } = buildSystemSchedule([a, b]);
+
+            expect(stages).toHaveLength(2);
+            expect(ids(stages[1].systems)).toEqual(['b']);
+        });
+    });
+
+    describe('systemsConflict', () => {
+        it('should treat undeclared access as writing the whole query', () => {
+            const writer = createSystem('writer', ['Position']);
+            const reader = createSystem('reader', ['Position'], { writes: [] });
+            const other = createSystem('other', ['Health']);
+
+            expect(systemsConflict(writer, reader)).toBe(true);
+            expect(systemsConflict(reader, reader)).toBe(false);
+            expect(systemsConflict(writer, other)).toBe(false);
+        });
+    });
+
+    describe('SystemManager integration', () => {
+        let world: World<Registry>;
+        let manager: SystemManager<Registry>;
+
+        beforeEach(() => {
+            world = new World(registry);
+            manager = new SystemManager(world);
+        });
+
+        afterEach(() => {
+            world.clear();
+        });
+
+        it('should execute systems in dependency order', () => {
+            const calls: string[] = [];
+            const track = (id: string) => () => calls.push(id);
+
+            manager.addSystem(
+                createSystem('physics', ['Position'], {
+                    priority: 100,
+                    runAfter: ['input' as SystemId],
+                    execute: track('physics'),
+                })
+            );
+            manager.addSystem(createSystem('input', ['Velocity'], { execute: track('input') }));
+
+            manager.executeAll();
+
+            expect(calls).toEqual(['input', 'physics']);
+            expect(ids(manager.getSystemsInPhase(SystemPhase.Update))).toEqual([
+                'input',
+                'physics',
+            ]);
+        });
+
+        it('should reject a system that introduces a cycle and keep the previous state', () => {
+            manager.addSystem(createSystem('a', ['Health'], { runAfter: ['b' as SystemId] }));
+
+            expect(() =>
+                manager.addSystem(createSystem('b', ['Health'], { runAfter: ['a' as SystemId] }))
+            ).toThrow(SystemScheduleError);
+            expect(manager.hasSystem('b' as SystemId)).toBe(false);
+            expect(ids(manager.getSystemsInPhase(SystemPhase.Update))).toEqual(['a']);
+        });
+
+        it('should emit SystemError events when a listener is attached', () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const onError = vi.fn();
+            world.on('SystemError', onError);
+
+            manager.addSystem(
+                createSystem('broken', ['Health'], {
+                    execute: () => {
+                        throw new Error('boom');
+                    },
+                }),
+                SystemPhase.PostUpdate
+            );
+            manager.executeAll();
+
+            expect(onError).toHaveBeenCalledWith({
+                systemId: 'broken',
+                phase: SystemPhase.PostUpdate,
+                error: expect.objectContaining({ message: 'boom' }),
+            });
+            expect(consoleSpy).not.toHaveBeenCalled();
+
+            consoleSpy.mockRestore();
+        });
+
+        it('should run worker jobs and apply results in schedule order', async () => {
+            const entity = world.createEntity();
+            world.addComponent(entity, 'Position');
+            world.addComponent(entity, 'Velocity').vx = 2;
+
+            const worker = new FakeWorker((request) => ({
+                jobId: request.jobId,
+                result: (request.payload as number[]).map((vx) => vx * request.deltaTime),
+            }));
+            const applied: string[] = [];
+
+            manager.addSystem(
+                createSystem('move', ['Position', 'Velocity'], {
+                    reads: ['Velocity'],
+                    writes: ['Position'],
+                    worker: {
+                        encode: (entities) => ({
+                            payload: entities.map((e) => e.components.Velocity.vx),
+                        }),
+                        apply: (result, entities) => {
+                            applied.push('move');
+                            entities.forEach((e, i) => {
+                                e.components.Position.x += (result as number[])[i];
+                            });
+                        },
+                    },
+                })
+            );
+            manager.addSystem(
+                createSystem('heal', ['Health'], { execute: () => applied.push('heal') })
+            );
+
+            const executor = new WorkerStageExecutor<Registry>([worker]);
+            manager.setExecutor(executor);
+            await manager.executeAllAsync(0.5);
+
+            expect(worker.received).toHaveLength(1);
+            expect(worker.received[0].systemId).toBe('move');
+            expect(world.getComponent(entity, 'Position')!.x).toBe(1);
+            expect(applied).toEqual(['heal', 'move']);
+            expect(executor.pendingJobs).toBe(0);
+
+            executor.dispose();
+        });
+
+        it('should report worker failures as system errors', async () => {
+            const onError = vi.fn();
+            world.on('SystemError', onError);
+
+            const worker = new FakeWorker((request) => ({
+                jobId: request.jobId,
+                error: 'worker crashed',
+            }));
+            const apply = vi.fn();
+
+            manager.addSystem(
+                createSystem('job', ['Health'], {
+                    worker: { encode: () => ({ payload: null }), apply },
+                })
+            );
+            manager.setExecutor(new WorkerStageExecutor([worker]));
+            await manager.executeAllAsync();
+
+            expect(apply).not.toHaveBeenCalled();
+            expect(onError).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    systemId: 'job',
+                    error: expect.objectContaining({ message: 'worker crashed' }),
+                })
+            );
+        });
+    });
+});
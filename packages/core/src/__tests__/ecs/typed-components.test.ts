@@ -0,0 +1,149 @@
+import { World, WorldError } from '../../component-system/core/world';
+import {
+    ComponentSchemaError,
+    defineComponent,
+    isTypedComponent,
+} from '../../component-system/schema/define-component';
+import { TypedColumnStorage } from '../../component-system/memory/typed-columns';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+const Position = defineComponent({ x: 'f32', y: 'f32' }, { name: 'Position' });
+const Velocity = defineComponent({ vx: 'f32', vy: 'f32' });
+const Health = defineComponent({ hp: 'u16', armor: 'u8' }, { defaults: { hp: 100 } });
+
+class Tag {
+    label = '';
+}
+
+const registry = { Position, Velocity, Health, Tag };
+type Registry = typeof registry;
+
+describe('Typed components', () => {
+    let world: World<Registry>;
+
+    beforeEach(() => {
+        world = new World(registry);
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    describe('defineComponent', () => {
+        it('should create detached instances with defaults', () => {
+            const health = new Health({ armor: 3 });
+
+            expect(isTypedComponent(Health)).toBe(true);
+            expect(isTypedComponent(Tag)).toBe(false);
+            expect(Position.name).toBe('Position');
+            expect(health.serialize()).toEqual({ hp: 100, armor: 3 });
+        });
+
+        it('should reject invalid schemas', () => {
+            expect(() => defineComponent({})).toThrow(ComponentSchemaError);
+            expect(() => defineComponent({ x: 'f16' as any })).toThrow(ComponentSchemaError);
+            expect(() => defineComponent({ _row: 'f32' })).toThrow(ComponentSchemaError);
+        });
+    });
+
+    it('should store values in typed columns per archetype', () => {
+        const entity = world.createEntity();
+        const position = world.addComponent(entity, 'Position', new Position({ x: 1.5 }));
+        position.y = 2;
+
+        const archetype = (world as any)._archetypes.get(
+            (world as any)._entityArchetypes.get(entity)
+        );
+        const storage = archetype.components.get('Position');
+
+        expect(storage).toBeInstanceOf(TypedColumnStorage);
+        expect(storage.columns.x).toBeInstanceOf(Float32Array);
+        expect(storage.columns.x[0]).toBe(1.5);
+        expect(storage.columns.y[0]).toBe(2);
+        expect(world.getComponent(entity, 'Position')).toBe(position);
+    });
+
+    it('should keep values and identity when entities change archetype', () => {
+        const a = world.createEntity();
+        const b = world.createEntity();
+        const position = world.addComponent(a, 'Position');
+        position.x = 7;
+        world.addComponent(b, 'Position').x = 9;
+
+        world.addComponent(a, 'Velocity').vx = 1;
+        world.removeComponent(a, 'Velocity');
+
+        expect(world.getComponent(a, 'Position')).toBe(position);
+        expect(position.x).toBe(7);
+        expect(world.getComponent(b, 'Position')!.x).toBe(9);
+
+        world.destroyEntity(a);
+        expect(position.x).toBe(7);
+        position.x = 1;
+        expect(world.getComponent(b, 'Position')!.x).toBe(9);
+    });
+
+    it('should coerce values to the declared field type', () => {
+        const entity = world.createEntity();
+        const health = world.addComponent(entity, 'Health');
+
+        health.hp = 70000;
+        health.armor = 2.7;
+
+        expect(health.hp).toBe(70000 & 0xffff);
+        expect(health.armor).toBe(2);
+    });
+
+    it('should expose column views through query chunks', () => {
+        for (let i = 0; i < 200; i++) {
+            const entity = world.createEntity();
+            world.addComponent(entity, 'Position').x = i;
+            world.addComponent(entity, 'Velocity').vx = 2;
+            if (i % 2 === 0) {
+                world.addComponent(entity, 'Tag');
+            }
+        }
+
+        const dt = 0.5;
+        const chunks = world.queryBuilder().with('Position', 'Velocity').chunks();
+
+        expect(chunks).toHaveLength(2);
+        for (const chunk of chunks) {
+            const { x } = chunk.columns('Position');
+            const { vx } = chunk.columns('Velocity');
+            expect(x.length).toBe(chunk.count);
+
+            for (let i = 0; i < chunk.count; i++) {
+                x[i] += vx[i] * dt;
+            }
+        }
+
+        const results = world.query('Position');
+        expect(results).toHaveLength(200);
+        for (const { entity, components } of results) {
+            expect(components.Position.x).toBe(entity);
+        }
+    });
+
+    it('should reject columns for object components and unsupported filters', () => {
+        const entity = world.createEntity();
+        world.addComponent(entity, 'Tag');
+        world.addComponent(entity, 'Position');
+
+        const [chunk] = world.queryBuilder().with('Tag', 'Position').chunks();
+
+        expect(() => chunk.columns('Tag')).toThrow(WorldError);
+        expect(chunk.components.Tag[0]).toBeInstanceOf(Tag);
+        expect(() => world.queryBuilder().changed('Position').chunks()).toThrow(WorldError);
+    });
+
+    it('should round trip typed components through snapshots and prefabs', () => {
+        const entity = world.instantiate({ components: { Position: { x: 3, y: 4 }, Health: {} } });
+
+        const restored = World.restore(registry, world.snapshotToBuffer());
+
+        expect(world.snapshot().entities[0].components.Health).toEqual({ hp: 100, armor: 0 });
+        expect(restored.getComponent(entity, 'Position')!.serialize()).toEqual({ x: 3, y: 4 });
+        restored.clear();
+    });
+});
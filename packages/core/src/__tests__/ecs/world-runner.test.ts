@@ -0,0 +1,216 @@
+import { World } from '../../component-system/core/world';
+import { Actor } from '../../component-system/core/actor';
+import { Component } from '../../component-system/core/component';
+import { SystemPhase } from '../../component-system/systems/system-manager';
+import { ManualClock, type FrameScheduler } from '../../component-system/loop/clock';
+import { WorldRunner, WorldRunnerError } from '../../component-system/loop/world-runner';
+import type { SystemId } from '../../component-system/types/core';
+import type { System } from '../../component-system/types/system';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class Position {
+    x = 0;
+}
+
+class Body extends Component {
+    fixedSteps = 0;
+    frames = 0;
+
+    fixedUpdate(fixedDeltaTime: number): void {
+        this.fixedSteps++;
+        expect(fixedDeltaTime).toBeCloseTo(0.1);
+    }
+
+    update(): void {
+        this.frames++;
+    }
+}
+
+const registry = { Position, Body };
+type Registry = typeof registry;
+
+const createSystem = (
+    id: string,
+    execute: System<Registry, ['Position']>['execute']
+): System<Registry, ['Position']> => ({
+    id: id as SystemId,
+    query: ['Position'],
+    priority: 0,
+    enabled: true,
+    execute,
+});
+
+class ManualScheduler implements FrameScheduler {
+    private _callbacks = new Map<number, () => void>();
+    private _nextHandle = 0;
+
+    request(callback: () => void): number {
+        this._callbacks.set(++this._nextHandle, callback);
+        return this._nextHandle;
+    }
+
+    cancel(handle: unknown): void {
+        this._callbacks.delete(handle as number);
+    }
+
+    get pending(): number {
+        return this._callbacks.size;
+    }
+
+    flush(): void {
+        const callbacks = Array.from(this._callbacks.values());
+        this._callbacks.clear();
+        callbacks.forEach((callback) => callback());
+    }
+}
+
+describe('WorldRunner', () => {
+    let world: World<Registry>;
+    let clock: ManualClock;
+    let runner: WorldRunner<Registry>;
+
+    beforeEach(() => {
+        world = new World(registry);
+        clock = new ManualClock();
+        runner = new WorldRunner(world, { fixedTimeStep: 0.1, maxSubSteps: 3, clock });
+    });
+
+    afterEach(() => {
+        runner.stop();
+        world.clear();
+    });
+
+    it('should validate its configuration', () => {
+        expect(() => new WorldRunner(world, { fixedTimeStep: 0 })).toThrow(WorldRunnerError);
+        expect(() => new WorldRunner(world, { maxSubSteps: 0 })).toThrow(WorldRunnerError);
+        expect(() => runner.step(-1)).toThrow(WorldRunnerError);
+    });
+
+    it('should accumulate variable frame deltas into fixed steps', () => {
+        const fixed = vi.fn();
+        runner.systems.addSystem(createSystem('physics', fixed), SystemPhase.FixedUpdate);
+
+        expect(runner.step(0.05).fixedSteps).toBe(0);
+        expect(runner.step(0.07).fixedSteps).toBe(1);
+        expect(runner.step(0.18).fixedSteps).toBe(2);
+
+        expect(fixed).toHaveBeenCalledTimes(3);
+        expect(fixed).toHaveBeenCalledWith(expect.any(Array), 0.1);
+        expect(runner.fixedFrame).toBe(3);
+        expect(runner.frame).toBe(3);
+    });
+
+    it('should expose the interpolation alpha to render systems', () => {
+        const alphas: number[] = [];
+        const passed: Array<number | undefined> = [];
+        runner.systems.addSystem(
+            createSystem('render', (_entities, _deltaTime, alpha) => {
+                alphas.push(runner.systems.interpolationAlpha);
+                passed.push(alpha);
+            }),
+            SystemPhase.Render
+        );
+
+        runner.step(0.05);
+        runner.step(0.025);
+
+        expect(alphas[0]).toBeCloseTo(0.5);
+        expect(alphas[1]).toBeCloseTo(0.75);
+        expect(passed).toEqual(alphas);
+        expect(runner.alpha).toBeCloseTo(0.75);
+    });
+
+    it('should leave fixed-step systems out of executeAll', () => {
+        const fixed = vi.fn();
+        const update = vi.fn();
+        runner.systems.addSystem(createSystem('physics', fixed), SystemPhase.FixedUpdate);
+        runner.systems.addSystem(createSystem('update', update), SystemPhase.Update);
+
+        runner.systems.executeAll(0.5);
+
+        expect(update).toHaveBeenCalledTimes(1);
+        expect(fixed).not.toHaveBeenCalled();
+    });
+
+    it('should run phases in order with fixed steps before update', () => {
+        const order: string[] = [];
+        const track = (name: string) => createSystem(name, () => order.push(name));
+
+        runner.systems.addSystem(track('render'), SystemPhase.Render);
+        runner.systems.addSystem(track('update'), SystemPhase.Update);
+        runner.systems.addSystem(track('fixed'), SystemPhase.FixedUpdate);
+        runner.systems.addSystem(track('pre'), SystemPhase.PreUpdate);
+        runner.systems.addSystem(track('post'), SystemPhase.PostUpdate);
+
+        runner.step(0.2);
+
+        expect(order).toEqual(['pre', 'fixed', 'fixed', 'update', 'post', 'render']);
+    });
+
+    it('should drop time beyond the substep limit and frame time cap', () => {
+        const capped = new WorldRunner(world, {
+            fixedTimeStep: 0.1,
+            maxSubSteps: 3,
+            maxFrameTime: 1,
+        });
+
+        const slow = capped.step(0.45);
+        expect(slow.fixedSteps).toBe(3);
+        expect(slow.droppedTime).toBeCloseTo(0.1);
+        expect(capped.alpha).toBeCloseTo(0.5);
+        expect(capped.step(0).fixedSteps).toBe(0);
+
+        expect(capped.step(2).droppedTime).toBeCloseTo(1 + 0.7);
+    });
+
+    it('should scale time', () => {
+        runner.timeScale = 0.5;
+
+        expect(runner.step(0.2).fixedSteps).toBe(1);
+        expect(runner.elapsedTime).toBeCloseTo(0.1);
+        expect(() => (runner.timeScale = -1)).toThrow(WorldRunnerError);
+    });
+
+    it('should drive component fixedUpdate and update hooks', () => {
+        const actor = new Actor(world);
+        const body = actor.addComponent(Body);
+        actor.start();
+
+        runner.step(0.25);
+
+        expect(body.fixedSteps).toBe(2);
+        expect(body.frames).toBe(1);
+    });
+
+    it('should step deterministically from a manual clock', () => {
+        runner.tick();
+        clock.advance(150);
+        const first = runner.tick();
+        clock.advance(50);
+        const second = runner.tick();
+
+        expect(first.fixedSteps).toBe(1);
+        expect(second.fixedSteps).toBe(1);
+        expect(runner.alpha).toBeCloseTo(0);
+    });
+
+    it('should schedule frames while running', () => {
+        const scheduler = new ManualScheduler();
+        const looped = new WorldRunner(world, { fixedTimeStep: 0.1, clock, scheduler });
+
+        looped.start();
+        expect(looped.running).toBe(true);
+
+        clock.advance(100);
+        scheduler.flush();
+        clock.advance(100);
+        scheduler.flush();
+
+        expect(looped.fixedFrame).toBe(2);
+        expect(scheduler.pending).toBe(1);
+
+        looped.stop();
+        expect(scheduler.pending).toBe(0);
+        expect(looped.running).toBe(false);
+    });
+});
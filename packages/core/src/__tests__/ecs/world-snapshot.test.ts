@@ -0,0 +1,250 @@
+import { World, WorldError } from '../../component-system/core/world';
+import { Component } from '../../component-system/core/component';
+import {
+    WORLD_SNAPSHOT_VERSION,
+    SnapshotFormatError,
+    decodeWorldSnapshot,
+    encodeWorldSnapshot,
+} from '../../component-system/serialization';
+import type { Entity } from '../../component-system/types/core';
+import type { WorldSnapshot } from '../../component-system/types/snapshot';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+class Position {
+    x = 0;
+    y = 0;
+    tags: string[] = [];
+    meta: { label: string } | null = null;
+}
+
+class Health extends Component {
+    current = 100;
+    max = 100;
+}
+
+class Inventory extends Component {
+    private _items = new Map<string, number>();
+
+    add(item: string, count: number): void {
+        this._items.set(item, (this._items.get(item) ?? 0) + count);
+    }
+
+    count(item: string): number {
+        return this._items.get(item) ?? 0;
+    }
+
+    serialize(): Record<string, any> {
+        return { ...super.serialize(), items: Object.fromEntries(this._items) };
+    }
+
+    deserialize(data: Record<string, any>): void {
+        super.deserialize(data);
+        this._items = new Map(Object.entries(data.items ?? {}));
+    }
+}
+
+const registry = { Position, Health, Inventory };
+
+describe('World snapshots', () => {
+    let world: World<typeof registry>;
+
+    beforeEach(() => {
+        world = new World(registry);
+    });
+
+    afterEach(() => {
+        world.clear();
+    });
+
+    const populate = (): { a: Entity; b: Entity; c: Entity } => {
+        const a = world.createEntity();
+        const b = world.createEntity();
+        const c = world.createEntity();
+
+        const position = world.addComponent(a, 'Position');
+        position.x = 3;
+        position.y = -1.5;
+        position.tags = ['player', 'hero'];
+        position.meta = { label: 'spawn' };
+
+        world.addComponent(a, 'Health').current = 42;
+        world.addComponent(b, 'Inventory').add('potion', 3);
+        world.addComponent(c, 'Position').x = 7;
+
+        return { a, b, c };
+    };
+
+    describe('snapshot', () => {
+        it('should capture every entity with its components', () => {
+            const { a, b, c } = populate();
+            const snapshot = world.snapshot();
+
+            expect(snapshot.version).toBe(WORLD_SNAPSHOT_VERSION);
+            expect(snapshot.entities.map((entity) => entity.id)).toEqual([a, b, c]);
+            expect(snapshot.entities[0].components.Position).toEqual({
+                x: 3,
+                y: -1.5,
+                tags: ['player', 'hero'],
+                meta: { label: 'spawn' },
+            });
+            expect(snapshot.entities[0].components.Health).toMatchObject({
+                current: 42,
+                max: 100,
+            });
+        });
+
+        it('should use custom serialize implementations', () => {
+            const { b } = populate();
+            const snapshot = world.snapshot();
+            const entity = snapshot.entities.find((e) => e.id === b)!;
+
+            expect(entity.components.Inventory).toMatchObject({ items: { potion: 3 } });
+            expect(entity.components.Inventory).not.toHaveProperty('_items');
+        });
+
+        it('should be JSON serializable', () => {
+            populate();
+            const snapshot = world.snapshot();
+
+            expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+        });
+
+        it('should record the free list', () => {
+            const { b } = populate();
+            world.destroyEntity(b);
+
+            const snapshot = world.snapshot();
+            expect(snapshot.freeEntities).toEqual([b]);
+            expect(snapshot.nextEntityId).toBe(4);
+        });
+    });
+
+    describe('restore', () => {
+        it('should round trip through the JSON form', () => {
+            const { a, b, c } = populate();
+            const snapshot = JSON.parse(JSON.stringify(world.snapshot())) as WorldSnapshot;
+
+            const restored = World.restore(registry, snapshot);
+
+            expect(restored.getEntityCount()).toBe(3);
+            expect(restored.getComponent(a, 'Position')).toBeInstanceOf(Position);
+            expect(restored.getComponent(a, 'Position')!.tags).toEqual(['player', 'hero']);
+            expect(restored.getComponent(a, 'Health')!.current).toBe(42);
+            expect(restored.getComponent(b, 'Inventory')!.count('potion')).toBe(3);
+            expect(restored.getComponent(c, 'Position')!.x).toBe(7);
+            expect(
+                restored
+                    .query('Position')
+                    .map((r) => r.entity)
+                    .sort()
+            ).toEqual([a, c]);
+
+            restored.clear();
+        });
+
+        it('should round trip through the binary form', () => {
+            const { a, b } = populate();
+            const bytes = world.snapshotToBuffer().toUint8Array().slice();
+
+            const restored = World.restore(registry, bytes);
+
+            const original = world.snapshot();
+            const roundTripped = restored.snapshot();
+            expect(roundTripped.entities.map((e) => e.id)).toEqual(
+                original.entities.map((e) => e.id)
+            );
+            expect(roundTripped.entities[0].components.Position).toEqual(
+                original.entities[0].components.Position
+            );
+            expect(restored.getComponent(a, 'Position')!.meta).toEqual({ label: 'spawn' });
+            expect(restored.getComponent(b, 'Inventory')!.count('potion')).toBe(3);
+
+            restored.clear();
+        });
+
+        it('should preserve entity ids and the free list', () => {
+            const { a, b } = populate();
+            world.destroyEntity(b);
+
+            const restored = World.restore(registry, world.snapshot());
+
+            expect(restored.getAllEntities()).not.toContain(b);
+            expect(restored.createEntity()).toBe(b);
+            expect(restored.createEntity()).toBe(4);
+            expect(restored.getComponent(a, 'Health')!.current).toBe(42);
+
+            restored.clear();
+        });
+
+        it('should not share nested data with the snapshot', () => {
+            const { a } = populate();
+            const snapshot = world.snapshot();
+
+            const restored = World.restore(registry, snapshot);
+            restored.getComponent(a, 'Position')!.tags.push('mutated');
+
+            expect(snapshot.entities[0].components.Position.tags).toEqual(['player', 'hero']);
+
+            restored.clear();
+        });
+
+        it('should reject unknown components', () => {
+            const snapshot: WorldSnapshot = {
+                version: WORLD_SNAPSHOT_VERSION,
+                nextEntityId: 2,
+                freeEntities: [],
+                entities: [{ id: 1, components: { Missing: {} } }],
+            };
+
+            expect(() => World.restore(registry, snapshot)).toThrow(WorldError);
+        });
+
+        it('should reject unsupported versions and inconsistent ids', () => {
+            const base: WorldSnapshot = {
+                version: WORLD_SNAPSHOT_VERSION,
+                nextEntityId: 2,
+                freeEntities: [],
+                entities: [{ id: 1, components: {} }],
+            };
+
+            expect(() => World.restore(registry, { ...base, version: 99 })).toThrow(WorldError);
+            expect(() => World.restore(registry, { ...base, freeEntities: [1] })).toThrow(
+                WorldError
+            );
+            expect(() => World.restore(registry, { ...base, nextEntityId: 1 })).toThrow(WorldError);
+        });
+    });
+
+    describe('binary codec', () => {
+        it('should encode numbers, strings and nested values faithfully', () => {
+            const snapshot: WorldSnapshot = {
+                version: WORLD_SNAPSHOT_VERSION,
+                nextEntityId: 3,
+                freeEntities: [2],
+                entities: [
+                    {
+                        id: 1,
+                        components: {
+                            Position: {
+                                x: 0.1,
+                                y: -2147483648,
+                                big: 1e20,
+                                name: 'ünïcødé',
+                                flags: [true, false, null],
+                                nested: { deep: { value: 5 } },
+                            },
+                        },
+                    },
+                ],
+            };
+
+            expect(decodeWorldSnapshot(encodeWorldSnapshot(snapshot))).toEqual(snapshot);
+        });
+
+        it('should reject buffers that are not snapshots', () => {
+            expect(() => decodeWorldSnapshot(new Uint8Array([1, 2, 3, 4, 5, 6]))).toThrow(
+                SnapshotFormatError
+            );
+        });
+    });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from '../../event/event-emitter';
+import { EventGroup } from '../../event/event-group';
+import { EventError } from '../../event/errors';
+import { EventMap } from '../../event/definition';
+import { EventMiddleware } from '../../event/middleware';
+
+interface TestEvents extends EventMap {
+    'user:login': { name: string };
+    'user:logout': { name: string };
+}
+
+describe('EventEmitter - Middleware', () => {
+    let emitter: EventEmitter<TestEvents>;
+
+    beforeEach(() => {
+        emitter = new EventEmitter<TestEvents>();
+    });
+
+    afterEach(() => {
+        emitter.dispose();
+    });
+
+    it('should let middleware transform the payload', async () => {
+        const listener = vi.fn();
+        emitter.on('user:login', listener);
+        emitter.use((event, data, next) => next({ name: (data as any).name.toUpperCase() }));
+
+        expect(await emitter.emit('user:login', { name: 'ada' })).toBe(true);
+        expect(listener).toHaveBeenCalledWith({ name: 'ADA' });
+    });
+
+    it('should cancel the emit when next is not called', async () => {
+        const listener = vi.fn();
+        emitter.on('user:login', listener);
+        emitter.use((event, data, next) => (event === 'user:login' ? undefined : next()));
+
+        expect(await emitter.emit('user:login', { name: 'ada' })).toBe(false);
+        expect(emitter.emitSync('user:login', { name: 'ada' })).toBe(false);
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should run middleware in registration order around the dispatch', async () => {
+        const order: string[] = [];
+        emitter.on('user:login', () => void order.push('listener'));
+        emitter.use((event, data, next) => {
+            order.push('outer:before');
+            const result = next();
+            order.push('outer:after');
+            return result;
+        });
+        emitter.use((event, data, next) => {
+            order.push('inner');
+            return next();
+        });
+
+        emitter.emitSync('user:login', { name: 'ada' });
+
+        expect(order).toEqual(['outer:before', 'inner', 'listener', 'outer:after']);
+    });
+
+    it('should expose the event, priority and mode to middleware', async () => {
+        const seen = vi.fn();
+        emitter.use((event, data, next, context) => {
+            seen(event, context);
+            return next();
+        });
+
+        await emitter.emit('user:login', { name: 'ada' }, { priority: 'high' });
+        emitter.emitSync('user:logout', { name: 'ada' });
+
+        expect(seen).toHaveBeenNthCalledWith(1, 'user:login', { sync: false, priority: 'high' });
+        expect(seen).toHaveBeenNthCalledWith(2, 'user:logout', { sync: true, priority: 'normal' });
+    });
+
+    it('should await async middleware on emit', async () => {
+        const listener = vi.fn();
+        emitter.on('user:login', listener);
+        emitter.use(async (event, data, next) => {
+            await Promise.resolve();
+            return next({ name: 'late' });
+        });
+
+        expect(await emitter.emit('user:login', { name: 'ada' })).toBe(true);
+        expect(listener).toHaveBeenCalledWith({ name: 'late' });
+    });
+
+    it('should reject async middleware during emitSync', () => {
+        emitter.use(async (event, data, next) => next());
+
+        expect(() => emitter.emitSync('user:login', { name: 'ada' })).toThrow(EventError);
+    });
+
+    it('should reject calling next twice', () => {
+        emitter.use((event, data, next) => {
+            next();
+            return next();
+        });
+
+        expect(() => emitter.emitSync('user:login', { name: 'ada' })).toThrow(/next\(\) twice/);
+    });
+
+    it('should stop running middleware once removed', () => {
+        const middleware = vi.fn<EventMiddleware<TestEvents>>((event, data, next) => next());
+        const remove = emitter.use(middleware);
+
+        emitter.emitSync('user:login', { name: 'ada' });
+
+        expect(remove()).toBe(true);
+        expect(remove()).toBe(false);
+        emitter.emitSync('user:login', { name: 'ada' });
+        expect(middleware).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not run middleware again for events queued while paused', async () => {
+        const listener = vi.fn();
+        const middleware = vi.fn<EventMiddleware<TestEvents>>((event, data, next) => next());
+        emitter.on('user:login', listener);
+        emitter.use(middleware);
+
+        emitter.pause();
+        await emitter.emit('user:login', { name: 'ada' });
+        emitter.resume();
+        await emitter.drain();
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(middleware).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply to batched emits', async () => {
+        emitter.use((event, data, next) => ((data as any).name === 'blocked' ? false : next()));
+
+        const results = await emitter.emitBatch([
+            { event: 'user:login', data: { name: 'ada' } },
+            { event: 'user:login', data: { name: 'blocked' } },
+        ]);
+
+        expect(results).toEqual([false, false]);
+    });
+
+    it('should reject non-function middleware', () => {
+        expect(() => emitter.use(null as any)).toThrow(TypeError);
+    });
+});
+
+describe('EventGroup - Middleware', () => {
+    let emitter: EventEmitter<TestEvents>;
+    let group: EventGroup<TestEvents>;
+
+    beforeEach(() => {
+        emitter = new EventEmitter<TestEvents>();
+        group = new EventGroup(emitter);
+    });
+
+    afterEach(() => {
+        group.dispose();
+        emitter.dispose();
+    });
+
+    it('should scope middleware to emits made through the group', () => {
+        const listener = vi.fn();
+        emitter.on('user:login', listener);
+        group.use((event, data, next) => next({ name: `group:${(data as any).name}` }));
+
+        group.emitSync('user:login', { name: 'ada' });
+        emitter.emitSync('user:login', { name: 'bob' });
+
+        expect(listener.mock.calls.map(([data]) => data)).toEqual([
+            { name: 'group:ada' },
+            { name: 'bob' },
+        ]);
+    });
+
+    it('should run group middleware before the base emitter middleware', async () => {
+        const order: string[] = [];
+        emitter.use((event, data, next) => {
+            order.push('emitter');
+            return next();
+        });
+        group.use((event, data, next) => {
+            order.push('group');
+            return next();
+        });
+
+        await group.emit('user:login', { name: 'ada' });
+
+        expect(order).toEqual(['group', 'emitter']);
+    });
+
+    it('should drop group middleware on dispose', () => {
+        const middleware = vi.fn<EventMiddleware<TestEvents>>(() => false);
+        group.use(middleware);
+        group.dispose();
+
+        expect(group.emitSync('user:login', { name: 'ada' })).toBe(false);
+        expect(middleware).not.toHaveBeenCalled();
+    });
+});
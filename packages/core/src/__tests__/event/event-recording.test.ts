@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from '../../event/event-emitter';
+import { EventError } from '../../event/errors';
+import { EventMap } from '../../event/definition';
+import {
+    EventRecorder,
+    EventReplayer,
+    EventRecording,
+    decodeRecording,
+    encodeRecording,
+    parseRecording,
+    serializeRecording,
+} from '../../event/recording';
+
+interface InputEvents extends EventMap {
+    'input:key': { key: string };
+    'input:click': { x: number; y: number };
+    'input:blur': undefined;
+}
+
+class TestClock {
+    time = 0;
+
+    now(): number {
+        return this.time;
+    }
+}
+
+const sampleRecording: EventRecording = {
+    version: 1,
+    duration: 300,
+    events: [
+        { time: 0, event: 'input:key', data: { key: 'a' }, priority: 'normal', sync: true },
+        { time: 100, event: 'input:click', data: { x: 1.5, y: -2 }, priority: 'high' },
+        { time: 250, event: 'input:blur', data: undefined, sync: false },
+    ],
+};
+
+describe('EventRecorder', () => {
+    let emitter: EventEmitter<InputEvents>;
+    let clock: TestClock;
+
+    beforeEach(() => {
+        emitter = new EventEmitter<InputEvents>();
+        clock = new TestClock();
+    });
+
+    afterEach(() => {
+        emitter.dispose();
+    });
+
+    it('should capture emits with timestamps relative to start', async () => {
+        clock.time = 1000;
+        const recorder = new EventRecorder(emitter, { clock }).start();
+
+        emitter.emitSync('input:key', { key: 'a' });
+        clock.time = 1040;
+        await emitter.emit('input:click', { x: 3, y: 4 }, { priority: 'high' });
+        clock.time = 1100;
+
+        expect(recorder.stop()).toEqual({
+            version: 1,
+            duration: 100,
+            events: [
+                { time: 0, event: 'input:key', data: { key: 'a' }, priority: 'normal', sync: true },
+                {
+                    time: 40,
+                    event: 'input:click',
+                    data: { x: 3, y: 4 },
+                    priority: 'high',
+                    sync: false,
+                },
+            ],
+        });
+        expect(recorder.recording).toBe(false);
+    });
+
+    it('should only record the selected events that pass the filter', () => {
+        const recorder = new EventRecorder<InputEvents>(emitter, {
+            clock,
+            events: ['input:key'],
+            filter: (event, data) => (data as InputEvents['input:key']).key !== 'shift',
+        }).start();
+
+        emitter.emitSync('input:key', { key: 'shift' });
+        emitter.emitSync('input:key', { key: 'b' });
+        emitter.emitSync('input:click', { x: 0, y: 0 });
+
+        expect(recorder.stop().events.map(({ data }) => data)).toEqual([{ key: 'b' }]);
+    });
+
+    it('should stop capturing once stopped', () => {
+        const recorder = new EventRecorder(emitter, { clock }).start();
+        recorder.stop();
+
+        emitter.emitSync('input:key', { key: 'a' });
+
+        expect(recorder.size).toBe(0);
+        expect(() => recorder.start().start()).toThrow(EventError);
+    });
+
+    it('should subscribe to listed events on emitters without middleware', () => {
+        const plain = {
+            on: vi.fn(emitter.on.bind(emitter)),
+        } as unknown as EventEmitter<InputEvents>;
+
+        expect(() => new EventRecorder(plain, { clock })).toThrow(EventError);
+
+        const recorder = new EventRecorder<InputEvents>(plain, {
+            clock,
+            events: ['input:key'],
+        }).start();
+        clock.time = 5;
+        emitter.emitSync('input:key', { key: 'z' });
+
+        expect(recorder.stop().events).toEqual([
+            { time: 5, event: 'input:key', data: { key: 'z' } },
+        ]);
+        expect(emitter.listenerCount('input:key')).toBe(0);
+    });
+
+    it('should remove every listener even when one unsubscribe reports false', () => {
+        const plain = {
+            on: (event: 'input:key' | 'input:click', listener: (data: unknown) => void) => {
+                const unsubscribe = emitter.on(event, listener);
+                return event === 'input:key' ? () => (unsubscribe(), false) : unsubscribe;
+            },
+        } as unknown as EventEmitter<InputEvents>;
+
+        const recorder = new EventRecorder<InputEvents>(plain, {
+            clock,
+            events: ['input:key', 'input:click'],
+        }).start();
+        recorder.stop();
+
+        expect(emitter.listenerCount('input:key')).toBe(0);
+        expect(emitter.listenerCount('input:click')).toBe(0);
+    });
+});
+
+describe('EventReplayer', () => {
+    let emitter: EventEmitter<InputEvents>;
+    let clock: TestClock;
+    let received: Array<[string, unknown, number]>;
+
+    beforeEach(() => {
+        emitter = new EventEmitter<InputEvents>();
+        clock = new TestClock();
+        received = [];
+        for (const event of ['input:key', 'input:click', 'input:blur'] as const) {
+            emitter.on(event, (data) => void received.push([event, data, clock.now()]));
+        }
+    });
+
+    afterEach(() => {
+        emitter.dispose();
+    });
+
+    it('should emit events as they become due on the clock', async () => {
+        const replayer = new EventReplayer(emitter, sampleRecording, { clock });
+
+        expect(await replayer.update()).toBe(1);
+        clock.time = 99;
+        expect(await replayer.update()).toBe(0);
+        clock.time = 300;
+        expect(await replayer.update()).toBe(2);
+
+        expect(received.map(([event]) => event)).toEqual([
+            'input:key',
+            'input:click',
+            'input:blur',
+        ]);
+        expect(replayer.done).toBe(true);
+    });
+
+    it('should preserve the original timing when playing', async () => {
+        const wait = vi.fn(async (ms: number) => void (clock.time += ms));
+        const replayer = new EventReplayer(emitter, sampleRecording, { clock, wait });
+
+        await replayer.play();
+
+        expect(received.map(([, , time]) => time)).toEqual([0, 100, 250]);
+        expect(wait.mock.calls.map(([ms]) => ms)).toEqual([100, 150]);
+    });
+
+    it('should replay faster at a higher speed', async () => {
+        const wait = async (ms: number) => void (clock.time += ms);
+        const replayer = new EventReplayer(emitter, sampleRecording, { clock, wait, speed: 2 });
+
+        await replayer.play();
+
+        expect(received.map(([, , time]) => time)).toEqual([0, 50, 125]);
+    });
+
+    it('should emit everything immediately at infinite speed', async () => {
+        const wait = vi.fn(async () => {});
+        const replayer = new EventReplayer(emitter, sampleRecording, {
+            clock,
+            wait,
+            speed: Infinity,
+        });
+
+        await replayer.play();
+
+        expect(received).toHaveLength(3);
+        expect(wait).not.toHaveBeenCalled();
+    });
+
+    it('should stop playing and resume from the cursor', async () => {
+        const replayer = new EventReplayer(emitter, sampleRecording, {
+            clock,
+            wait: async (ms) => {
+                clock.time += ms;
+                replayer.stop();
+            },
+        });
+
+        await replayer.play();
+        expect(replayer.position).toBe(1);
+
+        clock.time = 300;
+        await replayer.update();
+        expect(replayer.done).toBe(true);
+
+        replayer.reset();
+        expect(replayer.position).toBe(0);
+    });
+
+    it('should pass along recorded priorities and sync mode', async () => {
+        const emitSync = vi.spyOn(emitter, 'emitSync');
+        const emit = vi.spyOn(emitter, 'emit');
+        const replayer = new EventReplayer(emitter, sampleRecording, { clock, speed: Infinity });
+
+        await replayer.update();
+
+        expect(emitSync).toHaveBeenCalledWith('input:key', { key: 'a' }, { priority: 'normal' });
+        expect(emit).toHaveBeenCalledWith('input:click', { x: 1.5, y: -2 }, { priority: 'high' });
+        expect(emit).toHaveBeenCalledWith('input:blur', undefined, {});
+    });
+
+    it('should reject non-positive speeds', () => {
+        expect(() => new EventReplayer(emitter, sampleRecording, { speed: 0 })).toThrow(RangeError);
+    });
+});
+
+describe('Recording serialization', () => {
+    it('should round trip through JSON', () => {
+        expect(parseRecording(serializeRecording(sampleRecording))).toEqual(sampleRecording);
+    });
+
+    it('should reject invalid JSON recordings', () => {
+        expect(() => parseRecording('{')).toThrow(EventError);
+        expect(() => parseRecording('{"version":1}')).toThrow(/event recording/);
+        expect(() => parseRecording('{"version":9,"duration":0,"events":[]}')).toThrow(
+            /Unsupported recording version 9/
+        );
+    });
+
+    it('should round trip through the binary format', () => {
+        const buffer = encodeRecording(sampleRecording);
+
+        expect(decodeRecording(buffer)).toEqual(sampleRecording);
+    });
+
+    it('should decode from raw bytes', () => {
+        const buffer = encodeRecording(sampleRecording);
+        const bytes = new Uint8Array(buffer.remaining);
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = buffer.getUint8();
+        }
+
+        expect(decodeRecording(bytes)).toEqual(sampleRecording);
+        expect(() => decodeRecording(new Uint8Array([1, 2, 3, 4]))).toThrow(EventError);
+    });
+
+    it('should reject corrupt payloads with an EventError', () => {
+        const buffer = encodeRecording({
+            version: 1,
+            duration: 0,
+            events: [{ time: 0, event: 'input:key', data: { key: 'a' } }],
+        });
+        const bytes = new Uint8Array(buffer.remaining);
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = buffer.getUint8();
+        }
+        bytes[bytes.length - 1] = 'x'.charCodeAt(0);
+
+        expect(() => decodeRecording(bytes)).toThrow(EventError);
+        expect(() => decodeRecording(bytes)).toThrow(/Invalid payload for input:key/);
+    });
+
+    it('should replay a recording captured from a live emitter', async () => {
+        const clock = new TestClock();
+        const source = new EventEmitter<InputEvents>();
+        const target = new EventEmitter<InputEvents>();
+        const recorder = new EventRecorder(source, { clock }).start();
+        source.emitSync('input:key', { key: 'q' });
+        clock.time = 20;
+        source.emitSync('input:click', { x: 7, y: 8 });
+
+        const recording = decodeRecording(encodeRecording(recorder.stop()));
+        const listener = vi.fn();
+        target.on('input:click', listener);
+        await new EventReplayer(target, recording, { clock, speed: Infinity }).play();
+
+        expect(listener).toHaveBeenCalledWith({ x: 7, y: 8 });
+        source.dispose();
+        target.dispose();
+    });
+});
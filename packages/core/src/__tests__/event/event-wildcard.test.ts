@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from '../../event/event-emitter';
+import { EventError } from '../../event/errors';
+import { EventMap } from '../../event/definition';
+import { PatternTrie } from '../../event/wildcard';
+
+interface GameEvents extends EventMap {
+    'entity.spawn': { id: number };
+    'entity.destroy': { id: number; reason: string };
+    'ui.menu.open': { menu: string };
+    'ui.menu.close': { menu: string };
+    'ui.toast': { text: string };
+    ready: undefined;
+}
+
+describe('EventEmitter - Wildcards', () => {
+    let emitter: EventEmitter<GameEvents>;
+
+    beforeEach(() => {
+        emitter = new EventEmitter<GameEvents>();
+    });
+
+    afterEach(() => {
+        emitter.dispose();
+    });
+
+    it('should match a single segment with *', async () => {
+        const listener = vi.fn();
+        emitter.on('entity.*', listener);
+
+        await emitter.emit('entity.spawn', { id: 1 });
+        emitter.emitSync('entity.destroy', { id: 1, reason: 'killed' });
+        emitter.emitSync('ui.toast', { text: 'hi' });
+
+        expect(listener.mock.calls).toEqual([
+            [{ id: 1 }, 'entity.spawn'],
+            [{ id: 1, reason: 'killed' }, 'entity.destroy'],
+        ]);
+    });
+
+    it('should match any depth with **', () => {
+        const listener = vi.fn();
+        emitter.on('ui.**', listener);
+
+        emitter.emitSync('ui.toast', { text: 'saved' });
+        emitter.emitSync('ui.menu.open', { menu: 'main' });
+        emitter.emitSync('entity.spawn', { id: 2 });
+
+        expect(listener.mock.calls.map(([, event]) => event)).toEqual(['ui.toast', 'ui.menu.open']);
+    });
+
+    it('should support wildcards in the middle of a pattern', () => {
+        const listener = vi.fn();
+        emitter.on('ui.*.close', listener);
+
+        emitter.emitSync('ui.menu.open', { menu: 'main' });
+        emitter.emitSync('ui.menu.close', { menu: 'main' });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith({ menu: 'main' }, 'ui.menu.close');
+    });
+
+    it('should receive every event through onAny', () => {
+        const listener = vi.fn();
+        emitter.onAny(listener);
+
+        emitter.emitSync('ready', undefined);
+        emitter.emitSync('ui.menu.open', { menu: 'pause' });
+
+        expect(listener.mock.calls.map(([, event]) => event)).toEqual(['ready', 'ui.menu.open']);
+    });
+
+    it('should keep calling exact listeners with the payload only', () => {
+        const exact = vi.fn();
+        emitter.on('entity.spawn', exact);
+        emitter.on('entity.*', vi.fn());
+
+        emitter.emitSync('entity.spawn', { id: 3 });
+
+        expect(exact.mock.calls[0]).toEqual([{ id: 3 }]);
+    });
+
+    it('should order exact and wildcard listeners by priority together', async () => {
+        const order: string[] = [];
+        emitter.on('entity.spawn', () => void order.push('exact:low'), { priority: 'low' });
+        emitter.on('entity.*', () => void order.push('wildcard:high'), { priority: 'high' });
+        emitter.onAny(() => void order.push('any:normal'));
+        emitter.on('entity.spawn', () => void order.push('exact:normal'));
+
+        emitter.emitSync('entity.spawn', { id: 1 });
+
+        expect(order).toEqual(['wildcard:high', 'exact:normal', 'any:normal', 'exact:low']);
+    });
+
+    it('should remove once wildcard listeners after the first match', async () => {
+        const listener = vi.fn();
+        emitter.once('entity.*', listener);
+
+        await emitter.emit('entity.spawn', { id: 1 });
+        await emitter.emit('entity.destroy', { id: 1, reason: 'gone' });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(emitter.listenerCount('entity.*')).toBe(0);
+    });
+
+    it('should unsubscribe wildcard listeners through every removal path', () => {
+        const listener = vi.fn();
+        const unsubscribe = emitter.on('entity.*', listener);
+        expect(unsubscribe()).toBe(true);
+
+        emitter.on('entity.*', listener);
+        expect(emitter.off('entity.*', listener)).toBe(true);
+
+        emitter.on('ui.**', listener);
+        emitter.removeAllListeners('ui.**');
+
+        emitter.onAny(listener);
+        emitter.removeAllListeners();
+
+        emitter.emitSync('entity.spawn', { id: 1 });
+        emitter.emitSync('ui.toast', { text: 'x' });
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should report no listeners when only non-matching patterns exist', () => {
+        emitter.on('ui.**', vi.fn());
+
+        expect(emitter.emitSync('entity.spawn', { id: 1 })).toBe(false);
+        expect(emitter.emitSync('ui.toast', { text: 'x' })).toBe(true);
+    });
+
+    it('should reject malformed patterns', () => {
+        expect(() => emitter.on('entity.sp*' as any, vi.fn())).toThrow(EventError);
+        expect(() => emitter.on('ui..*' as any, vi.fn())).toThrow(/empty segment/);
+    });
+
+    it('should type wildcard payloads against the event map', () => {
+        emitter.on('ui.menu.*', (data, event) => {
+            const menu: string = data.menu;
+            const name: 'ui.menu.open' | 'ui.menu.close' = event;
+            void menu;
+            void name;
+        });
+
+        const strict = new EventEmitter<{ 'entity.spawn': { id: number } }>();
+        // @ts-expect-error no event matches this pattern
+        expect(() => strict.on('audio.*', vi.fn())).not.toThrow();
+        strict.dispose();
+    });
+});
+
+describe('PatternTrie', () => {
+    it('should match patterns by segment', () => {
+        const trie = new PatternTrie<string>();
+        trie.set('a.*', 'star');
+        trie.set('a.**', 'globstar');
+        trie.set('*.b.c', 'middle');
+        trie.set('**', 'any');
+
+        expect(trie.match('a.b')).toEqual(expect.arrayContaining(['star', 'globstar', 'any']));
+        expect(trie.match('a.b')).toHaveLength(3);
+        expect(trie.match('a')).toEqual(expect.arrayContaining(['globstar', 'any']));
+        expect(trie.match('x.b.c')).toEqual(expect.arrayContaining(['middle', 'any']));
+        expect(trie.match('x.b.c')).toHaveLength(2);
+    });
+
+    it('should invalidate cached matches and prune removed patterns', () => {
+        const trie = new PatternTrie<string>();
+        trie.set('a.*', 'star');
+        expect(trie.match('a.b')).toEqual(['star']);
+
+        trie.set('a.b.**', 'deep');
+        expect(trie.match('a.b')).toEqual(expect.arrayContaining(['star', 'deep']));
+
+        expect(trie.delete('a.*')).toBe(true);
+        expect(trie.delete('a.*')).toBe(false);
+        expect(trie.match('a.b')).toEqual(['deep']);
+        expect(trie.get('a.b.**')).toBe('deep');
+        expect(trie.size).toBe(1);
+    });
+});
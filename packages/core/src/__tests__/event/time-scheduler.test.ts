@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventError } from '../../event/errors';
+import { EventScheduler, TaskPriority } from '../../event/event-scheduler';
+import { VirtualTimeScheduler, realTimeScheduler } from '../../event/time-scheduler';
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('VirtualTimeScheduler', () => {
+    it('should only run timers once time is advanced past them', () => {
+        const time = new VirtualTimeScheduler();
+        const callback = vi.fn();
+        time.setTimeout(callback, 100);
+
+        expect(time.advanceBy(99)).toBe(0);
+        expect(callback).not.toHaveBeenCalled();
+        expect(time.advanceBy(1)).toBe(1);
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(time.now()).toBe(100);
+        expect(time.pending).toBe(0);
+    });
+
+    it('should run timers in due order and read the due time inside callbacks', () => {
+        const time = new VirtualTimeScheduler(1000);
+        const seen: Array<[string, number]> = [];
+        time.setTimeout(() => seen.push(['b', time.now()]), 20);
+        time.setTimeout(() => seen.push(['a', time.now()]), 10);
+        time.setTimeout(() => seen.push(['c', time.now()]), 20);
+
+        time.advanceBy(50);
+
+        expect(seen).toEqual([
+            ['a', 1010],
+            ['b', 1020],
+            ['c', 1020],
+        ]);
+        expect(time.now()).toBe(1050);
+    });
+
+    it('should repeat intervals until cleared', () => {
+        const time = new VirtualTimeScheduler();
+        const ticks: number[] = [];
+        const handle = time.setInterval(() => ticks.push(time.now()), 25);
+
+        time.advanceBy(100);
+        time.clearInterval(handle);
+        time.advanceBy(100);
+
+        expect(ticks).toEqual([25, 50, 75, 100]);
+        expect(() => time.setInterval(() => {}, 0)).toThrow(RangeError);
+    });
+
+    it('should run timers scheduled by other timers within the same advance', () => {
+        const time = new VirtualTimeScheduler();
+        const callback = vi.fn();
+        time.setTimeout(() => time.setTimeout(callback, 10), 10);
+
+        time.advanceBy(20);
+
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush pending timers and refuse to flush a running interval forever', () => {
+        const time = new VirtualTimeScheduler();
+        const callback = vi.fn();
+        time.setTimeout(callback, 5000);
+
+        expect(time.flush()).toBe(1);
+        expect(time.now()).toBe(5000);
+
+        time.setInterval(() => {}, 10);
+        expect(() => time.flush(50)).toThrow(EventError);
+    });
+
+    it('should reject moving time backwards', () => {
+        const time = new VirtualTimeScheduler();
+
+        expect(() => time.advanceBy(-1)).toThrow(RangeError);
+        expect(() => time.advanceBy(NaN)).toThrow(RangeError);
+    });
+
+    it('should default to real time', () => {
+        expect(Object.isFrozen(realTimeScheduler)).toBe(true);
+        expect(typeof realTimeScheduler.now()).toBe('number');
+    });
+});
+
+describe('EventScheduler with virtual time', () => {
+    it('should time out tasks on the virtual clock', async () => {
+        const time = new VirtualTimeScheduler();
+        const scheduler = new EventScheduler({ timeScheduler: time });
+
+        const result = scheduler.schedule(
+            () => new Promise<void>(() => {}),
+            TaskPriority.NORMAL,
+            500
+        );
+        const rejected = expect(result).rejects.toThrow(/timed out after 500ms/);
+
+        time.advanceBy(499);
+        expect(scheduler.getStats().activeCount).toBe(1);
+        time.advanceBy(1);
+
+        await rejected;
+        scheduler.dispose();
+    });
+
+    it('should wait for the retry delay on the virtual clock', async () => {
+        const time = new VirtualTimeScheduler();
+        const scheduler = new EventScheduler({
+            timeScheduler: time,
+            enableRetries: true,
+            maxRetries: 1,
+            retryDelay: 200,
+        });
+        let attempts = 0;
+
+        const result = scheduler.schedule(async () => {
+            if (++attempts === 1) throw new Error('first attempt');
+            return attempts;
+        });
+
+        await settle();
+        expect(attempts).toBe(1);
+        time.advanceBy(200);
+
+        await expect(result).resolves.toBe(2);
+        scheduler.dispose();
+    });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    BackpressureOverflowError,
+    BackpressureStrategy,
+    ObserverRegistry,
+    Subject,
+} from '../../observer/index';
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** An async observer whose calls stay pending until released one by one. */
+function slowObserver<T>() {
+    const received: T[] = [];
+    const pending: Array<() => void> = [];
+    const callback = vi.fn(
+        (value: T) =>
+            new Promise<void>((resolve) => {
+                received.push(value);
+                pending.push(resolve);
+            })
+    );
+
+    const releaseNext = async () => {
+        pending.shift()?.();
+        await settle();
+    };
+    const releaseAll = async () => {
+        while (pending.length > 0) {
+            await releaseNext();
+        }
+    };
+
+    return { callback, received, releaseNext, releaseAll };
+}
+
+function subscribe(strategy: BackpressureStrategy, bufferSize?: number) {
+    const subject = new Subject<number>();
+    const observer = slowObserver<number>();
+    const unsubscribe = subject.addObserver(observer.callback, {
+        backpressure: { strategy, bufferSize },
+    });
+    return { subject, id: subject.getObserverId(unsubscribe)!, ...observer };
+}
+
+describe('Subject backpressure', () => {
+    it('should deliver one value at a time and queue the rest in order', async () => {
+        const { subject, received, releaseNext, releaseAll, id } = subscribe('drop-newest', 10);
+
+        [1, 2, 3].forEach((value) => subject.notifySync(value));
+        expect(received).toEqual([1]);
+        expect(subject.getBackpressureMetrics(id)).toMatchObject({
+            queueDepth: 2,
+            inFlight: true,
+        });
+
+        await releaseNext();
+        expect(received).toEqual([1, 2]);
+
+        await releaseAll();
+        expect(received).toEqual([1, 2, 3]);
+        expect(subject.getBackpressureMetrics(id)).toMatchObject({
+            queueDepth: 0,
+            peakQueueDepth: 2,
+            delivered: 3,
+            inFlight: false,
+        });
+    });
+
+    it('should not hold notify open while a slow observer works', async () => {
+        const { subject, received } = subscribe('drop-newest', 10);
+
+        await subject.notify(1);
+        await subject.notify(2);
+
+        expect(received).toEqual([1]);
+    });
+
+    it('should discard incoming values with drop-newest', async () => {
+        const { subject, received, releaseAll, id } = subscribe('drop-newest', 2);
+
+        [1, 2, 3, 4, 5].forEach((value) => subject.notifySync(value));
+        await releaseAll();
+
+        expect(received).toEqual([1, 2, 3]);
+        expect(subject.getBackpressureMetrics(id)?.dropped).toBe(2);
+    });
+
+    it('should evict the oldest queued values with drop-oldest', async () => {
+        const { subject, received, releaseAll } = subscribe('drop-oldest', 2);
+
+        [1, 2, 3, 4, 5].forEach((value) => subject.notifySync(value));
+        await releaseAll();
+
+        expect(received).toEqual([1, 4, 5]);
+    });
+
+    it('should keep only the most recent value with latest', async () => {
+        const { subject, received, releaseAll, id } = subscribe('latest', 50);
+
+        [1, 2, 3, 4].forEach((value) => subject.notifySync(value));
+        await releaseAll();
+
+        expect(received).toEqual([1, 4]);
+        expect(subject.getBackpressureMetrics(id)?.capacity).toBe(1);
+    });
+
+    it('should reject notifications that overflow a bounded queue', async () => {
+        const { subject, received, releaseAll, id } = subscribe('error', 1);
+        const other = vi.fn();
+        subject.addObserver(other);
+
+        subject.notifySync(1);
+        subject.notifySync(2);
+        expect(() => subject.notifySync(3)).toThrow(BackpressureOverflowError);
+        expect(other).toHaveBeenCalledTimes(3);
+        await expect(subject.notify(4)).rejects.toThrow(BackpressureOverflowError);
+
+        await releaseAll();
+        expect(received).toEqual([1, 2]);
+        expect(subject.getBackpressureMetrics(id)?.overflows).toBe(2);
+    });
+
+    it('should make notify wait for room with await', async () => {
+        const { subject, received, releaseNext, releaseAll, id } = subscribe('await', 1);
+
+        await subject.notify(1);
+        await subject.notify(2);
+
+        let accepted = false;
+        const third = subject.notify(3).then(() => (accepted = true));
+        await settle();
+        expect(accepted).toBe(false);
+        expect(subject.getBackpressureMetrics(id)?.waitingProducers).toBe(1);
+        expect(() => subject.notifySync(4)).toThrow(BackpressureOverflowError);
+
+        await releaseNext();
+        await third;
+        expect(accepted).toBe(true);
+
+        await releaseAll();
+        expect(received).toEqual([1, 2, 3]);
+    });
+
+    it('should deliver queued values before completion', async () => {
+        const { subject, received, releaseAll } = subscribe('drop-newest', 5);
+
+        [1, 2].forEach((value) => subject.notifySync(value));
+        const completed = subject.complete();
+        await releaseAll();
+        await completed;
+
+        expect(received).toEqual([1, 2, undefined]);
+    });
+
+    it('should release waiting producers when the observer is removed', async () => {
+        const { subject, callback } = subscribe('await', 1);
+
+        await subject.notify(1);
+        await subject.notify(2);
+        const blocked = subject.notify(3);
+        subject.removeObserver(callback);
+
+        await expect(blocked).resolves.toBe(true);
+    });
+
+    it('should reject invalid buffer sizes', () => {
+        const subject = new Subject<number>();
+
+        expect(() =>
+            subject.addObserver(vi.fn(), {
+                backpressure: { strategy: 'drop-oldest', bufferSize: 0 },
+            })
+        ).toThrow(RangeError);
+    });
+});
+
+describe('ObserverRegistry queue metrics', () => {
+    it('should expose per-observer queue depth', async () => {
+        const registry = new ObserverRegistry();
+        const subject = new Subject<number>();
+        const slow = slowObserver<number>();
+        const slowId = registry.register(subject, slow.callback, {
+            backpressure: { strategy: 'drop-oldest', bufferSize: 4 },
+        });
+        const plainId = registry.register(subject, vi.fn());
+
+        [1, 2, 3].forEach((value) => subject.notifySync(value));
+
+        expect(registry.getQueueMetrics(slowId)).toMatchObject({
+            strategy: 'drop-oldest',
+            queueDepth: 2,
+        });
+        expect(registry.getQueueMetrics(plainId)).toBeUndefined();
+        expect(registry.getQueueDepths()).toEqual(new Map([[slowId, 2]]));
+
+        await slow.releaseAll();
+        expect(registry.getQueueDepths().get(slowId)).toBe(0);
+        registry.dispose();
+    });
+
+    it('should tell apart registrations that share a callback', () => {
+        const registry = new ObserverRegistry();
+        const subject = new Subject<number>();
+        const callback = vi.fn();
+        const plainId = registry.register(subject, callback);
+        const queuedId = registry.register(subject, callback, {
+            backpressure: { strategy: 'latest' },
+        });
+
+        expect(registry.getQueueMetrics(plainId)).toBeUndefined();
+        expect(registry.getQueueMetrics(queuedId)).toMatchObject({ strategy: 'latest' });
+        registry.dispose();
+    });
+});
@@ -0,0 +1,380 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import {
+    MemoryManager,
+    catchError,
+    chain,
+    concatMap,
+    createSubject,
+    distinctUntilChanged,
+    mergeMap,
+    observe,
+    retry,
+    scan,
+    switchMap,
+    withLatestFrom,
+    zip,
+    IObservableSubject,
+} from '../../observer/index';
+import type { EqualityComparer } from '@axrone/utility';
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function record<T>(subject: IObservableSubject<T>) {
+    const events: Array<['next', T] | ['error', string] | ['complete']> = [];
+    observe(subject, {
+        next: (value) => void events.push(['next', value]),
+        error: (error) => void events.push(['error', error.message]),
+        complete: () => void events.push(['complete']),
+    });
+    return events;
+}
+
+describe('Higher-order operators', () => {
+    it('should accumulate with scan and forward completion', async () => {
+        const source = createSubject<number>();
+        const events = record(scan(source, (sum: number, value) => sum + value, 10));
+
+        source.notifySync(1);
+        source.notifySync(2);
+        await source.complete();
+        await settle();
+
+        expect(events).toEqual([['next', 11], ['next', 13], ['complete']]);
+    });
+
+    it('should drop consecutive duplicates using an equality comparer', async () => {
+        const source = createSubject<{ id: number }>();
+        const byId: EqualityComparer<{ id: number }> = {
+            equals: (a, b) => a.id === b.id,
+            hash: (value) => value.id,
+        };
+        const events = record(distinctUntilChanged(source, byId));
+
+        [1, 1, 2, 2, 1].forEach((id) => source.notifySync({ id }));
+        await settle();
+
+        expect(events.map(([, value]) => (value as { id: number }).id)).toEqual([1, 2, 1]);
+    });
+
+    it('should compare with the default equality comparer', async () => {
+        const source = createSubject<number[]>();
+        const events = record(distinctUntilChanged(source));
+
+        source.notifySync([1, 2]);
+        source.notifySync([1, 2]);
+        source.notifySync([3]);
+        await settle();
+
+        expect(events).toEqual([
+            ['next', [1, 2]],
+            ['next', [3]],
+        ]);
+    });
+
+    it('should pair values by index with zip and complete when a source runs dry', async () => {
+        const letters = createSubject<string>();
+        const numbers = createSubject<number>();
+        const events = record(zip(letters, numbers));
+
+        letters.notifySync('a');
+        letters.notifySync('b');
+        numbers.notifySync(1);
+        await letters.complete();
+        numbers.notifySync(2);
+        await settle();
+
+        expect(events).toEqual([['next', ['a', 1]], ['next', ['b', 2]], ['complete']]);
+    });
+
+    it('should combine with the latest values once every other source has emitted', async () => {
+        const clicks = createSubject<string>();
+        const position = createSubject<number>();
+        const events = record(withLatestFrom(clicks, position));
+
+        clicks.notifySync('ignored');
+        position.notifySync(1);
+        position.notifySync(2);
+        clicks.notifySync('click');
+        await position.complete();
+        clicks.notifySync('still');
+        await settle();
+
+        expect(events).toEqual([
+            ['next', ['click', 2]],
+            ['next', ['still', 2]],
+        ]);
+    });
+
+    it('should follow only the latest inner source with switchMap', async () => {
+        const source = createSubject<string>();
+        const inners: Record<string, IObservableSubject<number>> = {
+            a: createSubject<number>(),
+            b: createSubject<number>(),
+        };
+        const events = record(switchMap(source, (key) => inners[key]));
+
+        source.notifySync('a');
+        inners.a.notifySync(1);
+        source.notifySync('b');
+        inners.a.notifySync(2);
+        inners.b.notifySync(3);
+        await source.complete();
+        await settle();
+        expect(events).toEqual([
+            ['next', 1],
+            ['next', 3],
+        ]);
+
+        await inners.b.complete();
+        await settle();
+        expect(events.at(-1)).toEqual(['complete']);
+        expect(inners.a.getObserverCount()).toBe(0);
+    });
+
+    it('should accept promises as inner sources', async () => {
+        const source = createSubject<number>();
+        const events = record(switchMap(source, async (value) => value * 2));
+
+        source.notifySync(4);
+        await settle();
+        await settle();
+
+        expect(events).toEqual([['next', 8]]);
+    });
+
+    it('should limit concurrent inner sources with mergeMap', async () => {
+        const source = createSubject<number>();
+        const inners = [0, 1, 2].map(() => createSubject<string>());
+        const project = vi.fn((index: number) => inners[index]);
+        const events = record(mergeMap(source, project, 2));
+
+        [0, 1, 2].forEach((value) => source.notifySync(value));
+        expect(project).toHaveBeenCalledTimes(2);
+
+        inners[1].notifySync('b');
+        inners[0].notifySync('a');
+        await inners[0].complete();
+        expect(project).toHaveBeenCalledTimes(3);
+
+        inners[2].notifySync('c');
+        await source.complete();
+        await inners[1].complete();
+        await inners[2].complete();
+        await settle();
+
+        expect(events).toEqual([['next', 'b'], ['next', 'a'], ['next', 'c'], ['complete']]);
+        expect(() => mergeMap(source, project, 0)).toThrow(/Concurrency/);
+    });
+
+    it('should run inner sources one after another with concatMap', async () => {
+        const source = createSubject<number>();
+        const inners = [createSubject<number>(), createSubject<number>()];
+        const events = record(concatMap(source, (index) => inners[index]));
+
+        source.notifySync(0);
+        source.notifySync(1);
+        inners[1].notifySync(99);
+        inners[0].notifySync(1);
+        await inners[0].complete();
+        inners[1].notifySync(2);
+        await settle();
+
+        expect(events).toEqual([
+            ['next', 1],
+            ['next', 2],
+        ]);
+    });
+
+    it('should propagate inner errors and release the other subscriptions', async () => {
+        const source = createSubject<number>();
+        const inner = createSubject<number>();
+        const result = mergeMap(source, () => inner);
+        const events = record(result);
+
+        source.notifySync(1);
+        await inner.error(new Error('inner failed'));
+        await settle();
+
+        expect(events).toEqual([['error', 'inner failed']]);
+        expect(source.getObserverCount()).toBe(0);
+        expect(inner.getObserverCount()).toBe(0);
+    });
+
+    it('should report errors thrown by projections', async () => {
+        const source = createSubject<number>();
+        const events = record(
+            switchMap(source, (): IObservableSubject<number> => {
+                throw new Error('bad projection');
+            })
+        );
+
+        source.notifySync(1);
+        await settle();
+
+        expect(events).toEqual([['error', 'bad projection']]);
+    });
+
+    it('should track inner subjects in the memory manager until released', async () => {
+        const memoryManager = new MemoryManager({ gcIntervalMs: 0 });
+        const source = createSubject<number>();
+        const inner = createSubject<number>();
+        const result = switchMap(source, () => inner, memoryManager);
+
+        source.notifySync(1);
+        expect(memoryManager.getTrackedSubjects()).toEqual([inner.id]);
+
+        result.dispose();
+        expect(memoryManager.getTrackedSubjects()).toEqual([]);
+        expect(inner.getObserverCount()).toBe(0);
+        expect(source.getObserverCount()).toBe(0);
+    });
+
+    it('should resubscribe through a factory when retrying', async () => {
+        const attempts: Array<IObservableSubject<number>> = [];
+        const events = record(
+            retry(() => {
+                const attempt = createSubject<number>();
+                attempts.push(attempt);
+                return attempt;
+            }, 1)
+        );
+
+        attempts[0].notifySync(1);
+        await attempts[0].error(new Error('first'));
+        attempts[1].notifySync(2);
+        await attempts[1].error(new Error('second'));
+        await settle();
+
+        expect(events).toEqual([
+            ['next', 1],
+            ['next', 2],
+            ['error', 'second'],
+        ]);
+        expect(attempts).toHaveLength(2);
+    });
+
+    it('should tolerate errors on a plain subject when retrying', async () => {
+        const source = createSubject<number>();
+        const events = record(retry(source, 1));
+
+        await source.error(new Error('once'));
+        source.notifySync(1);
+        await source.error(new Error('twice'));
+        await settle();
+
+        expect(events).toEqual([
+            ['next', 1],
+            ['error', 'twice'],
+        ]);
+    });
+
+    it('should switch to a fallback source or complete with catchError', async () => {
+        const source = createSubject<number>();
+        const fallback = createSubject<number>();
+        const events = record(catchError(source, () => fallback));
+
+        source.notifySync(1);
+        await source.error(new Error('boom'));
+        source.notifySync(2);
+        fallback.notifySync(3);
+        await fallback.complete();
+        await settle();
+
+        expect(events).toEqual([['next', 1], ['next', 3], ['complete']]);
+
+        const other = createSubject<number>();
+        const completed = record(catchError(other, () => undefined));
+        await other.error(new Error('ignored'));
+        await settle();
+        expect(completed).toEqual([['complete']]);
+    });
+});
+
+describe('ObserverChain higher-order operators', () => {
+    it('should apply plain operators before and after a higher-order step', async () => {
+        const source = createSubject<number>();
+        const observer = vi.fn();
+        chain(source)
+            .filter((value) => value > 0)
+            .scan((sum: number, value) => sum + value, 0)
+            .map((sum) => `total:${sum}`)
+            .subscribe(observer);
+
+        [1, -5, 2, 3].forEach((value) => source.notifySync(value));
+        await settle();
+
+        expect(observer.mock.calls.map(([value]) => value)).toEqual([
+            'total:1',
+            'total:3',
+            'total:6',
+        ]);
+    });
+
+    it('should tear down the pipeline on unsubscribe', async () => {
+        const source = createSubject<number>();
+        const inner = createSubject<string>();
+        const observer = vi.fn();
+        const unsubscribe = chain(source)
+            .map((value) => value * 2)
+            .switchMap(() => inner)
+            .distinctUntilChanged()
+            .subscribe(observer);
+
+        source.notifySync(1);
+        await settle();
+        inner.notifySync('x');
+        inner.notifySync('x');
+        await settle();
+        expect(observer).toHaveBeenCalledTimes(1);
+
+        expect(unsubscribe()).toBe(true);
+        expect(source.getObserverCount()).toBe(0);
+        expect(inner.getObserverCount()).toBe(0);
+    });
+
+    it('should zip and combine from the chain', async () => {
+        const source = createSubject<number>();
+        const labels = createSubject<string>();
+        const zipped = vi.fn();
+        const combined = vi.fn();
+        chain(source).zip(labels).subscribe(zipped);
+        chain(source).withLatestFrom(labels).subscribe(combined);
+
+        labels.notifySync('a');
+        source.notifySync(1);
+        await settle();
+
+        expect(zipped.mock.calls[0][0]).toEqual([1, 'a']);
+        expect(combined.mock.calls[0][0]).toEqual([1, 'a']);
+        expectTypeOf(chain(source).zip(labels).subscribe)
+            .parameter(0)
+            .parameter(0)
+            .toEqualTypeOf<[number, string]>();
+        expectTypeOf(chain(source).withLatestFrom(labels).subscribe)
+            .parameter(0)
+            .parameter(0)
+            .toEqualTypeOf<[number, string]>();
+    });
+
+    it('should keep the chain alive through catchError', async () => {
+        const source = createSubject<number>();
+        const observer = vi.fn();
+        chain(source)
+            .concatMap(async (value) => {
+                if (value < 0) throw new Error('negative');
+                return value;
+            })
+            .catchError(() => undefined)
+            .subscribe(observer);
+
+        source.notifySync(1);
+        await settle();
+        await settle();
+        source.notifySync(-1);
+        await settle();
+        await settle();
+
+        // Completion reaches chain subscribers as a final undefined, like any completed subject.
+        expect(observer.mock.calls.map(([value]) => value)).toEqual([1, undefined]);
+    });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    BackpressureOverflowError,
+    Subject,
+    createSubject,
+    fromEmitter,
+    fromEventTarget,
+    observableKey,
+    toAsyncIterator,
+    toEmitter,
+} from '../../observer/index';
+import { EventEmitter } from '../../event/index';
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const values: T[] = [];
+    for await (const value of iterable) {
+        values.push(value);
+    }
+    return values;
+}
+
+describe('Subject async iteration', () => {
+    it('should yield values with for await until completion', async () => {
+        const subject = new Subject<number>();
+        const collected = collect(subject);
+
+        subject.notifySync(1);
+        subject.notifySync(2);
+        await subject.complete();
+
+        await expect(collected).resolves.toEqual([1, 2]);
+        expect(subject.getObserverCount()).toBe(0);
+    });
+
+    it('should use the subject buffering options for slow consumers', async () => {
+        const subject = new Subject<number>({
+            asyncIteration: { bufferSize: 2, strategy: 'drop-oldest' },
+        });
+        const iterator = subject[Symbol.asyncIterator]();
+
+        [1, 2, 3, 4].forEach((value) => subject.notifySync(value));
+        await subject.complete();
+
+        await expect(collect(iterator)).resolves.toEqual([3, 4]);
+    });
+
+    it.each([
+        ['drop-newest', [1, 2]],
+        ['latest', [4]],
+    ] as const)('should buffer with %s', async (strategy, expected) => {
+        const subject = createSubject<number>();
+        const iterator = toAsyncIterator(subject, { bufferSize: 2, strategy });
+
+        [1, 2, 3, 4].forEach((value) => subject.notifySync(value));
+        await subject.complete();
+
+        await expect(collect(iterator)).resolves.toEqual(expected);
+    });
+
+    it('should yield buffered values before failing on overflow', async () => {
+        const subject = createSubject<number>();
+        const iterator = toAsyncIterator(subject, { bufferSize: 1, strategy: 'error' });
+
+        subject.notifySync(1);
+        subject.notifySync(2);
+
+        await expect(iterator.next()).resolves.toEqual({ value: 1, done: false });
+        await expect(iterator.next()).rejects.toThrow(BackpressureOverflowError);
+        await expect(iterator.next()).resolves.toEqual({ value: undefined, done: true });
+        expect(subject.getObserverCount()).toBe(0);
+    });
+
+    it('should reject pending pulls when the subject errors', async () => {
+        const subject = createSubject<number>();
+        const iterator = toAsyncIterator(subject);
+
+        const pending = iterator.next();
+        await subject.error(new Error('broken'));
+
+        await expect(pending).rejects.toThrow('broken');
+    });
+
+    it('should unsubscribe when the loop breaks early', async () => {
+        const subject = createSubject<number>();
+        const received: number[] = [];
+        const loop = (async () => {
+            for await (const value of subject) {
+                received.push(value);
+                if (value === 2) break;
+            }
+        })();
+
+        [1, 2, 3].forEach((value) => subject.notifySync(value));
+        await loop;
+
+        expect(received).toEqual([1, 2]);
+        expect(subject.getObserverCount()).toBe(0);
+    });
+});
+
+describe('Symbol.observable interop', () => {
+    it('should expose an interop observable under the observable key', async () => {
+        const subject = createSubject<string>();
+        const interop = (subject as any)[observableKey]();
+        expect(interop[observableKey]()).toBe(interop);
+
+        const next = vi.fn();
+        const complete = vi.fn();
+        const subscription = interop.subscribe({ next, complete });
+
+        subject.notifySync('a');
+        await subject.complete();
+
+        expect(next.mock.calls).toEqual([['a']]);
+        expect(complete).toHaveBeenCalledTimes(1);
+        expect(subscription.closed).toBe(true);
+    });
+
+    it('should accept a plain function and stop after unsubscribe', () => {
+        const subject = createSubject<number>();
+        const next = vi.fn();
+        const subscription = (subject as any)[observableKey]().subscribe(next);
+
+        subject.notifySync(1);
+        subscription.unsubscribe();
+        subject.notifySync(2);
+
+        expect(next.mock.calls).toEqual([[1]]);
+        expect(subject.getObserverCount()).toBe(0);
+    });
+});
+
+describe('Event bridges', () => {
+    it('should emit DOM-style events and remove the listener on dispose', () => {
+        const target = new EventTarget();
+        const removeSpy = vi.spyOn(target, 'removeEventListener');
+        const subject = fromEventTarget<CustomEvent<number>>(target, 'tick');
+        const observer = vi.fn();
+        subject.addObserver(observer);
+
+        target.dispatchEvent(new CustomEvent('tick', { detail: 7 }));
+        expect(observer.mock.calls[0][0].detail).toBe(7);
+
+        subject.dispose();
+        target.dispatchEvent(new CustomEvent('tick', { detail: 8 }));
+        expect(observer).toHaveBeenCalledTimes(1);
+        expect(removeSpy).toHaveBeenCalledWith('tick', expect.any(Function), undefined);
+    });
+
+    it('should complete after the first event with a once listener', async () => {
+        const target = new EventTarget();
+        const subject = fromEventTarget(target, 'ready', { listener: { once: true } });
+
+        target.dispatchEvent(new Event('ready'));
+        await settle();
+
+        expect(subject.isCompleted()).toBe(true);
+    });
+
+    it('should bridge an event emitter into a subject', async () => {
+        const emitter = new EventEmitter<{ score: number }>();
+        const subject = fromEmitter(emitter, 'score');
+        const observer = vi.fn();
+        subject.addObserver(observer);
+
+        await emitter.emit('score', 10);
+        expect(observer.mock.calls[0][0]).toBe(10);
+
+        subject.dispose();
+        expect(emitter.listenerCount('score')).toBe(0);
+    });
+
+    it('should forward subject values to an emitter until completion', async () => {
+        const subject = createSubject<string>();
+        const emitter = toEmitter<{ message: string }, 'message'>(subject, 'message');
+        const listener = vi.fn();
+        emitter.on('message', listener);
+
+        subject.notifySync('hello');
+        await settle();
+        await subject.complete();
+        await settle();
+
+        expect(listener.mock.calls).toEqual([['hello']]);
+        expect(subject.getObserverCount()).toBe(0);
+    });
+
+    it('should keep forwarding when an emitter listener throws', async () => {
+        const subject = createSubject<string>();
+        const emitter = toEmitter<{ message: string; error: Error }, 'message'>(subject, 'message');
+        const failing = vi.fn(() => {
+            throw new Error('listener failed');
+        });
+        const listener = vi.fn();
+        const errors = vi.fn();
+        emitter.on('message', failing);
+        emitter.on('message', listener);
+        emitter.on('error', errors);
+
+        subject.notifySync('first');
+        await settle();
+        subject.notifySync('second');
+        await settle();
+
+        expect(failing).toHaveBeenCalledTimes(2);
+        expect(listener.mock.calls).toEqual([['first'], ['second']]);
+        expect(errors).toHaveBeenCalledTimes(2);
+        expect(subject.getObserverCount()).toBe(1);
+    });
+});
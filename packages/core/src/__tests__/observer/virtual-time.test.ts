@@ -0,0 +1,195 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    BehaviorSubject,
+    ObserverExecutionError,
+    ObserverUtils,
+    VirtualTimeScheduler,
+    chain,
+    createSubject,
+    debounce,
+    throttle,
+} from '../../observer/index';
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Observers on virtual time', () => {
+    it('should debounce subject observers on the subject scheduler', () => {
+        const time = new VirtualTimeScheduler();
+        const subject = createSubject<number>({ scheduler: time });
+        const observer = vi.fn();
+        subject.addObserver(observer, { debounceMs: 100 });
+
+        subject.notifySync(1);
+        time.advanceBy(50);
+        subject.notifySync(2);
+        time.advanceBy(99);
+        expect(observer).not.toHaveBeenCalled();
+
+        time.advanceBy(1);
+        expect(observer).toHaveBeenCalledTimes(1);
+        expect(observer.mock.calls[0][0]).toBe(2);
+        subject.dispose();
+    });
+
+    it('should throttle subject observers on the subject scheduler', () => {
+        const time = new VirtualTimeScheduler();
+        const subject = createSubject<number>({ scheduler: time });
+        const observer = vi.fn();
+        subject.addObserver(observer, { throttleMs: 100 });
+
+        subject.notifySync(1);
+        time.advanceBy(60);
+        subject.notifySync(2);
+        time.advanceBy(40);
+        subject.notifySync(3);
+
+        expect(observer.mock.calls.map(([value]) => value)).toEqual([1, 3]);
+        subject.dispose();
+    });
+
+    it('should let an observer override the subject scheduler', () => {
+        const time = new VirtualTimeScheduler();
+        const subject = createSubject<string>();
+        const observer = vi.fn();
+        subject.addObserver(observer, { debounceMs: 1000, scheduler: time });
+
+        subject.notifySync('late');
+        time.advanceBy(1000);
+
+        expect(observer).toHaveBeenCalledTimes(1);
+        subject.dispose();
+    });
+
+    it('should deliver the current behavior value on the subject scheduler', () => {
+        const time = new VirtualTimeScheduler();
+        const subject = new BehaviorSubject('ready', { scheduler: time });
+        const observer = vi.fn();
+
+        subject.addObserver(observer);
+        expect(observer).not.toHaveBeenCalled();
+
+        time.advanceBy(0);
+        expect(observer).toHaveBeenCalledWith('ready', subject);
+        subject.dispose();
+    });
+
+    it('should drive chain debounce through the chain scheduler', async () => {
+        const time = new VirtualTimeScheduler();
+        const subject = createSubject<number>();
+        const observer = vi.fn();
+        chain(subject, time)
+            .map((value) => value * 10)
+            .debounce(20)
+            .subscribe(observer);
+
+        await subject.notify(1);
+        await subject.notify(2);
+        time.advanceBy(20);
+        await settle();
+
+        expect(observer.mock.calls.map(([value]) => value)).toEqual([20]);
+        subject.dispose();
+    });
+
+    it('should emit chain buffers when full or when the flush interval elapses', () => {
+        const time = new VirtualTimeScheduler();
+        const subject = createSubject<number>();
+        const observer = vi.fn();
+        const unsubscribe = chain(subject, time).buffer(3, 100).subscribe(observer);
+
+        [1, 2, 3, 4].forEach((value) => subject.notifySync(value));
+        expect(observer.mock.calls.map(([batch]) => batch)).toEqual([[1, 2, 3]]);
+
+        time.advanceBy(100);
+        time.advanceBy(100);
+        expect(observer.mock.calls.map(([batch]) => batch)).toEqual([[1, 2, 3], [4]]);
+
+        unsubscribe();
+        expect(time.pending).toBe(0);
+        subject.dispose();
+    });
+
+    it('should raise interval flush failures as observer execution errors', () => {
+        const time = new VirtualTimeScheduler();
+        const subject = createSubject<number>();
+        chain(subject, time)
+            .buffer(10, 100)
+            .subscribe(() => {
+                throw new Error('flush failed');
+            });
+
+        subject.notifySync(1);
+
+        expect(() => time.advanceBy(100)).toThrow(ObserverExecutionError);
+        subject.dispose();
+    });
+
+    it('should contain rejected async flushes', async () => {
+        const time = new VirtualTimeScheduler();
+        const subject = createSubject<number>();
+        const observer = vi.fn(async () => {
+            throw new Error('flush failed');
+        });
+        chain(subject, time).buffer(10, 100).subscribe(observer);
+
+        subject.notifySync(1);
+        time.advanceBy(100);
+        await settle();
+
+        expect(observer).toHaveBeenCalledWith([1], subject);
+        subject.dispose();
+    });
+
+    it('should keep real-time buffer chains on per-value delivery', () => {
+        const subject = createSubject<number>();
+        const observer = vi.fn();
+        const unsubscribe = chain(subject).buffer(3, 100).subscribe(observer);
+
+        [1, 2].forEach((value) => subject.notifySync(value));
+
+        expect(observer.mock.calls.map(([value]) => value)).toEqual([1, 2]);
+        unsubscribe();
+        subject.dispose();
+    });
+
+    it('should run standalone debounce and throttle on a given scheduler', async () => {
+        const time = new VirtualTimeScheduler();
+        const source = createSubject<number>();
+        const debounced = vi.fn();
+        const throttled = vi.fn();
+        debounce(source, 50, time).addObserver(debounced);
+        throttle(source, 50, time).addObserver(throttled);
+
+        source.notifySync(1);
+        source.notifySync(2);
+        time.advanceBy(50);
+        source.notifySync(3);
+
+        expect(throttled.mock.calls.map(([value]) => value)).toEqual([1, 3]);
+        await settle();
+        expect(debounced.mock.calls.map(([value]) => value)).toEqual([2]);
+        source.dispose();
+    });
+
+    it('should tick intervals and timers on virtual time', async () => {
+        const time = new VirtualTimeScheduler();
+        const ticks = vi.fn();
+        const interval = ObserverUtils.interval(10, time);
+        interval.addObserver(ticks);
+
+        time.advanceBy(35);
+        await settle();
+        expect(ticks.mock.calls.map(([value]) => value)).toEqual([0, 1, 2]);
+
+        interval.dispose();
+        expect(time.pending).toBe(0);
+
+        const timer = ObserverUtils.timer(100, undefined, time);
+        const fired = vi.fn();
+        timer.addObserver(fired);
+        time.flush();
+        await settle();
+        expect(fired.mock.calls[0][0]).toBe(0);
+        expect(timer.isCompleted()).toBe(true);
+    });
+});
@@ -0,0 +1,279 @@
+import { AnimationClip, AnimationTrack, Animator, resolveEasing } from '../../tween';
+import { Easing } from '../../tween/easing-functions';
+import { Transform } from '../../component-system/components/transform';
+
+function rampClip(name: string, path: string, from: number, to: number, duration = 100) {
+    const clip = new AnimationClip(name);
+    clip.addTrack(path, [
+        { time: 0, value: from },
+        { time: duration, value: to },
+    ]);
+    return clip;
+}
+
+describe('Animation Clips', () => {
+    describe('Track sampling', () => {
+        test('step keys hold their value until the next key', () => {
+            const track = new AnimationTrack('x', [
+                { time: 0, value: 1, interpolation: 'step' },
+                { time: 100, value: 5 },
+            ]);
+
+            expect(track.sample(99)).toBe(1);
+            expect(track.sample(100)).toBe(5);
+        });
+
+        test('linear keys interpolate and apply named easing', () => {
+            const track = new AnimationTrack('x', [
+                { time: 100, value: 10, easing: 'Quadratic.In' },
+                { time: 0, value: 0 },
+                { time: 200, value: 20 },
+            ]);
+
+            expect(track.startTime).toBe(0);
+            expect(track.sample(-50)).toBe(0);
+            expect(track.sample(50)).toBeCloseTo(5);
+            expect(track.sample(150)).toBeCloseTo(10 + 10 * Easing.Quadratic.In(0.5));
+            expect(track.sample(500)).toBe(20);
+        });
+
+        test('bezier keys follow their tangents', () => {
+            const flat = new AnimationTrack('x', [
+                { time: 0, value: 0, interpolation: 'bezier', outTangent: 0 },
+                { time: 100, value: 10, inTangent: 0 },
+            ]);
+            const steep = new AnimationTrack('x', [
+                { time: 0, value: 0, interpolation: 'bezier', outTangent: 0.3 },
+                { time: 100, value: 10, inTangent: 0 },
+            ]);
+
+            expect(flat.sample(50)).toBeCloseTo(5);
+            expect(flat.sample(10) as number).toBeLessThan(1);
+            expect(steep.sample(10)).toBeGreaterThan(flat.sample(10) as number);
+        });
+
+        test('bezier keys derive tangents from neighbours when omitted', () => {
+            const track = new AnimationTrack('x', [
+                { time: 0, value: 0, interpolation: 'bezier' },
+                { time: 100, value: 10, interpolation: 'bezier' },
+                { time: 200, value: 20 },
+            ]);
+
+            expect(track.sample(50)).toBeCloseTo(5);
+            expect(track.sample(150)).toBeCloseTo(15);
+        });
+
+        test('vector tracks interpolate per component', () => {
+            const track = new AnimationTrack('position', [
+                { time: 0, value: [0, 0, 0] },
+                { time: 100, value: [10, 20, 30] },
+            ]);
+
+            expect(track.sample(50)).toEqual([5, 10, 15]);
+        });
+
+        test('vector samples are copies of the keyframe values', () => {
+            const track = new AnimationTrack('position', [
+                { time: 0, value: [1, 2], interpolation: 'step' },
+                { time: 100, value: [3, 4] },
+            ]);
+
+            for (const time of [-10, 50, 200]) {
+                (track.sample(time) as number[]).fill(99);
+            }
+
+            expect(track.sample(0)).toEqual([1, 2]);
+            expect(track.sample(50)).toEqual([1, 2]);
+            expect(track.sample(100)).toEqual([3, 4]);
+        });
+
+        test('invalid keyframes are rejected', () => {
+            expect(() => new AnimationTrack('x', [])).toThrow();
+            expect(() => new AnimationTrack('x', [{ time: -1, value: 0 }])).toThrow(RangeError);
+            expect(
+                () =>
+                    new AnimationTrack('x', [
+                        { time: 0, value: 0 },
+                        { time: 1, value: [1] },
+                    ])
+            ).toThrow();
+            expect(
+                () => new AnimationTrack('x', [{ time: 0, value: 0, easing: 'Nope.In' }])
+            ).toThrow(/Unknown easing/);
+            expect(resolveEasing('Cubic.InOut')).toBe(Easing.Cubic.InOut);
+        });
+    });
+
+    describe('Clips', () => {
+        test('duration comes from the longest track unless given', () => {
+            const clip = rampClip('walk', 'x', 0, 1, 100);
+            clip.addTrack('y', [
+                { time: 0, value: 0 },
+                { time: 250, value: 1 },
+            ]);
+
+            expect(clip.duration).toBe(250);
+            expect(new AnimationClip('empty', [], { duration: 40 }).duration).toBe(40);
+        });
+
+        test('wrap modes map playback time onto the clip', () => {
+            const clip = rampClip('bob', 'y', 0, 10, 100);
+
+            expect(clip.localTime(150)).toBe(100);
+            clip.wrapMode = 'loop';
+            expect(clip.localTime(150)).toBe(50);
+            clip.wrapMode = 'pingpong';
+            expect(clip.localTime(150)).toBe(50);
+            expect(clip.localTime(175)).toBe(25);
+            expect(clip.sample(175).get('y')).toBeCloseTo(2.5);
+        });
+
+        test('clips round-trip through JSON', () => {
+            const clip = new AnimationClip('jump', [], { wrapMode: 'loop' });
+            clip.addTrack('position', [
+                { time: 0, value: [0, 0], interpolation: 'bezier', outTangent: [0, 0.1] },
+                { time: 100, value: [0, 10], easing: 'Back.Out' },
+                { time: 200, value: [0, 0] },
+            ]);
+
+            const restored = AnimationClip.fromJSON(JSON.stringify(clip));
+
+            expect(restored.name).toBe('jump');
+            expect(restored.wrapMode).toBe('loop');
+            expect(restored.toJSON()).toEqual(clip.toJSON());
+            expect(restored.sample(40).get('position')).toEqual(clip.sample(40).get('position'));
+            expect(() => AnimationClip.fromJSON('{"tracks": 1}')).toThrow(/Invalid/);
+        });
+    });
+});
+
+describe('Animator', () => {
+    test('plays clips on nested object paths', () => {
+        const target = { body: { offset: { x: 0, y: 0 } } };
+        const animator = new Animator(target);
+
+        animator.play(rampClip('slide', 'body.offset.x', 0, 10)).advance(50);
+        expect(target.body.offset.x).toBeCloseTo(5);
+
+        animator.advance(100);
+        expect(target.body.offset.x).toBe(10);
+    });
+
+    test('writes Transform properties through their setters', () => {
+        const transform = new Transform();
+        const clip = new AnimationClip('rise');
+        clip.addTrack('position', [
+            { time: 0, value: [0, 0, 0] },
+            { time: 100, value: [2, 4, 6] },
+        ]);
+        clip.addTrack('scale.y', [
+            { time: 0, value: 1 },
+            { time: 100, value: 3 },
+        ]);
+        const animator = new Animator(transform);
+
+        expect(transform.worldPosition.y).toBe(0);
+        animator.play(clip).advance(50);
+
+        expect(transform.position.x).toBeCloseTo(1);
+        expect(transform.worldPosition.y).toBeCloseTo(2);
+        expect(transform.worldScale.y).toBeCloseTo(2);
+    });
+
+    test('crossfades between clips on a layer', () => {
+        const target = { x: 0 };
+        const idle = rampClip('idle', 'x', 0, 0);
+        const run = rampClip('run', 'x', 10, 10);
+        const animator = new Animator(target);
+
+        animator.play(idle).crossFade(run, 100).advance(50);
+        expect(animator.getClipWeight(idle)).toBeCloseTo(0.5);
+        expect(animator.getClipWeight(run)).toBeCloseTo(0.5);
+        expect(target.x).toBeCloseTo(5);
+
+        animator.advance(50);
+        expect(animator.getClipWeight(idle)).toBe(0);
+        expect(animator.getClipTime(idle)).toBeUndefined();
+        expect(target.x).toBe(10);
+    });
+
+    test('blends weighted clips and falls back to the rest pose', () => {
+        const target = { x: 4 };
+        const left = rampClip('left', 'x', -10, -10);
+        const right = rampClip('right', 'x', 10, 10);
+        const animator = new Animator(target);
+
+        animator.blend(left, 0.25).advance(0);
+        expect(target.x).toBeCloseTo(4 * 0.75 - 10 * 0.25);
+
+        animator.blend(right, 0.75).advance(0);
+        expect(target.x).toBeCloseTo(-10 * 0.25 + 10 * 0.75);
+
+        animator.restore();
+        expect(target.x).toBe(4);
+    });
+
+    test('adds additive layers on top of the base pose', () => {
+        const target = { y: 0 };
+        const walk = rampClip('walk', 'y', 100, 100);
+        const breathe = rampClip('breathe', 'y', 0, 2);
+        const animator = new Animator(target).addLayer('breath', {
+            blendMode: 'additive',
+            weight: 0.5,
+        });
+
+        animator.play(walk).play(breathe, { layer: 'breath' }).advance(100);
+
+        expect(target.y).toBeCloseTo(101);
+    });
+
+    test('masks restrict a layer to the listed paths', () => {
+        const target = { x: 0, y: 0 };
+        const base = new AnimationClip('base');
+        base.addTrack('x', [{ time: 0, value: 1 }]);
+        base.addTrack('y', [{ time: 0, value: 1 }]);
+        const wave = new AnimationClip('wave');
+        wave.addTrack('x', [{ time: 0, value: 5 }]);
+        wave.addTrack('y', [{ time: 0, value: 5 }]);
+
+        const animator = new Animator(target).addLayer('upper', { mask: ['x'] });
+        animator.play(base).play(wave, { layer: 'upper' }).evaluate();
+
+        expect(target).toEqual({ x: 5, y: 1 });
+    });
+
+    test('runs on absolute time and reports finished clips', () => {
+        const target = { x: 0 };
+        const clip = rampClip('once', 'x', 0, 10);
+        const animator = new Animator(target).play(clip);
+        const finished = vi.fn();
+        animator.on('finished', finished);
+
+        animator.update(1000);
+        expect(target.x).toBe(0);
+
+        animator.start(1000);
+        animator.update(1050);
+        expect(target.x).toBeCloseTo(5);
+
+        animator.pause();
+        animator.update(5000);
+        expect(target.x).toBeCloseTo(5);
+
+        animator.resume();
+        animator.update(6000);
+        animator.update(6060);
+        expect(target.x).toBe(10);
+        expect(finished).toHaveBeenCalledTimes(1);
+        expect(finished).toHaveBeenCalledWith({ clip: 'once', layer: 'base' });
+    });
+
+    test('rejects unknown and duplicate layers', () => {
+        const animator = new Animator({});
+
+        expect(() => animator.addLayer('base')).toThrow(/already exists/);
+        expect(() => animator.play(rampClip('a', 'x', 0, 1), { layer: 'missing' })).toThrow(
+            /Unknown animation layer/
+        );
+    });
+});
@@ -5,10 +5,13 @@ import type {
     BitMask,
     Entity,
     ComponentMask,
+    ComponentConstructor,
 } from '../types/core';
 import type { IArchetype } from '../types/archetype';
 import type { IComponentPool } from '../types/component';
 import { ComponentPool } from '../memory/component-pool';
+import { TypedColumnStorage } from '../memory/typed-columns';
+import { isTypedComponent } from '../schema/define-component';
 
 export class Archetype<R extends ComponentRegistry> implements IArchetype<R> {
     readonly id: ArchetypeId;
@@ -17,6 +20,7 @@ export class Archetype<R extends ComponentRegistry> implements IArchetype<R> {
     readonly entities: Entity[] = [];
     readonly components = new Map<string, IComponentPool<any>>();
     readonly edges = new Map<string, ArchetypeId>();
+    readonly changeTicks = new Map<string, number[]>();
 
     entityCount = 0;
 
@@ -35,17 +39,34 @@ export class Archetype<R extends ComponentRegistry> implements IArchetype<R> {
         for (const componentName of signature) {
             const Constructor = registry[componentName];
             if (Constructor) {
-                this.components.set(componentName, new ComponentPool(Constructor));
+                this.components.set(
+                    componentName,
+                    isTypedComponent(Constructor)
+                        ? new TypedColumnStorage(Constructor)
+                        : new ComponentPool(Constructor)
+                );
+                this.changeTicks.set(componentName, []);
             }
         }
     }
 
-    addEntity(entity: Entity, components: Record<string, any> = {}): void {
+    addEntity(
+        entity: Entity,
+        components: Record<string, any> = {},
+        ticks: Record<string, number> = {}
+    ): void {
         const index = this.entityCount;
         this.entities[index] = entity;
         this.entityToIndex.set(entity, index);
 
         for (const [componentName, pool] of this.components) {
+            this.changeTicks.get(componentName)![index] = ticks[componentName] ?? 0;
+
+            if (pool instanceof TypedColumnStorage) {
+                pool.insert(index, entity, components[componentName]);
+                continue;
+            }
+
             const component = components[componentName] || pool.acquire();
             pool.dense[index] = component;
             pool.entities[index] = entity;
@@ -65,6 +86,17 @@ export class Archetype<R extends ComponentRegistry> implements IArchetype<R> {
         const removedComponents: Record<string, any> = {};
 
         for (const [componentName, pool] of this.components) {
+            const ticks = this.changeTicks.get(componentName)!;
+            if (index !== lastIndex) {
+                ticks[index] = ticks[lastIndex];
+            }
+            ticks.length = lastIndex;
+
+            if (pool instanceof TypedColumnStorage) {
+                removedComponents[componentName] = pool.remove(index, lastIndex);
+                continue;
+            }
+
             const component = pool.dense[index];
             removedComponents[componentName] = component;
 
@@ -90,6 +122,19 @@ export class Archetype<R extends ComponentRegistry> implements IArchetype<R> {
         return removedComponents;
     }
 
+    getColumns(componentName: string): TypedColumnStorage<any>['columns'] | undefined {
+        const pool = this.components.get(componentName);
+        return pool instanceof TypedColumnStorage ? pool.columns : undefined;
+    }
+
+    dispose(): void {
+        for (const pool of this.components.values()) {
+            if (pool instanceof TypedColumnStorage) {
+                pool.dispose();
+            }
+        }
+    }
+
     hasEntity(entity: Entity): boolean {
         return this.entityToIndex.has(entity);
     }
@@ -101,4 +146,61 @@ export class Archetype<R extends ComponentRegistry> implements IArchetype<R> {
         const pool = this.components.get(componentName);
         return pool?.dense[index] as T;
     }
+
+    setComponent(entity: Entity, componentName: string, component: object): boolean {
+        const index = this.entityToIndex.get(entity);
+        const pool = this.components.get(componentName);
+        if (index === undefined || !pool || pool instanceof TypedColumnStorage) return false;
+
+        pool.dense[index] = component;
+        return true;
+    }
+
+    replaceComponentType(
+        componentName: string,
+        Constructor: ComponentConstructor<any>,
+        convert: (component: any, entity: Entity) => object
+    ): void {
+        const previous = this.components.get(componentName);
+        if (!previous || previous instanceof TypedColumnStorage) return;
+
+        const pool = new ComponentPool(Constructor);
+        for (let i = 0; i < this.entityCount; i++) {
+            const entity = this.entities[i];
+            pool.dense[i] = convert(previous.dense[i], entity);
+            pool.entities[i] = entity;
+            pool.sparse[entity] = i;
+        }
+        pool.size = this.entityCount;
+
+        this.components.set(componentName, pool);
+    }
+
+    getChangeTick(entity: Entity, componentName: string): number | undefined {
+        const index = this.entityToIndex.get(entity);
+        if (index === undefined) return undefined;
+
+        return this.changeTicks.get(componentName)?.[index];
+    }
+
+    getChangeTicks(entity: Entity): Record<string, number> {
+        const index = this.entityToIndex.get(entity);
+        const ticks: Record<string, number> = {};
+        if (index === undefined) return ticks;
+
+        for (const [componentName, componentTicks] of this.changeTicks) {
+            ticks[componentName] = componentTicks[index];
+        }
+
+        return ticks;
+    }
+
+    setChangeTick(entity: Entity, componentName: string, tick: number): boolean {
+        const index = this.entityToIndex.get(entity);
+        const ticks = this.changeTicks.get(componentName);
+        if (index === undefined || !ticks) return false;
+
+        ticks[index] = tick;
+        return true;
+    }
 }
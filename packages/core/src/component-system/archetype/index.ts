@@ -1,2 +1,5 @@
 export { Archetype } from './archetype';
 export { OptimizedQueryCache } from './query-cache';
+export { QueryBuilder } from './query-builder';
+export { ReactiveQuery } from './reactive-query';
+export type { QueryDelta, ReactiveQueryHost } from './reactive-query';
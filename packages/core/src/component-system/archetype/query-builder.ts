@@ -0,0 +1,265 @@
+import type { ComponentRegistry, ComponentInstance, Entity } from '../types/core';
+import type { FilteredQueryResult } from '../types/system';
+import type { ComponentColumns, QueryChunk } from '../types/schema';
+import type { World } from '../core/world';
+import { WorldError } from '../core/world';
+import { isValidRelationName, pairKey, parsePair } from '../relations/pair';
+
+export class QueryBuilder<
+    R extends ComponentRegistry,
+    W extends keyof R = never,
+    O extends keyof R = never,
+> {
+    private readonly _with = new Set<string>();
+    private readonly _without = new Set<string>();
+    private readonly _optional = new Set<string>();
+    private readonly _changed = new Set<string>();
+    private readonly _pairs = new Set<string>();
+    private readonly _relations = new Set<string>();
+    private _lastRunTick = 0;
+
+    constructor(private readonly world: World<R>) {}
+
+    get lastRunTick(): number {
+        return this._lastRunTick;
+    }
+
+    with<K extends keyof R>(...components: K[]): QueryBuilder<R, W | K, O> {
+        for (const componentName of components) {
+            this._assertNotExcluded(componentName as string, 'with');
+            this._with.add(componentName as string);
+        }
+        return this as unknown as QueryBuilder<R, W | K, O>;
+    }
+
+    without(...components: (keyof R)[]): this {
+        for (const componentName of components) {
+            const name = this._validateComponent(componentName as string, 'without');
+            if (this._with.has(name) || this._optional.has(name)) {
+                throw new WorldError(
+                    `Component '${name}' cannot be both included and excluded`,
+                    'without'
+                );
+            }
+            this._without.add(name);
+        }
+        return this;
+    }
+
+    optional<K extends keyof R>(...components: K[]): QueryBuilder<R, W, O | K> {
+        for (const componentName of components) {
+            this._assertNotExcluded(componentName as string, 'optional');
+            this._optional.add(componentName as string);
+        }
+        return this as unknown as QueryBuilder<R, W, O | K>;
+    }
+
+    changed<K extends keyof R>(...components: K[]): QueryBuilder<R, W | K, O> {
+        for (const componentName of components) {
+            this._assertNotExcluded(componentName as string, 'changed');
+            this._with.add(componentName as string);
+            this._changed.add(componentName as string);
+        }
+        return this as unknown as QueryBuilder<R, W | K, O>;
+    }
+
+    relatedTo(relation: string, target: Entity): this {
+        this._validateRelation(relation, 'relatedTo');
+        this._pairs.add(pairKey(relation, target));
+        return this;
+    }
+
+    withRelation(relation: string): this {
+        this._validateRelation(relation, 'withRelation');
+        this._relations.add(relation);
+        return this;
+    }
+
+    reset(): this {
+        this._lastRunTick = 0;
+        return this;
+    }
+
+    execute(): readonly FilteredQueryResult<R, W, O>[] {
+        const required = Array.from(this._with);
+        const optional = Array.from(this._optional).filter((name) => !this._with.has(name));
+        const changed = Array.from(this._changed);
+        const since = this._lastRunTick;
+
+        const isTable = (name: string) => !this.world._getSparseSet(name);
+        const sparseSets = (names: Iterable<string>) =>
+            Array.from(names, (name) => [name, this.world._getSparseSet(name)!] as const).filter(
+                ([, sparseSet]) => sparseSet
+            );
+
+        const tableRequired = required.filter(isTable);
+        const sparseRequired = sparseSets(required);
+        const sparseExcluded = sparseSets(this._without).map(([, sparseSet]) => sparseSet);
+        const sparseOptional = sparseSets(optional);
+        const sparseChanged = sparseSets(changed).map(([, sparseSet]) => sparseSet);
+        const sparseColumns = [...sparseRequired, ...sparseOptional];
+
+        const archetypes = this.world._matchArchetypes(
+            tableRequired,
+            Array.from(this._without).filter(isTable)
+        );
+        const results: FilteredQueryResult<R, W, O>[] = [];
+
+        for (const archetype of archetypes) {
+            if (archetype.entityCount === 0 || !this._matchesRelations(archetype.signature)) {
+                continue;
+            }
+
+            const requiredColumns = tableRequired.map(
+                (name) => [name, archetype.components.get(name)!.dense] as const
+            );
+            const optionalColumns = optional
+                .filter((name) => archetype.components.has(name))
+                .map((name) => [name, archetype.components.get(name)!.dense] as const);
+            const changedTicks = changed
+                .filter(isTable)
+                .map((name) => archetype.changeTicks.get(name)!);
+
+            for (let i = 0; i < archetype.entityCount; i++) {
+                const entity = archetype.entities[i];
+
+                if (
+                    sparseExcluded.some((sparseSet) => sparseSet.has(entity)) ||
+                    !sparseRequired.every(([, sparseSet]) => sparseSet.has(entity))
+                ) {
+                    continue;
+                }
+
+                let isChanged = true;
+                for (const ticks of changedTicks) {
+                    if (ticks[i] <= since) {
+                        isChanged = false;
+                        break;
+                    }
+                }
+                if (
+                    !isChanged ||
+                    sparseChanged.some((sparseSet) => sparseSet.getTick(entity)! <= since)
+                ) {
+                    continue;
+                }
+
+                const components: Record<string, ComponentInstance<R[keyof R]>> = {};
+                for (const [name, dense] of requiredColumns) {
+                    components[name] = dense[i];
+                }
+                for (const [name, dense] of optionalColumns) {
+                    components[name] = dense[i];
+                }
+                for (const [name, sparseSet] of sparseColumns) {
+                    const component = sparseSet.get(entity);
+                    if (component) {
+                        components[name] = component as ComponentInstance<R[keyof R]>;
+                    }
+                }
+
+                results.push({
+                    entity,
+                    components: components as FilteredQueryResult<R, W, O>['components'],
+                });
+            }
+        }
+
+        this._lastRunTick = this.world.changeTick;
+
+        return results;
+    }
+
+    chunks(): readonly QueryChunk<R, W>[] {
+        const required = Array.from(this._with);
+        const excluded = Array.from(this._without);
+
+        if (this._changed.size > 0) {
+            throw new WorldError('Chunked queries cannot filter on changes', 'chunks');
+        }
+        for (const name of [...required, ...excluded]) {
+            if (this.world._getSparseSet(name)) {
+                throw new WorldError(
+                    `Sparse component '${name}' cannot be used in chunked queries`,
+                    'chunks'
+                );
+            }
+        }
+
+        const chunks: QueryChunk<R, W>[] = [];
+
+        for (const archetype of this.world._matchArchetypes(required, excluded)) {
+            if (archetype.entityCount === 0 || !this._matchesRelations(archetype.signature)) {
+                continue;
+            }
+
+            const count = archetype.entityCount;
+            const components: Record<string, readonly unknown[]> = {};
+            for (const name of required) {
+                components[name] = archetype.components.get(name)!.dense;
+            }
+
+            chunks.push({
+                count,
+                entities: archetype.entities,
+                components: components as QueryChunk<R, W>['components'],
+                columns: <K extends W>(componentName: K) => {
+                    const columns = archetype.getColumns(componentName as string);
+                    if (!columns || !components[componentName as string]) {
+                        throw new WorldError(
+                            `Component '${String(componentName)}' has no typed columns in this query`,
+                            'columns'
+                        );
+                    }
+
+                    const views: Record<string, unknown> = {};
+                    for (const [field, column] of Object.entries(columns)) {
+                        views[field] = (column as Float32Array).subarray(0, count);
+                    }
+                    return views as ComponentColumns<R[K]>;
+                },
+            });
+        }
+
+        return chunks;
+    }
+
+    private _matchesRelations(signature: readonly string[]): boolean {
+        for (const key of this._pairs) {
+            if (!signature.includes(key)) {
+                return false;
+            }
+        }
+
+        for (const relation of this._relations) {
+            if (!signature.some((name) => parsePair(name)?.relation === relation)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private _validateRelation(relation: string, operation: string): void {
+        if (!isValidRelationName(relation)) {
+            throw new WorldError(`Invalid relation name '${relation}'`, operation);
+        }
+    }
+
+    private _validateComponent(componentName: string, operation: string): string {
+        if (!(componentName in this.world.registry)) {
+            throw new WorldError(`Component '${componentName}' not found in registry`, operation);
+        }
+        return componentName;
+    }
+
+    private _assertNotExcluded(componentName: string, operation: string): void {
+        this._validateComponent(componentName, operation);
+        if (this._without.has(componentName)) {
+            throw new WorldError(
+                `Component '${componentName}' cannot be both included and excluded`,
+                operation
+            );
+        }
+    }
+}
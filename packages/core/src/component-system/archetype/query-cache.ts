@@ -4,9 +4,12 @@ import type { QueryCache } from '../types/archetype';
 export class OptimizedQueryCache implements QueryCache {
     readonly queries = new Map<string, ArchetypeId[]>();
     readonly bitQueries = new Map<BitMask, ArchetypeId[]>();
+    readonly filteredQueries = new Map<string, ArchetypeId[]>();
+    readonly exclusionMasks = new Map<string, BitMask>();
 
     private generation = 0;
     private readonly queryGenerations = new Map<string, number>();
+    private readonly filteredGenerations = new Map<string, number>();
 
     invalidate(): void {
         this.generation++;
@@ -34,4 +37,29 @@ export class OptimizedQueryCache implements QueryCache {
     setBitQuery(mask: BitMask, archetypes: ArchetypeId[]): void {
         this.bitQueries.set(mask, archetypes);
     }
+
+    getFilteredQuery(include: BitMask, exclude: BitMask): ArchetypeId[] | undefined {
+        const key = `${include}:${exclude}`;
+        const generation = this.filteredGenerations.get(key);
+        if (generation !== this.generation) {
+            this.filteredQueries.delete(key);
+            this.filteredGenerations.delete(key);
+            return undefined;
+        }
+        return this.filteredQueries.get(key);
+    }
+
+    setFilteredQuery(include: BitMask, exclude: BitMask, archetypes: ArchetypeId[]): void {
+        const key = `${include}:${exclude}`;
+        this.filteredQueries.set(key, archetypes);
+        this.filteredGenerations.set(key, this.generation);
+    }
+
+    getExclusionMask(key: string): BitMask | undefined {
+        return this.exclusionMasks.get(key);
+    }
+
+    setExclusionMask(key: string, mask: BitMask): void {
+        this.exclusionMasks.set(key, mask);
+    }
 }
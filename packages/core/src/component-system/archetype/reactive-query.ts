@@ -0,0 +1,139 @@
+import { createSubject } from '../../observer';
+import type { IObservableSubject } from '../../observer';
+import type { ComponentRegistry, Entity } from '../types/core';
+
+export interface QueryDelta {
+    readonly entered: ReadonlySet<Entity>;
+    readonly exited: ReadonlySet<Entity>;
+}
+
+export interface ReactiveQueryHost {
+    matches(entity: Entity): boolean;
+    release(query: ReactiveQuery<any, any>): void;
+}
+
+/**
+ * Tracks which entities match a component set. The world marks entities whose archetype
+ * changed; `flush` re-tests only those and reports the difference since the last flush.
+ */
+export class ReactiveQuery<R extends ComponentRegistry, Q extends readonly (keyof R)[]> {
+    readonly changes: IObservableSubject<QueryDelta> = createSubject();
+
+    private readonly _members = new Set<Entity>();
+    private readonly _dirty = new Set<Entity>();
+    private readonly _exited = new Set<Entity>();
+    private readonly _enterListeners = new Set<(entity: Entity) => void>();
+    private readonly _exitListeners = new Set<(entity: Entity) => void>();
+    private _disposed = false;
+
+    constructor(
+        readonly components: Q,
+        private readonly _host: ReactiveQueryHost,
+        initial: Iterable<Entity> = []
+    ) {
+        // Entities matching at creation are reported as entered on the first flush.
+        for (const entity of initial) {
+            this._dirty.add(entity);
+        }
+    }
+
+    get entities(): ReadonlySet<Entity> {
+        return this._members;
+    }
+
+    get size(): number {
+        return this._members.size;
+    }
+
+    get pending(): boolean {
+        return this._dirty.size > 0 || this._exited.size > 0;
+    }
+
+    get disposed(): boolean {
+        return this._disposed;
+    }
+
+    has(entity: Entity): boolean {
+        return this._members.has(entity);
+    }
+
+    onEnter(listener: (entity: Entity) => void): () => void {
+        this._enterListeners.add(listener);
+        return () => this._enterListeners.delete(listener);
+    }
+
+    onExit(listener: (entity: Entity) => void): () => void {
+        this._exitListeners.add(listener);
+        return () => this._exitListeners.delete(listener);
+    }
+
+    flush(): QueryDelta | undefined {
+        if (this._disposed || !this.pending) {
+            return undefined;
+        }
+
+        const entered = new Set<Entity>();
+        const exited = new Set(this._exited);
+        this._exited.clear();
+
+        for (const entity of this._dirty) {
+            const matches = this._host.matches(entity);
+            if (matches && !this._members.has(entity)) {
+                this._members.add(entity);
+                entered.add(entity);
+            } else if (!matches && this._members.delete(entity)) {
+                exited.add(entity);
+            }
+        }
+        this._dirty.clear();
+
+        if (entered.size === 0 && exited.size === 0) {
+            return undefined;
+        }
+
+        const delta: QueryDelta = { entered, exited };
+        this._notify(this._exitListeners, exited);
+        this._notify(this._enterListeners, entered);
+        this.changes.notifySync(delta);
+        return delta;
+    }
+
+    dispose(): void {
+        if (this._disposed) return;
+
+        this._disposed = true;
+        this._members.clear();
+        this._dirty.clear();
+        this._exited.clear();
+        this._enterListeners.clear();
+        this._exitListeners.clear();
+        this.changes.dispose();
+        this._host.release(this);
+    }
+
+    _markDirty(entity: Entity): void {
+        this._dirty.add(entity);
+    }
+
+    /** Destroyed ids can be recycled before the next flush, so they exit immediately. */
+    _markRemoved(entity: Entity): void {
+        this._dirty.delete(entity);
+        if (this._members.delete(entity)) {
+            this._exited.add(entity);
+        }
+    }
+
+    private _notify(listeners: Set<(entity: Entity) => void>, entities: Set<Entity>): void {
+        if (listeners.size === 0) return;
+
+        for (const entity of entities) {
+            for (const listener of listeners) {
+                try {
+                    listener(entity);
+                } catch (error) {
+                    console.error('Reactive query listener failed:', error);
+                }
+            }
+        }
+    }
+}
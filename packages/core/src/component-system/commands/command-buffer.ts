@@ -0,0 +1,247 @@
+import type { ComponentRegistry, ComponentInstance, Entity } from '../types/core';
+import type { World } from '../core/world';
+import { WorldError } from '../core/world';
+import type { ComponentPatch as FieldPatch } from '../core/change-tracking';
+
+type ComponentPatch<R extends ComponentRegistry, K extends keyof R> = FieldPatch<
+    ComponentInstance<R[K]>
+>;
+
+type Command<R extends ComponentRegistry> =
+    | { readonly type: 'create'; readonly entity: Entity }
+    | { readonly type: 'destroy'; readonly entity: Entity }
+    | {
+          readonly type: 'add';
+          readonly entity: Entity;
+          readonly name: keyof R;
+          readonly component?: ComponentInstance<R[keyof R]>;
+      }
+    | { readonly type: 'remove'; readonly entity: Entity; readonly name: keyof R }
+    | {
+          readonly type: 'set';
+          readonly entity: Entity;
+          readonly name: keyof R;
+          readonly values: ComponentPatch<R, keyof R>;
+      };
+
+interface PendingChanges<R extends ComponentRegistry> {
+    readonly structural: Map<
+        keyof R,
+        { component?: ComponentInstance<R[keyof R]>; replace: boolean } | null
+    >;
+    patches: [keyof R, ComponentPatch<R, keyof R>][];
+}
+
+export class CommandBuffer<R extends ComponentRegistry> {
+    private _commands: Command<R>[] = [];
+    private _nextPlaceholder = 0;
+
+    constructor(private readonly world: World<R>) {}
+
+    get size(): number {
+        return this._commands.length;
+    }
+
+    get isEmpty(): boolean {
+        return this._commands.length === 0;
+    }
+
+    static isPlaceholder(entity: Entity): boolean {
+        return entity < 0;
+    }
+
+    createEntity(): Entity {
+        const placeholder = -++this._nextPlaceholder as Entity;
+        this._commands.push({ type: 'create', entity: placeholder });
+        return placeholder;
+    }
+
+    destroyEntity(entity: Entity): this {
+        this._validateEntity(entity, 'destroyEntity');
+        this._commands.push({ type: 'destroy', entity });
+        return this;
+    }
+
+    addComponent<K extends keyof R>(
+        entity: Entity,
+        componentName: K,
+        component?: ComponentInstance<R[K]>
+    ): this {
+        this._validateEntity(entity, 'addComponent');
+        this._validateComponent(componentName, 'addComponent');
+        this._commands.push({ type: 'add', entity, name: componentName, component });
+        return this;
+    }
+
+    removeComponent<K extends keyof R>(entity: Entity, componentName: K): this {
+        this._validateEntity(entity, 'removeComponent');
+        this._validateComponent(componentName, 'removeComponent');
+        this._commands.push({ type: 'remove', entity, name: componentName });
+        return this;
+    }
+
+    setComponent<K extends keyof R>(
+        entity: Entity,
+        componentName: K,
+        values: ComponentPatch<R, K>
+    ): this {
+        this._validateEntity(entity, 'setComponent');
+        this._validateComponent(componentName, 'setComponent');
+        this._commands.push({
+            type: 'set',
+            entity,
+            name: componentName,
+            values: { ...values } as ComponentPatch<R, keyof R>,
+        });
+        return this;
+    }
+
+    clear(): void {
+        this._commands = [];
+        this._nextPlaceholder = 0;
+    }
+
+    playback(): ReadonlyMap<Entity, Entity> {
+        const commands = this._commands;
+        this.clear();
+
+        const resolved = new Map<Entity, Entity>();
+        if (commands.length === 0) {
+            return resolved;
+        }
+
+        const resolve = (entity: Entity): Entity => {
+            if (!CommandBuffer.isPlaceholder(entity)) {
+                return entity;
+            }
+            const real = resolved.get(entity);
+            if (real === undefined) {
+                throw new WorldError(`Unknown placeholder entity ${entity}`, 'playback');
+            }
+            return real;
+        };
+
+        try {
+            this.world.batch(() => {
+                const changes = new Map<Entity, PendingChanges<R>>();
+                const destroyed = new Set<Entity>();
+
+                const pending = (entity: Entity): PendingChanges<R> => {
+                    let entry = changes.get(entity);
+                    if (!entry) {
+                        entry = { structural: new Map(), patches: [] };
+                        changes.set(entity, entry);
+                    }
+                    return entry;
+                };
+
+                for (const command of commands) {
+                    if (command.type === 'create') {
+                        resolved.set(command.entity, this.world.createEntity());
+                        continue;
+                    }
+
+                    const entity = resolve(command.entity);
+                    if (destroyed.has(entity)) {
+                        continue;
+                    }
+
+                    switch (command.type) {
+                        case 'destroy':
+                            destroyed.add(entity);
+                            changes.delete(entity);
+                            break;
+                        case 'add': {
+                            // Adding after a queued remove replaces the component, as the direct
+                            // removeComponent/addComponent pair would.
+                            const { structural } = pending(entity);
+                            const previous = structural.get(command.name);
+                            structural.set(command.name, {
+                                component: command.component,
+                                replace: previous === null || previous?.replace === true,
+                            });
+                            break;
+                        }
+                        case 'remove': {
+                            // Earlier patches targeted the component that is going away.
+                            const entry = pending(entity);
+                            entry.structural.set(command.name, null);
+                            entry.patches = entry.patches.filter(([name]) => name !== command.name);
+                            break;
+                        }
+                        case 'set': {
+                            // Like a direct setComponent, a patch only applies to a component
+                            // the entity has at this point in the recorded sequence.
+                            const entry = pending(entity);
+                            const operation = entry.structural.get(command.name);
+                            const present =
+                                operation === undefined
+                                    ? this.world.hasComponent(entity, command.name)
+                                    : operation !== null;
+                            if (present) {
+                                entry.patches.push([command.name, command.values]);
+                            }
+                            break;
+                        }
+                    }
+                }
+
+                for (const entity of destroyed) {
+                    this.world.destroyEntity(entity);
+                }
+
+                // Each entity moves archetype at most once, however many components changed.
+                for (const [entity, { structural, patches }] of changes) {
+                    const added: Partial<{ [K in keyof R]: ComponentInstance<R[K]> | undefined }> =
+                        {};
+                    const removed: (keyof R)[] = [];
+
+                    for (const [name, operation] of structural) {
+                        if (operation) {
+                            added[name] = operation.component;
+                            if (operation.replace) {
+                                removed.push(name);
+                            }
+                        } else {
+                            removed.push(name);
+                        }
+                    }
+
+                    this.world._applyComponentChanges(entity, added, removed);
+
+                    for (const [name, values] of patches) {
+                        if (this.world.hasComponent(entity, name)) {
+                            this.world.setComponent(entity, name, values);
+                        }
+                    }
+                }
+            });
+        } catch (error) {
+            throw new WorldError(
+                'Command buffer playback failed',
+                'playback',
+                error instanceof Error ? error : new Error(String(error))
+            );
+        }
+
+        return resolved;
+    }
+
+    private _validateEntity(entity: Entity, operation: string): void {
+        if (typeof entity !== 'number' || !Number.isInteger(entity) || entity === 0) {
+            throw new WorldError(`Invalid entity ${entity}`, operation);
+        }
+        if (CommandBuffer.isPlaceholder(entity) && -entity > this._nextPlaceholder) {
+            throw new WorldError(`Unknown placeholder entity ${entity}`, operation);
+        }
+    }
+
+    private _validateComponent(componentName: keyof R, operation: string): void {
+        if (!(componentName in this.world.registry)) {
+            throw new WorldError(
+                `Component '${String(componentName)}' not found in registry`,
+                operation
+            );
+        }
+    }
+}
@@ -0,0 +1 @@
+export { CommandBuffer } from './command-buffer';
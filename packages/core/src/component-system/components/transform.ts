@@ -152,13 +152,7 @@ export class Transform extends Component {
         this._children.set(child.entity, child);
         this._childrenDirty = true;
 
-        if (this.world) {
-            this.world.emitSync('TransformHierarchyChanged' as any, {
-                entity: child.entity!,
-                component: child,
-                actor: child.actor!,
-            });
-        }
+        this.emitHierarchyChanged(child, undefined, this);
     }
 
     private removeChild(child: Transform): void {
@@ -167,13 +161,22 @@ export class Transform extends Component {
         if (this._children.delete(child.entity)) {
             this._childrenDirty = true;
 
-            if (this.world) {
-                this.world.emitSync('TransformHierarchyChanged' as any, {
-                    entity: child.entity!,
-                    component: child,
-                    actor: child.actor!,
-                });
-            }
+            this.emitHierarchyChanged(child, this, undefined);
+        }
+    }
+
+    private emitHierarchyChanged(
+        child: Transform,
+        previous: Transform | undefined,
+        current: Transform | undefined
+    ): void {
+        if (this.world) {
+            this.world.emitSync('TransformHierarchyChanged', {
+                entity: child.entity!,
+                component: child,
+                actor: child.actor!,
+                changes: [{ path: 'parent', previous, current }],
+            });
         }
     }
 
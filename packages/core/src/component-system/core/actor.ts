@@ -2,6 +2,9 @@ import type { Entity, ActorId } from '../types/core';
 import type { ComponentType, ComponentMetadata } from '../types/component';
 import type { World } from './world';
 import { Component, getComponentMetadata } from './component';
+import { Prefab, applyPrefabValues } from '../prefabs/prefab';
+import type { PrefabComponentValues, PrefabDefinition } from '../prefabs/prefab';
+import type { Transform } from '../components/transform';
 
 export interface EventBus {
     emit(eventType: string, data: any): void;
@@ -61,6 +64,8 @@ export class Actor<
     TComponents extends readonly ComponentType[] = readonly ComponentType[],
 > {
     private static readonly _componentMetadataMap = new WeakMap<ComponentType, ComponentMetadata>();
+    /** Set while `instantiate` constructs an actor; its Transform joins the prefab's components. */
+    private static _deferTransform = false;
 
     public readonly entity: Entity;
     public readonly world: TWorld;
@@ -112,7 +117,9 @@ export class Actor<
         try {
             world.registerActor(this.entity, this);
 
-            this._initializeTransformComponent();
+            if (!Actor._deferTransform) {
+                this._initializeTransformComponent();
+            }
 
             this._state = 'active';
 
@@ -130,6 +137,81 @@ export class Actor<
         }
     }
 
+    static instantiate<TWorld extends World<any>>(
+        world: TWorld,
+        prefab: Prefab<any> | PrefabDefinition<any>,
+        overrides: PrefabComponentValues<any> = {},
+        config: ActorConfig = {}
+    ): Actor<TWorld> {
+        const source = Prefab.from(prefab);
+
+        Actor._deferTransform = true;
+        let actor: Actor<TWorld>;
+        try {
+            actor = new Actor(world, { name: source.name, ...config, autoStart: false });
+        } finally {
+            Actor._deferTransform = false;
+        }
+
+        try {
+            const componentNames = new Set<string>([
+                ...(world.registry.Transform ? ['Transform'] : []),
+                ...(source.componentNames as string[]),
+                ...Object.keys(overrides),
+            ]);
+
+            // Every component gets its prefab values before any lifecycle hook sees it.
+            const components = new Map<string, [ComponentType, Component]>();
+            for (const componentName of componentNames) {
+                const componentType = world.registry[componentName] as ComponentType | undefined;
+                if (!componentType) {
+                    throw new ComponentError(
+                        'Component not found in registry',
+                        actor.id,
+                        componentName
+                    );
+                }
+
+                const component = new componentType();
+                applyPrefabValues(component, source.getDefaults(componentName));
+                applyPrefabValues(component, overrides[componentName]);
+                components.set(componentName, [componentType, component]);
+            }
+
+            actor._attachComponents(components);
+            world._linkPrefab(actor.entity, source, overrides);
+
+            const transform = actor.getComponent(world.registry.Transform as ComponentType) as
+                | Transform
+                | undefined;
+            for (const child of source.children) {
+                const childActor = Actor.instantiate(world, child, {}, config);
+                world.setParent(childActor.entity, actor.entity);
+
+                const childTransform = childActor.getComponent(
+                    world.registry.Transform as ComponentType
+                ) as Transform | undefined;
+                if (transform && childTransform) {
+                    childTransform.parent = transform;
+                }
+            }
+
+            if (config.autoStart !== false) {
+                actor.start();
+            }
+
+            return actor;
+        } catch (error) {
+            actor.destroy(true);
+            throw new ActorError(
+                'Failed to instantiate prefab',
+                actor.id,
+                'instantiate',
+                error instanceof Error ? error : new Error(String(error))
+            );
+        }
+    }
+
     static setComponentMetadata<T extends Component>(
         componentType: ComponentType<T>,
         metadata: ComponentMetadata
@@ -181,6 +263,10 @@ export class Actor<
 
                 for (const [componentType, component] of sortedComponents) {
                     try {
+                        if (!value) {
+                            this.world.coroutines.stopAll(component);
+                        }
+
                         if (value && component.onEnable) {
                             component.onEnable();
                         } else if (!value && component.onDisable) {
@@ -227,6 +313,7 @@ export class Actor<
 
         const oldLayer = this._layer;
         this._layer = value as ActorLayer;
+        this.world._reindexActor(this, oldLayer, this._tag);
 
         this._emitEvent('actor:layerChanged', { oldLayer, newLayer: this._layer });
     }
@@ -246,10 +333,23 @@ export class Actor<
 
         const oldTag = this._tag;
         this._tag = value as ActorTag;
+        this.world._reindexActor(this, this._layer, oldTag);
 
         this._emitEvent('actor:tagChanged', { oldTag, newTag: this._tag });
     }
 
+    get persistent(): boolean {
+        return this._persistent;
+    }
+
+    set persistent(value: boolean) {
+        if (this._destroyed) {
+            throw new ActorError('Cannot modify destroyed actor', this.id, 'setPersistent');
+        }
+
+        this._persistent = value;
+    }
+
     get state(): ActorState {
         return this._state;
     }
@@ -346,6 +446,7 @@ export class Actor<
 
         try {
             this._checkComponentDependents(componentType);
+            this.world.coroutines.stopAll(component);
 
             if (this._active) {
                 this._executeComponentLifecycle(component, 'onDisable');
@@ -375,6 +476,119 @@ export class Actor<
         }
     }
 
+    /**
+     * Inserts prebuilt components in a single archetype move, then runs `awake` and `onEnable`
+     * once all of them are in place.
+     */
+    private _attachComponents(components: ReadonlyMap<string, [ComponentType, Component]>): void {
+        const added: Record<string, Component> = {};
+
+        for (const [componentName, [componentType, component]] of components) {
+            if (this._components.has(componentType)) {
+                throw new ComponentError(
+                    'Component already exists and is not singleton',
+                    this.id,
+                    componentType.name
+                );
+            }
+
+            (component as any).entity = this.entity;
+            (component as any).actor = this;
+            (component as any).world = this.world;
+
+            this._components.set(componentType, component);
+            this._componentPriorities.set(
+                componentType,
+                this._getComponentMetadata(componentType)?.priority ?? 0
+            );
+            added[componentName] = component;
+        }
+
+        this.world._applyComponentChanges(this.entity, added, []);
+
+        for (const [componentType] of components.values()) {
+            const dependencies = this._getComponentMetadata(componentType)?.dependencies;
+            if (dependencies) {
+                this._resolveDependencies(componentType, dependencies as ComponentType[]);
+            }
+        }
+
+        const attached = new Set(
+            Array.from(components.values(), ([componentType]) => componentType)
+        );
+        const sorted = this._getSortedComponents().filter(([type]) => attached.has(type));
+        for (const [, component] of sorted) {
+            this._executeComponentLifecycle(component, 'awake');
+        }
+        if (this._active) {
+            for (const [, component] of sorted) {
+                this._executeComponentLifecycle(component, 'onEnable');
+            }
+        }
+
+        for (const [componentType, component] of sorted) {
+            this._emitEvent('actor:componentAdded', {
+                componentType: componentType.name,
+                component,
+            });
+        }
+    }
+
+    _replaceComponent(
+        previous: ComponentType,
+        next: ComponentType,
+        replacement: Component
+    ): boolean {
+        this._validateNotDestroyed('replaceComponent');
+
+        const component = this._components.get(previous);
+        if (!component) {
+            return false;
+        }
+
+        const run = (target: Component, method: keyof Component): void => {
+            try {
+                this._executeComponentLifecycle(target, method);
+            } catch (error) {
+                console.error(error);
+            }
+        };
+
+        this.world.coroutines.stopAll(component);
+        if (this._active) {
+            run(component, 'onDisable');
+        }
+        run(component, 'onDestroy');
+
+        (replacement as any).entity = this.entity;
+        (replacement as any).actor = this;
+        (replacement as any).world = this.world;
+
+        this._components.delete(previous);
+        this._componentPriorities.delete(previous);
+        this._componentDependencies.delete(previous);
+        this._components.set(next, replacement);
+        this._componentPriorities.set(next, this._getComponentMetadata(next)?.priority ?? 0);
+
+        this.world._setComponentInstance(this.entity, previous.name, replacement);
+
+        run(replacement, 'awake');
+        if (this._active) {
+            run(replacement, 'onEnable');
+        }
+        if (this._started) {
+            run(replacement, 'start');
+        }
+
+        this._emitEvent('actor:componentReplaced', {
+            componentType: next.name,
+            previous: component,
+            component: replacement,
+        });
+
+        return true;
+    }
+
     getComponent<T extends Component>(componentType: ComponentType<T>): T | undefined {
         return this._components.get(componentType) as T | undefined;
     }
@@ -470,6 +684,42 @@ export class Actor<
         }
     }
 
+    fixedUpdate(fixedDeltaTime: number): void {
+        if (!this._active || this._destroyed || this._state !== 'active') {
+            return;
+        }
+
+        try {
+            const sortedComponents = this._getSortedComponents();
+
+            for (const [componentType, component] of sortedComponents) {
+                try {
+                    if (component.fixedUpdate) {
+                        component.fixedUpdate(fixedDeltaTime);
+                    }
+                } catch (error) {
+                    console.error(
+                        new ComponentError(
+                            'Component fixed update failed',
+                            this.id,
+                            componentType.name,
+                            error instanceof Error ? error : new Error(String(error))
+                        )
+                    );
+                }
+            }
+        } catch (error) {
+            console.error(
+                new ActorError(
+                    'Actor fixed update failed',
+                    this.id,
+                    'fixedUpdate',
+                    error instanceof Error ? error : new Error(String(error))
+                )
+            );
+        }
+    }
+
     destroy(immediate: boolean = false): void {
         if (this._destroyed) {
             return;
@@ -484,6 +734,8 @@ export class Actor<
 
             for (const [componentType, component] of sortedComponents) {
                 try {
+                    this.world.coroutines.stopAll(component);
+
                     if (this._active && component.onDisable) {
                         component.onDisable();
                     }
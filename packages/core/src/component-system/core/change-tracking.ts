@@ -0,0 +1,88 @@
+import type { ComponentFieldChange } from '../types/events';
+
+export type ComponentPatch<T> = {
+    [P in keyof T as T[P] extends (...args: any[]) => any ? never : P]?: T[P] extends object
+        ? ComponentPatch<T[P]> | T[P]
+        : T[P];
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    if (!value || typeof value !== 'object') return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+};
+
+const joinPath = (base: string, key: PropertyKey): string =>
+    base ? `${base}.${String(key)}` : String(key);
+
+/**
+ * Writes the patch into the target and reports every field whose value actually changed.
+ * Plain-object patch values are merged into existing objects instead of replacing them.
+ */
+export const applyComponentPatch = (
+    target: object,
+    patch: Readonly<Record<string, unknown>>,
+    path = '',
+    changes: ComponentFieldChange[] = []
+): ComponentFieldChange[] => {
+    const record = target as Record<string, unknown>;
+
+    for (const [key, current] of Object.entries(patch)) {
+        const previous = record[key];
+
+        if (
+            isPlainObject(current) &&
+            previous !== null &&
+            typeof previous === 'object' &&
+            !Array.isArray(previous)
+        ) {
+            applyComponentPatch(previous, current, joinPath(path, key), changes);
+        } else if (!Object.is(previous, current)) {
+            record[key] = current;
+            changes.push({ path: joinPath(path, key), previous, current });
+        }
+    }
+
+    return changes;
+};
+
+/** Wraps a component so that every effective write, including nested ones, is reported. */
+export const createTrackedComponent = <T extends object>(
+    target: T,
+    onChange: (change: ComponentFieldChange) => void,
+    path = ''
+): T => {
+    const nested = new Map<PropertyKey, { source: object; proxy: object }>();
+
+    return new Proxy(target, {
+        get(object, key, receiver) {
+            const value = Reflect.get(object, key, receiver);
+            if (typeof key === 'symbol' || !(isPlainObject(value) || Array.isArray(value))) {
+                return value;
+            }
+
+            const cached = nested.get(key);
+            if (cached?.source === value) {
+                return cached.proxy;
+            }
+
+            const proxy = createTrackedComponent(value, onChange, joinPath(path, key));
+            nested.set(key, { source: value, proxy });
+            return proxy;
+        },
+
+        set(object, key, value) {
+            // Accessors run against the raw target so their backing fields are not reported too.
+            const previous = Reflect.get(object, key);
+            if (!Reflect.set(object, key, value)) {
+                return false;
+            }
+
+            const current = Reflect.get(object, key);
+            if (typeof key !== 'symbol' && !Object.is(previous, current)) {
+                onChange({ path: joinPath(path, key), previous, current });
+            }
+            return true;
+        },
+    });
+};
@@ -2,6 +2,9 @@ import type { Entity } from '../types/core';
 import type { ComponentType, ComponentMetadata } from '../types/component';
 import type { World } from './world';
 import type { Actor } from './actor';
+import type { Scene } from '../scenes/scene';
+import type { Coroutine, CoroutineRoutine } from '../coroutines/coroutine';
+import { WaitForInterval, WaitForSeconds } from '../coroutines/instructions';
 
 export type ComponentState =
     | 'uninitialized'
@@ -51,12 +54,18 @@ export interface ComponentLifecycle {
     onEnable?(): void | Promise<void>;
     onDisable?(): void | Promise<void>;
     onDestroy?(): void | Promise<void>;
+    onSceneLoaded?(scene: Scene): void;
+    onSceneUnloaded?(scene: Scene): void;
 }
 
 export interface ComponentSerialization {
     serialize?(): Record<string, any>;
     deserialize?(data: Record<string, any>): void;
     clone?(): this;
+    migrate?(
+        fromVersion: string | undefined,
+        data: Record<string, any>
+    ): Record<string, any> | void;
 }
 
 export interface ComponentValidation {
@@ -216,6 +225,10 @@ export abstract class Component<
         const wasEnabled = this._enabled;
         this._enabled = value;
 
+        if (wasEnabled && !value) {
+            this.world?.coroutines.stopAll(this);
+        }
+
         if (wasEnabled !== value && this._state !== 'uninitialized') {
             try {
                 if (value) {
@@ -688,6 +701,8 @@ export abstract class Component<
     onEnable?(): void | Promise<void>;
     onDisable?(): void | Promise<void>;
     onDestroy?(): void | Promise<void>;
+    onSceneLoaded?(scene: Scene): void;
+    onSceneUnloaded?(scene: Scene): void;
 
     onDrawGizmos?(): void;
     onDrawGizmosSelected?(): void;
@@ -879,8 +894,42 @@ export abstract class Component<
         }
     }
 
+    private _schedule(routine: CoroutineRoutine, key?: unknown): Coroutine {
+        if (!this.world) {
+            throw new ComponentError(
+                'Component must be attached to a world to schedule coroutines',
+                this.constructor.name,
+                this._id
+            );
+        }
+
+        return this.world.coroutines.start(routine, {
+            owner: this,
+            key,
+            active: () => this.enabled && (!this.actor || this.actor.active),
+        });
+    }
+
+    private _resolveInvokeTarget(method: string | (() => void)): () => void {
+        if (typeof method === 'function') {
+            return () => method.call(this);
+        }
+
+        const target = (this as Record<string, any>)[method];
+        if (typeof target !== 'function') {
+            throw new ComponentError(
+                `Cannot invoke '${method}': not a method`,
+                this.constructor.name,
+                this._id
+            );
+        }
+        return () => target.call(this);
+    }
+
     private _cleanup(): void {
         try {
+            this.world?.coroutines.stopAll(this);
+
             for (const cleanup of this._cleanupTasks) {
                 try {
                     cleanup();
@@ -968,6 +1017,67 @@ export abstract class Component<
         return () => {};
     }
 
+    startCoroutine(routine: CoroutineRoutine | (() => CoroutineRoutine)): Coroutine {
+        return this._schedule(typeof routine === 'function' ? routine.call(this) : routine);
+    }
+
+    stopCoroutine(coroutine: Coroutine): void {
+        if (coroutine.owner === this) {
+            coroutine.stop();
+        }
+    }
+
+    stopAllCoroutines(): void {
+        this.world?.coroutines.stopAll(this, (coroutine) => coroutine.key === undefined);
+    }
+
+    invoke(method: string | (() => void), delay: number): Coroutine {
+        const callback = this._resolveInvokeTarget(method);
+        return this._schedule(
+            (function* () {
+                yield new WaitForSeconds(delay);
+                callback();
+            })(),
+            method
+        );
+    }
+
+    invokeRepeating(method: string | (() => void), delay: number, interval: number): Coroutine {
+        if (!(interval > 0)) {
+            throw new ComponentError(
+                'Repeat interval must be positive',
+                this.constructor.name,
+                this._id
+            );
+        }
+
+        const callback = this._resolveInvokeTarget(method);
+        return this._schedule(
+            (function* () {
+                const wait = new WaitForInterval(interval, delay);
+                while (true) {
+                    const repeats: number = yield wait;
+                    for (let i = 0; i < repeats; i++) {
+                        callback();
+                    }
+                }
+            })(),
+            method
+        );
+    }
+
+    cancelInvoke(method?: string | (() => void)): void {
+        this.world?.coroutines.stopAll(this, (coroutine) =>
+            method === undefined ? coroutine.key !== undefined : coroutine.key === method
+        );
+    }
+
+    isInvoking(method?: string | (() => void)): boolean {
+        return (this.world?.coroutines.getCoroutines(this) ?? []).some((coroutine) =>
+            method === undefined ? coroutine.key !== undefined : coroutine.key === method
+        );
+    }
+
     refreshCache(): void {
         if (this._enableCaching) {
             this._clearCache();
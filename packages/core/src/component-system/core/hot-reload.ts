@@ -0,0 +1,105 @@
+import type { ComponentType } from '../types/component';
+import type { World } from './world';
+import { WorldError } from './world';
+import type { Actor } from './actor';
+import type { Component, ComponentSerialization } from './component';
+import { getComponentMetadata, onScriptReload } from '../decorators/script';
+import type { ScriptReload } from '../decorators/script';
+import { captureComponent, restoreComponent } from '../serialization/component-data';
+
+export interface ScriptReloadResult {
+    readonly scriptName: string;
+    readonly componentName: string;
+    readonly actors: readonly Actor[];
+    readonly entities: number;
+}
+
+export class ScriptHotReloader {
+    private readonly _listeners = new Set<(result: ScriptReloadResult) => void>();
+    private _unsubscribe: (() => void) | undefined;
+
+    constructor(readonly world: World<any>) {
+        this._unsubscribe = onScriptReload((reload) => this.reload(reload));
+    }
+
+    get disposed(): boolean {
+        return this._unsubscribe === undefined;
+    }
+
+    reload(reload: ScriptReload): ScriptReloadResult | undefined {
+        const { previous, next } = reload;
+        const componentName = Object.keys(this.world.registry).find(
+            (name) => this.world.registry[name] === previous
+        );
+        if (componentName === undefined) {
+            return undefined;
+        }
+        if (next.name !== componentName) {
+            throw new WorldError(
+                `Reloaded script '${next.name}' must keep the component name '${componentName}'`,
+                'reloadScript'
+            );
+        }
+
+        const fromVersion = reload.fromVersion ?? getComponentMetadata(previous)?.version;
+        const toVersion = reload.toVersion ?? getComponentMetadata(next)?.version;
+        const replacements = new Map<object, object>();
+        const migrate = (component: object): object => {
+            let replacement = replacements.get(component);
+            if (!replacement) {
+                replacement = this._migrate(component, next, fromVersion, toVersion);
+                replacements.set(component, replacement);
+            }
+            return replacement;
+        };
+
+        const actors = this.world
+            .getAllActors()
+            .filter((actor) => actor.getComponent(previous as ComponentType<Component>));
+
+        for (const actor of actors) {
+            const component = actor.getComponent(previous as ComponentType<Component>)!;
+            actor._replaceComponent(previous, next, migrate(component) as Component);
+        }
+
+        let entities = 0;
+        this.world._replaceComponentType(componentName, next, (component) => {
+            entities++;
+            return component instanceof next ? component : migrate(component);
+        });
+
+        const result = { scriptName: reload.scriptName, componentName, actors, entities };
+        for (const listener of this._listeners) {
+            listener(result);
+        }
+        return result;
+    }
+
+    onReload(listener: (result: ScriptReloadResult) => void): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+
+    dispose(): void {
+        this._unsubscribe?.();
+        this._unsubscribe = undefined;
+        this._listeners.clear();
+    }
+
+    private _migrate(
+        component: object,
+        next: ComponentType,
+        fromVersion: string | undefined,
+        toVersion: string | undefined
+    ): object {
+        const replacement = new next() as ComponentSerialization;
+        let data = captureComponent(component);
+
+        if (fromVersion !== toVersion && typeof replacement.migrate === 'function') {
+            data = (replacement.migrate(fromVersion, data) as typeof data | undefined) ?? data;
+        }
+
+        restoreComponent(replacement, data);
+        return replacement;
+    }
+}
@@ -2,3 +2,15 @@ export { Component, script, getComponentMetadata } from './component';
 export * from '../decorators';
 export { World } from './world';
 export { Actor } from './actor';
+export {
+    LayerMatrix,
+    LayerMatrixError,
+    MAX_ACTOR_LAYERS,
+    ALL_LAYERS,
+    isValidLayer,
+} from './layer-matrix';
+export type { LayerMatrixConfig, LayerReference } from './layer-matrix';
+export { ScriptHotReloader } from './hot-reload';
+export { applyComponentPatch, createTrackedComponent } from './change-tracking';
+export type { ComponentPatch } from './change-tracking';
+export type { ScriptReloadResult } from './hot-reload';
@@ -0,0 +1,135 @@
+export const MAX_ACTOR_LAYERS = 32;
+
+export const ALL_LAYERS = 0xffffffff;
+
+export type LayerReference = number | string;
+
+export interface LayerMatrixConfig {
+    readonly names?: Readonly<Record<number, string>>;
+    /** Layer pairs that start out unable to interact. */
+    readonly ignore?: readonly (readonly [LayerReference, LayerReference])[];
+}
+
+export class LayerMatrixError extends Error {
+    constructor(
+        message: string,
+        public readonly layer?: LayerReference
+    ) {
+        super(`[LayerMatrix] ${message}`);
+        this.name = 'LayerMatrixError';
+        Object.setPrototypeOf(this, LayerMatrixError.prototype);
+    }
+}
+
+export const isValidLayer = (layer: number): boolean =>
+    Number.isInteger(layer) && layer >= 0 && layer < MAX_ACTOR_LAYERS;
+
+export class LayerMatrix {
+    private readonly _masks = new Uint32Array(MAX_ACTOR_LAYERS).fill(ALL_LAYERS);
+    private readonly _names = new Map<number, string>();
+    private readonly _layers = new Map<string, number>();
+
+    constructor(config: LayerMatrixConfig = {}) {
+        for (const [layer, name] of Object.entries(config.names ?? {})) {
+            this.setName(Number(layer), name);
+        }
+
+        for (const [a, b] of config.ignore ?? []) {
+            this.setInteraction(a, b, false);
+        }
+    }
+
+    setName(layer: number, name: string): this {
+        this._validate(layer);
+        if (!name) {
+            throw new LayerMatrixError('Layer names must be non-empty', layer);
+        }
+
+        const owner = this._layers.get(name);
+        if (owner !== undefined && owner !== layer) {
+            throw new LayerMatrixError(`Name '${name}' is already used by layer ${owner}`, layer);
+        }
+
+        const previous = this._names.get(layer);
+        if (previous !== undefined) {
+            this._layers.delete(previous);
+        }
+
+        this._names.set(layer, name);
+        this._layers.set(name, layer);
+        return this;
+    }
+
+    getName(layer: number): string | undefined {
+        return this._names.get(layer);
+    }
+
+    resolve(layer: LayerReference): number {
+        if (typeof layer === 'string') {
+            const resolved = this._layers.get(layer);
+            if (resolved === undefined) {
+                throw new LayerMatrixError(`Unknown layer '${layer}'`, layer);
+            }
+            return resolved;
+        }
+
+        this._validate(layer);
+        return layer;
+    }
+
+    mask(...layers: LayerReference[]): number {
+        let mask = 0;
+        for (const layer of layers) {
+            mask |= 1 << this.resolve(layer);
+        }
+        return mask >>> 0;
+    }
+
+    setInteraction(a: LayerReference, b: LayerReference, enabled: boolean = true): this {
+        const layerA = this.resolve(a);
+        const layerB = this.resolve(b);
+
+        if (enabled) {
+            this._masks[layerA] |= 1 << layerB;
+            this._masks[layerB] |= 1 << layerA;
+        } else {
+            this._masks[layerA] &= ~(1 << layerB);
+            this._masks[layerB] &= ~(1 << layerA);
+        }
+        return this;
+    }
+
+    canInteract(a: LayerReference, b: LayerReference): boolean {
+        return (this._masks[this.resolve(a)] & (1 << this.resolve(b))) !== 0;
+    }
+
+    getInteractionMask(layer: LayerReference): number {
+        return this._masks[this.resolve(layer)];
+    }
+
+    reset(): void {
+        this._masks.fill(ALL_LAYERS);
+    }
+
+    toJSON(): LayerMatrixConfig {
+        const ignore: [number, number][] = [];
+        for (let a = 0; a < MAX_ACTOR_LAYERS; a++) {
+            for (let b = a; b < MAX_ACTOR_LAYERS; b++) {
+                if (!this.canInteract(a, b)) {
+                    ignore.push([a, b]);
+                }
+            }
+        }
+
+        return { names: Object.fromEntries(this._names), ignore };
+    }
+
+    private _validate(layer: number): void {
+        if (!isValidLayer(layer)) {
+            throw new LayerMatrixError(
+                `Layer must be an integer between 0 and ${MAX_ACTOR_LAYERS - 1}`,
+                layer
+            );
+        }
+    }
+}
@@ -5,15 +5,45 @@ import type {
     ArchetypeId,
     BitMask,
     ComponentInstance,
+    ComponentStorage,
+    ComponentConstructor,
 } from '../types/core';
 import type { QueryResult } from '../types/system';
+import type { WorldSnapshot, EntitySnapshot, ComponentSnapshot } from '../types/snapshot';
+import type { RelationOptions, RelationPair } from '../types/relation';
 import type { EventKey } from '../../event';
 import { Archetype } from '../archetype/archetype';
+import { SparseComponentSet } from '../memory/sparse-set';
 import { OptimizedQueryCache } from '../archetype/query-cache';
+import { QueryBuilder } from '../archetype/query-builder';
+import { ReactiveQuery } from '../archetype/reactive-query';
 import { createTypedEmitter, IEventEmitter } from '../../event';
-import type { ECSEventMap } from '../types/events';
+import { ByteBuffer } from '@axrone/utility';
+import type { ComponentFieldChange, ECSEventMap } from '../types/events';
 import { ECSObservables } from '../observers/ecs-observer';
+import {
+    WORLD_SNAPSHOT_VERSION,
+    captureComponent,
+    restoreComponent,
+    encodeWorldSnapshot,
+    decodeWorldSnapshot,
+    validateWorldSnapshot,
+} from '../serialization';
+import { ChildOf, isValidRelationName, pairKey, parsePair } from '../relations/pair';
+import { Prefab, applyPrefabValues } from '../prefabs/prefab';
+import type { PrefabChange, PrefabComponentValues, PrefabDefinition } from '../prefabs/prefab';
 import type { Actor } from './actor';
+import { LayerMatrix, MAX_ACTOR_LAYERS } from './layer-matrix';
+import type { LayerMatrixConfig } from './layer-matrix';
+import { isTypedComponent } from '../schema/define-component';
+import { CoroutineScheduler } from '../coroutines/scheduler';
+import { applyComponentPatch, createTrackedComponent } from './change-tracking';
+import type { ComponentPatch } from './change-tracking';
+
+interface PrefabLink<R extends ComponentRegistry> {
+    readonly prefab: Prefab<R>;
+    readonly overrides: Map<string, Set<string>>;
+}
 
 export type WorldState = 'initializing' | 'ready' | 'paused' | 'disposing' | 'disposed';
 export type EntityId = Entity & { readonly __entityBrand: unique symbol };
@@ -72,10 +102,12 @@ interface WorldConfig {
     readonly enableValidation?: boolean;
     readonly enableEventBatching?: boolean;
     readonly cacheSize?: number;
+    readonly componentStorage?: Readonly<Record<string, ComponentStorage>>;
+    readonly layers?: LayerMatrixConfig;
 }
 
 export class World<R extends ComponentRegistry> {
-    private readonly _registry: R;
+    private _registry: R;
     private readonly _componentMask: ComponentMask;
     private readonly _archetypes = new Map<ArchetypeId, Archetype<R>>();
     private readonly _entityArchetypes = new Map<Entity, ArchetypeId>();
@@ -83,10 +115,30 @@ export class World<R extends ComponentRegistry> {
     private readonly _eventBus: IEventEmitter<ECSEventMap<R>>;
     private readonly _observables: ECSObservables<R>;
     private readonly _actorRegistry = new Map<Entity, Actor>();
+    private readonly _actorsByTag = new Map<string, Set<Actor>>();
+    private readonly _actorsByLayer = new Map<number, Set<Actor>>();
+    private readonly _layers: LayerMatrix;
+    private readonly _coroutines = new CoroutineScheduler();
+    private readonly _reactiveQueries = new Set<ReactiveQuery<R, any>>();
+    private readonly _sparseSets = new Map<string, SparseComponentSet<object>>();
 
     private _nextEntityId = 1;
     private readonly _freeEntities: Entity[] = [];
+    private _changeTick = 0;
     private _emptyArchetypeId: ArchetypeId;
+    private _batchDepth = 0;
+    private _pendingInvalidation = false;
+
+    private readonly _relations = new Map<string, Required<RelationOptions>>([
+        [ChildOf, { exclusive: true, onDeleteTarget: 'delete' }],
+    ]);
+    private readonly _pairArchetypes = new Map<string, Set<ArchetypeId>>();
+    private readonly _relationArchetypes = new Map<string, Set<ArchetypeId>>();
+    private readonly _targetPairs = new Map<Entity, Set<string>>();
+    private readonly _destroying = new Set<Entity>();
+
+    private readonly _prefabLinks = new Map<Entity, PrefabLink<R>>();
+    private readonly _prefabWatchers = new Map<Prefab<R>, () => void>();
 
     private _state: WorldState = 'initializing';
     private readonly _config: Required<WorldConfig>;
@@ -111,6 +163,8 @@ export class World<R extends ComponentRegistry> {
             enableValidation: config.enableValidation ?? true,
             enableEventBatching: config.enableEventBatching ?? true,
             cacheSize: config.cacheSize ?? 1000,
+            componentStorage: config.componentStorage ?? {},
+            layers: config.layers ?? {},
         };
 
         this._registry = registry;
@@ -119,6 +173,25 @@ export class World<R extends ComponentRegistry> {
         this._creationTime = performance.now();
 
         try {
+            for (const [componentName, Constructor] of Object.entries(registry)) {
+                const storage =
+                    this._config.componentStorage[componentName] ??
+                    (Constructor as { storage?: ComponentStorage }).storage ??
+                    'table';
+                if (storage === 'sparse') {
+                    this._sparseSets.set(
+                        componentName,
+                        new SparseComponentSet(componentName, Constructor)
+                    );
+                } else if (storage !== 'table') {
+                    throw new WorldError(
+                        `Unknown storage '${storage}' for component '${componentName}'`,
+                        'constructor'
+                    );
+                }
+            }
+
+            this._layers = new LayerMatrix(this._config.layers);
             this._componentMask = this._createComponentMask();
             this._queryCache = new OptimizedQueryCache();
             this._eventBus = createTypedEmitter<ECSEventMap<R>>();
@@ -139,6 +212,33 @@ export class World<R extends ComponentRegistry> {
         }
     }
 
+    static restore<R extends ComponentRegistry>(
+        registry: R,
+        snapshot: WorldSnapshot | ByteBuffer | Uint8Array | ArrayBuffer,
+        config: WorldConfig = {}
+    ): World<R> {
+        const world = new World(registry, config);
+
+        try {
+            const data =
+                snapshot instanceof ByteBuffer ||
+                snapshot instanceof Uint8Array ||
+                snapshot instanceof ArrayBuffer
+                    ? decodeWorldSnapshot(snapshot)
+                    : snapshot;
+
+            world._restoreSnapshot(data);
+            return world;
+        } catch (error) {
+            world.clear();
+            throw new WorldError(
+                'Failed to restore world snapshot',
+                'restore',
+                error instanceof Error ? error : new Error(String(error))
+            );
+        }
+    }
+
     get registry(): Readonly<R> {
         return this._registry;
     }
@@ -155,6 +255,14 @@ export class World<R extends ComponentRegistry> {
         return this._state === 'disposed';
     }
 
+    get changeTick(): number {
+        return this._changeTick;
+    }
+
+    getComponentStorage(componentName: keyof R): ComponentStorage {
+        return this._sparseSets.has(componentName as string) ? 'sparse' : 'table';
+    }
+
     get metrics(): Readonly<WorldMetrics> | null {
         if (!this._enableMetrics) {
             return null;
@@ -210,6 +318,12 @@ export class World<R extends ComponentRegistry> {
         this._validateEntity(entity, 'destroyEntity');
 
         try {
+            if (this._destroying.has(entity)) {
+                return;
+            }
+
+            this._releaseRelationTarget(entity);
+
             const archetypeId = this._entityArchetypes.get(entity);
             if (!archetypeId) {
                 return;
@@ -236,12 +350,31 @@ export class World<R extends ComponentRegistry> {
                 }
             }
 
+            for (const [componentName, sparseSet] of this._sparseSets) {
+                const component = sparseSet.remove(entity);
+                if (component) {
+                    try {
+                        sparseSet.pool.release(component);
+                    } catch (error) {
+                        console.warn(
+                            `Failed to release component ${componentName} for entity ${entity}:`,
+                            error
+                        );
+                    }
+                }
+            }
+
             this._entityArchetypes.delete(entity);
+            this._prefabLinks.delete(entity);
             this._freeEntities.push(entity);
+            for (const query of this._reactiveQueries) {
+                query._markRemoved(entity);
+            }
 
             const actor = this._actorRegistry.get(entity);
             if (actor) {
                 this._actorRegistry.delete(entity);
+                this._unindexActor(actor, actor.layer, actor.tag);
                 this._safeEmitEvent('EntityDestroyed', { entity, actor });
             }
 
@@ -268,6 +401,16 @@ export class World<R extends ComponentRegistry> {
         this._validateComponentName(componentName, 'addComponent');
 
         try {
+            const sparseSet = this._sparseSets.get(componentName as string);
+            if (sparseSet) {
+                return this._addSparseComponent(
+                    entity,
+                    componentName as string,
+                    sparseSet,
+                    component
+                ) as ComponentInstance<R[K]>;
+            }
+
             const currentArchetypeId = this._entityArchetypes.get(entity);
             if (!currentArchetypeId) {
                 throw new ComponentError(
@@ -311,14 +454,22 @@ export class World<R extends ComponentRegistry> {
                 );
             }
 
-            const finalComponent = component || pool.acquire();
+            const ticks = currentArchetype.getChangeTicks(entity);
+            ticks[componentName as string] = ++this._changeTick;
 
             const removedComponents = currentArchetype.removeEntity(entity);
-            removedComponents[componentName as string] = finalComponent;
-            targetArchetype.addEntity(entity, removedComponents);
+            removedComponents[componentName as string] = component || pool.acquire();
+            targetArchetype.addEntity(entity, removedComponents, ticks);
+
+            // Typed components copy their values into columns, so return the stored view.
+            const finalComponent = targetArchetype.getComponent<ComponentInstance<R[K]>>(
+                entity,
+                componentName as string
+            )!;
 
             this._entityArchetypes.set(entity, targetArchetype.id);
-            this._queryCache.invalidate();
+            this._invalidateQueries();
+            this._touchEntity(entity);
 
             const actor = this._actorRegistry.get(entity);
             if (actor) {
@@ -351,6 +502,12 @@ export class World<R extends ComponentRegistry> {
         this._validateComponentName(componentName, 'removeComponent');
 
         try {
+            const sparseSet = this._sparseSets.get(componentName as string);
+            if (sparseSet) {
+                this._removeSparseComponent(entity, componentName as string, sparseSet);
+                return;
+            }
+
             const currentArchetypeId = this._entityArchetypes.get(entity);
             if (!currentArchetypeId) {
                 return;
@@ -369,13 +526,15 @@ export class World<R extends ComponentRegistry> {
             );
             const targetArchetype = this._getOrCreateArchetype(newSignature);
 
+            const ticks = currentArchetype.getChangeTicks(entity);
             const removedComponents = currentArchetype.removeEntity(entity);
             const removedComponent = removedComponents[componentName as string];
             delete removedComponents[componentName as string];
 
-            targetArchetype.addEntity(entity, removedComponents);
+            targetArchetype.addEntity(entity, removedComponents, ticks);
             this._entityArchetypes.set(entity, targetArchetype.id);
-            this._queryCache.invalidate();
+            this._invalidateQueries();
+            this._touchEntity(entity);
 
             const pool = currentArchetype.components.get(componentName as string);
             if (pool && removedComponent) {
@@ -409,6 +568,413 @@ export class World<R extends ComponentRegistry> {
         }
     }
 
+    registerRelation(relation: string, options: RelationOptions = {}): this {
+        this._validateWorldState('registerRelation');
+        this._validateRelationName(relation, 'registerRelation');
+
+        this._relations.set(relation, {
+            exclusive: options.exclusive ?? false,
+            onDeleteTarget: options.onDeleteTarget ?? 'remove',
+        });
+
+        return this;
+    }
+
+    getRelationOptions(relation: string): Readonly<Required<RelationOptions>> | undefined {
+        return this._relations.get(relation);
+    }
+
+    addRelation(source: Entity, relation: string, target: Entity): void {
+        this._validateWorldState('addRelation');
+        this._validateEntity(source, 'addRelation');
+        this._validateEntity(target, 'addRelation');
+        this._validateRelationName(relation, 'addRelation');
+
+        if (!this._entityArchetypes.has(target)) {
+            throw new EntityError('Relation target does not exist', target, 'addRelation');
+        }
+
+        if (!this._relations.has(relation)) {
+            this.registerRelation(relation);
+        }
+
+        if (relation === ChildOf) {
+            for (let ancestor: Entity | undefined = target; ancestor; ) {
+                if (ancestor === source) {
+                    throw new EntityError(
+                        `Cannot parent entity to ${target}: it would create a cycle`,
+                        source,
+                        'addRelation'
+                    );
+                }
+                ancestor = this.getParent(ancestor);
+            }
+        }
+
+        const archetype = this._getEntityArchetype(source, 'addRelation');
+        const key = pairKey(relation, target);
+        if (archetype.signature.includes(key)) {
+            return;
+        }
+
+        const { exclusive } = this._relations.get(relation)!;
+        const replaced = exclusive
+            ? archetype.signature.filter((name) => parsePair(name)?.relation === relation)
+            : [];
+
+        this._moveEntity(source, archetype, [
+            ...archetype.signature.filter((name) => !replaced.includes(name)),
+            key,
+        ]);
+
+        for (const name of replaced) {
+            this._safeEmitEvent('RelationRemoved', {
+                source,
+                relation,
+                target: parsePair(name)!.target,
+            });
+        }
+        this._safeEmitEvent('RelationAdded', { source, relation, target });
+    }
+
+    removeRelation(source: Entity, relation: string, target?: Entity): boolean {
+        this._validateWorldState('removeRelation');
+        this._validateEntity(source, 'removeRelation');
+
+        if (!this._entityArchetypes.has(source)) {
+            return false;
+        }
+
+        const archetype = this._getEntityArchetype(source, 'removeRelation');
+        const removed = archetype.signature
+            .map((name) => [name, parsePair(name)] as const)
+            .filter(
+                ([, pair]) =>
+                    pair?.relation === relation && (target === undefined || pair.target === target)
+            );
+
+        if (removed.length === 0) {
+            return false;
+        }
+
+        const removedKeys = removed.map(([name]) => name);
+        this._moveEntity(
+            source,
+            archetype,
+            archetype.signature.filter((name) => !removedKeys.includes(name))
+        );
+
+        for (const [, pair] of removed) {
+            this._safeEmitEvent('RelationRemoved', { source, relation, target: pair!.target });
+        }
+
+        return true;
+    }
+
+    hasRelation(source: Entity, relation: string, target?: Entity): boolean {
+        return target === undefined
+            ? this.getRelationTargets(source, relation).length > 0
+            : this._getEntitySignature(source).includes(pairKey(relation, target));
+    }
+
+    getRelationTargets(source: Entity, relation: string): Entity[] {
+        return this.getRelationPairs(source)
+            .filter((pair) => pair.relation === relation)
+            .map((pair) => pair.target);
+    }
+
+    getRelationPairs(source: Entity): RelationPair[] {
+        const pairs: RelationPair[] = [];
+        for (const name of this._getEntitySignature(source)) {
+            const pair = parsePair(name);
+            if (pair) {
+                pairs.push(pair);
+            }
+        }
+        return pairs;
+    }
+
+    getRelated(relation: string, target: Entity): Entity[] {
+        return this._collectEntities(this._pairArchetypes.get(pairKey(relation, target)));
+    }
+
+    getEntitiesWithRelation(relation: string): Entity[] {
+        return this._collectEntities(this._relationArchetypes.get(relation));
+    }
+
+    setParent(child: Entity, parent: Entity | null): void {
+        if (parent === null) {
+            this.removeRelation(child, ChildOf);
+        } else {
+            this.addRelation(child, ChildOf, parent);
+        }
+    }
+
+    getParent(child: Entity): Entity | undefined {
+        return this.getRelationTargets(child, ChildOf)[0];
+    }
+
+    getChildren(parent: Entity): Entity[] {
+        return this.getRelated(ChildOf, parent);
+    }
+
+    instantiate(
+        prefab: Prefab<R> | PrefabDefinition<R>,
+        overrides: PrefabComponentValues<R> = {},
+        parent?: Entity
+    ): Entity {
+        this._validateWorldState('instantiate');
+
+        if (parent !== undefined && !this._entityArchetypes.has(parent)) {
+            throw new EntityError('Parent entity does not exist', parent, 'instantiate');
+        }
+
+        try {
+            return this.batch(() =>
+                this._instantiatePrefab(Prefab.from(prefab), overrides, parent)
+            );
+        } catch (error) {
+            throw new WorldError(
+                'Failed to instantiate prefab',
+                'instantiate',
+                error instanceof Error ? error : new Error(String(error))
+            );
+        }
+    }
+
+    getPrefab(entity: Entity): Prefab<R> | undefined {
+        return this._prefabLinks.get(entity)?.prefab;
+    }
+
+    getPrefabOverrides(entity: Entity): Record<string, string[]> {
+        const overrides: Record<string, string[]> = {};
+        for (const [componentName, fields] of this._prefabLinks.get(entity)?.overrides ?? []) {
+            overrides[componentName] = Array.from(fields);
+        }
+        return overrides;
+    }
+
+    setOverride<K extends keyof R>(
+        entity: Entity,
+        componentName: K,
+        values: Partial<ComponentInstance<R[K]>>
+    ): void {
+        this._validateWorldState('setOverride');
+        this._validateEntity(entity, 'setOverride');
+        this._validateComponentName(componentName, 'setOverride');
+
+        const component = this.getComponent(entity, componentName);
+        if (!component) {
+            throw new ComponentError(
+                'Component not found on entity',
+                entity,
+                String(componentName),
+                'setOverride'
+            );
+        }
+
+        applyPrefabValues(component as object, values as Record<string, unknown>);
+
+        const link = this._prefabLinks.get(entity);
+        if (link) {
+            this._recordOverrides(link, componentName as string, Object.keys(values));
+        }
+
+        this.markChanged(entity, componentName);
+    }
+
+    revertOverride<K extends keyof R>(entity: Entity, componentName: K, field?: string): boolean {
+        this._validateWorldState('revertOverride');
+
+        const link = this._prefabLinks.get(entity);
+        const overridden = link?.overrides.get(componentName as string);
+        const component = this.getComponent(entity, componentName);
+        if (!link || !overridden || !component) {
+            return false;
+        }
+
+        const fields = field === undefined ? Array.from(overridden) : [field];
+        if (!fields.some((name) => overridden.has(name))) {
+            return false;
+        }
+
+        for (const name of fields) {
+            overridden.delete(name);
+        }
+        if (overridden.size === 0) {
+            link.overrides.delete(componentName as string);
+        }
+
+        applyPrefabValues(component as object, link.prefab.getDefaults(componentName), fields);
+        this.markChanged(entity, componentName);
+
+        return true;
+    }
+
+    _linkPrefab(entity: Entity, prefab: Prefab<R>, overrides: PrefabComponentValues<R> = {}): void {
+        const link: PrefabLink<R> = { prefab, overrides: new Map() };
+        for (const [componentName, values] of Object.entries(overrides)) {
+            this._recordOverrides(link, componentName, Object.keys(values ?? {}));
+        }
+
+        this._prefabLinks.set(entity, link);
+
+        if (!this._prefabWatchers.has(prefab)) {
+            const unsubscribe = prefab.subscribe((change) => this._propagatePrefabChange(change));
+            this._prefabWatchers.set(prefab, unsubscribe);
+            this._disposables.add(unsubscribe);
+        }
+    }
+
+    batch<T>(operation: () => T): T {
+        this._validateWorldState('batch');
+
+        this._batchDepth++;
+        try {
+            return operation();
+        } finally {
+            this._batchDepth--;
+            if (this._batchDepth === 0 && this._pendingInvalidation) {
+                this._pendingInvalidation = false;
+                this._queryCache.invalidate();
+            }
+        }
+    }
+
+    get isBatching(): boolean {
+        return this._batchDepth > 0;
+    }
+
+    _applyComponentChanges(
+        entity: Entity,
+        added: Partial<{ [K in keyof R]: ComponentInstance<R[K]> | undefined }>,
+        removed: readonly (keyof R)[]
+    ): void {
+        this._validateWorldState('applyComponentChanges');
+        this._validateEntity(entity, 'applyComponentChanges');
+
+        // A name both removed and added is replaced by a fresh component.
+        const addedNames = Object.keys(added);
+        const removedNames = removed as readonly string[];
+        const replaced = new Set(removedNames.filter((name) => name in added));
+        for (const name of [...addedNames, ...removedNames]) {
+            this._validateComponentName(name as keyof R, 'applyComponentChanges');
+        }
+
+        try {
+            const currentArchetypeId = this._entityArchetypes.get(entity);
+            const currentArchetype = currentArchetypeId && this._archetypes.get(currentArchetypeId);
+            if (!currentArchetype) {
+                throw new EntityError('Entity not found', entity, 'applyComponentChanges');
+            }
+
+            const sparseAdd = addedNames.filter((name) => {
+                const sparseSet = this._sparseSets.get(name);
+                return sparseSet !== undefined && (!sparseSet.has(entity) || replaced.has(name));
+            });
+            const sparseRemove = removedNames.filter((name) =>
+                this._sparseSets.get(name)?.has(entity)
+            );
+            const toAdd = addedNames.filter(
+                (name) =>
+                    !this._sparseSets.has(name) &&
+                    (!currentArchetype.signature.includes(name) || replaced.has(name))
+            );
+            const toRemove = removedNames.filter((name) =>
+                currentArchetype.signature.includes(name)
+            );
+            if (
+                toAdd.length === 0 &&
+                toRemove.length === 0 &&
+                sparseAdd.length === 0 &&
+                sparseRemove.length === 0
+            ) {
+                return;
+            }
+
+            const tick = ++this._changeTick;
+            const addedComponents: Record<string, unknown> = {};
+            const removedComponents: Record<string, unknown> = {};
+            this._touchEntity(entity);
+
+            for (const name of sparseRemove) {
+                removedComponents[name] = this._sparseSets.get(name)!.remove(entity);
+            }
+            for (const name of sparseAdd) {
+                const sparseSet = this._sparseSets.get(name)!;
+                const component =
+                    ((added as Record<string, unknown>)[name] as object | undefined) ??
+                    sparseSet.pool.acquire();
+                sparseSet.add(entity, component, tick);
+                addedComponents[name] = component;
+            }
+
+            if (toAdd.length > 0 || toRemove.length > 0) {
+                const newSignature = [
+                    ...currentArchetype.signature.filter((name) => !toRemove.includes(name)),
+                    ...toAdd,
+                ].sort();
+                const targetArchetype = this._getOrCreateArchetype(newSignature);
+
+                const ticks = currentArchetype.getChangeTicks(entity);
+                const components = currentArchetype.removeEntity(entity);
+
+                for (const name of toRemove) {
+                    removedComponents[name] = components[name];
+                    delete components[name];
+                    delete ticks[name];
+                }
+
+                for (const name of toAdd) {
+                    components[name] =
+                        (added as Record<string, unknown>)[name] ??
+                        targetArchetype.components.get(name)!.acquire();
+                    ticks[name] = tick;
+                }
+
+                targetArchetype.addEntity(entity, components, ticks);
+                for (const name of toAdd) {
+                    addedComponents[name] = targetArchetype.getComponent(entity, name);
+                }
+                this._entityArchetypes.set(entity, targetArchetype.id);
+                this._invalidateQueries();
+            }
+
+            for (const [name, component] of Object.entries(removedComponents)) {
+                const pool =
+                    this._sparseSets.get(name)?.pool ?? currentArchetype.components.get(name);
+                if (pool && component) {
+                    try {
+                        pool.release(component as ComponentInstance<R[keyof R]>);
+                    } catch (error) {
+                        console.warn(`Failed to release component ${name}:`, error);
+                    }
+                }
+            }
+
+            const actor = this._actorRegistry.get(entity);
+            if (actor) {
+                for (const [name, component] of Object.entries(removedComponents)) {
+                    this._safeEmitEvent(`${name}Removed` as any, { entity, component, actor });
+                }
+                for (const [name, component] of Object.entries(addedComponents)) {
+                    this._safeEmitEvent(`${name}Added` as any, { entity, component, actor });
+                }
+            }
+
+            if (this._enableMetrics) {
+                this._lastUpdateTime = performance.now();
+            }
+        } catch (error) {
+            throw new EntityError(
+                'Failed to apply component changes',
+                entity,
+                'applyComponentChanges',
+                error instanceof Error ? error : new Error(String(error))
+            );
+        }
+    }
+
     getComponent<K extends keyof R>(
         entity: Entity,
         componentName: K
@@ -420,6 +986,11 @@ export class World<R extends ComponentRegistry> {
         }
 
         try {
+            const sparseSet = this._sparseSets.get(componentName as string);
+            if (sparseSet) {
+                return sparseSet.get(entity) as ComponentInstance<R[K]> | undefined;
+            }
+
             const archetypeId = this._entityArchetypes.get(entity);
             if (!archetypeId) {
                 return undefined;
@@ -446,6 +1017,87 @@ export class World<R extends ComponentRegistry> {
         return this.getComponent(entity, componentName) !== undefined;
     }
 
+    markChanged<K extends keyof R>(entity: Entity, componentName: K): boolean {
+        this._validateWorldState('markChanged');
+        this._validateEntity(entity, 'markChanged');
+        this._validateComponentName(componentName, 'markChanged');
+
+        const sparseSet = this._sparseSets.get(componentName as string);
+        if (sparseSet) {
+            return sparseSet.setTick(entity, ++this._changeTick);
+        }
+
+        const archetypeId = this._entityArchetypes.get(entity);
+        const archetype = archetypeId && this._archetypes.get(archetypeId);
+        if (!archetype) {
+            return false;
+        }
+
+        return archetype.setChangeTick(entity, componentName as string, ++this._changeTick);
+    }
+
+    getChangeTick<K extends keyof R>(entity: Entity, componentName: K): number | undefined {
+        const sparseSet = this._sparseSets.get(componentName as string);
+        if (sparseSet) {
+            return sparseSet.getTick(entity);
+        }
+
+        const archetypeId = this._entityArchetypes.get(entity);
+        const archetype = archetypeId && this._archetypes.get(archetypeId);
+        return archetype ? archetype.getChangeTick(entity, componentName as string) : undefined;
+    }
+
+    /** Merges the patch into the component and emits `${name}Changed` when a field changed. */
+    setComponent<K extends keyof R>(
+        entity: Entity,
+        componentName: K,
+        patch: ComponentPatch<ComponentInstance<R[K]>>
+    ): readonly ComponentFieldChange[] {
+        this._validateWorldState('setComponent');
+        this._validateEntity(entity, 'setComponent');
+        this._validateComponentName(componentName, 'setComponent');
+
+        const component = this.getComponent(entity, componentName);
+        if (!component) {
+            throw new ComponentError(
+                'Component not found on entity',
+                entity,
+                String(componentName),
+                'setComponent'
+            );
+        }
+
+        const changes = applyComponentPatch(component as object, patch as Record<string, unknown>);
+        if (changes.length > 0) {
+            this._emitComponentChanged(entity, componentName, component, changes);
+        }
+        return changes;
+    }
+
+    /** Returns a proxy of the component that emits `${name}Changed` for every effective write. */
+    trackComponent<K extends keyof R>(entity: Entity, componentName: K): ComponentInstance<R[K]> {
+        this._validateWorldState('trackComponent');
+        this._validateEntity(entity, 'trackComponent');
+        this._validateComponentName(componentName, 'trackComponent');
+
+        const component = this.getComponent(entity, componentName);
+        if (!component) {
+            throw new ComponentError(
+                'Component not found on entity',
+                entity,
+                String(componentName),
+                'trackComponent'
+            );
+        }
+
+        return createTrackedComponent(component as ComponentInstance<R[K]> & object, (change) => {
+            // Writes through a stale proxy are applied but no longer reported.
+            if (!this.isDisposed && this.getComponent(entity, componentName) !== undefined) {
+                this._emitComponentChanged(entity, componentName, component, [change]);
+            }
+        });
+    }
+
     query<Q extends readonly (keyof R)[]>(...components: Q): readonly QueryResult<R, Q>[] {
         this._validateWorldState('query');
 
@@ -459,6 +1111,10 @@ export class World<R extends ComponentRegistry> {
                 this._lastUpdateTime = performance.now();
             }
 
+            if (components.every((name) => this._sparseSets.has(name as string))) {
+                return this._querySparse(components);
+            }
+
             const queryKey = components.slice().sort().join(',');
             let matchingArchetypes = this._queryCache.getQuery(queryKey);
 
@@ -489,7 +1145,10 @@ export class World<R extends ComponentRegistry> {
 
                     let hasAllComponents = true;
                     for (const componentName of components) {
-                        const component = archetype.getComponent(entity, componentName as string);
+                        const sparseSet = this._sparseSets.get(componentName as string);
+                        const component = sparseSet
+                            ? sparseSet.get(entity)
+                            : archetype.getComponent(entity, componentName as string);
                         if (component) {
                             componentData[componentName] = component as ComponentInstance<
                                 R[typeof componentName]
@@ -519,6 +1178,166 @@ export class World<R extends ComponentRegistry> {
         }
     }
 
+    snapshot(): WorldSnapshot {
+        this._validateWorldState('snapshot');
+
+        try {
+            const entities: EntitySnapshot[] = [];
+            const sortedEntities = Array.from(this._entityArchetypes.entries()).sort(
+                ([a], [b]) => a - b
+            );
+
+            for (const [entity, archetypeId] of sortedEntities) {
+                const archetype = this._archetypes.get(archetypeId);
+                if (!archetype) {
+                    throw new EntityError('Archetype not found', entity, 'snapshot');
+                }
+
+                const components: Record<string, ComponentSnapshot> = {};
+                for (const componentName of archetype.signature) {
+                    const component = archetype.getComponent<object>(entity, componentName);
+                    if (component) {
+                        components[componentName] = captureComponent(component);
+                    }
+                }
+                for (const [componentName, sparseSet] of this._sparseSets) {
+                    const component = sparseSet.get(entity);
+                    if (component) {
+                        components[componentName] = captureComponent(component);
+                    }
+                }
+
+                const relations = this.getRelationPairs(entity).map(({ relation, target }) => ({
+                    relation,
+                    target: target as number,
+                }));
+
+                entities.push(
+                    relations.length > 0
+                        ? { id: entity, components, relations }
+                        : { id: entity, components }
+                );
+            }
+
+            return {
+                version: WORLD_SNAPSHOT_VERSION,
+                nextEntityId: this._nextEntityId,
+                freeEntities: this._freeEntities.slice(),
+                entities,
+            };
+        } catch (error) {
+            throw new WorldError(
+                'Failed to create snapshot',
+                'snapshot',
+                error instanceof Error ? error : new Error(String(error))
+            );
+        }
+    }
+
+    snapshotToBuffer(): ByteBuffer {
+        return encodeWorldSnapshot(this.snapshot());
+    }
+
+    queryBuilder(): QueryBuilder<R> {
+        this._validateWorldState('queryBuilder');
+        return new QueryBuilder(this);
+    }
+
+    _matchArchetypes(include: readonly string[], exclude: readonly string[]): Archetype<R>[] {
+        this._validateWorldState('query');
+
+        if (this._enableMetrics) {
+            this._queryCount++;
+            this._lastUpdateTime = performance.now();
+        }
+
+        const includeMask = this._createBitMask(include);
+
+        const exclusionKey = exclude.slice().sort().join(',');
+        let excludeMask = this._queryCache.getExclusionMask(exclusionKey);
+        if (excludeMask === undefined) {
+            excludeMask = this._createBitMask(exclude);
+            this._queryCache.setExclusionMask(exclusionKey, excludeMask);
+        }
+
+        let matchingArchetypes = this._queryCache.getFilteredQuery(includeMask, excludeMask);
+
+        if (!matchingArchetypes) {
+            matchingArchetypes = [];
+
+            for (const archetype of this._archetypes.values()) {
+                if (
+                    (archetype.mask & includeMask) === includeMask &&
+                    (archetype.mask & excludeMask) === 0n
+                ) {
+                    matchingArchetypes.push(archetype.id);
+                }
+            }
+
+            this._queryCache.setFilteredQuery(includeMask, excludeMask, matchingArchetypes);
+        }
+
+        const archetypes: Archetype<R>[] = [];
+        for (const archetypeId of matchingArchetypes) {
+            const archetype = this._archetypes.get(archetypeId);
+            if (archetype) {
+                archetypes.push(archetype);
+            }
+        }
+
+        return archetypes;
+    }
+
+    _getSparseSet(componentName: string): SparseComponentSet<object> | undefined {
+        return this._sparseSets.get(componentName);
+    }
+
+    _setComponentInstance(entity: Entity, componentName: string, component: object): void {
+        const sparseSet = this._sparseSets.get(componentName);
+        if (sparseSet) {
+            sparseSet.add(entity, component, sparseSet.getTick(entity) ?? this._changeTick);
+        } else {
+            const archetype = this._archetypes.get(this._entityArchetypes.get(entity)!);
+            if (!archetype?.setComponent(entity, componentName, component)) {
+                throw new ComponentError(
+                    'Entity has no replaceable component',
+                    entity,
+                    componentName,
+                    'setComponentInstance'
+                );
+            }
+        }
+        this.markChanged(entity, componentName as keyof R);
+    }
+
+    _replaceComponentType(
+        componentName: string,
+        Constructor: ComponentConstructor,
+        convert: (component: object, entity: Entity) => object
+    ): void {
+        const current = this._registry[componentName];
+        if (!current) {
+            throw new WorldError(
+                `Component '${componentName}' not found in registry`,
+                'replaceComponentType'
+            );
+        }
+        if (isTypedComponent(current) || isTypedComponent(Constructor)) {
+            throw new WorldError(
+                `Typed component '${componentName}' cannot be replaced`,
+                'replaceComponentType'
+            );
+        }
+
+        // The registry object may be shared with other worlds, so the swap goes into a copy.
+        this._registry = { ...this._registry, [componentName]: Constructor };
+
+        this._sparseSets.get(componentName)?.replaceType(Constructor, convert);
+        for (const archetype of this._archetypes.values()) {
+            archetype.replaceComponentType(componentName, Constructor, convert);
+        }
+    }
+
     registerActor(entity: Entity, actor: Actor): void {
         this._validateWorldState('registerActor');
         this._validateEntity(entity, 'registerActor');
@@ -529,6 +1348,7 @@ export class World<R extends ComponentRegistry> {
 
         try {
             this._actorRegistry.set(entity, actor);
+            this._indexActor(actor);
             this._safeEmitEvent('EntityCreated', { entity, actor });
         } catch (error) {
             throw new EntityError(
@@ -540,19 +1360,59 @@ export class World<R extends ComponentRegistry> {
         }
     }
 
-    unregisterActor(entity: Entity): void {
-        if (this._state === 'disposed') {
-            return;
-        }
+    unregisterActor(entity: Entity): void {
+        if (this._state === 'disposed') {
+            return;
+        }
+
+        const actor = this._actorRegistry.get(entity);
+        if (actor) {
+            this._actorRegistry.delete(entity);
+            this._unindexActor(actor, actor.layer, actor.tag);
+        }
+    }
+
+    getActor(entity: Entity): Actor | undefined {
+        return this._actorRegistry.get(entity);
+    }
+
+    get layers(): LayerMatrix {
+        return this._layers;
+    }
+
+    get coroutines(): CoroutineScheduler {
+        return this._coroutines;
+    }
+
+    findActorByTag(tag: string): Actor | undefined {
+        const actors = this._actorsByTag.get(tag);
+        return actors ? actors.values().next().value : undefined;
+    }
+
+    findActorsByTag(tag: string): readonly Actor[] {
+        const actors = this._actorsByTag.get(tag);
+        return actors ? Array.from(actors) : [];
+    }
 
-        const actor = this._actorRegistry.get(entity);
-        if (actor) {
-            this._actorRegistry.delete(entity);
+    /** Masks only address layers below MAX_ACTOR_LAYERS; actors on higher layers are skipped. */
+    findActorsInLayers(mask: number): readonly Actor[] {
+        const result: Actor[] = [];
+        for (let layer = 0; layer < MAX_ACTOR_LAYERS; layer++) {
+            if (mask & (1 << layer)) {
+                for (const actor of this._actorsByLayer.get(layer) ?? []) {
+                    result.push(actor);
+                }
+            }
         }
+        return result;
     }
 
-    getActor(entity: Entity): Actor | undefined {
-        return this._actorRegistry.get(entity);
+    _reindexActor(actor: Actor, previousLayer: number, previousTag: string): void {
+        if (this._actorRegistry.get(actor.entity) !== actor) {
+            return;
+        }
+        this._unindexActor(actor, previousLayer, previousTag);
+        this._indexActor(actor);
     }
 
     getAllEntities(): readonly Entity[] {
@@ -565,6 +1425,10 @@ export class World<R extends ComponentRegistry> {
         return Array.from(this._actorRegistry.values());
     }
 
+    hasEntity(entity: Entity): boolean {
+        return this._entityArchetypes.has(entity);
+    }
+
     getEntityCount(): number {
         return this._entityArchetypes.size;
     }
@@ -573,6 +1437,29 @@ export class World<R extends ComponentRegistry> {
         return this._archetypes.size;
     }
 
+    getArchetypes(): readonly {
+        readonly id: ArchetypeId;
+        readonly signature: readonly string[];
+        readonly entityCount: number;
+    }[] {
+        return Array.from(this._archetypes.values(), (archetype) => ({
+            id: archetype.id,
+            signature: archetype.signature,
+            entityCount: archetype.entityCount,
+        }));
+    }
+
+    /** Component names on the entity, including sparse ones; relation pairs are left out. */
+    getEntityComponents(entity: Entity): (keyof R & string)[] {
+        const names = this._getEntitySignature(entity).filter((name) => name in this._registry);
+        for (const [name, sparseSet] of this._sparseSets) {
+            if (sparseSet.has(entity)) {
+                names.push(name);
+            }
+        }
+        return names as (keyof R & string)[];
+    }
+
     on<T extends EventKey<ECSEventMap<R>>>(
         event: T,
         handler: (data: ECSEventMap<R>[T]) => void
@@ -787,6 +1674,53 @@ export class World<R extends ComponentRegistry> {
         }
     }
 
+    /**
+     * Creates a query that reports `{ entered, exited }` deltas instead of full result arrays.
+     * Deltas are produced by `flushReactiveQueries`, which WorldRunner calls once per frame.
+     */
+    watchQuery<Q extends readonly (keyof R)[]>(...components: Q): ReactiveQuery<R, Q> {
+        this._validateWorldState('watchQuery');
+
+        if (components.length === 0) {
+            throw new WorldError('Query must specify at least one component', 'watchQuery');
+        }
+        for (const componentName of components) {
+            this._validateComponentName(componentName, 'watchQuery');
+        }
+
+        const names = components as readonly string[];
+        const sparse = names.filter((name) => this._sparseSets.has(name));
+        const mask = this._createBitMask(names.filter((name) => !this._sparseSets.has(name)));
+
+        const query: ReactiveQuery<R, Q> = new ReactiveQuery(
+            components,
+            {
+                matches: (entity) => {
+                    const archetypeId = this._entityArchetypes.get(entity);
+                    const archetype = archetypeId && this._archetypes.get(archetypeId);
+                    return (
+                        !!archetype &&
+                        (archetype.mask & mask) === mask &&
+                        sparse.every((name) => this._sparseSets.get(name)!.has(entity))
+                    );
+                },
+                release: (released) => {
+                    this._reactiveQueries.delete(released);
+                },
+            },
+            this.query(...components).map(({ entity }) => entity)
+        );
+
+        this._reactiveQueries.add(query);
+        return query;
+    }
+
+    flushReactiveQueries(): void {
+        for (const query of Array.from(this._reactiveQueries)) {
+            query.flush();
+        }
+    }
+
     clear(): void {
         if (this._state === 'disposed') {
             return;
@@ -795,6 +1729,11 @@ export class World<R extends ComponentRegistry> {
         try {
             this._state = 'disposing';
 
+            this._coroutines.stopAll();
+            for (const query of Array.from(this._reactiveQueries)) {
+                query.dispose();
+            }
+
             const entitiesToDestroy = Array.from(this._entityArchetypes.keys());
 
             for (const entity of entitiesToDestroy) {
@@ -812,9 +1751,22 @@ export class World<R extends ComponentRegistry> {
                 }
             }
 
+            for (const archetype of this._archetypes.values()) {
+                archetype.dispose();
+            }
             this._archetypes.clear();
             this._entityArchetypes.clear();
             this._actorRegistry.clear();
+            this._actorsByTag.clear();
+            this._actorsByLayer.clear();
+            for (const sparseSet of this._sparseSets.values()) {
+                sparseSet.clear();
+            }
+            this._pairArchetypes.clear();
+            this._relationArchetypes.clear();
+            this._targetPairs.clear();
+            this._prefabLinks.clear();
+            this._prefabWatchers.clear();
             this._queryCache.invalidate();
             this._freeEntities.length = 0;
             this._nextEntityId = 1;
@@ -849,12 +1801,82 @@ export class World<R extends ComponentRegistry> {
         }
     }
 
+    private _restoreSnapshot(snapshot: WorldSnapshot): void {
+        validateWorldSnapshot(snapshot);
+
+        this._changeTick++;
+
+        if (snapshot.entities.length > this._config.maxEntities) {
+            throw new WorldError(
+                `Snapshot holds ${snapshot.entities.length} entities, exceeding the limit of ${this._config.maxEntities}`,
+                'restore'
+            );
+        }
+
+        for (const { id, components, relations = [] } of snapshot.entities) {
+            const entity = id as Entity;
+            const componentNames = Object.keys(components);
+            const pairs: string[] = [];
+
+            for (const { relation, target } of relations) {
+                this._validateRelationName(relation, 'restore');
+                if (!this._relations.has(relation)) {
+                    this.registerRelation(relation);
+                }
+                pairs.push(pairKey(relation, target as Entity));
+            }
+
+            for (const componentName of componentNames) {
+                if (!(componentName in this._registry)) {
+                    throw new ComponentError(
+                        'Component not found in registry',
+                        entity,
+                        componentName,
+                        'restore'
+                    );
+                }
+            }
+
+            const signature = componentNames.filter((name) => !this._sparseSets.has(name));
+            const archetype = this._getOrCreateArchetype([...signature, ...pairs]);
+            const instances: Record<string, any> = {};
+            const ticks: Record<string, number> = {};
+
+            for (const componentName of signature) {
+                const instance = archetype.components.get(componentName)!.acquire();
+                restoreComponent(instance, components[componentName]);
+                instances[componentName] = instance;
+                ticks[componentName] = this._changeTick;
+            }
+
+            archetype.addEntity(entity, instances, ticks);
+            this._entityArchetypes.set(entity, archetype.id);
+
+            for (const componentName of componentNames) {
+                const sparseSet = this._sparseSets.get(componentName);
+                if (sparseSet) {
+                    const instance = sparseSet.pool.acquire();
+                    restoreComponent(instance, components[componentName]);
+                    sparseSet.add(entity, instance, this._changeTick);
+                }
+            }
+        }
+
+        this._nextEntityId = snapshot.nextEntityId;
+        this._freeEntities.length = 0;
+        this._freeEntities.push(...(snapshot.freeEntities as Entity[]));
+        this._queryCache.invalidate();
+    }
+
     private _createComponentMask(): ComponentMask {
         const mask = new Map<string, number>();
         let bit = 0;
 
+        // Sparse components never appear in archetype signatures, so they get no bit.
         for (const componentName of Object.keys(this._registry)) {
-            mask.set(componentName, bit++);
+            if (!this._sparseSets.has(componentName)) {
+                mask.set(componentName, bit++);
+            }
         }
 
         return mask;
@@ -913,6 +1935,17 @@ export class World<R extends ComponentRegistry> {
                         console.error(`Failed to notify ${componentName} removed:`, error);
                     }
                 });
+
+                this._eventBus.on(`${componentName}Changed` as any, (data) => {
+                    try {
+                        const observables = this._observables.getComponentObservables(
+                            componentName as keyof R
+                        );
+                        observables.changed.notify(data);
+                    } catch (error) {
+                        console.error(`Failed to notify ${componentName} changed:`, error);
+                    }
+                });
             }
         } catch (error) {
             throw new WorldError(
@@ -923,6 +1956,431 @@ export class World<R extends ComponentRegistry> {
         }
     }
 
+    private _getEntityArchetype(entity: Entity, operation: string): Archetype<R> {
+        const archetypeId = this._entityArchetypes.get(entity);
+        const archetype = archetypeId && this._archetypes.get(archetypeId);
+        if (!archetype) {
+            throw new EntityError('Entity not found', entity, operation);
+        }
+        return archetype;
+    }
+
+    private _getEntitySignature(entity: Entity): readonly string[] {
+        const archetypeId = this._entityArchetypes.get(entity);
+        const archetype = archetypeId && this._archetypes.get(archetypeId);
+        return archetype ? archetype.signature : [];
+    }
+
+    private _moveEntity(
+        entity: Entity,
+        currentArchetype: Archetype<R>,
+        signature: readonly string[]
+    ): void {
+        const targetArchetype = this._getOrCreateArchetype(signature);
+        if (targetArchetype === currentArchetype) {
+            return;
+        }
+
+        const ticks = currentArchetype.getChangeTicks(entity);
+        const components = currentArchetype.removeEntity(entity);
+        targetArchetype.addEntity(entity, components, ticks);
+        this._entityArchetypes.set(entity, targetArchetype.id);
+        this._invalidateQueries();
+        this._touchEntity(entity);
+    }
+
+    private _indexActor(actor: Actor): void {
+        let tagged = this._actorsByTag.get(actor.tag);
+        if (!tagged) {
+            tagged = new Set();
+            this._actorsByTag.set(actor.tag, tagged);
+        }
+        tagged.add(actor);
+
+        let layered = this._actorsByLayer.get(actor.layer);
+        if (!layered) {
+            layered = new Set();
+            this._actorsByLayer.set(actor.layer, layered);
+        }
+        layered.add(actor);
+    }
+
+    private _unindexActor(actor: Actor, layer: number, tag: string): void {
+        const tagged = this._actorsByTag.get(tag);
+        if (tagged?.delete(actor) && tagged.size === 0) {
+            this._actorsByTag.delete(tag);
+        }
+
+        const layered = this._actorsByLayer.get(layer);
+        if (layered?.delete(actor) && layered.size === 0) {
+            this._actorsByLayer.delete(layer);
+        }
+    }
+
+    private _collectEntities(archetypeIds: ReadonlySet<ArchetypeId> | undefined): Entity[] {
+        const entities: Entity[] = [];
+        if (!archetypeIds) {
+            return entities;
+        }
+
+        for (const archetypeId of archetypeIds) {
+            const archetype = this._archetypes.get(archetypeId);
+            if (archetype) {
+                entities.push(...archetype.entities.slice(0, archetype.entityCount));
+            }
+        }
+        return entities;
+    }
+
+    private _releaseRelationTarget(target: Entity): void {
+        const keys = this._targetPairs.get(target);
+        if (!keys || keys.size === 0) {
+            return;
+        }
+
+        const pairs = Array.from(keys, (key) => ({ key, ...parsePair(key)! }));
+
+        for (const { key, relation } of pairs) {
+            const policy = this._relations.get(relation)?.onDeleteTarget ?? 'remove';
+            if (
+                policy === 'prevent' &&
+                this._collectEntities(this._pairArchetypes.get(key)).length
+            ) {
+                throw new EntityError(
+                    `Entity is still the target of '${relation}' relations`,
+                    target,
+                    'destroyEntity'
+                );
+            }
+        }
+
+        this._destroying.add(target);
+        try {
+            for (const { key, relation } of pairs) {
+                const policy = this._relations.get(relation)?.onDeleteTarget ?? 'remove';
+                for (const source of this._collectEntities(this._pairArchetypes.get(key))) {
+                    if (policy === 'delete' && source !== target) {
+                        // Actors tear themselves down so their components see onDestroy.
+                        const actor = this.getActor(source);
+                        if (actor) {
+                            actor.destroy(true);
+                        } else {
+                            this.destroyEntity(source);
+                        }
+                    } else {
+                        this.removeRelation(source, relation, target);
+                    }
+                }
+            }
+        } finally {
+            this._destroying.delete(target);
+        }
+
+        for (const { key, relation } of pairs) {
+            for (const archetypeId of this._pairArchetypes.get(key) ?? []) {
+                const archetype = this._archetypes.get(archetypeId);
+                if (archetype && archetype.entityCount === 0) {
+                    archetype.dispose();
+                    this._archetypes.delete(archetypeId);
+                    this._relationArchetypes.get(relation)?.delete(archetypeId);
+                    for (const name of archetype.signature) {
+                        const pair = parsePair(name);
+                        if (pair && name !== key) {
+                            this._pairArchetypes.get(name)?.delete(archetypeId);
+                            this._relationArchetypes.get(pair.relation)?.delete(archetypeId);
+                        }
+                    }
+                }
+            }
+            this._pairArchetypes.delete(key);
+        }
+
+        this._targetPairs.delete(target);
+        this._queryCache.invalidate();
+    }
+
+    private _registerArchetypePairs(archetype: Archetype<R>): void {
+        for (const name of archetype.signature) {
+            const pair = parsePair(name);
+            if (!pair) {
+                continue;
+            }
+
+            const add = <K>(map: Map<K, Set<ArchetypeId>>, key: K): void => {
+                let ids = map.get(key);
+                if (!ids) {
+                    ids = new Set();
+                    map.set(key, ids);
+                }
+                ids.add(archetype.id);
+            };
+
+            add(this._pairArchetypes, name);
+            add(this._relationArchetypes, pair.relation);
+
+            let keys = this._targetPairs.get(pair.target);
+            if (!keys) {
+                keys = new Set();
+                this._targetPairs.set(pair.target, keys);
+            }
+            keys.add(name);
+        }
+    }
+
+    private _validateRelationName(relation: string, operation: string): void {
+        if (!isValidRelationName(relation)) {
+            throw new WorldError(`Invalid relation name '${relation}'`, operation);
+        }
+        if (relation in this._registry) {
+            throw new WorldError(
+                `Relation '${relation}' conflicts with a registered component`,
+                operation
+            );
+        }
+    }
+
+    private _instantiatePrefab(
+        prefab: Prefab<R>,
+        overrides: PrefabComponentValues<R>,
+        parent: Entity | undefined
+    ): Entity {
+        const componentNames = new Set<string>([
+            ...(prefab.componentNames as string[]),
+            ...Object.keys(overrides),
+        ]);
+        for (const componentName of componentNames) {
+            this._validateComponentName(componentName as keyof R, 'instantiate');
+        }
+
+        if (this._entityArchetypes.size >= this._config.maxEntities) {
+            throw new WorldError(
+                `Maximum entity limit (${this._config.maxEntities}) reached`,
+                'instantiate'
+            );
+        }
+
+        // The entity goes straight into its final archetype, parent pair included.
+        const signature = Array.from(componentNames).filter((name) => !this._sparseSets.has(name));
+        if (parent !== undefined) {
+            signature.push(pairKey(ChildOf, parent));
+        }
+        const archetype = this._getOrCreateArchetype(signature);
+
+        const instances: Record<string, unknown> = {};
+        const ticks: Record<string, number> = {};
+        const tick = ++this._changeTick;
+
+        for (const componentName of componentNames) {
+            const pool =
+                this._sparseSets.get(componentName)?.pool ??
+                archetype.components.get(componentName)!;
+            const instance = pool.acquire();
+            applyPrefabValues(instance, prefab.getDefaults(componentName));
+            applyPrefabValues(instance, overrides[componentName] as Record<string, unknown>);
+            instances[componentName] = instance;
+            ticks[componentName] = tick;
+        }
+
+        const entity = this._freeEntities.pop() ?? (this._nextEntityId++ as Entity);
+        for (const [componentName, sparseSet] of this._sparseSets) {
+            if (componentName in instances) {
+                sparseSet.add(entity, instances[componentName] as object, tick);
+                delete instances[componentName];
+            }
+        }
+        archetype.addEntity(entity, instances, ticks);
+        this._entityArchetypes.set(entity, archetype.id);
+        this._invalidateQueries();
+        this._touchEntity(entity);
+
+        this._linkPrefab(entity, prefab, overrides);
+
+        for (const child of prefab.children) {
+            this._instantiatePrefab(child, {}, entity);
+        }
+
+        return entity;
+    }
+
+    private _recordOverrides(link: PrefabLink<R>, componentName: string, fields: string[]): void {
+        if (fields.length === 0) {
+            return;
+        }
+
+        let overridden = link.overrides.get(componentName);
+        if (!overridden) {
+            overridden = new Set();
+            link.overrides.set(componentName, overridden);
+        }
+        for (const field of fields) {
+            overridden.add(field);
+        }
+    }
+
+    private _propagatePrefabChange({
+        prefab,
+        componentName,
+        fields,
+        removed,
+    }: PrefabChange<R>): void {
+        if (this._state === 'disposed') {
+            return;
+        }
+
+        const name = componentName as string;
+        const defaults = prefab.getDefaults(componentName);
+
+        for (const [entity, link] of Array.from(this._prefabLinks)) {
+            if (link.prefab !== prefab) {
+                continue;
+            }
+
+            if (removed) {
+                if (!link.overrides.has(name)) {
+                    this._removePrefabComponent(entity, componentName);
+                }
+                continue;
+            }
+
+            let component = this.getComponent(entity, componentName) as object | undefined;
+            let changedFields = fields.filter((field) => !link.overrides.get(name)?.has(field));
+
+            if (!component) {
+                component = this._addPrefabComponent(entity, componentName);
+                changedFields = Object.keys(defaults ?? {});
+            }
+
+            if (changedFields.length > 0) {
+                applyPrefabValues(component, defaults, changedFields);
+                this.markChanged(entity, componentName);
+            }
+        }
+    }
+
+    private _addPrefabComponent(entity: Entity, componentName: keyof R): object {
+        const actor = this._actorRegistry.get(entity);
+        return actor
+            ? actor.addComponent(this._registry[componentName] as any)
+            : (this.addComponent(entity, componentName) as object);
+    }
+
+    private _removePrefabComponent(entity: Entity, componentName: keyof R): void {
+        const actor = this._actorRegistry.get(entity);
+        if (actor) {
+            actor.removeComponent(this._registry[componentName] as any);
+        } else {
+            this.removeComponent(entity, componentName);
+        }
+    }
+
+    private _addSparseComponent(
+        entity: Entity,
+        componentName: string,
+        sparseSet: SparseComponentSet<object>,
+        component?: object
+    ): object {
+        if (!this._entityArchetypes.has(entity)) {
+            throw new ComponentError('Entity not found', entity, componentName, 'addComponent');
+        }
+
+        const existingComponent = sparseSet.get(entity);
+        if (existingComponent) {
+            return existingComponent;
+        }
+
+        const finalComponent = component || sparseSet.pool.acquire();
+        sparseSet.add(entity, finalComponent, ++this._changeTick);
+        this._touchEntity(entity);
+
+        const actor = this._actorRegistry.get(entity);
+        if (actor) {
+            this._safeEmitEvent(`${componentName}Added` as any, {
+                entity,
+                component: finalComponent,
+                actor,
+            });
+        }
+
+        if (this._enableMetrics) {
+            this._lastUpdateTime = performance.now();
+        }
+
+        return finalComponent;
+    }
+
+    private _removeSparseComponent(
+        entity: Entity,
+        componentName: string,
+        sparseSet: SparseComponentSet<object>
+    ): void {
+        const removedComponent = sparseSet.remove(entity);
+        if (!removedComponent) {
+            return;
+        }
+        this._touchEntity(entity);
+
+        try {
+            sparseSet.pool.release(removedComponent);
+        } catch (error) {
+            console.warn(`Failed to release component ${componentName}:`, error);
+        }
+
+        const actor = this._actorRegistry.get(entity);
+        if (actor) {
+            this._safeEmitEvent(`${componentName}Removed` as any, {
+                entity,
+                component: removedComponent,
+                actor,
+            });
+        }
+
+        if (this._enableMetrics) {
+            this._lastUpdateTime = performance.now();
+        }
+    }
+
+    private _querySparse<Q extends readonly (keyof R)[]>(components: Q): QueryResult<R, Q>[] {
+        const sets = components.map((name) => this._sparseSets.get(name as string)!);
+        const smallest = sets.reduce((a, b) => (b.size < a.size ? b : a));
+        const results: QueryResult<R, Q>[] = [];
+
+        for (const entity of smallest.entities) {
+            const componentData = {} as { [K in Q[number]]: ComponentInstance<R[K]> };
+
+            let hasAllComponents = true;
+            for (let i = 0; i < components.length; i++) {
+                const component = sets[i].get(entity);
+                if (!component) {
+                    hasAllComponents = false;
+                    break;
+                }
+                componentData[components[i] as Q[number]] = component as ComponentInstance<
+                    R[Q[number]]
+                >;
+            }
+
+            if (hasAllComponents) {
+                results.push({ entity, components: componentData });
+            }
+        }
+
+        return results;
+    }
+
+    private _touchEntity(entity: Entity): void {
+        for (const query of this._reactiveQueries) {
+            query._markDirty(entity);
+        }
+    }
+
+    private _invalidateQueries(): void {
+        if (this._batchDepth > 0) {
+            this._pendingInvalidation = true;
+            return;
+        }
+        this._queryCache.invalidate();
+    }
+
     private _getOrCreateArchetype(signature: readonly string[]): Archetype<R> {
         try {
             const sortedSignature = signature.slice().sort();
@@ -940,6 +2398,7 @@ export class World<R extends ComponentRegistry> {
                     this._componentMask
                 );
                 this._archetypes.set(id, archetype);
+                this._registerArchetypePairs(archetype);
                 this._queryCache.invalidate();
             }
 
@@ -994,6 +2453,21 @@ export class World<R extends ComponentRegistry> {
         }
     }
 
+    private _emitComponentChanged<K extends keyof R>(
+        entity: Entity,
+        componentName: K,
+        component: ComponentInstance<R[K]>,
+        changes: readonly ComponentFieldChange[]
+    ): void {
+        this.markChanged(entity, componentName);
+        this._safeEmitEvent(`${componentName as string}Changed` as any, {
+            entity,
+            component,
+            actor: this._actorRegistry.get(entity),
+            changes,
+        });
+    }
+
     private _safeEmitEvent<T extends EventKey<ECSEventMap<R>>>(
         event: T,
         data: ECSEventMap<R>[T]
@@ -1048,7 +2522,12 @@ export class World<R extends ComponentRegistry> {
             archetypeCount: this.getArchetypeCount(),
             freeEntityCount: this._freeEntities.length,
             nextEntityId: this._nextEntityId,
+            changeTick: this._changeTick,
             componentTypes: Object.keys(this._registry),
+            sparseComponents: Array.from(this._sparseSets.values()).map((sparseSet) => ({
+                name: sparseSet.name,
+                entityCount: sparseSet.size,
+            })),
             metrics: this.metrics,
             archetypes: Array.from(this._archetypes.entries()).map(([id, archetype]) => ({
                 id,
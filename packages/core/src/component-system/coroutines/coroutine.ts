@@ -0,0 +1,148 @@
+import type { YieldInstruction } from './instructions';
+import { WaitForFrames, WaitUntil } from './instructions';
+import { CoroutineError } from './errors';
+
+export type CoroutineState = 'running' | 'completed' | 'stopped' | 'failed';
+
+export type CoroutineYield =
+    | YieldInstruction<any>
+    | Coroutine
+    | CoroutineRoutine
+    | null
+    | undefined
+    | void;
+
+export type CoroutineRoutine = Generator<CoroutineYield, void, any>;
+
+export interface CoroutineOptions {
+    readonly owner?: object;
+    /** Polled before every step; the coroutine stops once it returns false. */
+    readonly active?: () => boolean;
+    /** Identifies timed invocations so they can be cancelled separately from coroutines. */
+    readonly key?: unknown;
+}
+
+const isRoutine = (value: unknown): value is CoroutineRoutine =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as CoroutineRoutine).next === 'function' &&
+    typeof (value as CoroutineRoutine).return === 'function';
+
+export class Coroutine implements YieldInstruction<void> {
+    readonly owner: object | undefined;
+    readonly key: unknown;
+
+    private readonly _active: (() => boolean) | undefined;
+    private _state: CoroutineState = 'running';
+    private _waiting: YieldInstruction | undefined;
+    private _error: Error | undefined;
+    private _resuming = false;
+
+    constructor(
+        private readonly _routine: CoroutineRoutine,
+        private readonly _start: (
+            routine: CoroutineRoutine,
+            options: CoroutineOptions
+        ) => Coroutine,
+        options: CoroutineOptions = {}
+    ) {
+        this.owner = options.owner;
+        this.key = options.key;
+        this._active = options.active;
+    }
+
+    get state(): CoroutineState {
+        return this._state;
+    }
+
+    get running(): boolean {
+        return this._state === 'running';
+    }
+
+    get error(): Error | undefined {
+        return this._error;
+    }
+
+    tick(): boolean {
+        return this._state !== 'running';
+    }
+
+    /** Stops the coroutine when a parent waiting on it is stopped. */
+    cancel(): void {
+        this.stop();
+    }
+
+    stop(): void {
+        if (this._state !== 'running') return;
+
+        this._state = 'stopped';
+        this._waiting?.cancel?.();
+        this._waiting = undefined;
+
+        // A coroutine stopping itself is still inside next(); it is closed once that returns.
+        if (!this._resuming) {
+            this._routine.return();
+        }
+    }
+
+    _update(deltaTime: number): void {
+        if (this._state !== 'running') return;
+
+        if (this._active && !this._active()) {
+            this.stop();
+            return;
+        }
+
+        if (this._waiting && !this._waiting.tick(deltaTime)) return;
+
+        const result = this._waiting?.result;
+        this._waiting = undefined;
+        this._resume(result);
+    }
+
+    _resume(value: unknown): void {
+        this._resuming = true;
+        try {
+            const next = this._routine.next(value);
+            if (this._state !== 'running') {
+                if (!next.done) {
+                    (next.value as YieldInstruction | null)?.cancel?.();
+                }
+                return;
+            }
+
+            if (next.done) {
+                this._state = 'completed';
+            } else {
+                this._waiting = this._toInstruction(next.value);
+            }
+        } catch (error) {
+            this._state = 'failed';
+            this._error = error instanceof Error ? error : new Error(String(error));
+            console.error(new CoroutineError('Coroutine failed', this._error));
+        } finally {
+            this._resuming = false;
+            if (this._state === 'stopped') {
+                this._routine.return();
+            }
+        }
+    }
+
+    private _toInstruction(value: CoroutineYield): YieldInstruction {
+        if (value === null || value === undefined) {
+            return new WaitForFrames(1);
+        }
+        if (value instanceof Coroutine) {
+            // Coroutines started elsewhere keep running if this one is stopped.
+            return new WaitUntil(() => !value.running);
+        }
+        if (isRoutine(value)) {
+            return this._start(value, { owner: this.owner, active: this._active });
+        }
+        if (typeof (value as YieldInstruction).tick === 'function') {
+            return value as YieldInstruction;
+        }
+
+        throw new CoroutineError(`Unsupported yield value ${String(value)}`);
+    }
+}
@@ -0,0 +1,13 @@
+export class CoroutineError extends Error {
+    constructor(
+        message: string,
+        public readonly cause?: Error
+    ) {
+        super(`[Coroutine] ${message}`);
+        this.name = 'CoroutineError';
+        Object.setPrototypeOf(this, CoroutineError.prototype);
+        if (cause) {
+            this.stack += `\nCaused by: ${cause.stack}`;
+        }
+    }
+}
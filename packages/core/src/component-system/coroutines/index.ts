@@ -0,0 +1,19 @@
+export { CoroutineError } from './errors';
+export {
+    WaitForSeconds,
+    WaitForInterval,
+    WaitForFrames,
+    WaitUntil,
+    WaitWhile,
+    WaitForTween,
+    WaitForEvent,
+} from './instructions';
+export type { YieldInstruction, TweenLike, EventSource } from './instructions';
+export { Coroutine } from './coroutine';
+export type {
+    CoroutineState,
+    CoroutineYield,
+    CoroutineRoutine,
+    CoroutineOptions,
+} from './coroutine';
+export { CoroutineScheduler } from './scheduler';
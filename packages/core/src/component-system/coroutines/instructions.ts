@@ -0,0 +1,136 @@
+import { CoroutineError } from './errors';
+
+export interface YieldInstruction<T = unknown> {
+    /** Advances the wait by one frame and returns true once the coroutine may resume. */
+    tick(deltaTime: number): boolean;
+    /** Handed back to the coroutine as the value of the `yield` expression. */
+    readonly result?: T;
+    cancel?(): void;
+}
+
+export interface TweenLike {
+    isPlaying(): boolean;
+    getStatus(): string;
+}
+
+export interface EventSource {
+    on(event: any, handler: (data: any) => void): () => void;
+}
+
+export class WaitForSeconds implements YieldInstruction<void> {
+    private _elapsed = 0;
+
+    constructor(readonly seconds: number) {
+        if (!(seconds >= 0) || !Number.isFinite(seconds)) {
+            throw new CoroutineError(`Invalid wait duration ${seconds}`);
+        }
+    }
+
+    tick(deltaTime: number): boolean {
+        this._elapsed += deltaTime;
+        return this._elapsed >= this.seconds;
+    }
+}
+
+/**
+ * Resumes after `delay` seconds and then once per `interval`. Time past a boundary carries into
+ * the next interval, and `result` is the number of intervals that elapsed since the last resume.
+ */
+export class WaitForInterval implements YieldInstruction<number> {
+    private _remaining: number;
+    private _result = 0;
+
+    constructor(
+        readonly interval: number,
+        delay: number = interval
+    ) {
+        if (!(interval > 0) || !Number.isFinite(interval)) {
+            throw new CoroutineError(`Invalid interval ${interval}`);
+        }
+        if (!(delay >= 0) || !Number.isFinite(delay)) {
+            throw new CoroutineError(`Invalid wait duration ${delay}`);
+        }
+        this._remaining = delay;
+    }
+
+    get result(): number {
+        return this._result;
+    }
+
+    tick(deltaTime: number): boolean {
+        this._remaining -= deltaTime;
+        if (this._remaining > 0) return false;
+
+        this._result = Math.floor(-this._remaining / this.interval) + 1;
+        this._remaining += this._result * this.interval;
+        return true;
+    }
+}
+
+export class WaitForFrames implements YieldInstruction<void> {
+    private _frames = 0;
+
+    constructor(readonly frames: number = 1) {
+        if (!Number.isInteger(frames) || frames < 0) {
+            throw new CoroutineError(`Invalid frame count ${frames}`);
+        }
+    }
+
+    tick(): boolean {
+        return ++this._frames >= this.frames;
+    }
+}
+
+export class WaitUntil implements YieldInstruction<void> {
+    constructor(private readonly _predicate: () => boolean) {}
+
+    tick(): boolean {
+        return this._predicate();
+    }
+}
+
+export class WaitWhile implements YieldInstruction<void> {
+    constructor(private readonly _predicate: () => boolean) {}
+
+    tick(): boolean {
+        return !this._predicate();
+    }
+}
+
+/** Resumes once the tween stops playing, whether it completed or was stopped. */
+export class WaitForTween implements YieldInstruction<void> {
+    constructor(readonly tween: TweenLike) {}
+
+    tick(): boolean {
+        return !this.tween.isPlaying() && this.tween.getStatus() !== 'paused';
+    }
+}
+
+export class WaitForEvent<T = unknown> implements YieldInstruction<T> {
+    private _fired = false;
+    private _result: T | undefined;
+    private _unsubscribe: (() => void) | undefined;
+
+    constructor(source: EventSource, event: string, filter?: (data: T) => boolean) {
+        this._unsubscribe = source.on(event, (data: T) => {
+            if (this._fired || (filter && !filter(data))) return;
+
+            this._fired = true;
+            this._result = data;
+            this.cancel();
+        });
+    }
+
+    get result(): T | undefined {
+        return this._result;
+    }
+
+    tick(): boolean {
+        return this._fired;
+    }
+
+    cancel(): void {
+        this._unsubscribe?.();
+        this._unsubscribe = undefined;
+    }
+}
@@ -0,0 +1,54 @@
+import { Coroutine } from './coroutine';
+import type { CoroutineOptions, CoroutineRoutine } from './coroutine';
+
+export class CoroutineScheduler {
+    private _coroutines: Coroutine[] = [];
+    private _frame = 0;
+
+    get count(): number {
+        return this._coroutines.filter((coroutine) => coroutine.running).length;
+    }
+
+    get frame(): number {
+        return this._frame;
+    }
+
+    /** Runs the routine up to its first yield, then advances it on every tick. */
+    start(routine: CoroutineRoutine, options: CoroutineOptions = {}): Coroutine {
+        const coroutine = new Coroutine(routine, this._start, options);
+        this._coroutines.push(coroutine);
+        coroutine._resume(undefined);
+        return coroutine;
+    }
+
+    tick(deltaTime: number): void {
+        this._frame++;
+
+        // Coroutines started during this tick already ran their first step.
+        for (const coroutine of this._coroutines.slice()) {
+            coroutine._update(deltaTime);
+        }
+
+        this._coroutines = this._coroutines.filter((coroutine) => coroutine.running);
+    }
+
+    getCoroutines(owner?: object): readonly Coroutine[] {
+        return this._coroutines.filter(
+            (coroutine) => coroutine.running && (owner === undefined || coroutine.owner === owner)
+        );
+    }
+
+    stopAll(owner?: object, filter?: (coroutine: Coroutine) => boolean): number {
+        let stopped = 0;
+        for (const coroutine of this.getCoroutines(owner)) {
+            if (!filter || filter(coroutine)) {
+                coroutine.stop();
+                stopped++;
+            }
+        }
+        return stopped;
+    }
+
+    private readonly _start = (routine: CoroutineRoutine, options: CoroutineOptions): Coroutine =>
+        this.start(routine, options);
+}
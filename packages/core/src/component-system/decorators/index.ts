@@ -2,6 +2,7 @@ export {
     script,
     Script,
     getComponentMetadata,
+    onScriptReload,
     setComponentMetadata,
     getAllScripts,
     getDependencyTree,
@@ -11,4 +12,9 @@ export {
     __debugScriptSystem,
 } from './script';
 
-export type { ScriptMetadata, ScriptDecoratorOptions, ValidationResult } from './script';
+export type {
+    ScriptMetadata,
+    ScriptDecoratorOptions,
+    ScriptReload,
+    ValidationResult,
+} from './script';
@@ -9,6 +9,7 @@ export interface ScriptMetadata extends ComponentMetadata {
     readonly experimental?: boolean;
     readonly deprecated?: boolean;
     readonly deprecationMessage?: string;
+    readonly hotReload?: boolean;
 }
 
 export interface ScriptDecoratorOptions extends Partial<ScriptMetadata> {
@@ -25,6 +26,14 @@ export interface ValidationResult {
     readonly warnings: readonly string[];
 }
 
+export interface ScriptReload {
+    readonly scriptName: string;
+    readonly previous: ComponentType;
+    readonly next: ComponentType;
+    readonly fromVersion?: string;
+    readonly toVersion?: string;
+}
+
 interface ScriptRegistryEntry {
     readonly metadata: ScriptMetadata;
     readonly componentType: ComponentType;
@@ -45,6 +54,8 @@ const scriptRegistry = new Map<string, ScriptRegistryEntry>();
 
 const dependencyGraph = new Map<ComponentType, Set<ComponentType>>();
 
+const reloadListeners = new Set<(reload: ScriptReload) => void>();
+
 const metricsCache = new Map<
     string,
     {
@@ -211,6 +222,7 @@ export function script<T extends ComponentType>(
                 experimental: options.experimental || false,
                 deprecated: options.deprecated || false,
                 deprecationMessage: options.deprecationMessage,
+                hotReload: options.hotReload || false,
             };
 
             let validationResult: ValidationResult = { isValid: true, errors: [], warnings: [] };
@@ -243,6 +255,7 @@ export function script<T extends ComponentType>(
                 lastAccessed: startTime,
             };
 
+            const previous = scriptRegistry.get(metadata.scriptName);
             scriptRegistry.set(metadata.scriptName, registryEntry);
 
             if (metadata.dependencies && metadata.dependencies.length > 0) {
@@ -267,6 +280,16 @@ export function script<T extends ComponentType>(
                 queueMicrotask(performCleanup);
             }
 
+            if (metadata.hotReload && previous && previous.componentType !== target) {
+                notifyScriptReload({
+                    scriptName: metadata.scriptName,
+                    previous: previous.componentType,
+                    next: target,
+                    fromVersion: previous.metadata.version,
+                    toVersion: metadata.version,
+                });
+            }
+
             return target;
         } catch (error) {
             if (typeof process !== 'undefined' && process.env?.NODE_ENV !== 'test') {
@@ -277,6 +300,23 @@ export function script<T extends ComponentType>(
     };
 }
 
+function notifyScriptReload(reload: ScriptReload): void {
+    for (const listener of reloadListeners) {
+        try {
+            listener(reload);
+        } catch (error) {
+            console.error(`Failed to hot reload script ${reload.scriptName}:`, error);
+        }
+    }
+}
+
+export function onScriptReload(listener: (reload: ScriptReload) => void): () => void {
+    reloadListeners.add(listener);
+    return () => {
+        reloadListeners.delete(listener);
+    };
+}
+
 export function getComponentMetadata<T extends Component>(
     componentType: ComponentType<T>
 ): ScriptMetadata | undefined {
@@ -14,6 +14,26 @@ export * from './components';
 
 export * from './utils';
 
+export * from './serialization';
+
+export * from './loop';
+
+export * from './commands';
+
+export * from './relations';
+
+export * from './prefabs';
+
+export * from './schema';
+
+export * from './replication';
+
+export * from './scenes';
+
+export * from './coroutines';
+
+export * from './inspector';
+
 export { ComponentPool } from './memory';
 export { Archetype } from './archetype';
 export { OptimizedQueryCache } from './archetype';
@@ -0,0 +1,116 @@
+import type { InspectorMessage } from './protocol';
+import { isInspectorMessage } from './protocol';
+import { InspectorError } from './errors';
+
+export interface InspectorChannel {
+    send(message: InspectorMessage): void;
+    onMessage(handler: (message: InspectorMessage) => void): () => void;
+    close?(): void;
+}
+
+/** Anything with the MessagePort surface: MessagePort, Worker, BroadcastChannel or a worker scope. */
+export interface MessagePortLike {
+    postMessage(message: unknown): void;
+    addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+    removeEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+    start?(): void;
+    close?(): void;
+}
+
+export interface InMemoryChannelOptions {
+    /** When false, messages wait in the peer's queue until `flush()` is called. */
+    readonly autoFlush?: boolean;
+}
+
+export class InMemoryChannel implements InspectorChannel {
+    private readonly _handlers = new Set<(message: InspectorMessage) => void>();
+    private readonly _queue: InspectorMessage[] = [];
+    private readonly _autoFlush: boolean;
+    private _peer: InMemoryChannel | undefined;
+
+    constructor(options: InMemoryChannelOptions = {}) {
+        this._autoFlush = options.autoFlush ?? true;
+    }
+
+    static pair(options: InMemoryChannelOptions = {}): [InMemoryChannel, InMemoryChannel] {
+        const a = new InMemoryChannel(options);
+        const b = new InMemoryChannel(options);
+        a._peer = b;
+        b._peer = a;
+        return [a, b];
+    }
+
+    get connected(): boolean {
+        return this._peer !== undefined;
+    }
+
+    get pending(): number {
+        return this._queue.length;
+    }
+
+    send(message: InspectorMessage): void {
+        const peer = this._peer;
+        if (!peer) {
+            throw new InspectorError('In-memory channel is not connected');
+        }
+
+        // Cloning keeps the same isolation guarantees as postMessage.
+        peer._queue.push(structuredClone(message));
+
+        if (peer._autoFlush) {
+            peer.flush();
+        }
+    }
+
+    onMessage(handler: (message: InspectorMessage) => void): () => void {
+        this._handlers.add(handler);
+        return () => this._handlers.delete(handler);
+    }
+
+    flush(): number {
+        let delivered = 0;
+        while (this._queue.length > 0) {
+            const message = this._queue.shift()!;
+            for (const handler of this._handlers) {
+                handler(message);
+            }
+            delivered++;
+        }
+        return delivered;
+    }
+
+    close(): void {
+        if (this._peer) {
+            this._peer._peer = undefined;
+            this._peer = undefined;
+        }
+        this._queue.length = 0;
+    }
+}
+
+export const createMessagePortChannel = (port: MessagePortLike): InspectorChannel => {
+    const handlers = new Set<(message: InspectorMessage) => void>();
+    const listener = (event: { data: unknown }): void => {
+        // Ports are often shared with other traffic, so foreign messages are ignored.
+        if (!isInspectorMessage(event.data)) return;
+        for (const handler of handlers) {
+            handler(event.data);
+        }
+    };
+
+    port.addEventListener('message', listener);
+    port.start?.();
+
+    return {
+        send: (message) => port.postMessage(message),
+        onMessage: (handler) => {
+            handlers.add(handler);
+            return () => handlers.delete(handler);
+        },
+        close: () => {
+            port.removeEventListener('message', listener);
+            handlers.clear();
+            port.close?.();
+        },
+    };
+};
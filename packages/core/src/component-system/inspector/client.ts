@@ -0,0 +1,73 @@
+import type { InspectorChannel } from './channel';
+import { InspectorError } from './errors';
+import type { InspectorMethod, InspectorParams, InspectorResult } from './protocol';
+
+interface PendingRequest {
+    readonly method: InspectorMethod;
+    readonly resolve: (result: any) => void;
+    readonly reject: (error: Error) => void;
+}
+
+/** Devtools side of the protocol: sends requests and resolves them as responses arrive. */
+export class InspectorClient {
+    private readonly _pending = new Map<number, PendingRequest>();
+    private readonly _unsubscribe: () => void;
+    private _nextId = 1;
+    private _closed = false;
+
+    constructor(private readonly _channel: InspectorChannel) {
+        this._unsubscribe = _channel.onMessage((message) => {
+            if (message.type !== 'response') return;
+
+            const pending = this._pending.get(message.id);
+            if (!pending) return;
+
+            this._pending.delete(message.id);
+            if ('error' in message) {
+                pending.reject(new InspectorError(message.error, pending.method));
+            } else {
+                pending.resolve(message.result);
+            }
+        });
+    }
+
+    get pending(): number {
+        return this._pending.size;
+    }
+
+    get closed(): boolean {
+        return this._closed;
+    }
+
+    request<M extends InspectorMethod>(
+        method: M,
+        ...[params]: InspectorParams<M> extends void ? [] : [InspectorParams<M>]
+    ): Promise<InspectorResult<M>> {
+        if (this._closed) {
+            return Promise.reject(new InspectorError('Client is closed', method));
+        }
+
+        const id = this._nextId++;
+        return new Promise<InspectorResult<M>>((resolve, reject) => {
+            this._pending.set(id, { method, resolve, reject });
+            try {
+                this._channel.send({ type: 'request', id, method, params });
+            } catch (error) {
+                this._pending.delete(id);
+                reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+    }
+
+    /** Rejects outstanding requests and stops listening; the channel itself is left open. */
+    close(): void {
+        if (this._closed) return;
+
+        this._closed = true;
+        this._unsubscribe();
+        for (const { method, reject } of this._pending.values()) {
+            reject(new InspectorError('Client closed before a response arrived', method));
+        }
+        this._pending.clear();
+    }
+}
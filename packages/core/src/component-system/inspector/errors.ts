@@ -0,0 +1,10 @@
+export class InspectorError extends Error {
+    constructor(
+        message: string,
+        public readonly method?: string
+    ) {
+        super(`[Inspector${method ? `:${method}` : ''}] ${message}`);
+        this.name = 'InspectorError';
+        Object.setPrototypeOf(this, InspectorError.prototype);
+    }
+}
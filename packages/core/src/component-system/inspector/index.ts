@@ -0,0 +1,21 @@
+export { InspectorError } from './errors';
+export { INSPECTOR_PROTOCOL_VERSION, isInspectorMessage } from './protocol';
+export type {
+    InspectorArchetype,
+    InspectorEntityDetails,
+    InspectorEntitySummary,
+    InspectorMessage,
+    InspectorMethod,
+    InspectorMethods,
+    InspectorParams,
+    InspectorRequest,
+    InspectorResponse,
+    InspectorResult,
+    InspectorSystem,
+    InspectorWorldInfo,
+} from './protocol';
+export { InMemoryChannel, createMessagePortChannel } from './channel';
+export type { InspectorChannel, InMemoryChannelOptions, MessagePortLike } from './channel';
+export { WorldInspector } from './inspector';
+export type { WorldInspectorOptions } from './inspector';
+export { InspectorClient } from './client';
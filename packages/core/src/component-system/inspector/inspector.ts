@@ -0,0 +1,253 @@
+import type { World } from '../core/world';
+import type { ComponentInstance, ComponentRegistry, Entity, SystemId } from '../types/core';
+import type { ComponentPatch } from '../core/change-tracking';
+import type { System } from '../types/system';
+import type { SystemManager } from '../systems/system-manager';
+import { captureComponent } from '../serialization';
+import { InspectorError } from './errors';
+import type { InspectorChannel } from './channel';
+import {
+    INSPECTOR_PROTOCOL_VERSION,
+    type InspectorArchetype,
+    type InspectorEntityDetails,
+    type InspectorEntitySummary,
+    type InspectorMethod,
+    type InspectorParams,
+    type InspectorRequest,
+    type InspectorResult,
+    type InspectorSystem,
+    type InspectorWorldInfo,
+} from './protocol';
+
+export interface WorldInspectorOptions<R extends ComponentRegistry> {
+    /** Required for the `systems.*` methods. */
+    readonly systems?: SystemManager<R>;
+    /** Rejects `component.set` and `system.setEnabled` when true. */
+    readonly readOnly?: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Structured, serialisable view of a world for tooling. Every method can be called directly
+ * or served to a remote devtools client through `attach(channel)`.
+ */
+export class WorldInspector<R extends ComponentRegistry> {
+    private readonly _systems: SystemManager<R> | undefined;
+    private readonly _readOnly: boolean;
+    private readonly _detach = new Set<() => void>();
+    private readonly _handlers: {
+        readonly [M in InspectorMethod]: (params: any) => InspectorResult<M>;
+    } = {
+        'world.info': () => this.getWorldInfo(),
+        'entities.list': (params) => this.listEntities(params),
+        'entity.get': ({ entity }) => this.getEntity(entity),
+        'archetypes.list': () => this.listArchetypes(),
+        'component.get': ({ entity, component }) => this.getComponent(entity, component),
+        'component.set': ({ entity, component, values }) =>
+            this.setComponent(entity, component, values),
+        'systems.list': () => this.listSystems(),
+        'system.setEnabled': ({ id, enabled }) => this.setSystemEnabled(id, enabled),
+    };
+
+    constructor(
+        private readonly _world: World<R>,
+        options: WorldInspectorOptions<R> = {}
+    ) {
+        this._systems = options.systems;
+        this._readOnly = options.readOnly ?? false;
+    }
+
+    getWorldInfo(): InspectorWorldInfo {
+        return {
+            protocolVersion: INSPECTOR_PROTOCOL_VERSION,
+            state: this._world.state,
+            entityCount: this._world.getEntityCount(),
+            archetypeCount: this._world.getArchetypeCount(),
+            changeTick: this._world.changeTick,
+            componentTypes: Object.keys(this._world.registry),
+        };
+    }
+
+    listEntities(params: InspectorParams<'entities.list'> = {}): InspectorResult<'entities.list'> {
+        const offset = Math.max(0, params.offset ?? 0);
+        const limit = Math.max(0, params.limit ?? DEFAULT_PAGE_SIZE);
+
+        let entities = this._world.getAllEntities();
+        if (params.component !== undefined) {
+            const component = this._resolveComponent(params.component, 'entities.list');
+            entities = entities.filter((entity) => this._world.hasComponent(entity, component));
+        }
+
+        return {
+            total: entities.length,
+            entities: entities.slice(offset, offset + limit).map((entity) => this._summary(entity)),
+        };
+    }
+
+    getEntity(entity: number): InspectorEntityDetails {
+        const id = this._resolveEntity(entity, 'entity.get');
+        const actor = this._world.getActor(id);
+        const data: Record<string, ReturnType<typeof captureComponent>> = {};
+
+        for (const component of this._world.getEntityComponents(id)) {
+            data[component] = captureComponent(this._world.getComponent(id, component) as object);
+        }
+
+        return {
+            ...this._summary(id),
+            ...(actor && {
+                actor: { id: actor.id, tag: actor.tag, layer: actor.layer, active: actor.active },
+            }),
+            ...(this._world.getParent(id) !== undefined && { parent: this._world.getParent(id) }),
+            children: this._world.getChildren(id),
+            data,
+        };
+    }
+
+    listArchetypes(): readonly InspectorArchetype[] {
+        return this._world.getArchetypes().map(({ id, signature, entityCount }) => ({
+            id: String(id),
+            signature,
+            entityCount,
+        }));
+    }
+
+    getComponent(entity: number, component: string): InspectorResult<'component.get'> {
+        const id = this._resolveEntity(entity, 'component.get');
+        const name = this._resolveComponent(component, 'component.get');
+        const instance = this._world.getComponent(id, name);
+        if (!instance) {
+            throw new InspectorError(`Entity ${entity} has no ${component}`, 'component.get');
+        }
+        return captureComponent(instance as object);
+    }
+
+    setComponent(
+        entity: number,
+        component: string,
+        values: InspectorParams<'component.set'>['values']
+    ): InspectorResult<'component.set'> {
+        this._assertWritable('component.set');
+        const id = this._resolveEntity(entity, 'component.set');
+        const name = this._resolveComponent(component, 'component.set');
+        if (!this._world.hasComponent(id, name)) {
+            throw new InspectorError(`Entity ${entity} has no ${component}`, 'component.set');
+        }
+        // Remote values are only checked against the registry at runtime.
+        const patch = values as ComponentPatch<ComponentInstance<R[typeof name]>>;
+        return this._world.setComponent(id, name, patch);
+    }
+
+    listSystems(): readonly InspectorSystem[] {
+        return this._requireSystems('systems.list')
+            .getSystems()
+            .map((system) => this._describeSystem(system));
+    }
+
+    setSystemEnabled(id: string, enabled: boolean): InspectorSystem {
+        this._assertWritable('system.setEnabled');
+        const systems = this._requireSystems('system.setEnabled');
+        if (!systems.hasSystem(id as SystemId)) {
+            throw new InspectorError(`Unknown system '${id}'`, 'system.setEnabled');
+        }
+        if (!systems.setSystemEnabled(id as SystemId, enabled)) {
+            throw new InspectorError(`System '${id}' disables itself`, 'system.setEnabled');
+        }
+        return this._describeSystem(systems.getSystem(id as SystemId)!);
+    }
+
+    /** Dispatches a protocol method by name; throws InspectorError for unknown methods. */
+    handle<M extends InspectorMethod>(method: M, params?: InspectorParams<M>): InspectorResult<M> {
+        if (!Object.prototype.hasOwnProperty.call(this._handlers, method)) {
+            throw new InspectorError(`Unknown method '${String(method)}'`);
+        }
+        return this._handlers[method](params ?? {}) as InspectorResult<M>;
+    }
+
+    /** Answers requests arriving on the channel until the returned function is called. */
+    attach(channel: InspectorChannel): () => void {
+        const unsubscribe = channel.onMessage((message) => {
+            if (message.type !== 'request') return;
+            this._respond(channel, message);
+        });
+
+        const detach = (): void => {
+            unsubscribe();
+            this._detach.delete(detach);
+        };
+        this._detach.add(detach);
+        return detach;
+    }
+
+    dispose(): void {
+        for (const detach of Array.from(this._detach)) {
+            detach();
+        }
+    }
+
+    private _respond(channel: InspectorChannel, request: InspectorRequest): void {
+        let result: unknown;
+        try {
+            result = this.handle(request.method, request.params);
+        } catch (error) {
+            channel.send({
+                type: 'response',
+                id: request.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return;
+        }
+        channel.send({ type: 'response', id: request.id, result });
+    }
+
+    private _summary(entity: Entity): InspectorEntitySummary {
+        const actor = this._world.getActor(entity);
+        return {
+            entity,
+            ...(actor && { name: actor.name }),
+            components: this._world.getEntityComponents(entity),
+        };
+    }
+
+    private _describeSystem(system: System<R, any>): InspectorSystem {
+        const timing = this._systems?.getSystemTiming(system.id);
+        return {
+            id: system.id,
+            phase: this._systems?.getSystemPhase(system.id) ?? 'unknown',
+            priority: system.priority,
+            enabled: this._systems?.isSystemEnabled(system.id) ?? system.enabled,
+            executions: timing?.executions ?? 0,
+            lastDuration: timing?.lastDuration ?? 0,
+            averageDuration: timing?.averageDuration ?? 0,
+            maxDuration: timing?.maxDuration ?? 0,
+        };
+    }
+
+    private _resolveEntity(entity: number, method: InspectorMethod): Entity {
+        if (!this._world.hasEntity(entity as Entity)) {
+            throw new InspectorError(`Unknown entity ${entity}`, method);
+        }
+        return entity as Entity;
+    }
+
+    private _resolveComponent(component: string, method: InspectorMethod): keyof R & string {
+        if (!Object.prototype.hasOwnProperty.call(this._world.registry, component)) {
+            throw new InspectorError(`Unknown component '${component}'`, method);
+        }
+        return component;
+    }
+
+    private _requireSystems(method: InspectorMethod): SystemManager<R> {
+        if (!this._systems) {
+            throw new InspectorError('No SystemManager attached', method);
+        }
+        return this._systems;
+    }
+
+    private _assertWritable(method: InspectorMethod): void {
+        if (this._readOnly) {
+            throw new InspectorError('Inspector is read-only', method);
+        }
+    }
+}
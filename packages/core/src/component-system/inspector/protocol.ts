@@ -0,0 +1,101 @@
+import type { ComponentSnapshot } from '../types/snapshot';
+import type { ComponentFieldChange } from '../types/events';
+
+export const INSPECTOR_PROTOCOL_VERSION = 1;
+
+export interface InspectorWorldInfo {
+    readonly protocolVersion: number;
+    readonly state: string;
+    readonly entityCount: number;
+    readonly archetypeCount: number;
+    readonly changeTick: number;
+    readonly componentTypes: readonly string[];
+}
+
+export interface InspectorEntitySummary {
+    readonly entity: number;
+    readonly name?: string;
+    readonly components: readonly string[];
+}
+
+export interface InspectorEntityDetails extends InspectorEntitySummary {
+    readonly actor?: {
+        readonly id: string;
+        readonly tag: string;
+        readonly layer: number;
+        readonly active: boolean;
+    };
+    readonly parent?: number;
+    readonly children: readonly number[];
+    readonly data: { readonly [component: string]: ComponentSnapshot };
+}
+
+export interface InspectorArchetype {
+    readonly id: string;
+    readonly signature: readonly string[];
+    readonly entityCount: number;
+}
+
+export interface InspectorSystem {
+    readonly id: string;
+    readonly phase: string;
+    readonly priority: number;
+    readonly enabled: boolean;
+    readonly executions: number;
+    readonly lastDuration: number;
+    readonly averageDuration: number;
+    readonly maxDuration: number;
+}
+
+export interface InspectorMethods {
+    'world.info': { params: void; result: InspectorWorldInfo };
+    'entities.list': {
+        params: { readonly offset?: number; readonly limit?: number; readonly component?: string };
+        result: { readonly total: number; readonly entities: readonly InspectorEntitySummary[] };
+    };
+    'entity.get': { params: { readonly entity: number }; result: InspectorEntityDetails };
+    'archetypes.list': { params: void; result: readonly InspectorArchetype[] };
+    'component.get': {
+        params: { readonly entity: number; readonly component: string };
+        result: ComponentSnapshot;
+    };
+    'component.set': {
+        params: {
+            readonly entity: number;
+            readonly component: string;
+            readonly values: ComponentSnapshot;
+        };
+        result: readonly ComponentFieldChange[];
+    };
+    'systems.list': { params: void; result: readonly InspectorSystem[] };
+    'system.setEnabled': {
+        params: { readonly id: string; readonly enabled: boolean };
+        result: InspectorSystem;
+    };
+}
+
+export type InspectorMethod = keyof InspectorMethods;
+
+export type InspectorParams<M extends InspectorMethod> = InspectorMethods[M]['params'];
+
+export type InspectorResult<M extends InspectorMethod> = InspectorMethods[M]['result'];
+
+export interface InspectorRequest<M extends InspectorMethod = InspectorMethod> {
+    readonly type: 'request';
+    readonly id: number;
+    readonly method: M;
+    readonly params?: InspectorParams<M>;
+}
+
+export type InspectorResponse =
+    | { readonly type: 'response'; readonly id: number; readonly result: unknown }
+    | { readonly type: 'response'; readonly id: number; readonly error: string };
+
+export type InspectorMessage = InspectorRequest | InspectorResponse;
+
+export const isInspectorMessage = (value: unknown): value is InspectorMessage =>
+    typeof value === 'object' &&
+    value !== null &&
+    ((value as InspectorMessage).type === 'request' ||
+        (value as InspectorMessage).type === 'response') &&
+    typeof (value as InspectorMessage).id === 'number';
@@ -0,0 +1,48 @@
+export interface LoopClock {
+    now(): number;
+}
+
+export interface FrameScheduler {
+    request(callback: () => void): unknown;
+    cancel(handle: unknown): void;
+}
+
+export const performanceClock: LoopClock = {
+    now: () => performance.now(),
+};
+
+export class ManualClock implements LoopClock {
+    private _time: number;
+
+    constructor(startTime: number = 0) {
+        this._time = startTime;
+    }
+
+    now(): number {
+        return this._time;
+    }
+
+    advance(milliseconds: number): this {
+        if (!Number.isFinite(milliseconds) || milliseconds < 0) {
+            throw new RangeError(`Cannot advance clock by ${milliseconds}ms`);
+        }
+        this._time += milliseconds;
+        return this;
+    }
+
+    set(time: number): this {
+        this._time = time;
+        return this;
+    }
+}
+
+export const animationFrameScheduler: FrameScheduler =
+    typeof requestAnimationFrame === 'function'
+        ? {
+              request: (callback) => requestAnimationFrame(callback),
+              cancel: (handle) => cancelAnimationFrame(handle as number),
+          }
+        : {
+              request: (callback) => setTimeout(callback, 1000 / 60),
+              cancel: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+          };
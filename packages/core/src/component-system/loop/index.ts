@@ -0,0 +1,4 @@
+export { ManualClock, performanceClock, animationFrameScheduler } from './clock';
+export type { LoopClock, FrameScheduler } from './clock';
+export { WorldRunner, WorldRunnerError } from './world-runner';
+export type { WorldRunnerConfig, FrameStepResult } from './world-runner';
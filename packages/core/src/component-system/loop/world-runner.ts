@@ -0,0 +1,221 @@
+import type { ComponentRegistry } from '../types/core';
+import type { World } from '../core/world';
+import { SystemManager, SystemPhase } from '../systems/system-manager';
+import { animationFrameScheduler, performanceClock } from './clock';
+import type { FrameScheduler, LoopClock } from './clock';
+
+const STEP_EPSILON = 1e-9;
+
+export class WorldRunnerError extends Error {
+    constructor(
+        message: string,
+        public readonly operation: string
+    ) {
+        super(`[WorldRunner] ${operation}: ${message}`);
+        this.name = 'WorldRunnerError';
+        Object.setPrototypeOf(this, WorldRunnerError.prototype);
+    }
+}
+
+export interface WorldRunnerConfig<R extends ComponentRegistry> {
+    readonly systems?: SystemManager<R>;
+    readonly fixedTimeStep?: number;
+    readonly maxSubSteps?: number;
+    readonly maxFrameTime?: number;
+    readonly timeScale?: number;
+    readonly updateActors?: boolean;
+    readonly clock?: LoopClock;
+    readonly scheduler?: FrameScheduler;
+}
+
+export interface FrameStepResult {
+    readonly deltaTime: number;
+    readonly fixedSteps: number;
+    readonly alpha: number;
+    readonly droppedTime: number;
+}
+
+export class WorldRunner<R extends ComponentRegistry> {
+    readonly world: World<R>;
+    readonly systems: SystemManager<R>;
+
+    private readonly _fixedTimeStep: number;
+    private readonly _maxSubSteps: number;
+    private readonly _maxFrameTime: number;
+    private readonly _updateActors: boolean;
+    private readonly _clock: LoopClock;
+    private readonly _scheduler: FrameScheduler;
+
+    private _timeScale: number;
+    private _accumulator = 0;
+    private _alpha = 0;
+    private _frame = 0;
+    private _fixedFrame = 0;
+    private _elapsedTime = 0;
+    private _lastTime: number | undefined;
+    private _frameHandle: unknown;
+    private _running = false;
+
+    constructor(world: World<R>, config: WorldRunnerConfig<R> = {}) {
+        const fixedTimeStep = config.fixedTimeStep ?? 1 / 60;
+        const maxSubSteps = config.maxSubSteps ?? 5;
+
+        if (!(fixedTimeStep > 0) || !Number.isFinite(fixedTimeStep)) {
+            throw new WorldRunnerError('fixedTimeStep must be a positive number', 'constructor');
+        }
+        if (!Number.isInteger(maxSubSteps) || maxSubSteps < 1) {
+            throw new WorldRunnerError('maxSubSteps must be a positive integer', 'constructor');
+        }
+
+        this.world = world;
+        this.systems = config.systems ?? new SystemManager(world);
+        this._fixedTimeStep = fixedTimeStep;
+        this._maxSubSteps = maxSubSteps;
+        this._maxFrameTime = config.maxFrameTime ?? 0.25;
+        this._updateActors = config.updateActors ?? true;
+        this._clock = config.clock ?? performanceClock;
+        this._scheduler = config.scheduler ?? animationFrameScheduler;
+        this._timeScale = config.timeScale ?? 1;
+    }
+
+    get fixedTimeStep(): number {
+        return this._fixedTimeStep;
+    }
+
+    get maxSubSteps(): number {
+        return this._maxSubSteps;
+    }
+
+    get alpha(): number {
+        return this._alpha;
+    }
+
+    get frame(): number {
+        return this._frame;
+    }
+
+    get fixedFrame(): number {
+        return this._fixedFrame;
+    }
+
+    get elapsedTime(): number {
+        return this._elapsedTime;
+    }
+
+    get running(): boolean {
+        return this._running;
+    }
+
+    get timeScale(): number {
+        return this._timeScale;
+    }
+
+    set timeScale(value: number) {
+        if (!(value >= 0) || !Number.isFinite(value)) {
+            throw new WorldRunnerError('timeScale must be a non-negative number', 'timeScale');
+        }
+        this._timeScale = value;
+    }
+
+    step(deltaTime: number): FrameStepResult {
+        if (!(deltaTime >= 0) || !Number.isFinite(deltaTime)) {
+            throw new WorldRunnerError(`Invalid frame delta ${deltaTime}`, 'step');
+        }
+
+        const clampedTime = Math.min(deltaTime, this._maxFrameTime);
+        const frameTime = clampedTime * this._timeScale;
+        const fixed = this._fixedTimeStep;
+
+        this._frame++;
+        this._elapsedTime += frameTime;
+        this._accumulator += frameTime;
+
+        this.systems.executePhase(SystemPhase.PreUpdate, frameTime);
+
+        let fixedSteps = 0;
+        while (this._accumulator + STEP_EPSILON >= fixed && fixedSteps < this._maxSubSteps) {
+            this.systems.executePhase(SystemPhase.FixedUpdate, fixed);
+            if (this._updateActors) {
+                for (const actor of this.world.getAllActors()) {
+                    actor.fixedUpdate(fixed);
+                }
+            }
+
+            this._accumulator = Math.max(0, this._accumulator - fixed);
+            this._fixedFrame++;
+            fixedSteps++;
+        }
+
+        // Anything still owed after the substep limit is dropped rather than carried forward,
+        // otherwise a slow frame makes every following frame slower.
+        let droppedTime = (deltaTime - clampedTime) * this._timeScale;
+        if (this._accumulator + STEP_EPSILON >= fixed) {
+            const remainder = this._accumulator % fixed;
+            droppedTime += this._accumulator - remainder;
+            this._accumulator = remainder;
+        }
+
+        this.systems.executePhase(SystemPhase.Update, frameTime);
+        if (this._updateActors) {
+            for (const actor of this.world.getAllActors()) {
+                actor.update(frameTime);
+            }
+        }
+        this.world.coroutines.tick(frameTime);
+        this.systems.executePhase(SystemPhase.PostUpdate, frameTime);
+        this.world.flushReactiveQueries();
+
+        this._alpha = Math.min(this._accumulator / fixed, 1);
+        this.systems.setInterpolationAlpha(this._alpha);
+        this.systems.executePhase(SystemPhase.Render, frameTime);
+
+        return { deltaTime: frameTime, fixedSteps, alpha: this._alpha, droppedTime };
+    }
+
+    tick(): FrameStepResult {
+        const now = this._clock.now();
+        const deltaTime = this._lastTime === undefined ? 0 : (now - this._lastTime) / 1000;
+        this._lastTime = now;
+
+        return this.step(Math.max(deltaTime, 0));
+    }
+
+    start(): void {
+        if (this._running) return;
+
+        this._running = true;
+        this._lastTime = this._clock.now();
+        this._frameHandle = this._scheduler.request(this._loop);
+    }
+
+    stop(): void {
+        if (!this._running) return;
+
+        this._running = false;
+        this._scheduler.cancel(this._frameHandle);
+        this._frameHandle = undefined;
+        this._lastTime = undefined;
+    }
+
+    reset(): void {
+        this._accumulator = 0;
+        this._alpha = 0;
+        this._frame = 0;
+        this._fixedFrame = 0;
+        this._elapsedTime = 0;
+        this._lastTime = this._running ? this._clock.now() : undefined;
+        this.systems.setInterpolationAlpha(0);
+    }
+
+    private readonly _loop = (): void => {
+        if (!this._running) return;
+
+        try {
+            this.tick();
+        } finally {
+            if (this._running) {
+                this._frameHandle = this._scheduler.request(this._loop);
+            }
+        }
+    };
+}
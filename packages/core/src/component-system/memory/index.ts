@@ -1 +1,4 @@
 export { ComponentPool } from './component-pool';
+export { SparseComponentSet } from './sparse-set';
+export { TypedColumnStorage, FIELD_ARRAY_TYPES, getColumnPool } from './typed-columns';
+export type { ColumnView } from './typed-columns';
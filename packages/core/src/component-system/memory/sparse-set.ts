@@ -0,0 +1,104 @@
+import type { ComponentConstructor, Entity } from '../types/core';
+import { ComponentPool } from './component-pool';
+
+export class SparseComponentSet<T extends {}> {
+    readonly entities: Entity[] = [];
+    readonly dense: T[] = [];
+    readonly ticks: number[] = [];
+
+    private _pool: ComponentPool<T>;
+    private readonly _sparse: (number | undefined)[] = [];
+
+    constructor(
+        readonly name: string,
+        constructor: ComponentConstructor<T>
+    ) {
+        this._pool = new ComponentPool(constructor, { name: `SparseComponentSet<${name}>` });
+    }
+
+    get pool(): ComponentPool<T> {
+        return this._pool;
+    }
+
+    get size(): number {
+        return this.entities.length;
+    }
+
+    has(entity: Entity): boolean {
+        return this._sparse[entity] !== undefined;
+    }
+
+    get(entity: Entity): T | undefined {
+        const index = this._sparse[entity];
+        return index === undefined ? undefined : this.dense[index];
+    }
+
+    getTick(entity: Entity): number | undefined {
+        const index = this._sparse[entity];
+        return index === undefined ? undefined : this.ticks[index];
+    }
+
+    setTick(entity: Entity, tick: number): boolean {
+        const index = this._sparse[entity];
+        if (index === undefined) return false;
+
+        this.ticks[index] = tick;
+        return true;
+    }
+
+    add(entity: Entity, component: T, tick: number): void {
+        const existing = this._sparse[entity];
+        if (existing !== undefined) {
+            this.dense[existing] = component;
+            this.ticks[existing] = tick;
+            return;
+        }
+
+        this._sparse[entity] = this.entities.length;
+        this.entities.push(entity);
+        this.dense.push(component);
+        this.ticks.push(tick);
+    }
+
+    remove(entity: Entity): T | undefined {
+        const index = this._sparse[entity];
+        if (index === undefined) return undefined;
+
+        const component = this.dense[index];
+        const lastIndex = this.entities.length - 1;
+
+        if (index !== lastIndex) {
+            const lastEntity = this.entities[lastIndex];
+            this.entities[index] = lastEntity;
+            this.dense[index] = this.dense[lastIndex];
+            this.ticks[index] = this.ticks[lastIndex];
+            this._sparse[lastEntity] = index;
+        }
+
+        this.entities.pop();
+        this.dense.pop();
+        this.ticks.pop();
+        this._sparse[entity] = undefined;
+
+        return component;
+    }
+
+    replaceType(
+        constructor: ComponentConstructor<T>,
+        convert: (component: T, entity: Entity) => T
+    ): void {
+        this._pool = new ComponentPool(constructor, { name: `SparseComponentSet<${this.name}>` });
+        for (let i = 0; i < this.dense.length; i++) {
+            this.dense[i] = convert(this.dense[i], this.entities[i]);
+        }
+    }
+
+    clear(): void {
+        for (const entity of this.entities) {
+            this._sparse[entity] = undefined;
+        }
+        this.entities.length = 0;
+        this.dense.length = 0;
+        this.ticks.length = 0;
+    }
+}
@@ -0,0 +1,194 @@
+import { TypedArrayPool } from '@axrone/utility';
+import type { PoolableTypedArray, TypedArrayType } from '@axrone/utility';
+import type { Entity } from '../types/core';
+import type { IComponentPool } from '../types/component';
+import type {
+    ComponentSchema,
+    FieldType,
+    SchemaColumns,
+    TypedComponent,
+    TypedComponentConstructor,
+} from '../types/schema';
+
+export const FIELD_ARRAY_TYPES = {
+    f32: Float32Array,
+    f64: Float64Array,
+    i8: Int8Array,
+    i16: Int16Array,
+    i32: Int32Array,
+    u8: Uint8Array,
+    u16: Uint16Array,
+    u32: Uint32Array,
+} as const satisfies Record<FieldType, new (length: number) => TypedArrayType>;
+
+const INITIAL_COLUMN_CAPACITY = 64;
+const COLUMN_BUCKETS = Array.from({ length: 15 }, (_, i) => INITIAL_COLUMN_CAPACITY << i);
+
+const columnPools = new Map<FieldType, TypedArrayPool<TypedArrayType>>();
+
+// Capacities always double from the first bucket, so every request matches a bucket exactly.
+export const getColumnPool = (type: FieldType): TypedArrayPool<TypedArrayType> => {
+    let pool = columnPools.get(type);
+    if (!pool) {
+        pool = new TypedArrayPool<TypedArrayType>({
+            arrayConstructor: FIELD_ARRAY_TYPES[type] as any,
+            sizeBuckets: COLUMN_BUCKETS,
+            initialCapacity: 1,
+            maxCapacity: 16,
+            preallocate: false,
+            enableMetrics: false,
+            name: `ColumnPool<${type}>`,
+        });
+        columnPools.set(type, pool);
+    }
+    return pool;
+};
+
+/** Binding state shared by `defineComponent` instances and the storage that owns their row. */
+export interface ColumnView {
+    _store: TypedColumnStorage<any> | null;
+    _row: number;
+    _values: Record<string, number>;
+}
+
+export class TypedColumnStorage<S extends ComponentSchema>
+    implements IComponentPool<TypedComponent<S>>
+{
+    readonly dense: TypedComponent<S>[] = [];
+    readonly sparse: (number | undefined)[] = [];
+    readonly entities: Entity[] = [];
+    readonly fields: readonly (keyof S & string)[];
+
+    size = 0;
+    capacity = 0;
+    columns = {} as SchemaColumns<S>;
+
+    private readonly _arrays = new Map<string, PoolableTypedArray<TypedArrayType>>();
+
+    constructor(readonly type: TypedComponentConstructor<S>) {
+        this.fields = Object.keys(type.schema);
+        this._resize(INITIAL_COLUMN_CAPACITY);
+    }
+
+    grow(): void {
+        this._resize(this.capacity * 2);
+    }
+
+    acquire(): TypedComponent<S> {
+        return new this.type();
+    }
+
+    release(_item: TypedComponent<S>): void {
+        // Views carry their own values once detached, so there is nothing to return.
+    }
+
+    insert(row: number, entity: Entity, component?: object): TypedComponent<S> {
+        while (row >= this.capacity) {
+            this.grow();
+        }
+
+        const detached =
+            component instanceof this.type && (component as unknown as ColumnView)._store === null;
+        const view = (detached ? component : new this.type()) as unknown as ColumnView;
+        const source = (detached ? view._values : (component ?? view._values)) as Record<
+            string,
+            number
+        >;
+
+        for (const field of this.fields) {
+            (this.columns[field] as TypedArrayType)[row] = source[field] ?? 0;
+        }
+
+        view._store = this;
+        view._row = row;
+
+        const typed = view as unknown as TypedComponent<S>;
+        this.dense[row] = typed;
+        this.entities[row] = entity;
+        this.sparse[entity] = row;
+        this.size = Math.max(this.size, row + 1);
+
+        return typed;
+    }
+
+    remove(row: number, lastRow: number): TypedComponent<S> {
+        const view = this.dense[row];
+        this._detach(view as unknown as ColumnView);
+
+        const entity = this.entities[row];
+        if (row !== lastRow) {
+            for (const field of this.fields) {
+                const column = this.columns[field] as TypedArrayType;
+                column[row] = column[lastRow];
+            }
+
+            const moved = this.dense[lastRow];
+            (moved as unknown as ColumnView)._row = row;
+            this.dense[row] = moved;
+            this.entities[row] = this.entities[lastRow];
+            this.sparse[this.entities[row]] = row;
+        }
+
+        this.sparse[entity] = undefined;
+        this.dense.length = lastRow;
+        this.entities.length = lastRow;
+        this.size = lastRow;
+
+        return view;
+    }
+
+    clear(): void {
+        for (const view of this.dense) {
+            this._detach(view as unknown as ColumnView);
+        }
+        this.dense.length = 0;
+        this.entities.length = 0;
+        this.sparse.length = 0;
+        this.size = 0;
+    }
+
+    dispose(): void {
+        this.clear();
+        for (const field of this.fields) {
+            getColumnPool(this.type.schema[field]).release(this._arrays.get(field)!);
+        }
+        this._arrays.clear();
+        this.columns = {} as SchemaColumns<S>;
+        this.capacity = 0;
+    }
+
+    private _detach(view: ColumnView): void {
+        if (view._store !== this) {
+            return;
+        }
+
+        for (const field of this.fields) {
+            view._values[field] = (this.columns[field] as TypedArrayType)[view._row] as number;
+        }
+        view._store = null;
+        view._row = -1;
+    }
+
+    private _resize(capacity: number): void {
+        const columns: Record<string, TypedArrayType> = {};
+
+        for (const field of this.fields) {
+            const pool = getColumnPool(this.type.schema[field]);
+            const next = pool.acquire(capacity);
+            const previous = this._arrays.get(field);
+
+            if (previous) {
+                (next.array as Float64Array).set(
+                    (previous.array as Float64Array).subarray(0, this.size)
+                );
+                pool.release(previous);
+            }
+
+            this._arrays.set(field, next);
+            columns[field] = next.array;
+        }
+
+        this.columns = columns as unknown as SchemaColumns<S>;
+        this.capacity = capacity;
+    }
+}
@@ -2,6 +2,7 @@ import { createSubject, createBehaviorSubject } from '../../observer';
 import type { IObservableSubject } from '../../observer';
 import type { Entity, ComponentRegistry } from '../types/core';
 import type { Actor } from '../core/actor';
+import type { ComponentFieldChange } from '../types/events';
 
 export class ECSObservables<R extends ComponentRegistry> {
     readonly entityCreated: IObservableSubject<{ entity: Entity; actor: Actor }>;
@@ -12,6 +13,12 @@ export class ECSObservables<R extends ComponentRegistry> {
         {
             added: IObservableSubject<{ entity: Entity; component: any; actor: Actor }>;
             removed: IObservableSubject<{ entity: Entity; component: any; actor: Actor }>;
+            changed: IObservableSubject<{
+                entity: Entity;
+                component: any;
+                actor: Actor | undefined;
+                changes: readonly ComponentFieldChange[];
+            }>;
         }
     >();
 
@@ -43,6 +50,7 @@ export class ECSObservables<R extends ComponentRegistry> {
             this.componentObservables.set(key, {
                 added: createSubject(),
                 removed: createSubject(),
+                changed: createSubject(),
             });
         }
 
@@ -180,9 +188,10 @@ export class ECSObservables<R extends ComponentRegistry> {
         this.frameStart.dispose();
         this.frameEnd.dispose();
 
-        this.componentObservables.forEach(({ added, removed }) => {
+        this.componentObservables.forEach(({ added, removed, changed }) => {
             added.dispose();
             removed.dispose();
+            changed.dispose();
         });
 
         this.queryObservables.forEach((observable) => {
@@ -0,0 +1,2 @@
+export { Prefab, clonePrefabValue, applyPrefabValues } from './prefab';
+export type { PrefabDefinition, PrefabComponentValues, PrefabChange } from './prefab';
@@ -0,0 +1,152 @@
+import type { ComponentRegistry, ComponentInstance } from '../types/core';
+
+export type PrefabComponentValues<R extends ComponentRegistry> = {
+    readonly [K in keyof R]?: Partial<ComponentInstance<R[K]>>;
+};
+
+export interface PrefabDefinition<R extends ComponentRegistry> {
+    readonly name?: string;
+    readonly components?: PrefabComponentValues<R>;
+    readonly children?: readonly (Prefab<R> | PrefabDefinition<R>)[];
+}
+
+export interface PrefabChange<R extends ComponentRegistry> {
+    readonly prefab: Prefab<R>;
+    readonly componentName: keyof R;
+    readonly fields: readonly string[];
+    readonly removed: boolean;
+}
+
+export const clonePrefabValue = <T>(value: T): T => {
+    if (Array.isArray(value)) {
+        return value.map(clonePrefabValue) as T;
+    }
+
+    if (value && typeof value === 'object') {
+        if (typeof (value as { clone?: unknown }).clone === 'function') {
+            return (value as unknown as { clone(): T }).clone();
+        }
+
+        const prototype = Object.getPrototypeOf(value);
+        if (prototype === Object.prototype || prototype === null) {
+            const copy: Record<string, unknown> = {};
+            for (const [key, field] of Object.entries(value)) {
+                copy[key] = clonePrefabValue(field);
+            }
+            return copy as T;
+        }
+    }
+
+    return value;
+};
+
+export const applyPrefabValues = (
+    target: object,
+    values: Readonly<Record<string, unknown>> | undefined,
+    fields: Iterable<string> = Object.keys(values ?? {})
+): void => {
+    if (!values) return;
+
+    for (const field of fields) {
+        if (field in values) {
+            (target as Record<string, unknown>)[field] = clonePrefabValue(values[field]);
+        }
+    }
+};
+
+export class Prefab<R extends ComponentRegistry> {
+    readonly name: string;
+
+    private readonly _components = new Map<keyof R, Record<string, unknown>>();
+    private readonly _children: Prefab<R>[] = [];
+    private readonly _listeners = new Set<(change: PrefabChange<R>) => void>();
+    private _version = 0;
+
+    constructor(definition: PrefabDefinition<R> = {}) {
+        this.name = definition.name ?? 'Prefab';
+
+        for (const [componentName, values] of Object.entries(definition.components ?? {})) {
+            this._components.set(componentName, clonePrefabValue({ ...(values as object) }));
+        }
+
+        for (const child of definition.children ?? []) {
+            this.addChild(child);
+        }
+    }
+
+    static from<R extends ComponentRegistry>(source: Prefab<R> | PrefabDefinition<R>): Prefab<R> {
+        return source instanceof Prefab ? source : new Prefab(source);
+    }
+
+    get version(): number {
+        return this._version;
+    }
+
+    get componentNames(): readonly (keyof R)[] {
+        return Array.from(this._components.keys());
+    }
+
+    get children(): readonly Prefab<R>[] {
+        return this._children;
+    }
+
+    hasComponent(componentName: keyof R): boolean {
+        return this._components.has(componentName);
+    }
+
+    getDefaults(componentName: keyof R): Readonly<Record<string, unknown>> | undefined {
+        return this._components.get(componentName);
+    }
+
+    set<K extends keyof R>(componentName: K, values: Partial<ComponentInstance<R[K]>> = {}): this {
+        const defaults = this._components.get(componentName) ?? {};
+        const fields = Object.keys(values);
+
+        Object.assign(defaults, clonePrefabValue({ ...(values as object) }));
+        this._components.set(componentName, defaults);
+        this._notify({ prefab: this, componentName, fields, removed: false });
+
+        return this;
+    }
+
+    removeComponent(componentName: keyof R): boolean {
+        if (!this._components.delete(componentName)) {
+            return false;
+        }
+
+        this._notify({ prefab: this, componentName, fields: [], removed: true });
+        return true;
+    }
+
+    addChild(child: Prefab<R> | PrefabDefinition<R>): Prefab<R> {
+        const prefab = Prefab.from(child);
+        if (prefab === this || prefab._contains(this)) {
+            throw new Error(`Prefab '${prefab.name}' cannot contain itself`);
+        }
+
+        this._children.push(prefab);
+        this._version++;
+        return prefab;
+    }
+
+    subscribe(listener: (change: PrefabChange<R>) => void): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+
+    private _contains(prefab: Prefab<R>): boolean {
+        return this._children.some((child) => child === prefab || child._contains(prefab));
+    }
+
+    private _notify(change: PrefabChange<R>): void {
+        this._version++;
+
+        for (const listener of this._listeners) {
+            try {
+                listener(change);
+            } catch (error) {
+                console.error(`Failed to propagate change to prefab '${this.name}':`, error);
+            }
+        }
+    }
+}
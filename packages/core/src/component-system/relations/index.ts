@@ -0,0 +1 @@
+export { ChildOf, pairKey, parsePair, isPairKey, isValidRelationName } from './pair';
@@ -0,0 +1,18 @@
+import type { Entity } from '../types/core';
+import type { RelationPair } from '../types/relation';
+
+export const ChildOf = 'ChildOf';
+
+const PAIR_PATTERN = /^([^()|]+)\((\d+)\)$/;
+
+export const pairKey = (relation: string, target: Entity): string => `${relation}(${target})`;
+
+export const parsePair = (key: string): RelationPair | undefined => {
+    const match = PAIR_PATTERN.exec(key);
+    return match ? { relation: match[1], target: Number(match[2]) as Entity } : undefined;
+};
+
+export const isPairKey = (key: string): boolean => PAIR_PATTERN.test(key);
+
+export const isValidRelationName = (relation: string): boolean =>
+    typeof relation === 'string' && relation.length > 0 && !/[()|,]/.test(relation);
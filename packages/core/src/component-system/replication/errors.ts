@@ -0,0 +1,10 @@
+export class ReplicationError extends Error {
+    constructor(
+        message: string,
+        public readonly context?: Record<string, unknown>
+    ) {
+        super(`[Replication] ${message}`);
+        this.name = 'ReplicationError';
+        Object.setPrototypeOf(this, ReplicationError.prototype);
+    }
+}
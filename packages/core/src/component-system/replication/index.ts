@@ -0,0 +1,12 @@
+export { ReplicationError } from './errors';
+export { REPLICATION_PACKET_VERSION, encodeDeltaPacket, decodeDeltaPacket } from './packet';
+export {
+    ReplicationFlags,
+    WorldReplicator,
+    diffComponentSnapshot,
+    isEmptyDelta,
+} from './replicator';
+export type { WorldReplicatorOptions } from './replicator';
+export { WorldMirror } from './mirror';
+export { LoopbackTransport } from './transport';
+export type { LoopbackTransportOptions } from './transport';
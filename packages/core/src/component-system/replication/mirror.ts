@@ -0,0 +1,115 @@
+import { ByteBuffer } from '@axrone/utility';
+import type { ComponentRegistry, Entity } from '../types/core';
+import type { ReplicationTransport, WorldDelta } from '../types/replication';
+import type { World } from '../core/world';
+import { captureComponent, restoreComponent } from '../serialization/component-data';
+import { decodeDeltaPacket } from './packet';
+import { ReplicationError } from './errors';
+
+export class WorldMirror<R extends ComponentRegistry> {
+    private readonly _locals = new Map<Entity, Entity>();
+    private readonly _remotes = new Map<Entity, Entity>();
+    private _sequence = 0;
+
+    constructor(readonly world: World<R>) {}
+
+    get sequence(): number {
+        return this._sequence;
+    }
+
+    toLocal(remote: Entity): Entity | undefined {
+        return this._locals.get(remote);
+    }
+
+    toRemote(local: Entity): Entity | undefined {
+        return this._remotes.get(local);
+    }
+
+    apply(packet: WorldDelta | ByteBuffer | Uint8Array | ArrayBuffer): WorldDelta {
+        const delta =
+            packet instanceof ByteBuffer ||
+            packet instanceof Uint8Array ||
+            packet instanceof ArrayBuffer
+                ? decodeDeltaPacket(packet)
+                : packet;
+
+        if (delta.sequence !== this._sequence + 1) {
+            throw new ReplicationError(
+                `Expected packet ${this._sequence + 1} but received ${delta.sequence}`,
+                { sequence: delta.sequence }
+            );
+        }
+
+        this.world.batch(() => {
+            for (const remote of delta.spawned) {
+                if (this._locals.has(remote)) {
+                    throw new ReplicationError(`Entity ${remote} is already mirrored`);
+                }
+                const local = this.world.createEntity();
+                this._locals.set(remote, local);
+                this._remotes.set(local, remote);
+            }
+
+            for (const { entity, component, data } of delta.added) {
+                const local = this._resolve(entity);
+                const instance = this.world.addComponent(
+                    local,
+                    this._validate(component)
+                ) as object;
+                restoreComponent(instance, data);
+            }
+
+            for (const { entity, component, data } of delta.changed) {
+                const local = this._resolve(entity);
+                const name = this._validate(component);
+                const instance = this.world.getComponent(local, name) as object | undefined;
+                if (!instance) {
+                    throw new ReplicationError(`Entity ${entity} has no '${component}' to update`);
+                }
+
+                // Changes only carry the fields that differ, so merge them over the current state.
+                restoreComponent(instance, { ...captureComponent(instance), ...data });
+                this.world.markChanged(local, name);
+            }
+
+            for (const { entity, component } of delta.removed) {
+                this.world.removeComponent(this._resolve(entity), this._validate(component));
+            }
+
+            for (const remote of delta.despawned) {
+                const local = this._resolve(remote);
+                this._locals.delete(remote);
+                this._remotes.delete(local);
+                this.world.destroyEntity(local);
+            }
+        });
+
+        this._sequence = delta.sequence;
+        return delta;
+    }
+
+    listen(transport: ReplicationTransport): () => void {
+        return transport.onReceive((packet) => this.apply(packet));
+    }
+
+    reset(): void {
+        this._locals.clear();
+        this._remotes.clear();
+        this._sequence = 0;
+    }
+
+    private _resolve(remote: Entity): Entity {
+        const local = this._locals.get(remote);
+        if (local === undefined) {
+            throw new ReplicationError(`Entity ${remote} is not mirrored`);
+        }
+        return local;
+    }
+
+    private _validate(componentName: string): keyof R {
+        if (!(componentName in this.world.registry)) {
+            throw new ReplicationError(`Component '${componentName}' not found in registry`);
+        }
+        return componentName;
+    }
+}
@@ -0,0 +1,119 @@
+import { ByteBuffer } from '@axrone/utility';
+import type { Entity } from '../types/core';
+import type { ComponentSnapshot } from '../types/snapshot';
+import type { ComponentDelta, ComponentRemoval, WorldDelta } from '../types/replication';
+import { readSnapshotValue, toByteBuffer, writeSnapshotValue } from '../serialization/binary';
+import { ReplicationError } from './errors';
+
+export const REPLICATION_PACKET_VERSION = 1;
+
+const REPLICATION_PACKET_MAGIC = 0x41585250; // 'AXRP'
+
+export const encodeDeltaPacket = (delta: WorldDelta): ByteBuffer => {
+    const names: string[] = [];
+    const nameIndex = new Map<string, number>();
+    for (const { component } of [...delta.added, ...delta.removed, ...delta.changed]) {
+        if (!nameIndex.has(component)) {
+            nameIndex.set(component, names.length);
+            names.push(component);
+        }
+    }
+
+    const buffer = ByteBuffer.alloc(64);
+    buffer.putUint32(REPLICATION_PACKET_MAGIC).putUint16(REPLICATION_PACKET_VERSION);
+    buffer.putVarInt(delta.sequence);
+
+    buffer.putVarInt(names.length);
+    for (const name of names) {
+        buffer.putString(name);
+    }
+
+    for (const entities of [delta.spawned, delta.despawned]) {
+        buffer.putVarInt(entities.length);
+        for (const entity of entities) {
+            buffer.putVarInt(entity);
+        }
+    }
+
+    for (const components of [delta.added, delta.changed]) {
+        buffer.putVarInt(components.length);
+        for (const { entity, component, data } of components) {
+            buffer.putVarInt(entity).putVarInt(nameIndex.get(component)!);
+            writeSnapshotValue(buffer, data);
+        }
+    }
+
+    buffer.putVarInt(delta.removed.length);
+    for (const { entity, component } of delta.removed) {
+        buffer.putVarInt(entity).putVarInt(nameIndex.get(component)!);
+    }
+
+    return buffer.flip();
+};
+
+export const decodeDeltaPacket = (source: ByteBuffer | Uint8Array | ArrayBuffer): WorldDelta => {
+    const buffer = toByteBuffer(source);
+
+    const magic = buffer.getUint32();
+    if (magic !== REPLICATION_PACKET_MAGIC) {
+        throw new ReplicationError('Buffer does not contain a replication packet', { magic });
+    }
+
+    const version = buffer.getUint16();
+    if (version !== REPLICATION_PACKET_VERSION) {
+        throw new ReplicationError(`Unsupported packet version ${version}`, {
+            supported: REPLICATION_PACKET_VERSION,
+        });
+    }
+
+    const sequence = buffer.getVarInt();
+
+    const names: string[] = new Array(buffer.getVarInt());
+    for (let i = 0; i < names.length; i++) {
+        names[i] = buffer.getString();
+    }
+
+    const readName = (entity: number): string => {
+        const index = buffer.getVarInt();
+        const name = names[index];
+        if (name === undefined) {
+            throw new ReplicationError(`Unknown component index ${index}`, { entity });
+        }
+        return name;
+    };
+
+    const readEntities = (): Entity[] => {
+        const entities: Entity[] = new Array(buffer.getVarInt());
+        for (let i = 0; i < entities.length; i++) {
+            entities[i] = buffer.getVarInt() as Entity;
+        }
+        return entities;
+    };
+
+    const readComponents = (): ComponentDelta[] => {
+        const components: ComponentDelta[] = new Array(buffer.getVarInt());
+        for (let i = 0; i < components.length; i++) {
+            const entity = buffer.getVarInt() as Entity;
+            const component = readName(entity);
+            components[i] = {
+                entity,
+                component,
+                data: readSnapshotValue(buffer) as ComponentSnapshot,
+            };
+        }
+        return components;
+    };
+
+    const spawned = readEntities();
+    const despawned = readEntities();
+    const added = readComponents();
+    const changed = readComponents();
+
+    const removed: ComponentRemoval[] = new Array(buffer.getVarInt());
+    for (let i = 0; i < removed.length; i++) {
+        const entity = buffer.getVarInt() as Entity;
+        removed[i] = { entity, component: readName(entity) };
+    }
+
+    return { sequence, spawned, despawned, added, removed, changed };
+};
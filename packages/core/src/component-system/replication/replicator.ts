@@ -0,0 +1,212 @@
+import type { ByteBuffer } from '@axrone/utility';
+import type { ComponentRegistry, Entity } from '../types/core';
+import type { ComponentSnapshot, SnapshotValue } from '../types/snapshot';
+import type {
+    ComponentDelta,
+    ComponentRemoval,
+    ReplicationTransport,
+    WorldDelta,
+} from '../types/replication';
+import type { World } from '../core/world';
+import { captureComponent } from '../serialization/component-data';
+import { encodeDeltaPacket } from './packet';
+import { ReplicationError } from './errors';
+
+export enum ReplicationFlags {
+    None = 0,
+    /** Adds and removals are sent, carrying the component's values when it is added. */
+    Presence = 1 << 0,
+    /** Field changes are sent while the component stays on the entity. Requires Presence. */
+    Changes = 1 << 1,
+    All = Presence | Changes,
+}
+
+export interface WorldReplicatorOptions<R extends ComponentRegistry> {
+    readonly components?: Partial<Record<keyof R, ReplicationFlags>>;
+    readonly interest?: (entity: Entity, world: World<R>) => boolean;
+}
+
+type ReplicatedState = Map<Entity, Map<string, ComponentSnapshot>>;
+
+const snapshotValueEquals = (a: SnapshotValue, b: SnapshotValue): boolean => {
+    if (a === b) {
+        return true;
+    }
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+        return Number.isNaN(a) && Number.isNaN(b);
+    }
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return (
+            Array.isArray(a) &&
+            Array.isArray(b) &&
+            a.length === b.length &&
+            a.every((item, i) => snapshotValueEquals(item, b[i]))
+        );
+    }
+
+    const keys = Object.keys(a);
+    return (
+        keys.length === Object.keys(b).length &&
+        keys.every(
+            (key) =>
+                key in b &&
+                snapshotValueEquals(
+                    (a as Record<string, SnapshotValue>)[key],
+                    (b as Record<string, SnapshotValue>)[key]
+                )
+        )
+    );
+};
+
+export const diffComponentSnapshot = (
+    previous: ComponentSnapshot,
+    current: ComponentSnapshot
+): ComponentSnapshot | undefined => {
+    let changed: Record<string, SnapshotValue> | undefined;
+
+    for (const [field, value] of Object.entries(current)) {
+        if (!(field in previous) || !snapshotValueEquals(previous[field], value)) {
+            (changed ??= {})[field] = value;
+        }
+    }
+
+    return changed;
+};
+
+export const isEmptyDelta = (delta: WorldDelta): boolean =>
+    delta.spawned.length === 0 &&
+    delta.despawned.length === 0 &&
+    delta.added.length === 0 &&
+    delta.removed.length === 0 &&
+    delta.changed.length === 0;
+
+export class WorldReplicator<R extends ComponentRegistry> {
+    private readonly _flags = new Map<string, ReplicationFlags>();
+    private _interest: ((entity: Entity, world: World<R>) => boolean) | undefined;
+    private _state: ReplicatedState = new Map();
+    private _sequence = 0;
+
+    constructor(
+        readonly world: World<R>,
+        options: WorldReplicatorOptions<R> = {}
+    ) {
+        for (const componentName of Object.keys(options.components ?? {})) {
+            if (!(componentName in world.registry)) {
+                throw new ReplicationError(`Component '${componentName}' not found in registry`);
+            }
+        }
+
+        for (const [componentName, Constructor] of Object.entries(world.registry)) {
+            const flags =
+                options.components?.[componentName as keyof R] ??
+                (Constructor as { replication?: ReplicationFlags }).replication ??
+                ReplicationFlags.All;
+
+            if (flags & ReplicationFlags.Changes && !(flags & ReplicationFlags.Presence)) {
+                throw new ReplicationError(
+                    `Component '${componentName}' replicates changes without presence`
+                );
+            }
+            if (flags !== ReplicationFlags.None) {
+                this._flags.set(componentName, flags);
+            }
+        }
+
+        this._interest = options.interest;
+    }
+
+    get sequence(): number {
+        return this._sequence;
+    }
+
+    getFlags(componentName: keyof R): ReplicationFlags {
+        return this._flags.get(componentName as string) ?? ReplicationFlags.None;
+    }
+
+    setInterest(interest: ((entity: Entity, world: World<R>) => boolean) | undefined): this {
+        this._interest = interest;
+        return this;
+    }
+
+    diff(): WorldDelta {
+        const current = this._capture();
+        const spawned: Entity[] = [];
+        const despawned: Entity[] = [];
+        const added: ComponentDelta[] = [];
+        const removed: ComponentRemoval[] = [];
+        const changed: ComponentDelta[] = [];
+
+        for (const [entity, components] of current) {
+            const previous = this._state.get(entity);
+            if (!previous) {
+                spawned.push(entity);
+            }
+
+            for (const [component, data] of components) {
+                const before = previous?.get(component);
+                if (!before) {
+                    added.push({ entity, component, data });
+                } else if (this._flags.get(component)! & ReplicationFlags.Changes) {
+                    const fields = diffComponentSnapshot(before, data);
+                    if (fields) {
+                        changed.push({ entity, component, data: fields });
+                    }
+                }
+            }
+
+            for (const component of previous?.keys() ?? []) {
+                if (!components.has(component)) {
+                    removed.push({ entity, component });
+                }
+            }
+        }
+
+        for (const entity of this._state.keys()) {
+            if (!current.has(entity)) {
+                despawned.push(entity);
+            }
+        }
+
+        this._state = current;
+
+        return { sequence: ++this._sequence, spawned, despawned, added, removed, changed };
+    }
+
+    createPacket(): ByteBuffer {
+        return encodeDeltaPacket(this.diff());
+    }
+
+    send(transport: ReplicationTransport): WorldDelta {
+        const delta = this.diff();
+        transport.send(encodeDeltaPacket(delta).toUint8Array());
+        return delta;
+    }
+
+    reset(): void {
+        this._state = new Map();
+        this._sequence = 0;
+    }
+
+    private _capture(): ReplicatedState {
+        const state: ReplicatedState = new Map();
+
+        for (const entity of this.world.getAllEntities()) {
+            if (!this._interest || this._interest(entity, this.world)) {
+                state.set(entity, new Map());
+            }
+        }
+
+        for (const componentName of this._flags.keys()) {
+            for (const { entity, components } of this.world.query(componentName as keyof R)) {
+                state
+                    .get(entity)
+                    ?.set(
+                        componentName,
+                        captureComponent(components[componentName as keyof R] as object)
+                    );
+            }
+        }
+
+        return state;
+    }
+}
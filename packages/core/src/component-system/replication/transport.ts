@@ -0,0 +1,79 @@
+import type { ReplicationTransport } from '../types/replication';
+
+export interface LoopbackTransportOptions {
+    /** When false, packets wait in the peer's queue until `flush()` is called. */
+    readonly autoFlush?: boolean;
+}
+
+export class LoopbackTransport implements ReplicationTransport {
+    private readonly _handlers = new Set<(packet: Uint8Array) => void>();
+    private readonly _queue: Uint8Array[] = [];
+    private readonly _autoFlush: boolean;
+    private _peer: LoopbackTransport | undefined;
+    private _packetsSent = 0;
+    private _bytesSent = 0;
+
+    constructor(options: LoopbackTransportOptions = {}) {
+        this._autoFlush = options.autoFlush ?? true;
+    }
+
+    static pair(options: LoopbackTransportOptions = {}): [LoopbackTransport, LoopbackTransport] {
+        const a = new LoopbackTransport(options);
+        const b = new LoopbackTransport(options);
+        a._peer = b;
+        b._peer = a;
+        return [a, b];
+    }
+
+    get pending(): number {
+        return this._queue.length;
+    }
+
+    get packetsSent(): number {
+        return this._packetsSent;
+    }
+
+    get bytesSent(): number {
+        return this._bytesSent;
+    }
+
+    send(packet: Uint8Array): void {
+        const peer = this._peer;
+        if (!peer) {
+            throw new Error('Loopback transport is not connected');
+        }
+
+        this._packetsSent++;
+        this._bytesSent += packet.byteLength;
+        peer._queue.push(packet.slice());
+
+        if (peer._autoFlush) {
+            peer.flush();
+        }
+    }
+
+    onReceive(handler: (packet: Uint8Array) => void): () => void {
+        this._handlers.add(handler);
+        return () => this._handlers.delete(handler);
+    }
+
+    flush(): number {
+        let delivered = 0;
+        while (this._queue.length > 0) {
+            const packet = this._queue.shift()!;
+            for (const handler of this._handlers) {
+                handler(packet);
+            }
+            delivered++;
+        }
+        return delivered;
+    }
+
+    disconnect(): void {
+        if (this._peer) {
+            this._peer._peer = undefined;
+            this._peer = undefined;
+        }
+        this._queue.length = 0;
+    }
+}
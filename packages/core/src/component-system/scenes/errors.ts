@@ -0,0 +1,14 @@
+export class SceneError extends Error {
+    constructor(
+        message: string,
+        public readonly sceneName?: string,
+        public readonly cause?: Error
+    ) {
+        super(`[Scene${sceneName ? `:${sceneName}` : ''}] ${message}`);
+        this.name = 'SceneError';
+        Object.setPrototypeOf(this, SceneError.prototype);
+        if (cause) {
+            this.stack += `\nCaused by: ${cause.stack}`;
+        }
+    }
+}
@@ -0,0 +1,5 @@
+export { SceneError } from './errors';
+export { Scene } from './scene';
+export type { SceneDefinition, SceneActorDefinition } from './scene';
+export { SceneManager } from './scene-manager';
+export type { SceneLoadOptions } from './scene-manager';
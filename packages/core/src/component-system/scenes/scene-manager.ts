@@ -0,0 +1,291 @@
+import type { ComponentRegistry } from '../types/core';
+import type { ComponentType } from '../types/component';
+import type { World } from '../core/world';
+import { Actor } from '../core/actor';
+import type { ActorLayer, ActorTag } from '../core/actor';
+import { applyPrefabValues } from '../prefabs/prefab';
+import { Scene } from './scene';
+import type { SceneActorDefinition, SceneDefinition } from './scene';
+import { SceneError } from './errors';
+
+export interface SceneLoadOptions {
+    /** Keep the loaded scenes and add this one on top instead of replacing them. */
+    readonly additive?: boolean;
+}
+
+type SceneListener = (scene: Scene) => void;
+
+export class SceneManager<R extends ComponentRegistry> {
+    private readonly _definitions = new Map<string, SceneDefinition<R>>();
+    private readonly _loaded: Scene[] = [];
+    private _active: Scene | undefined;
+
+    private readonly _loadedListeners = new Set<SceneListener>();
+    private readonly _unloadedListeners = new Set<SceneListener>();
+
+    constructor(readonly world: World<R>) {}
+
+    get activeScene(): Scene | undefined {
+        return this._active;
+    }
+
+    get loadedScenes(): readonly Scene[] {
+        return this._loaded.slice();
+    }
+
+    register(definition: SceneDefinition<R>): this {
+        if (!definition.name) {
+            throw new SceneError('Scene definitions must have a name');
+        }
+        this._definitions.set(definition.name, definition);
+        return this;
+    }
+
+    has(name: string): boolean {
+        return this._definitions.has(name);
+    }
+
+    getScene(name: string): Scene | undefined {
+        return this._loaded.find((scene) => scene.name === name);
+    }
+
+    setActiveScene(target: string | Scene): void {
+        this._active = this._resolveLoaded(target);
+    }
+
+    load(source: string | SceneDefinition<R>, options: SceneLoadOptions = {}): Scene {
+        const definition = this._resolveDefinition(source);
+        const additive = options.additive ?? false;
+
+        if (this.getScene(definition.name)) {
+            throw new SceneError('Scene is already loaded', definition.name);
+        }
+
+        if (!additive) {
+            for (const scene of this._loaded.slice().reverse()) {
+                this.unload(scene);
+            }
+        }
+
+        const scene = new Scene(definition.name, additive);
+
+        try {
+            for (const actor of definition.actors) {
+                this._spawn(actor, scene);
+            }
+            this._linkTransforms(scene);
+        } catch (error) {
+            this._destroyActors(scene.actors.slice().reverse());
+            scene._unload();
+            throw new SceneError(
+                'Failed to load scene',
+                definition.name,
+                error instanceof Error ? error : new Error(String(error))
+            );
+        }
+
+        this._loaded.push(scene);
+        if (!additive || !this._active) {
+            this._active = scene;
+        }
+
+        for (const actor of scene.actors) {
+            actor.start();
+        }
+
+        const persistent = this.world
+            .getAllActors()
+            .filter((actor) => actor.persistent && !scene.has(actor));
+        this._notify([...scene.actors, ...persistent], 'onSceneLoaded', scene);
+        for (const listener of this._loadedListeners) {
+            listener(scene);
+        }
+
+        return scene;
+    }
+
+    loadAdditive(source: string | SceneDefinition<R>): Scene {
+        return this.load(source, { additive: true });
+    }
+
+    unload(target: string | Scene): void {
+        const scene = this._resolveLoaded(target);
+        const actors = scene.actors;
+
+        this._notify(actors, 'onSceneUnloaded', scene);
+
+        // Persistent actors outlive the scene, so cut them loose from parents that are about
+        // to be destroyed before the ChildOf cascade takes them along.
+        for (const actor of actors) {
+            if (!actor.persistent) continue;
+
+            const parent = this.world.getParent(actor.entity);
+            const parentActor = parent === undefined ? undefined : this.world.getActor(parent);
+            if (parentActor && scene.has(parentActor) && !parentActor.persistent) {
+                this.world.setParent(actor.entity, null);
+                const transform = this._getTransform(actor);
+                if (transform) {
+                    transform.parent = undefined;
+                }
+            }
+        }
+
+        this._destroyActors(actors.filter((actor) => !actor.persistent).reverse());
+
+        scene._unload();
+        this._loaded.splice(this._loaded.indexOf(scene), 1);
+        if (this._active === scene) {
+            this._active = this._loaded[this._loaded.length - 1];
+        }
+
+        for (const listener of this._unloadedListeners) {
+            listener(scene);
+        }
+    }
+
+    onSceneLoaded(listener: SceneListener): () => void {
+        this._loadedListeners.add(listener);
+        return () => this._loadedListeners.delete(listener);
+    }
+
+    onSceneUnloaded(listener: SceneListener): () => void {
+        this._unloadedListeners.add(listener);
+        return () => this._unloadedListeners.delete(listener);
+    }
+
+    private _spawn(definition: SceneActorDefinition<R>, scene: Scene, parent?: Actor): Actor {
+        const config = {
+            tag: definition.tag as ActorTag | undefined,
+            layer: definition.layer as ActorLayer | undefined,
+            active: definition.active,
+            persistent: definition.persistent,
+            autoStart: false,
+        };
+
+        let actor: Actor;
+        if (definition.prefab) {
+            actor = Actor.instantiate(
+                this.world,
+                definition.prefab,
+                definition.components ?? {},
+                config
+            );
+            if (definition.name) {
+                actor.name = definition.name;
+            }
+            this._adoptDescendants(actor, scene);
+        } else {
+            actor = new Actor(this.world, { ...config, name: definition.name });
+            scene.addActor(actor);
+
+            for (const [componentName, values] of Object.entries(definition.components ?? {})) {
+                const componentType = this.world.registry[componentName] as
+                    | ComponentType
+                    | undefined;
+                if (!componentType) {
+                    throw new SceneError(
+                        `Component '${componentName}' not found in registry`,
+                        scene.name
+                    );
+                }
+
+                const component =
+                    actor.getComponent(componentType) ?? actor.addComponent(componentType);
+                applyPrefabValues(component, values as Record<string, unknown>);
+            }
+        }
+
+        if (parent) {
+            this.world.setParent(actor.entity, parent.entity);
+        }
+
+        for (const child of definition.children ?? []) {
+            this._spawn(child, scene, actor);
+        }
+
+        return actor;
+    }
+
+    private _adoptDescendants(actor: Actor, scene: Scene): void {
+        scene.addActor(actor);
+        for (const child of this.world.getChildren(actor.entity)) {
+            const childActor = this.world.getActor(child);
+            if (childActor) {
+                this._adoptDescendants(childActor, scene);
+            }
+        }
+    }
+
+    private _linkTransforms(scene: Scene): void {
+        for (const actor of scene.actors) {
+            const parent = this.world.getParent(actor.entity);
+            const parentActor = parent === undefined ? undefined : this.world.getActor(parent);
+            const transform = this._getTransform(actor);
+            const parentTransform = parentActor && this._getTransform(parentActor);
+
+            if (transform && parentTransform) {
+                transform.parent = parentTransform;
+            }
+        }
+    }
+
+    private _getTransform(actor: Actor): { parent: unknown } | undefined {
+        const Transform = this.world.registry.Transform as ComponentType | undefined;
+        return Transform
+            ? (actor.getComponent(Transform) as { parent: unknown } | undefined)
+            : undefined;
+    }
+
+    private _destroyActors(actors: readonly Actor[]): void {
+        for (const actor of actors) {
+            if (!actor.isDestroyed) {
+                actor.destroy(true);
+            }
+        }
+    }
+
+    private _notify(
+        actors: readonly Actor[],
+        method: 'onSceneLoaded' | 'onSceneUnloaded',
+        scene: Scene
+    ): void {
+        for (const actor of actors) {
+            for (const component of actor.getAllComponents()) {
+                try {
+                    component[method]?.(scene);
+                } catch (error) {
+                    console.error(
+                        new SceneError(
+                            `${method} failed on ${component.constructor.name}`,
+                            scene.name,
+                            error instanceof Error ? error : new Error(String(error))
+                        )
+                    );
+                }
+            }
+        }
+    }
+
+    private _resolveDefinition(source: string | SceneDefinition<R>): SceneDefinition<R> {
+        if (typeof source !== 'string') {
+            return source;
+        }
+
+        const definition = this._definitions.get(source);
+        if (!definition) {
+            throw new SceneError('Scene is not registered', source);
+        }
+        return definition;
+    }
+
+    private _resolveLoaded(target: string | Scene): Scene {
+        const scene = typeof target === 'string' ? this.getScene(target) : target;
+        if (!scene || !this._loaded.includes(scene)) {
+            throw new SceneError(
+                'Scene is not loaded',
+                typeof target === 'string' ? target : target.name
+            );
+        }
+        return scene;
+    }
+}
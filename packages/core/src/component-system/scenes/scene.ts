@@ -0,0 +1,74 @@
+import type { ComponentRegistry } from '../types/core';
+import type { Actor } from '../core/actor';
+import type { Prefab, PrefabComponentValues, PrefabDefinition } from '../prefabs/prefab';
+import { SceneError } from './errors';
+
+export interface SceneActorDefinition<R extends ComponentRegistry> {
+    readonly name?: string;
+    readonly tag?: string;
+    readonly layer?: number;
+    readonly active?: boolean;
+    readonly persistent?: boolean;
+    /** Instantiated first; `components` are then applied as overrides. */
+    readonly prefab?: Prefab<R> | PrefabDefinition<R>;
+    readonly components?: PrefabComponentValues<R>;
+    readonly children?: readonly SceneActorDefinition<R>[];
+}
+
+export interface SceneDefinition<R extends ComponentRegistry> {
+    readonly name: string;
+    readonly actors: readonly SceneActorDefinition<R>[];
+}
+
+export class Scene {
+    private readonly _actors = new Set<Actor>();
+    private _loaded = true;
+
+    constructor(
+        readonly name: string,
+        readonly additive: boolean = false
+    ) {}
+
+    get loaded(): boolean {
+        return this._loaded;
+    }
+
+    get actors(): readonly Actor[] {
+        return Array.from(this._actors).filter((actor) => !actor.isDestroyed);
+    }
+
+    get rootActors(): readonly Actor[] {
+        return this.actors.filter((actor) => {
+            const parent = actor.world.getParent(actor.entity);
+            const parentActor = parent === undefined ? undefined : actor.world.getActor(parent);
+            return !parentActor || !this._actors.has(parentActor);
+        });
+    }
+
+    has(actor: Actor): boolean {
+        return this._actors.has(actor) && !actor.isDestroyed;
+    }
+
+    findActor(name: string): Actor | undefined {
+        return this.actors.find((actor) => actor.name === name);
+    }
+
+    addActor(actor: Actor): void {
+        if (!this._loaded) {
+            throw new SceneError('Cannot add actors to an unloaded scene', this.name);
+        }
+        if (actor.isDestroyed) {
+            throw new SceneError(`Actor '${actor.name}' is destroyed`, this.name);
+        }
+        this._actors.add(actor);
+    }
+
+    removeActor(actor: Actor): boolean {
+        return this._actors.delete(actor);
+    }
+
+    _unload(): void {
+        this._loaded = false;
+        this._actors.clear();
+    }
+}
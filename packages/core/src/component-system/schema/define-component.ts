@@ -0,0 +1,117 @@
+import type {
+    ComponentSchema,
+    SchemaValues,
+    TypedComponentConstructor,
+    TypedComponentOptions,
+} from '../types/schema';
+import type { ColumnView } from '../memory/typed-columns';
+import { FIELD_ARRAY_TYPES } from '../memory/typed-columns';
+
+export class ComponentSchemaError extends Error {
+    constructor(
+        message: string,
+        public readonly field?: string
+    ) {
+        super(message);
+        this.name = 'ComponentSchemaError';
+        Object.setPrototypeOf(this, ComponentSchemaError.prototype);
+    }
+}
+
+const RESERVED_FIELDS: ReadonlySet<string> = new Set([
+    'constructor',
+    'serialize',
+    'deserialize',
+    'toJSON',
+]);
+
+export const isTypedComponent = (value: unknown): value is TypedComponentConstructor =>
+    typeof value === 'function' &&
+    typeof (value as { schema?: unknown }).schema === 'object' &&
+    (value as { schema?: unknown }).schema !== null;
+
+export const defineComponent = <S extends ComponentSchema>(
+    schema: S,
+    options: TypedComponentOptions<S> = {}
+): TypedComponentConstructor<S> => {
+    const fields = Object.keys(schema);
+    if (fields.length === 0) {
+        throw new ComponentSchemaError('Component schema must declare at least one field');
+    }
+
+    const defaults = {} as SchemaValues<S>;
+    for (const field of fields) {
+        if (field.startsWith('_') || RESERVED_FIELDS.has(field)) {
+            throw new ComponentSchemaError(`Field name '${field}' is reserved`, field);
+        }
+        if (!(schema[field] in FIELD_ARRAY_TYPES)) {
+            throw new ComponentSchemaError(
+                `Unknown field type '${schema[field]}' for field '${field}'`,
+                field
+            );
+        }
+        (defaults as Record<string, number>)[field] =
+            (options.defaults as Record<string, number> | undefined)?.[field] ?? 0;
+    }
+
+    const frozenSchema = Object.freeze({ ...schema });
+    const frozenDefaults = Object.freeze(defaults);
+
+    class TypedComponentView implements ColumnView {
+        static readonly schema = frozenSchema;
+        static readonly defaults = frozenDefaults;
+
+        _store: ColumnView['_store'] = null;
+        _row = -1;
+        _values: Record<string, number>;
+
+        constructor(values: Partial<SchemaValues<S>> = {}) {
+            this._values = { ...frozenDefaults, ...values };
+        }
+
+        serialize(): SchemaValues<S> {
+            const data: Record<string, number> = {};
+            for (const field of fields) {
+                data[field] = (this as unknown as Record<string, number>)[field];
+            }
+            return data as SchemaValues<S>;
+        }
+
+        deserialize(data: Partial<SchemaValues<S>>): void {
+            for (const field of fields) {
+                const value = (data as Record<string, unknown>)[field];
+                if (typeof value === 'number') {
+                    (this as unknown as Record<string, number>)[field] = value;
+                }
+            }
+        }
+
+        toJSON(): SchemaValues<S> {
+            return this.serialize();
+        }
+    }
+
+    for (const field of fields) {
+        Object.defineProperty(TypedComponentView.prototype, field, {
+            get(this: ColumnView): number {
+                const store = this._store;
+                return store ? store.columns[field][this._row] : this._values[field];
+            },
+            set(this: ColumnView, value: number) {
+                const store = this._store;
+                if (store) {
+                    store.columns[field][this._row] = value;
+                } else {
+                    this._values[field] = value;
+                }
+            },
+            enumerable: true,
+        });
+    }
+
+    if (options.name) {
+        Object.defineProperty(TypedComponentView, 'name', { value: options.name });
+    }
+
+    return TypedComponentView as unknown as TypedComponentConstructor<S>;
+};
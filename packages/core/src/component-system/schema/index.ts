@@ -0,0 +1 @@
+export { defineComponent, isTypedComponent, ComponentSchemaError } from './define-component';
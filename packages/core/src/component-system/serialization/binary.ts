@@ -0,0 +1,106 @@
+import { ByteBuffer } from '@axrone/utility';
+import type { SnapshotValue } from '../types/snapshot';
+import { SnapshotFormatError } from './errors';
+
+enum ValueTag {
+    Null = 0,
+    False = 1,
+    True = 2,
+    Int32 = 3,
+    Float64 = 4,
+    String = 5,
+    Array = 6,
+    Object = 7,
+}
+
+const isInt32 = (value: number): boolean =>
+    Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff && !Object.is(value, -0);
+
+export const writeSnapshotValue = (buffer: ByteBuffer, value: SnapshotValue): void => {
+    if (value === null) {
+        buffer.putUint8(ValueTag.Null);
+        return;
+    }
+
+    switch (typeof value) {
+        case 'boolean':
+            buffer.putUint8(value ? ValueTag.True : ValueTag.False);
+            return;
+        case 'number':
+            if (isInt32(value)) {
+                buffer.putUint8(ValueTag.Int32).putInt32(value);
+            } else {
+                buffer.putUint8(ValueTag.Float64).putFloat64(value);
+            }
+            return;
+        case 'string':
+            buffer.putUint8(ValueTag.String).putString(value);
+            return;
+    }
+
+    if (Array.isArray(value)) {
+        buffer.putUint8(ValueTag.Array).putVarInt(value.length);
+        for (const item of value) {
+            writeSnapshotValue(buffer, item);
+        }
+        return;
+    }
+
+    const entries = Object.entries(value as { readonly [key: string]: SnapshotValue });
+    buffer.putUint8(ValueTag.Object).putVarInt(entries.length);
+    for (const [key, field] of entries) {
+        buffer.putString(key);
+        writeSnapshotValue(buffer, field);
+    }
+};
+
+export const readSnapshotValue = (buffer: ByteBuffer): SnapshotValue => {
+    const tag = buffer.getUint8();
+
+    switch (tag) {
+        case ValueTag.Null:
+            return null;
+        case ValueTag.False:
+            return false;
+        case ValueTag.True:
+            return true;
+        case ValueTag.Int32:
+            return buffer.getInt32();
+        case ValueTag.Float64:
+            return buffer.getFloat64();
+        case ValueTag.String:
+            return buffer.getString();
+        case ValueTag.Array: {
+            const length = buffer.getVarInt();
+            const items: SnapshotValue[] = new Array(length);
+            for (let i = 0; i < length; i++) {
+                items[i] = readSnapshotValue(buffer);
+            }
+            return items;
+        }
+        case ValueTag.Object: {
+            const count = buffer.getVarInt();
+            const result: Record<string, SnapshotValue> = {};
+            for (let i = 0; i < count; i++) {
+                const key = buffer.getString();
+                result[key] = readSnapshotValue(buffer);
+            }
+            return result;
+        }
+        default:
+            throw new SnapshotFormatError(`Unknown value tag ${tag}`, {
+                position: buffer.position - 1,
+            });
+    }
+};
+
+export const toByteBuffer = (source: ByteBuffer | Uint8Array | ArrayBuffer): ByteBuffer => {
+    if (source instanceof ByteBuffer) {
+        return source;
+    }
+
+    const bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+    const buffer = ByteBuffer.alloc(Math.max(bytes.length, 1));
+    buffer.put(bytes);
+    return buffer.flip();
+};
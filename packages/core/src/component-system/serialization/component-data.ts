@@ -0,0 +1,120 @@
+import { Component } from '../core/component';
+import type { ComponentSnapshot, SnapshotValue } from '../types/snapshot';
+
+const COMPONENT_CONTEXT_FIELDS: ReadonlySet<string> = new Set(['entity', 'actor', 'world']);
+
+const isPlainObject = (value: object): boolean => {
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+};
+
+const overrides = (component: object, method: 'serialize' | 'deserialize'): boolean => {
+    const implementation = (component as any)[method];
+    if (typeof implementation !== 'function') {
+        return false;
+    }
+
+    return !(component instanceof Component) || implementation !== Component.prototype[method];
+};
+
+export const toSnapshotValue = (
+    value: unknown,
+    seen: WeakSet<object> = new WeakSet()
+): SnapshotValue | undefined => {
+    if (value === null) return null;
+
+    switch (typeof value) {
+        case 'boolean':
+        case 'number':
+        case 'string':
+            return value;
+        case 'object':
+            break;
+        default:
+            return undefined;
+    }
+
+    const object = value as object;
+    if (seen.has(object)) {
+        return undefined;
+    }
+    seen.add(object);
+
+    try {
+        if (Array.isArray(object) || ArrayBuffer.isView(object)) {
+            const items = Array.from(object as ArrayLike<unknown>);
+            return items.map((item) => toSnapshotValue(item, seen) ?? null);
+        }
+
+        if (typeof (object as any).toJSON === 'function') {
+            return toSnapshotValue((object as any).toJSON(), seen);
+        }
+
+        if (!isPlainObject(object)) {
+            return undefined;
+        }
+
+        const result: Record<string, SnapshotValue> = {};
+        for (const [key, field] of Object.entries(object)) {
+            const converted = toSnapshotValue(field, seen);
+            if (converted !== undefined) {
+                result[key] = converted;
+            }
+        }
+        return result;
+    } finally {
+        seen.delete(object);
+    }
+};
+
+export const cloneSnapshotValue = <T extends SnapshotValue>(value: T): T => {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((item) => cloneSnapshotValue(item)) as unknown as T;
+    }
+
+    const result: Record<string, SnapshotValue> = {};
+    for (const [key, field] of Object.entries(value)) {
+        result[key] = cloneSnapshotValue(field as SnapshotValue);
+    }
+    return result as T;
+};
+
+export const captureComponent = (component: object): ComponentSnapshot => {
+    if (overrides(component, 'serialize')) {
+        const data = toSnapshotValue((component as any).serialize());
+        return data !== null && typeof data === 'object' && !Array.isArray(data)
+            ? (data as ComponentSnapshot)
+            : {};
+    }
+
+    const isComponent = component instanceof Component;
+    const result: Record<string, SnapshotValue> = {};
+
+    for (const [key, field] of Object.entries(component)) {
+        if (key.startsWith('_') || (isComponent && COMPONENT_CONTEXT_FIELDS.has(key))) {
+            continue;
+        }
+
+        const converted = toSnapshotValue(field);
+        if (converted !== undefined) {
+            result[key] = converted;
+        }
+    }
+
+    return result;
+};
+
+export const restoreComponent = (component: object, data: ComponentSnapshot): void => {
+    if (overrides(component, 'deserialize')) {
+        (component as any).deserialize(cloneSnapshotValue(data));
+        return;
+    }
+
+    for (const [key, field] of Object.entries(data)) {
+        (component as any)[key] = cloneSnapshotValue(field);
+    }
+};
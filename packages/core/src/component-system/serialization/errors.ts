@@ -0,0 +1,10 @@
+export class SnapshotFormatError extends Error {
+    constructor(
+        message: string,
+        public readonly context?: Record<string, unknown>
+    ) {
+        super(`[Snapshot] ${message}`);
+        this.name = 'SnapshotFormatError';
+        Object.setPrototypeOf(this, SnapshotFormatError.prototype);
+    }
+}
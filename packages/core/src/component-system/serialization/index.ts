@@ -0,0 +1,8 @@
+export { SnapshotFormatError } from './errors';
+export { captureComponent, restoreComponent } from './component-data';
+export {
+    WORLD_SNAPSHOT_VERSION,
+    encodeWorldSnapshot,
+    decodeWorldSnapshot,
+    validateWorldSnapshot,
+} from './snapshot-codec';
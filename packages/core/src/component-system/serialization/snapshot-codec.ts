@@ -0,0 +1,189 @@
+import { ByteBuffer } from '@axrone/utility';
+import type {
+    ComponentSnapshot,
+    EntitySnapshot,
+    RelationSnapshot,
+    WorldSnapshot,
+} from '../types/snapshot';
+import { readSnapshotValue, toByteBuffer, writeSnapshotValue } from './binary';
+import { SnapshotFormatError } from './errors';
+
+export const WORLD_SNAPSHOT_VERSION = 2;
+
+// Version 1 predates entity relations; it decodes as a snapshot without any.
+const SUPPORTED_SNAPSHOT_VERSIONS: readonly number[] = [1, WORLD_SNAPSHOT_VERSION];
+
+const WORLD_SNAPSHOT_MAGIC = 0x41585753; // 'AXWS'
+
+export const validateWorldSnapshot = (snapshot: WorldSnapshot): void => {
+    if (!snapshot || typeof snapshot !== 'object') {
+        throw new SnapshotFormatError('Snapshot must be an object');
+    }
+
+    if (!SUPPORTED_SNAPSHOT_VERSIONS.includes(snapshot.version)) {
+        throw new SnapshotFormatError(`Unsupported snapshot version ${snapshot.version}`, {
+            supported: WORLD_SNAPSHOT_VERSION,
+        });
+    }
+
+    if (!Number.isInteger(snapshot.nextEntityId) || snapshot.nextEntityId < 1) {
+        throw new SnapshotFormatError('nextEntityId must be a positive integer', {
+            nextEntityId: snapshot.nextEntityId,
+        });
+    }
+
+    if (!Array.isArray(snapshot.freeEntities) || !Array.isArray(snapshot.entities)) {
+        throw new SnapshotFormatError('freeEntities and entities must be arrays');
+    }
+
+    const seen = new Set<number>();
+    const checkId = (id: number, kind: string): void => {
+        if (!Number.isInteger(id) || id < 1 || id >= snapshot.nextEntityId) {
+            throw new SnapshotFormatError(`Invalid ${kind} entity id ${id}`, {
+                nextEntityId: snapshot.nextEntityId,
+            });
+        }
+        if (seen.has(id)) {
+            throw new SnapshotFormatError(`Entity id ${id} appears more than once`);
+        }
+        seen.add(id);
+    };
+
+    for (const id of snapshot.freeEntities) {
+        checkId(id, 'free');
+    }
+
+    const free = new Set(seen);
+    for (const entity of snapshot.entities) {
+        checkId(entity.id, 'live');
+        if (!entity.components || typeof entity.components !== 'object') {
+            throw new SnapshotFormatError(`Entity ${entity.id} has no component table`);
+        }
+    }
+
+    for (const entity of snapshot.entities) {
+        if (entity.relations === undefined) {
+            continue;
+        }
+        if (!Array.isArray(entity.relations)) {
+            throw new SnapshotFormatError(`Entity ${entity.id} has an invalid relation list`);
+        }
+        for (const { relation, target } of entity.relations) {
+            if (typeof relation !== 'string' || !seen.has(target) || free.has(target)) {
+                throw new SnapshotFormatError(
+                    `Entity ${entity.id} has an invalid '${relation}' relation to ${target}`
+                );
+            }
+        }
+    }
+};
+
+export const encodeWorldSnapshot = (snapshot: WorldSnapshot): ByteBuffer => {
+    validateWorldSnapshot(snapshot);
+
+    const names: string[] = [];
+    const nameIndex = new Map<string, number>();
+    for (const entity of snapshot.entities) {
+        for (const name of Object.keys(entity.components)) {
+            if (!nameIndex.has(name)) {
+                nameIndex.set(name, names.length);
+                names.push(name);
+            }
+        }
+    }
+
+    const buffer = ByteBuffer.alloc(256);
+    buffer.putUint32(WORLD_SNAPSHOT_MAGIC).putUint16(snapshot.version);
+    buffer.putVarInt(snapshot.nextEntityId);
+
+    buffer.putVarInt(snapshot.freeEntities.length);
+    for (const id of snapshot.freeEntities) {
+        buffer.putVarInt(id);
+    }
+
+    buffer.putVarInt(names.length);
+    for (const name of names) {
+        buffer.putString(name);
+    }
+
+    buffer.putVarInt(snapshot.entities.length);
+    for (const entity of snapshot.entities) {
+        const components = Object.entries(entity.components);
+        buffer.putVarInt(entity.id).putVarInt(components.length);
+
+        for (const [name, data] of components) {
+            buffer.putVarInt(nameIndex.get(name)!);
+            writeSnapshotValue(buffer, data);
+        }
+
+        const relations = entity.relations ?? [];
+        buffer.putVarInt(relations.length);
+        for (const { relation, target } of relations) {
+            buffer.putString(relation).putVarInt(target);
+        }
+    }
+
+    return buffer.flip();
+};
+
+export const decodeWorldSnapshot = (
+    source: ByteBuffer | Uint8Array | ArrayBuffer
+): WorldSnapshot => {
+    const buffer = toByteBuffer(source);
+
+    const magic = buffer.getUint32();
+    if (magic !== WORLD_SNAPSHOT_MAGIC) {
+        throw new SnapshotFormatError('Buffer does not contain a world snapshot', { magic });
+    }
+
+    const version = buffer.getUint16();
+    if (!SUPPORTED_SNAPSHOT_VERSIONS.includes(version)) {
+        throw new SnapshotFormatError(`Unsupported snapshot version ${version}`, {
+            supported: WORLD_SNAPSHOT_VERSION,
+        });
+    }
+
+    const nextEntityId = buffer.getVarInt();
+
+    const freeEntities: number[] = new Array(buffer.getVarInt());
+    for (let i = 0; i < freeEntities.length; i++) {
+        freeEntities[i] = buffer.getVarInt();
+    }
+
+    const names: string[] = new Array(buffer.getVarInt());
+    for (let i = 0; i < names.length; i++) {
+        names[i] = buffer.getString();
+    }
+
+    const entities: EntitySnapshot[] = new Array(buffer.getVarInt());
+    for (let i = 0; i < entities.length; i++) {
+        const id = buffer.getVarInt();
+        const componentCount = buffer.getVarInt();
+        const components: Record<string, ComponentSnapshot> = {};
+
+        for (let j = 0; j < componentCount; j++) {
+            const index = buffer.getVarInt();
+            const name = names[index];
+            if (name === undefined) {
+                throw new SnapshotFormatError(`Unknown component index ${index}`, { entity: id });
+            }
+            components[name] = readSnapshotValue(buffer) as ComponentSnapshot;
+        }
+
+        if (version < 2) {
+            entities[i] = { id, components };
+            continue;
+        }
+
+        const relations: RelationSnapshot[] = new Array(buffer.getVarInt());
+        for (let j = 0; j < relations.length; j++) {
+            relations[j] = { relation: buffer.getString(), target: buffer.getVarInt() };
+        }
+
+        entities[i] = relations.length > 0 ? { id, components, relations } : { id, components };
+    }
+
+    const snapshot: WorldSnapshot = { version, nextEntityId, freeEntities, entities };
+    validateWorldSnapshot(snapshot);
+    return snapshot;
+};
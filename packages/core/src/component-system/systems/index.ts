@@ -1 +1,18 @@
-export { SystemManager } from './system-manager';
+export { SystemManager, SystemPhase } from './system-manager';
+export type { SystemTiming } from './system-manager';
+export {
+    SystemScheduleError,
+    buildSystemSchedule,
+    systemsConflict,
+    type SystemSchedule,
+    type SystemStage,
+} from './scheduler';
+export {
+    SequentialStageExecutor,
+    WorkerStageExecutor,
+    type StageContext,
+    type StageExecutor,
+    type WorkerJobRequest,
+    type WorkerJobResponse,
+    type WorkerLike,
+} from './stage-executor';
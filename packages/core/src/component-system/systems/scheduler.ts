@@ -0,0 +1,154 @@
+import type { ComponentRegistry, SystemId } from '../types/core';
+import type { System } from '../types/system';
+
+export class SystemScheduleError extends Error {
+    constructor(
+        message: string,
+        public readonly systems: readonly SystemId[]
+    ) {
+        super(`[SystemScheduler] ${message}`);
+        this.name = 'SystemScheduleError';
+        Object.setPrototypeOf(this, SystemScheduleError.prototype);
+    }
+}
+
+export interface SystemStage<R extends ComponentRegistry> {
+    readonly index: number;
+    readonly systems: readonly System<R, any>[];
+}
+
+export interface SystemSchedule<R extends ComponentRegistry> {
+    readonly order: readonly System<R, any>[];
+    readonly stages: readonly SystemStage<R>[];
+}
+
+interface SystemAccess {
+    readonly reads: ReadonlySet<string>;
+    readonly writes: ReadonlySet<string>;
+}
+
+const getSystemAccess = (system: System<any, any>): SystemAccess => {
+    const query = system.query as readonly string[];
+    const declared = system.reads !== undefined || system.writes !== undefined;
+
+    // Systems that do not declare access are assumed to write everything they query.
+    const writes = new Set<string>(
+        (system.writes as readonly string[] | undefined) ?? (declared ? [] : query)
+    );
+    const reads = new Set<string>([...((system.reads as readonly string[]) ?? []), ...query]);
+
+    return { reads, writes };
+};
+
+const intersects = (a: ReadonlySet<string>, b: ReadonlySet<string>): boolean => {
+    for (const item of a) {
+        if (b.has(item)) {
+            return true;
+        }
+    }
+    return false;
+};
+
+export const systemsConflict = (a: System<any, any>, b: System<any, any>): boolean => {
+    const accessA = getSystemAccess(a);
+    const accessB = getSystemAccess(b);
+
+    return (
+        intersects(accessA.writes, accessB.writes) ||
+        intersects(accessA.writes, accessB.reads) ||
+        intersects(accessB.writes, accessA.reads)
+    );
+};
+
+export const buildSystemSchedule = <R extends ComponentRegistry>(
+    systems: readonly System<R, any>[]
+): SystemSchedule<R> => {
+    const byId = new Map<SystemId, System<R, any>>();
+    const insertion = new Map<System<R, any>, number>();
+    systems.forEach((system, index) => {
+        byId.set(system.id, system);
+        insertion.set(system, index);
+    });
+
+    const successors = new Map<System<R, any>, Set<System<R, any>>>();
+    const predecessors = new Map<System<R, any>, Set<System<R, any>>>();
+    for (const system of systems) {
+        successors.set(system, new Set());
+        predecessors.set(system, new Set());
+    }
+
+    const addEdge = (from: System<R, any>, to: System<R, any>): void => {
+        if (from === to) {
+            throw new SystemScheduleError(`System ${from.id} cannot depend on itself`, [from.id]);
+        }
+        successors.get(from)!.add(to);
+        predecessors.get(to)!.add(from);
+    };
+
+    for (const system of systems) {
+        for (const id of system.runAfter ?? []) {
+            const dependency = byId.get(id);
+            if (dependency) addEdge(dependency, system);
+        }
+        for (const id of system.runBefore ?? []) {
+            const dependent = byId.get(id);
+            if (dependent) addEdge(system, dependent);
+        }
+    }
+
+    const compare = (a: System<R, any>, b: System<R, any>): number =>
+        b.priority - a.priority || insertion.get(a)! - insertion.get(b)!;
+
+    const remaining = new Map<System<R, any>, number>();
+    for (const system of systems) {
+        remaining.set(system, predecessors.get(system)!.size);
+    }
+
+    const ready = systems.filter((system) => remaining.get(system) === 0);
+    const order: System<R, any>[] = [];
+
+    while (ready.length > 0) {
+        ready.sort(compare);
+        const next = ready.shift()!;
+        order.push(next);
+
+        for (const successor of successors.get(next)!) {
+            const count = remaining.get(successor)! - 1;
+            remaining.set(successor, count);
+            if (count === 0) {
+                ready.push(successor);
+            }
+        }
+    }
+
+    if (order.length !== systems.length) {
+        const cyclic = systems.filter((system) => !order.includes(system)).map((s) => s.id);
+        throw new SystemScheduleError(
+            `Dependency cycle detected between systems: ${cyclic.join(', ')}`,
+            cyclic
+        );
+    }
+
+    const stageOf = new Map<System<R, any>, number>();
+    const stages: System<R, any>[][] = [];
+
+    for (let i = 0; i < order.length; i++) {
+        const system = order[i];
+        let stage = 0;
+
+        for (let j = 0; j < i; j++) {
+            const previous = order[j];
+            if (predecessors.get(system)!.has(previous) || systemsConflict(previous, system)) {
+                stage = Math.max(stage, stageOf.get(previous)! + 1);
+            }
+        }
+
+        stageOf.set(system, stage);
+        (stages[stage] ??= []).push(system);
+    }
+
+    return {
+        order,
+        stages: stages.map((stageSystems, index) => ({ index, systems: stageSystems })),
+    };
+};
@@ -0,0 +1,167 @@
+import type { ComponentRegistry, SystemId } from '../types/core';
+import type { QueryResult, System } from '../types/system';
+
+export interface StageContext<R extends ComponentRegistry> {
+    query(system: System<R, any>): readonly QueryResult<R, any>[];
+    run(system: System<R, any>, deltaTime: number): void;
+    reportError(system: System<R, any>, error: unknown): void;
+}
+
+export interface StageExecutor<R extends ComponentRegistry> {
+    executeStage(
+        systems: readonly System<R, any>[],
+        deltaTime: number,
+        context: StageContext<R>
+    ): void | Promise<void>;
+}
+
+export class SequentialStageExecutor<R extends ComponentRegistry> implements StageExecutor<R> {
+    executeStage(
+        systems: readonly System<R, any>[],
+        deltaTime: number,
+        context: StageContext<R>
+    ): void {
+        for (const system of systems) {
+            context.run(system, deltaTime);
+        }
+    }
+}
+
+export interface WorkerJobRequest {
+    readonly jobId: number;
+    readonly systemId: SystemId;
+    readonly deltaTime: number;
+    readonly payload: unknown;
+}
+
+export interface WorkerJobResponse {
+    readonly jobId: number;
+    readonly result?: unknown;
+    readonly error?: string;
+}
+
+export interface WorkerLike {
+    postMessage(message: WorkerJobRequest, transfer?: Transferable[]): void;
+    addEventListener(type: 'message', listener: (event: { data: WorkerJobResponse }) => void): void;
+    removeEventListener(
+        type: 'message',
+        listener: (event: { data: WorkerJobResponse }) => void
+    ): void;
+}
+
+interface PendingJob<R extends ComponentRegistry> {
+    readonly system: System<R, any>;
+    readonly entities: readonly QueryResult<R, any>[];
+    readonly response: Promise<WorkerJobResponse>;
+}
+
+export class WorkerStageExecutor<R extends ComponentRegistry> implements StageExecutor<R> {
+    private readonly _workers: readonly WorkerLike[];
+    private readonly _pending = new Map<number, (response: WorkerJobResponse) => void>();
+    private readonly _listener = (event: { data: WorkerJobResponse }): void => {
+        const resolve = this._pending.get(event.data.jobId);
+        if (resolve) {
+            this._pending.delete(event.data.jobId);
+            resolve(event.data);
+        }
+    };
+    private _nextJobId = 0;
+    private _nextWorker = 0;
+    private _disposed = false;
+
+    constructor(workers: readonly WorkerLike[]) {
+        if (workers.length === 0) {
+            throw new Error('WorkerStageExecutor requires at least one worker');
+        }
+
+        this._workers = [...workers];
+        for (const worker of this._workers) {
+            worker.addEventListener('message', this._listener);
+        }
+    }
+
+    get pendingJobs(): number {
+        return this._pending.size;
+    }
+
+    async executeStage(
+        systems: readonly System<R, any>[],
+        deltaTime: number,
+        context: StageContext<R>
+    ): Promise<void> {
+        const jobs: PendingJob<R>[] = [];
+
+        for (const system of systems) {
+            if (!system.worker || this._disposed) {
+                context.run(system, deltaTime);
+                continue;
+            }
+
+            try {
+                const entities = context.query(system);
+                const { payload, transfer } = system.worker.encode(entities, deltaTime);
+                jobs.push({
+                    system,
+                    entities,
+                    response: this._dispatch(system, deltaTime, payload, transfer),
+                });
+            } catch (error) {
+                context.reportError(system, error);
+            }
+        }
+
+        const responses = await Promise.all(jobs.map((job) => job.response));
+
+        // Results are applied in schedule order so the outcome does not depend on worker timing.
+        for (let i = 0; i < jobs.length; i++) {
+            const { system, entities } = jobs[i];
+            const response = responses[i];
+
+            if (response.error !== undefined) {
+                context.reportError(system, new Error(response.error));
+                continue;
+            }
+
+            try {
+                system.worker!.apply(response.result, entities);
+            } catch (error) {
+                context.reportError(system, error);
+            }
+        }
+    }
+
+    dispose(): void {
+        if (this._disposed) return;
+        this._disposed = true;
+
+        for (const worker of this._workers) {
+            worker.removeEventListener('message', this._listener);
+        }
+
+        for (const resolve of this._pending.values()) {
+            resolve({ jobId: -1, error: 'WorkerStageExecutor disposed' });
+        }
+        this._pending.clear();
+    }
+
+    private _dispatch(
+        system: System<R, any>,
+        deltaTime: number,
+        payload: unknown,
+        transfer?: Transferable[]
+    ): Promise<WorkerJobResponse> {
+        const jobId = ++this._nextJobId;
+        const worker = this._workers[this._nextWorker];
+        this._nextWorker = (this._nextWorker + 1) % this._workers.length;
+
+        return new Promise<WorkerJobResponse>((resolve) => {
+            this._pending.set(jobId, resolve);
+            try {
+                worker.postMessage({ jobId, systemId: system.id, deltaTime, payload }, transfer);
+            } catch (error) {
+                this._pending.delete(jobId);
+                resolve({ jobId, error: error instanceof Error ? error.message : String(error) });
+            }
+        });
+    }
+}
@@ -1,23 +1,52 @@
-import type { ComponentRegistry, SystemId } from '../types/core';
-import type { System, SystemQuery } from '../types/system';
+import type { ComponentRegistry, Entity, SystemId } from '../types/core';
+import type { QueryResult, System, SystemQuery } from '../types/system';
 import type { World } from '../core/world';
+import { CommandBuffer } from '../commands/command-buffer';
+import { buildSystemSchedule, type SystemSchedule, type SystemStage } from './scheduler';
+import { SequentialStageExecutor, type StageContext, type StageExecutor } from './stage-executor';
 
 export enum SystemPhase {
     PreUpdate = 'pre-update',
+    FixedUpdate = 'fixed-update',
     Update = 'update',
     PostUpdate = 'post-update',
     Render = 'render',
 }
 
+/** Phases run by `executeAll`; `FixedUpdate` only runs from a fixed-step driver such as `WorldRunner`. */
+const FRAME_PHASES: readonly SystemPhase[] = Object.values(SystemPhase).filter(
+    (phase) => phase !== SystemPhase.FixedUpdate
+);
+
+export interface SystemTiming {
+    readonly systemId: SystemId;
+    readonly phase: SystemPhase;
+    readonly executions: number;
+    /** Milliseconds spent in the most recent `execute` call. */
+    readonly lastDuration: number;
+    readonly averageDuration: number;
+    readonly maxDuration: number;
+    readonly totalDuration: number;
+}
+
 export class SystemManager<R extends ComponentRegistry> {
     private readonly systems = new Map<SystemId, System<R, any>>();
     private readonly systemsByPhase = new Map<SystemPhase, System<R, any>[]>();
+    private readonly schedules = new Map<SystemPhase, SystemSchedule<R>>();
+    private readonly phaseOf = new Map<SystemId, SystemPhase>();
+    private readonly timings = new Map<SystemId, SystemTiming>();
+    private readonly disabled = new Set<SystemId>();
     private readonly world: World<R>;
+    readonly commands: CommandBuffer<R>;
+    private readonly sequentialExecutor = new SequentialStageExecutor<R>();
+    private _executor: StageExecutor<R> = this.sequentialExecutor;
     private _dirty = true;
     private _enabled = true;
+    private _interpolationAlpha = 0;
 
     constructor(world: World<R>) {
         this.world = world;
+        this.commands = new CommandBuffer(world);
 
         Object.values(SystemPhase).forEach((phase) => {
             this.systemsByPhase.set(phase, []);
@@ -28,14 +57,22 @@ export class SystemManager<R extends ComponentRegistry> {
         system: System<R, Q>,
         phase: SystemPhase = SystemPhase.Update
     ): this {
-        if (this.systems.has(system.id)) {
+        const existing = this.systems.get(system.id);
+        // Validate first so a dependency cycle leaves the manager untouched.
+        buildSystemSchedule([
+            ...this.systemsByPhase.get(phase)!.filter((s) => s !== existing),
+            system,
+        ]);
+
+        if (existing) {
             console.warn(`System ${system.id} already exists, replacing...`);
             this.removeSystem(system.id);
         }
 
         this.systems.set(system.id, system);
-        this._dirty = true;
+        this.phaseOf.set(system.id, phase);
         this.assignSystemToPhase(system, phase);
+        this._dirty = true;
 
         if (system.onEnable) {
             system.onEnable();
@@ -53,6 +90,9 @@ export class SystemManager<R extends ComponentRegistry> {
         }
 
         this.systems.delete(systemId);
+        this.phaseOf.delete(systemId);
+        this.timings.delete(systemId);
+        this.disabled.delete(systemId);
         this._dirty = true;
 
         this.systemsByPhase.forEach((systems) => {
@@ -74,14 +114,28 @@ export class SystemManager<R extends ComponentRegistry> {
         return this._enabled;
     }
 
+    setInterpolationAlpha(alpha: number): this {
+        this._interpolationAlpha = Math.min(Math.max(alpha, 0), 1);
+        return this;
+    }
+
+    get interpolationAlpha(): number {
+        return this._interpolationAlpha;
+    }
+
+    setExecutor(executor: StageExecutor<R> | null): this {
+        this._executor = executor ?? this.sequentialExecutor;
+        return this;
+    }
+
+    get executor(): StageExecutor<R> {
+        return this._executor;
+    }
+
     executeAll(deltaTime: number = 0): void {
         if (!this._enabled) return;
 
-        if (this._dirty) {
-            this.sortAllSystems();
-        }
-
-        for (const phase of Object.values(SystemPhase)) {
+        for (const phase of FRAME_PHASES) {
             this.executePhase(phase, deltaTime);
         }
     }
@@ -89,36 +143,116 @@ export class SystemManager<R extends ComponentRegistry> {
     executePhase(phase: SystemPhase, deltaTime: number = 0): void {
         if (!this._enabled) return;
 
-        const systems = this.systemsByPhase.get(phase);
-        if (!systems) return;
+        const context = this.createStageContext(phase);
+        for (const stage of this.getExecutionStages(phase)) {
+            this.sequentialExecutor.executeStage(this.enabledSystems(stage), deltaTime, context);
+        }
+
+        this.flushCommands();
+    }
+
+    async executeAllAsync(deltaTime: number = 0): Promise<void> {
+        if (!this._enabled) return;
+
+        for (const phase of FRAME_PHASES) {
+            await this.executePhaseAsync(phase, deltaTime);
+        }
+    }
+
+    async executePhaseAsync(phase: SystemPhase, deltaTime: number = 0): Promise<void> {
+        if (!this._enabled) return;
 
-        for (const system of systems) {
-            if (system.enabled) {
-                this.executeSystem(system, deltaTime);
+        const context = this.createStageContext(phase);
+        for (const stage of this.getExecutionStages(phase)) {
+            const systems = this.enabledSystems(stage);
+            if (systems.length > 0) {
+                await this._executor.executeStage(systems, deltaTime, context);
             }
         }
+
+        this.flushCommands();
+    }
+
+    flushCommands(): ReadonlyMap<Entity, Entity> {
+        return this.commands.playback();
+    }
+
+    getExecutionStages(phase: SystemPhase): readonly SystemStage<R>[] {
+        return this.getSchedule(phase).stages;
+    }
+
+    private getSchedule(phase: SystemPhase): SystemSchedule<R> {
+        if (this._dirty) {
+            this.rebuildSchedules();
+        }
+        return this.schedules.get(phase)!;
     }
 
-    private executeSystem(system: System<R, any>, deltaTime: number): void {
+    private rebuildSchedules(): void {
+        this.systemsByPhase.forEach((systems, phase) => {
+            this.schedules.set(phase, buildSystemSchedule(systems));
+        });
+        this._dirty = false;
+    }
+
+    private enabledSystems(stage: SystemStage<R>): readonly System<R, any>[] {
+        return stage.systems.filter((system) => system.enabled && !this.disabled.has(system.id));
+    }
+
+    private createStageContext(phase: SystemPhase): StageContext<R> {
+        return {
+            query: (system) => this.world.query(...system.query),
+            run: (system, deltaTime) => this.executeSystem(system, phase, deltaTime),
+            reportError: (system, error) => this.reportError(system, phase, error),
+        };
+    }
+
+    private executeSystem(system: System<R, any>, phase: SystemPhase, deltaTime: number): void {
+        const start = performance.now();
         try {
-            const entities = this.world.query(...system.query);
-            system.execute(entities, deltaTime);
+            const entities: readonly QueryResult<R, any>[] = this.world.query(...system.query);
+            if (phase === SystemPhase.Render) {
+                system.execute(entities, deltaTime, this._interpolationAlpha);
+            } else {
+                system.execute(entities, deltaTime);
+            }
         } catch (error) {
-            console.error(`Error executing system ${system.id}:`, error);
+            this.reportError(system, phase, error);
+        } finally {
+            this.recordTiming(system.id, phase, performance.now() - start);
         }
     }
 
-    private sortAllSystems(): void {
-        this.systemsByPhase.forEach((systems) => {
-            systems.sort((a, b) => b.priority - a.priority);
+    private recordTiming(systemId: SystemId, phase: SystemPhase, duration: number): void {
+        const previous = this.timings.get(systemId);
+        const executions = (previous?.executions ?? 0) + 1;
+        const totalDuration = (previous?.totalDuration ?? 0) + duration;
+
+        this.timings.set(systemId, {
+            systemId,
+            phase,
+            executions,
+            lastDuration: duration,
+            averageDuration: totalDuration / executions,
+            maxDuration: Math.max(previous?.maxDuration ?? 0, duration),
+            totalDuration,
         });
-        this._dirty = false;
+    }
+
+    private reportError(system: System<R, any>, phase: SystemPhase, error: unknown): void {
+        const handled = this.world.emitSync('SystemError', {
+            systemId: system.id,
+            phase,
+            error: error instanceof Error ? error : new Error(String(error)),
+        });
+
+        if (!handled) {
+            console.error(`Error executing system ${system.id}:`, error);
+        }
     }
 
     private assignSystemToPhase(system: System<R, any>, phase: SystemPhase): void {
-        const systems = this.systemsByPhase.get(phase)!;
-        systems.push(system);
-        systems.sort((a, b) => b.priority - a.priority);
+        this.systemsByPhase.get(phase)!.push(system);
     }
 
     getSystem(systemId: SystemId): System<R, any> | undefined {
@@ -130,7 +264,12 @@ export class SystemManager<R extends ComponentRegistry> {
     }
 
     getSystemsInPhase(phase: SystemPhase): readonly System<R, any>[] {
-        return this.systemsByPhase.get(phase) || [];
+        if (!this.systemsByPhase.has(phase)) return [];
+        return this.getSchedule(phase).order;
+    }
+
+    getSystemPhase(systemId: SystemId): SystemPhase | undefined {
+        return this.phaseOf.get(systemId);
     }
 
     get systemCount(): number {
@@ -140,4 +279,38 @@ export class SystemManager<R extends ComponentRegistry> {
     hasSystem(systemId: SystemId): boolean {
         return this.systems.has(systemId);
     }
+
+    /**
+     * Pauses or resumes a single system without unregistering it. `onEnable`/`onDisable` stay
+     * tied to `addSystem`/`removeSystem`. Resuming cannot override a system's own `enabled`
+     * flag, so it returns false for those systems as well as for unknown ids.
+     */
+    setSystemEnabled(systemId: SystemId, enabled: boolean): boolean {
+        const system = this.systems.get(systemId);
+        if (!system) return false;
+
+        if (enabled) {
+            this.disabled.delete(systemId);
+            return system.enabled;
+        }
+        this.disabled.add(systemId);
+        return true;
+    }
+
+    isSystemEnabled(systemId: SystemId): boolean {
+        const system = this.systems.get(systemId);
+        return system !== undefined && system.enabled && !this.disabled.has(systemId);
+    }
+
+    getSystemTiming(systemId: SystemId): SystemTiming | undefined {
+        return this.timings.get(systemId);
+    }
+
+    getSystemTimings(): readonly SystemTiming[] {
+        return Array.from(this.timings.values());
+    }
+
+    resetTimings(): void {
+        this.timings.clear();
+    }
 }
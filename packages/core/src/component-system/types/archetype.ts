@@ -8,11 +8,14 @@ export interface IArchetype<R extends ComponentRegistry> {
     readonly entities: Entity[];
     readonly components: Map<string, IComponentPool<any>>;
     readonly edges: Map<string, ArchetypeId>;
+    readonly changeTicks: Map<string, number[]>;
     entityCount: number;
 }
 
 export interface QueryCache {
     readonly queries: Map<string, ArchetypeId[]>;
     readonly bitQueries: Map<BitMask, ArchetypeId[]>;
+    readonly filteredQueries: Map<string, ArchetypeId[]>;
+    readonly exclusionMasks: Map<string, BitMask>;
     invalidate(): void;
 }
@@ -15,6 +15,7 @@ export type ComponentInstance<T extends ComponentConstructor> =
     T extends ComponentConstructor<infer U> ? U : never;
 
 export type ComponentRegistry = Record<string, ComponentConstructor>;
+export type ComponentStorage = 'table' | 'sparse';
 
 export type BitMask = bigint;
 export type ComponentMask = Map<string, number>;
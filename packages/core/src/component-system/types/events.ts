@@ -1,7 +1,16 @@
-import type { ComponentRegistry, ComponentInstance, Entity } from './core';
+import type { ComponentRegistry, ComponentInstance, Entity, SystemId } from './core';
 import type { Actor } from '../core/actor';
+import type { Transform } from '../components/transform';
+import type { SystemPhase } from '../systems/system-manager';
 import type { EventMap } from '../../event';
 
+export interface ComponentFieldChange {
+    /** Dot-separated field path, e.g. `position.x`. */
+    readonly path: string;
+    readonly previous: unknown;
+    readonly current: unknown;
+}
+
 export type ComponentChangeEvent<R extends ComponentRegistry> = {
     readonly [K in keyof R as `${string & K}Added`]: {
         readonly entity: Entity;
@@ -14,6 +23,13 @@ export type ComponentChangeEvent<R extends ComponentRegistry> = {
         readonly component: ComponentInstance<R[K]>;
         readonly actor: Actor;
     };
+} & {
+    readonly [K in keyof R as `${string & K}Changed`]: {
+        readonly entity: Entity;
+        readonly component: ComponentInstance<R[K]>;
+        readonly actor: Actor | undefined;
+        readonly changes: readonly ComponentFieldChange[];
+    };
 };
 
 export type WorldEvents<R extends ComponentRegistry> = ComponentChangeEvent<R> & {
@@ -21,6 +37,28 @@ export type WorldEvents<R extends ComponentRegistry> = ComponentChangeEvent<R> &
     readonly EntityDestroyed: { readonly entity: Entity; readonly actor: Actor };
     readonly ActorCreated: { readonly actor: Actor };
     readonly ActorDestroyed: { readonly actor: Actor };
+    /** A Transform was attached to or detached from a parent; `changes` reports its `parent`. */
+    readonly TransformHierarchyChanged: {
+        readonly entity: Entity;
+        readonly component: Transform;
+        readonly actor: Actor;
+        readonly changes: readonly ComponentFieldChange[];
+    };
+    readonly RelationAdded: {
+        readonly source: Entity;
+        readonly relation: string;
+        readonly target: Entity;
+    };
+    readonly RelationRemoved: {
+        readonly source: Entity;
+        readonly relation: string;
+        readonly target: Entity;
+    };
+    readonly SystemError: {
+        readonly systemId: SystemId;
+        readonly phase: SystemPhase;
+        readonly error: Error;
+    };
 };
 
 export type ECSEventMap<R extends ComponentRegistry> = EventMap & WorldEvents<R>;
@@ -3,3 +3,7 @@ export * from './component';
 export * from './system';
 export * from './events';
 export * from './archetype';
+export * from './snapshot';
+export * from './relation';
+export * from './schema';
+export * from './replication';
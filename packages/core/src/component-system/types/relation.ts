@@ -0,0 +1,13 @@
+import type { Entity } from './core';
+
+export type RelationDeletePolicy = 'remove' | 'delete' | 'prevent';
+
+export interface RelationOptions {
+    readonly exclusive?: boolean;
+    readonly onDeleteTarget?: RelationDeletePolicy;
+}
+
+export interface RelationPair {
+    readonly relation: string;
+    readonly target: Entity;
+}
@@ -0,0 +1,27 @@
+import type { Entity } from './core';
+import type { ComponentSnapshot } from './snapshot';
+
+export interface ComponentDelta {
+    readonly entity: Entity;
+    readonly component: string;
+    readonly data: ComponentSnapshot;
+}
+
+export interface ComponentRemoval {
+    readonly entity: Entity;
+    readonly component: string;
+}
+
+export interface WorldDelta {
+    readonly sequence: number;
+    readonly spawned: readonly Entity[];
+    readonly despawned: readonly Entity[];
+    readonly added: readonly ComponentDelta[];
+    readonly removed: readonly ComponentRemoval[];
+    readonly changed: readonly ComponentDelta[];
+}
+
+export interface ReplicationTransport {
+    send(packet: Uint8Array): void;
+    onReceive(handler: (packet: Uint8Array) => void): () => void;
+}
@@ -0,0 +1,49 @@
+import type { ComponentInstance, ComponentRegistry, Entity } from './core';
+
+export type FieldType = 'f32' | 'f64' | 'i8' | 'i16' | 'i32' | 'u8' | 'u16' | 'u32';
+
+export interface FieldArrayMap {
+    f32: Float32Array;
+    f64: Float64Array;
+    i8: Int8Array;
+    i16: Int16Array;
+    i32: Int32Array;
+    u8: Uint8Array;
+    u16: Uint16Array;
+    u32: Uint32Array;
+}
+
+export type ComponentSchema = Readonly<Record<string, FieldType>>;
+
+export type SchemaValues<S extends ComponentSchema> = { [K in keyof S]: number };
+
+export type SchemaColumns<S extends ComponentSchema> = {
+    readonly [K in keyof S]: FieldArrayMap[S[K]];
+};
+
+export type TypedComponent<S extends ComponentSchema> = SchemaValues<S> & {
+    serialize(): SchemaValues<S>;
+    deserialize(data: Partial<SchemaValues<S>>): void;
+    toJSON(): SchemaValues<S>;
+};
+
+export interface TypedComponentConstructor<S extends ComponentSchema = ComponentSchema> {
+    new (values?: Partial<SchemaValues<S>>): TypedComponent<S>;
+    readonly schema: S;
+    readonly defaults: Readonly<SchemaValues<S>>;
+}
+
+export interface TypedComponentOptions<S extends ComponentSchema> {
+    readonly name?: string;
+    readonly defaults?: Partial<SchemaValues<S>>;
+}
+
+export type ComponentColumns<T> =
+    T extends TypedComponentConstructor<infer S> ? SchemaColumns<S> : never;
+
+export interface QueryChunk<R extends ComponentRegistry, W extends keyof R> {
+    readonly count: number;
+    readonly entities: readonly Entity[];
+    readonly components: { readonly [K in W]: readonly ComponentInstance<R[K]>[] };
+    columns<K extends W>(componentName: K): ComponentColumns<R[K]>;
+}
@@ -0,0 +1,27 @@
+export type SnapshotValue =
+    | null
+    | boolean
+    | number
+    | string
+    | readonly SnapshotValue[]
+    | { readonly [key: string]: SnapshotValue };
+
+export type ComponentSnapshot = { readonly [field: string]: SnapshotValue };
+
+export interface RelationSnapshot {
+    readonly relation: string;
+    readonly target: number;
+}
+
+export interface EntitySnapshot {
+    readonly id: number;
+    readonly components: { readonly [componentName: string]: ComponentSnapshot };
+    readonly relations?: readonly RelationSnapshot[];
+}
+
+export interface WorldSnapshot {
+    readonly version: number;
+    readonly nextEntityId: number;
+    readonly freeEntities: readonly number[];
+    readonly entities: readonly EntitySnapshot[];
+}
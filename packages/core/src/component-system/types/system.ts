@@ -9,12 +9,43 @@ export type QueryResult<R extends ComponentRegistry, Q extends readonly (keyof R
     };
 };
 
+export type FilteredQueryResult<
+    R extends ComponentRegistry,
+    W extends keyof R,
+    O extends keyof R = never,
+> = {
+    readonly entity: Entity;
+    readonly components: {
+        readonly [K in W]: ComponentInstance<R[K]>;
+    } & {
+        readonly [K in O]?: ComponentInstance<R[K]>;
+    };
+};
+
+export interface WorkerSystemJob<R extends ComponentRegistry, Q extends SystemQuery<R>> {
+    encode(
+        entities: readonly QueryResult<R, Q>[],
+        deltaTime: number
+    ): { readonly payload: unknown; readonly transfer?: Transferable[] };
+    apply(result: unknown, entities: readonly QueryResult<R, Q>[]): void;
+}
+
 export interface System<R extends ComponentRegistry, Q extends SystemQuery<R>> {
     readonly query: Q;
     readonly id: SystemId;
     readonly priority: number;
     readonly enabled: boolean;
-    execute(entities: readonly QueryResult<R, Q>[], deltaTime: number): void;
+    readonly reads?: readonly (keyof R)[];
+    readonly writes?: readonly (keyof R)[];
+    readonly runBefore?: readonly SystemId[];
+    readonly runAfter?: readonly SystemId[];
+    readonly worker?: WorkerSystemJob<R, Q>;
+    /** Render-phase systems also receive the fixed-step interpolation alpha. */
+    execute(
+        entities: readonly QueryResult<R, Q>[],
+        deltaTime: number,
+        interpolationAlpha?: number
+    ): void;
     onEnable?(): void;
     onDisable?(): void;
 }
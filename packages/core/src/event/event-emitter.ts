@@ -23,6 +23,15 @@ import {
     EventMetrics,
 } from './interfaces';
 import { EventScheduler } from './event-scheduler';
+import { EventMiddleware, IEventInterceptable, runMiddleware } from './middleware';
+import {
+    AnyEventCallback,
+    EventPattern,
+    PatternTrie,
+    WildcardCallback,
+    assertEventPattern,
+    isEventPattern,
+} from './wildcard';
 
 export interface IEventEmitter<T extends EventMap = EventMap>
     extends IEventSubscriber<T>,
@@ -50,8 +59,11 @@ export interface IEventEmitter<T extends EventMap = EventMap>
     dispose(): void;
 }
 
-export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitter<T> {
+export class EventEmitter<T extends EventMap = EventMap>
+    implements IEventEmitter<T>, IEventInterceptable<T>
+{
     #subscriptions = new Map<string, Map<symbol, Subscription<any>>>();
+    #patterns = new PatternTrie<Map<symbol, Subscription<any>>>();
     #options: Required<EventOptions>;
     #staticSubscriptionStorage = new Map<symbol, Subscription>();
     #weakSubscriptionStorage?: WeakMap<object, symbol[]>;
@@ -75,6 +87,7 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
     #isPaused = false;
     #gcIntervalId?: ReturnType<typeof setInterval>;
     #lastGcTime = Date.now();
+    #middleware: ReadonlyArray<EventMiddleware<T>> = [];
 
     constructor(options: EventOptions = {}) {
         this.#options = { ...DEFAULT_OPTIONS, ...options };
@@ -108,30 +121,59 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
         };
     }
 
+    public on<P extends EventPattern<T>>(
+        pattern: P,
+        callback: WildcardCallback<T, P>,
+        options?: SubscriptionOptions
+    ): UnsubscribeFn;
     public on<K extends EventKey<T>>(
         event: K,
         callback: EventCallback<T[K]>,
+        options?: SubscriptionOptions
+    ): UnsubscribeFn;
+    public on(
+        event: string,
+        callback: (...args: any[]) => void | Promise<void>,
         options: SubscriptionOptions = {}
     ): UnsubscribeFn {
-        return this.#addListener(event, callback, {
+        return this.#addListener(event as EventKey<T>, callback, {
             once: false,
             priority: 'normal',
             ...options,
         });
     }
 
+    public once<P extends EventPattern<T>>(
+        pattern: P,
+        callback: WildcardCallback<T, P>,
+        options?: Omit<SubscriptionOptions, 'once'>
+    ): UnsubscribeFn;
     public once<K extends EventKey<T>>(
         event: K,
         callback: EventCallback<T[K]>,
+        options?: Omit<SubscriptionOptions, 'once'>
+    ): UnsubscribeFn;
+    public once(
+        event: string,
+        callback: (...args: any[]) => void | Promise<void>,
         options: Omit<SubscriptionOptions, 'once'> = {}
     ): UnsubscribeFn {
-        return this.#addListener(event, callback, {
+        return this.#addListener(event as EventKey<T>, callback, {
             once: true,
             priority: 'normal',
             ...options,
         });
     }
 
+    /** Listens to every event; the listener also receives the event name. Same as `on('**')`. */
+    public onAny(callback: AnyEventCallback<T>, options: SubscriptionOptions = {}): UnsubscribeFn {
+        return this.#addListener('**' as EventKey<T>, callback as EventCallback<any>, {
+            once: false,
+            priority: 'normal',
+            ...options,
+        });
+    }
+
     public pipe<K extends EventKey<T>>(
         event: K,
         emitter: IEventPublisher<any>,
@@ -154,7 +196,7 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
             for (const id of subscriptionMap.keys()) {
                 this.#staticSubscriptionStorage.delete(id);
             }
-            this.#subscriptions.delete(event);
+            this.#deleteSubscriptionMap(event);
             return subscriptionMap.size > 0;
         }
 
@@ -168,7 +210,7 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
         }
 
         if (subscriptionMap.size === 0) {
-            this.#subscriptions.delete(event);
+            this.#deleteSubscriptionMap(event);
         }
 
         return found;
@@ -192,7 +234,7 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
         this.#staticSubscriptionStorage.delete(subscriptionId);
 
         if (subscriptionMap.size === 0) {
-            this.#subscriptions.delete(event);
+            this.#deleteSubscriptionMap(event);
         }
 
         return result;
@@ -226,10 +268,61 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
         }
     }
 
+    public use(middleware: EventMiddleware<T>): UnsubscribeFn {
+        if (typeof middleware !== 'function') {
+            throw new TypeError('Middleware must be a function');
+        }
+
+        // Replaced rather than mutated so that emits already in flight keep their chain.
+        this.#middleware = [...this.#middleware, middleware];
+        return () => {
+            const remaining = this.#middleware.filter((m) => m !== middleware);
+            const removed = remaining.length !== this.#middleware.length;
+            this.#middleware = remaining;
+            return removed;
+        };
+    }
+
     public async emit<K extends EventKey<T>>(
         event: K,
         data: T[K],
         options: { priority?: EventPriority } = {}
+    ): Promise<boolean> {
+        if (this.#middleware.length === 0) {
+            return this.#dispatch(event, data, options);
+        }
+
+        return runMiddleware(
+            this.#middleware,
+            event,
+            data,
+            { sync: false, priority: options.priority || 'normal' },
+            (current) => this.#dispatch(event, current as T[K], options)
+        );
+    }
+
+    public emitSync<K extends EventKey<T>>(
+        event: K,
+        data: T[K],
+        options: { priority?: EventPriority } = {}
+    ): boolean {
+        if (this.#middleware.length === 0) {
+            return this.#dispatchSync(event, data, options);
+        }
+
+        return runMiddleware(
+            this.#middleware,
+            event,
+            data,
+            { sync: true, priority: options.priority || 'normal' },
+            (current) => this.#dispatchSync(event, current as T[K], options)
+        ) as boolean;
+    }
+
+    async #dispatch<K extends EventKey<T>>(
+        event: K,
+        data: T[K],
+        options: { priority?: EventPriority }
     ): Promise<boolean> {
         const priority = options.priority || 'normal';
         const startTime = performance.now();
@@ -241,15 +334,13 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
                 return true;
             }
 
-            const subscriptionMap = this.#subscriptions.get(event);
-            if (!subscriptionMap || subscriptionMap.size === 0) {
+            const subscriptions = this.#collectSubscriptions(event);
+            if (subscriptions.length === 0) {
                 this.#updateMetrics(event, 'emit', performance.now() - startTime);
                 return false;
             }
 
-            const subscriptions = [...subscriptionMap.values()].sort(
-                (a, b) => PRIORITY_VALUES[a.priority] - PRIORITY_VALUES[b.priority]
-            );
+            subscriptions.sort((a, b) => PRIORITY_VALUES[a.priority] - PRIORITY_VALUES[b.priority]);
 
             const onceSubscriptions = subscriptions.filter((s) => s.once);
             for (const subscription of onceSubscriptions) {
@@ -261,10 +352,8 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
                     const execStartTime = performance.now();
                     subscription.executionCount++;
                     subscription.lastExecuted = Date.now();
-                    const { callback } = subscription;
-
                     try {
-                        await callback(data);
+                        await this.#invoke(subscription, event, data);
                         this.#updateMetrics(event, 'execution', performance.now() - execStartTime);
                     } catch (error) {
                         this.#updateMetrics(
@@ -305,10 +394,10 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
         }
     }
 
-    public emitSync<K extends EventKey<T>>(
+    #dispatchSync<K extends EventKey<T>>(
         event: K,
         data: T[K],
-        options: { priority?: EventPriority } = {}
+        options: { priority?: EventPriority }
     ): boolean {
         const startTime = performance.now();
 
@@ -319,15 +408,13 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
                 return true;
             }
 
-            const subscriptionMap = this.#subscriptions.get(event);
-            if (!subscriptionMap || subscriptionMap.size === 0) {
+            const subscriptions = this.#collectSubscriptions(event);
+            if (subscriptions.length === 0) {
                 this.#updateMetrics(event, 'emit', performance.now() - startTime);
                 return false;
             }
 
-            const subscriptions = [...subscriptionMap.values()].sort(
-                (a, b) => PRIORITY_VALUES[a.priority] - PRIORITY_VALUES[b.priority]
-            );
+            subscriptions.sort((a, b) => PRIORITY_VALUES[a.priority] - PRIORITY_VALUES[b.priority]);
 
             const onceSubscriptions = subscriptions.filter((s) => s.once);
             for (const subscription of onceSubscriptions) {
@@ -340,10 +427,8 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
                 const execStartTime = performance.now();
                 subscription.executionCount++;
                 subscription.lastExecuted = Date.now();
-                const { callback } = subscription;
-
                 try {
-                    const result = callback(data);
+                    const result = this.#invoke(subscription, event, data);
                     if (result instanceof Promise) {
                         hadAsyncCallbacks = true;
                         result
@@ -465,11 +550,12 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
                 for (const id of subscriptionMap.keys()) {
                     this.#staticSubscriptionStorage.delete(id);
                 }
-                this.#subscriptions.delete(event);
+                this.#deleteSubscriptionMap(event);
             }
         } else {
             this.#staticSubscriptionStorage.clear();
             this.#subscriptions.clear();
+            this.#patterns.clear();
             if (this.#weakSubscriptionStorage) {
                 this.#weakSubscriptionStorage = new WeakMap();
             }
@@ -592,7 +678,7 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
 
         try {
             for (const queuedEvent of queuedEvents) {
-                await this.emit(event, queuedEvent.data as T[K], {
+                await this.#dispatch(event, queuedEvent.data as T[K], {
                     priority: queuedEvent.priority,
                 });
             }
@@ -712,8 +798,17 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
         callback: EventCallback<T[K]>,
         options: Required<SubscriptionOptions>
     ): UnsubscribeFn {
+        const pattern = isEventPattern(event);
+        if (pattern) {
+            assertEventPattern(event);
+        }
+
         if (!this.#subscriptions.has(event)) {
-            this.#subscriptions.set(event, new Map());
+            const subscriptionMap = new Map<symbol, Subscription<any>>();
+            this.#subscriptions.set(event, subscriptionMap);
+            if (pattern) {
+                this.#patterns.set(event, subscriptionMap);
+            }
         }
 
         const subscriptionMap = this.#subscriptions.get(event)!;
@@ -751,6 +846,39 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
         return () => this.offById(id);
     }
 
+    #collectSubscriptions(event: string): Subscription[] {
+        const exact = this.#subscriptions.get(event);
+        const subscriptions: Subscription[] = exact ? [...exact.values()] : [];
+
+        // Pattern listeners live in the same maps; emitting a pattern name does not fan out.
+        if (this.#patterns.size > 0 && !isEventPattern(event)) {
+            for (const subscriptionMap of this.#patterns.match(event)) {
+                for (const subscription of subscriptionMap.values()) {
+                    subscriptions.push(subscription);
+                }
+            }
+        }
+
+        return subscriptions;
+    }
+
+    #invoke(subscription: Subscription, event: string, data: unknown): void | Promise<void> {
+        // Pattern listeners get the concrete event name so one handler can serve many events.
+        return subscription.event === event
+            ? subscription.callback(data)
+            : (subscription.callback as (data: unknown, event: string) => void | Promise<void>)(
+                  data,
+                  event
+              );
+    }
+
+    #deleteSubscriptionMap(event: string): void {
+        this.#subscriptions.delete(event);
+        if (isEventPattern(event)) {
+            this.#patterns.delete(event);
+        }
+    }
+
     #addToQueue<K extends EventKey<T>>(event: K, data: T[K], priority: EventPriority): void {
         if (!this.#eventQueues.has(event)) {
             this.#eventQueues.set(
@@ -785,8 +913,9 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
 
         this.clearBuffer();
 
+        // Queued events already went through middleware when they were emitted.
         for (const queuedEvent of allEvents) {
-            await this.emit(queuedEvent.event as EventKey<T>, queuedEvent.data as T[EventKey<T>], {
+            await this.#dispatch(queuedEvent.event as EventKey<T>, queuedEvent.data, {
                 priority: queuedEvent.priority,
             });
         }
@@ -874,5 +1003,6 @@ export class EventEmitter<T extends EventMap = EventMap> implements IEventEmitte
         this.removeAllListeners();
         this.clearBuffer();
         this.#metrics.clear();
+        this.#middleware = [];
     }
 }
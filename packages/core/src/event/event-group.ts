@@ -7,10 +7,12 @@ import {
     EventMetrics,
     QueuedEvent,
 } from './interfaces';
+import { EventMiddleware, IEventInterceptable, runMiddleware } from './middleware';
 
-export class EventGroup<T extends EventMap> implements IEventEmitter<T> {
+export class EventGroup<T extends EventMap> implements IEventEmitter<T>, IEventInterceptable<T> {
     readonly #emitter: IEventEmitter<T>;
     readonly #subscriptions: Set<symbol> = new Set();
+    #middleware: ReadonlyArray<EventMiddleware<T>> = [];
 
     constructor(baseEmitter?: IEventEmitter<T>) {
         this.#emitter = baseEmitter || new EventEmitter<T>();
@@ -115,12 +117,37 @@ export class EventGroup<T extends EventMap> implements IEventEmitter<T> {
         );
     }
 
-    emit<K extends EventKey<T>>(
+    /** Middleware that only sees emits made through this group, ahead of the base emitter's own. */
+    use(middleware: EventMiddleware<T>): UnsubscribeFn {
+        if (typeof middleware !== 'function') {
+            throw new TypeError('Middleware must be a function');
+        }
+
+        this.#middleware = [...this.#middleware, middleware];
+        return () => {
+            const remaining = this.#middleware.filter((m) => m !== middleware);
+            const removed = remaining.length !== this.#middleware.length;
+            this.#middleware = remaining;
+            return removed;
+        };
+    }
+
+    async emit<K extends EventKey<T>>(
         event: K,
         data: T[K],
         options?: { priority?: EventPriority }
     ): Promise<boolean> {
-        return this.#emitter.emit(event, data, options);
+        if (this.#middleware.length === 0) {
+            return this.#emitter.emit(event, data, options);
+        }
+
+        return runMiddleware(
+            this.#middleware,
+            event,
+            data,
+            { sync: false, priority: options?.priority || 'normal' },
+            (current) => this.#emitter.emit(event, current as T[K], options)
+        );
     }
 
     emitSync<K extends EventKey<T>>(
@@ -128,13 +155,28 @@ export class EventGroup<T extends EventMap> implements IEventEmitter<T> {
         data: T[K],
         options?: { priority?: EventPriority }
     ): boolean {
-        return this.#emitter.emitSync(event, data, options);
+        if (this.#middleware.length === 0) {
+            return this.#emitter.emitSync(event, data, options);
+        }
+
+        return runMiddleware(
+            this.#middleware,
+            event,
+            data,
+            { sync: true, priority: options?.priority || 'normal' },
+            (current) => this.#emitter.emitSync(event, current as T[K], options)
+        ) as boolean;
     }
 
     emitBatch<K extends EventKey<T>>(
         events: Array<{ event: K; data: T[K]; priority?: EventPriority }>
     ): Promise<boolean[]> {
-        return this.#emitter.emitBatch(events);
+        if (this.#middleware.length === 0) {
+            return this.#emitter.emitBatch(events);
+        }
+        return Promise.all(
+            events.map(({ event, data, priority }) => this.emit(event, data, { priority }))
+        );
     }
 
     has<K extends EventKey<T>>(event: K): boolean {
@@ -257,5 +299,6 @@ export class EventGroup<T extends EventMap> implements IEventEmitter<T> {
             this.#emitter.offById(id);
         }
         this.#subscriptions.clear();
+        this.#middleware = [];
     }
 }
@@ -1,3 +1,5 @@
+import { TimeScheduler, TimerHandle, realTimeScheduler } from './time-scheduler';
+
 declare const __taskBrand: unique symbol;
 declare const __schedulerBrand: unique symbol;
 
@@ -41,6 +43,7 @@ export interface ISchedulerOptions {
     readonly taskTimeout?: number;
     readonly gcIntervalMs?: number;
     readonly name?: string;
+    readonly timeScheduler?: TimeScheduler;
 }
 
 export interface ISchedulerStats {
@@ -66,7 +69,7 @@ interface ITask<T = unknown> {
     retryCount: number;
     readonly maxRetries: number;
     startedAt?: number;
-    timeoutId?: ReturnType<typeof setTimeout>;
+    timeoutId?: TimerHandle;
     promise?: Promise<T>;
 }
 
@@ -156,6 +159,7 @@ export class EventScheduler {
     private readonly taskTimeout: number;
     private readonly gcIntervalMs: number;
     private readonly name: string;
+    private readonly time: TimeScheduler;
 
     private readonly taskQueue = new PriorityTaskQueue<ITask<any>>();
     private readonly activeTasks = new Map<TaskId, ITask<any>>();
@@ -165,10 +169,10 @@ export class EventScheduler {
     private completedCount = 0;
     private failedCount = 0;
     private totalExecutionTime = 0;
-    private lastThroughputCheck = performance.now();
+    private lastThroughputCheck: number;
     private throughputCounter = 0;
 
-    private gcIntervalId?: ReturnType<typeof setInterval>;
+    private gcIntervalId?: TimerHandle;
     private isDisposed = false;
 
     constructor(options: ISchedulerOptions = {}) {
@@ -183,6 +187,8 @@ export class EventScheduler {
         this.taskTimeout = Math.max(0, options.taskTimeout ?? 30000);
         this.gcIntervalMs = Math.max(1000, options.gcIntervalMs ?? 60000);
         this.name = options.name ?? `EventScheduler-${this.id}`;
+        this.time = options.timeScheduler ?? realTimeScheduler;
+        this.lastThroughputCheck = this.time.now();
 
         if (this.gcIntervalMs > 0) {
             this.startGarbageCollection();
@@ -227,7 +233,7 @@ export class EventScheduler {
         });
 
         const taskId = this.generateTaskId();
-        const now = performance.now();
+        const now = this.time.now();
 
         const task: ITask<T> = {
             id: taskId,
@@ -289,6 +295,7 @@ export class EventScheduler {
                 if (this.activeCount === 0 && this.queuedCount === 0) {
                     resolve(void 0);
                 } else {
+                    // Polls for promise-driven completion, so it stays on real time.
                     setTimeout(resolve, 1);
                 }
             });
@@ -296,7 +303,7 @@ export class EventScheduler {
     }
 
     getStats(): ISchedulerStats {
-        const now = performance.now();
+        const now = this.time.now();
         const timeDiff = now - this.lastThroughputCheck;
         const throughput = timeDiff > 0 ? (this.throughputCounter * 1000) / timeDiff : 0;
 
@@ -328,7 +335,7 @@ export class EventScheduler {
         this.failedCount = 0;
         this.totalExecutionTime = 0;
         this.throughputCounter = 0;
-        this.lastThroughputCheck = performance.now();
+        this.lastThroughputCheck = this.time.now();
     }
 
     dispose(): void {
@@ -337,13 +344,13 @@ export class EventScheduler {
         this.isDisposed = true;
 
         if (this.gcIntervalId) {
-            clearInterval(this.gcIntervalId);
+            this.time.clearInterval(this.gcIntervalId);
             this.gcIntervalId = undefined;
         }
 
         this.activeTasks.forEach((task) => {
             if (task.timeoutId) {
-                clearTimeout(task.timeoutId);
+                this.time.clearTimeout(task.timeoutId);
             }
             try {
                 task.reject(new Error('Scheduler disposed'));
@@ -381,7 +388,7 @@ export class EventScheduler {
     }
 
     private async executeTask<T>(task: ITask<T>): Promise<void> {
-        const now = performance.now();
+        const now = this.time.now();
         task.startedAt = now;
 
         this.activeTasks.set(task.id, task);
@@ -395,7 +402,7 @@ export class EventScheduler {
         }
 
         if (task.timeout && task.timeout > 0) {
-            task.timeoutId = setTimeout(() => {
+            task.timeoutId = this.time.setTimeout(() => {
                 this.handleTaskTimeout(task);
             }, task.timeout);
         }
@@ -409,10 +416,10 @@ export class EventScheduler {
     }
 
     private handleTaskSuccess<T>(task: ITask<T>, result: T, startTime: number): void {
-        const executionTime = performance.now() - startTime;
+        const executionTime = this.time.now() - startTime;
 
         if (task.timeoutId) {
-            clearTimeout(task.timeoutId);
+            this.time.clearTimeout(task.timeoutId);
         }
 
         this.activeTasks.delete(task.id);
@@ -424,7 +431,7 @@ export class EventScheduler {
             const metrics = this.taskMetrics.get(task.id);
             if (metrics) {
                 (metrics as any).state = TaskState.COMPLETED;
-                (metrics as any).completedAt = performance.now();
+                (metrics as any).completedAt = this.time.now();
                 (metrics as any).executionTime = executionTime;
             }
         }
@@ -434,10 +441,10 @@ export class EventScheduler {
     }
 
     private handleTaskError<T>(task: ITask<T>, error: Error, startTime: number): void {
-        const executionTime = performance.now() - startTime;
+        const executionTime = this.time.now() - startTime;
 
         if (task.timeoutId) {
-            clearTimeout(task.timeoutId);
+            this.time.clearTimeout(task.timeoutId);
         }
 
         this.activeTasks.delete(task.id);
@@ -452,7 +459,7 @@ export class EventScheduler {
                 }
             }
 
-            setTimeout(() => {
+            this.time.setTimeout(() => {
                 if (!this.isDisposed && !this.isAtCapacity) {
                     this.taskQueue.enqueue(task, task.priority);
                     this.processQueue();
@@ -472,7 +479,7 @@ export class EventScheduler {
             const metrics = this.taskMetrics.get(task.id);
             if (metrics) {
                 (metrics as any).state = TaskState.FAILED;
-                (metrics as any).completedAt = performance.now();
+                (metrics as any).completedAt = this.time.now();
                 (metrics as any).executionTime = executionTime;
             }
         }
@@ -485,7 +492,7 @@ export class EventScheduler {
         if (!this.activeTasks.has(task.id)) return;
 
         const error = new Error(`Task ${task.id} timed out after ${task.timeout}ms`);
-        this.handleTaskError(task, error, task.startedAt ?? performance.now());
+        this.handleTaskError(task, error, task.startedAt ?? this.time.now());
     }
 
     private generateTaskId(): TaskId {
@@ -493,11 +500,15 @@ export class EventScheduler {
     }
 
     private startGarbageCollection(): void {
-        this.gcIntervalId = setInterval(() => {
+        this.gcIntervalId = this.time.setInterval(() => {
             this.runGarbageCollection();
         }, this.gcIntervalMs);
 
-        if (typeof this.gcIntervalId === 'object' && 'unref' in this.gcIntervalId) {
+        if (
+            typeof this.gcIntervalId === 'object' &&
+            this.gcIntervalId !== null &&
+            'unref' in this.gcIntervalId
+        ) {
             (this.gcIntervalId as any).unref();
         }
     }
@@ -505,7 +516,7 @@ export class EventScheduler {
     private runGarbageCollection(): void {
         if (this.isDisposed) return;
 
-        const now = performance.now();
+        const now = this.time.now();
         const cutoffTime = now - this.gcIntervalMs * 2;
 
         this.taskMetrics.forEach((metrics, taskId) => {
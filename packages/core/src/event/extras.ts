@@ -109,7 +109,9 @@ export function excludeEvents<T extends EventMap, K extends keyof T & string>(
     source: IEventEmitter<T>,
     excludedEvents: ReadonlyArray<K>
 ): IEventEmitter<ExcludeEventsMap<T, K>> {
-    const target = new EventEmitter<ExcludeEventsMap<T, K>>();
+    const target: IEventEmitter<ExcludeEventsMap<T, K>> = new EventEmitter<
+        ExcludeEventsMap<T, K>
+    >();
     const excludedEventsSet = new Set(excludedEvents);
     const unsubscribers: UnsubscribeFn[] = [];
     const forwardedEvents = new Set<string>();
@@ -320,7 +322,9 @@ export function namespaceEvents<Prefix extends string, T extends EventMap>(
     prefix: Prefix,
     source: IEventEmitter<T> = new EventEmitter<T>()
 ): IEventEmitter<NamespacedEventMap<Prefix, T>> {
-    const namespaced = new EventEmitter<NamespacedEventMap<Prefix, T>>();
+    const namespaced: IEventEmitter<NamespacedEventMap<Prefix, T>> = new EventEmitter<
+        NamespacedEventMap<Prefix, T>
+    >();
     const unsubscribers: UnsubscribeFn[] = [];
 
     const resolveSourceEvent = <K extends keyof NamespacedEventMap<Prefix, T> & string>(
@@ -44,8 +44,52 @@ export { EventEmitter } from './event-emitter';
 
 export { EventGroup } from './event-group';
 
+export type {
+    EventPattern,
+    EventPatternOf,
+    KnownEventKey,
+    EventKeysMatching,
+    WildcardCallback,
+    AnyEventCallback,
+    EventListener,
+} from './wildcard';
+export {
+    EVENT_SEGMENT_SEPARATOR,
+    PatternTrie,
+    isEventPattern,
+    assertEventPattern,
+} from './wildcard';
+
+export type {
+    EventDispatchResult,
+    EventMiddleware,
+    EventMiddlewareContext,
+    IEventInterceptable,
+} from './middleware';
+export { runMiddleware, isEventInterceptable } from './middleware';
+
+export type {
+    EventClock,
+    RecordedEvent,
+    EventRecording,
+    EventRecorderOptions,
+    EventReplayerOptions,
+} from './recording';
+export {
+    EVENT_RECORDING_VERSION,
+    EventRecorder,
+    EventReplayer,
+    serializeRecording,
+    parseRecording,
+    encodeRecording,
+    decodeRecording,
+} from './recording';
+
 export { EventScheduler } from './event-scheduler';
 
+export type { Clock, TimeScheduler, TimerHandle } from './time-scheduler';
+export { realTimeScheduler, VirtualTimeScheduler } from './time-scheduler';
+
 export type {
     EventMapOf,
     FilteredEventMap,
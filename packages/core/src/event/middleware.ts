@@ -0,0 +1,69 @@
+import { EventMap, EventKey, EventPriority, UnsubscribeFn } from './definition';
+import { EventError } from './errors';
+
+export type EventDispatchResult = boolean | Promise<boolean>;
+
+export interface EventMiddlewareContext {
+    /** True for `emitSync`, where middleware must finish synchronously. */
+    readonly sync: boolean;
+    readonly priority: EventPriority;
+}
+
+/**
+ * Runs around every emit. Call `next` to continue, optionally with replacement data;
+ * returning without calling it cancels the emit, which then reports `false`.
+ */
+export type EventMiddleware<T extends EventMap = EventMap> = (
+    event: EventKey<T>,
+    data: T[EventKey<T>],
+    next: (data?: T[EventKey<T>]) => EventDispatchResult,
+    context: EventMiddlewareContext
+) => EventDispatchResult | void;
+
+export interface IEventInterceptable<T extends EventMap = EventMap> {
+    use(middleware: EventMiddleware<T>): UnsubscribeFn;
+}
+
+export const isEventInterceptable = <T extends EventMap = EventMap>(
+    value: unknown
+): value is IEventInterceptable<T> =>
+    typeof value === 'object' && value !== null && typeof (value as any).use === 'function';
+
+export function runMiddleware<T extends EventMap>(
+    middleware: ReadonlyArray<EventMiddleware<T>>,
+    event: EventKey<T>,
+    data: T[EventKey<T>],
+    context: EventMiddlewareContext,
+    dispatch: (data: T[EventKey<T>]) => EventDispatchResult
+): EventDispatchResult {
+    const step = (index: number, current: T[EventKey<T>]): EventDispatchResult => {
+        if (index >= middleware.length) {
+            return dispatch(current);
+        }
+
+        let called = false;
+        let downstream: EventDispatchResult = false;
+        const next = (replacement?: T[EventKey<T>]): EventDispatchResult => {
+            if (called) {
+                throw new EventError(`Middleware called next() twice for "${event}"`);
+            }
+            called = true;
+            // `next()` keeps the current data; `next(value)` replaces it.
+            downstream = step(index + 1, replacement === undefined ? current : replacement);
+            return downstream;
+        };
+
+        const result = middleware[index](event, current, next, context);
+        if (result instanceof Promise) {
+            if (context.sync) {
+                throw new EventError(
+                    `Middleware for "${event}" returned a promise during emitSync`
+                );
+            }
+            return result.then((value) => (value === undefined ? downstream : value));
+        }
+        return result === undefined ? downstream : result;
+    };
+
+    return step(0, data);
+}
@@ -0,0 +1,441 @@
+import { ByteBuffer } from '@axrone/utility';
+import { EventMap, EventKey, EventPriority, UnsubscribeFn } from './definition';
+import { EventError } from './errors';
+import { IEventEmitter } from './event-emitter';
+import { isEventInterceptable } from './middleware';
+import { performance } from './performance';
+import type { Clock } from './time-scheduler';
+
+export const EVENT_RECORDING_VERSION = 1;
+
+const EVENT_RECORDING_MAGIC = 0x41584552; // 'AXER'
+
+export type EventClock = Clock;
+
+export interface RecordedEvent {
+    /** Milliseconds since the recorder was started. */
+    readonly time: number;
+    readonly event: string;
+    readonly data: unknown;
+    readonly priority?: EventPriority;
+    readonly sync?: boolean;
+}
+
+export interface EventRecording {
+    readonly version: number;
+    readonly duration: number;
+    readonly events: ReadonlyArray<RecordedEvent>;
+}
+
+export interface EventRecorderOptions<T extends EventMap> {
+    readonly clock?: EventClock;
+    /**
+     * Events to subscribe to. Required for emitters without `use()`; for interceptable
+     * emitters it narrows the capture, which otherwise covers every emit.
+     */
+    readonly events?: ReadonlyArray<EventKey<T>>;
+    readonly filter?: (event: EventKey<T>, data: T[EventKey<T>]) => boolean;
+}
+
+/**
+ * Captures a timestamped stream of emits. Payloads are kept by reference until the recording
+ * is serialized, so emitters that mutate payloads after emitting should be recorded to JSON early.
+ */
+export class EventRecorder<T extends EventMap = EventMap> {
+    readonly #emitter: IEventEmitter<T>;
+    readonly #clock: EventClock;
+    readonly #events: ReadonlySet<string> | undefined;
+    readonly #filter: EventRecorderOptions<T>['filter'];
+    #recorded: RecordedEvent[] = [];
+    #startTime = 0;
+    #stopTime: number | undefined;
+    #detach: UnsubscribeFn | undefined;
+
+    constructor(emitter: IEventEmitter<T>, options: EventRecorderOptions<T> = {}) {
+        if (!isEventInterceptable<T>(emitter) && !options.events?.length) {
+            throw new EventError('EventRecorder needs an explicit event list for this emitter');
+        }
+
+        this.#emitter = emitter;
+        this.#clock = options.clock ?? performance;
+        this.#events = options.events ? new Set(options.events) : undefined;
+        this.#filter = options.filter;
+    }
+
+    get recording(): boolean {
+        return this.#detach !== undefined;
+    }
+
+    get size(): number {
+        return this.#recorded.length;
+    }
+
+    /** Starts a fresh recording, discarding anything captured before. */
+    start(): this {
+        if (this.recording) {
+            throw new EventError('EventRecorder is already recording');
+        }
+
+        this.#recorded = [];
+        this.#startTime = this.#clock.now();
+        this.#stopTime = undefined;
+        this.#detach = this.#attach();
+        return this;
+    }
+
+    stop(): EventRecording {
+        if (this.#detach) {
+            this.#detach();
+            this.#detach = undefined;
+            this.#stopTime = this.#clock.now();
+        }
+        return this.toRecording();
+    }
+
+    toRecording(): EventRecording {
+        const end = this.#stopTime ?? (this.recording ? this.#clock.now() : this.#startTime);
+        return {
+            version: EVENT_RECORDING_VERSION,
+            duration: Math.max(0, end - this.#startTime),
+            events: this.#recorded.slice(),
+        };
+    }
+
+    clear(): void {
+        this.#recorded = [];
+    }
+
+    dispose(): void {
+        this.stop();
+        this.clear();
+    }
+
+    #attach(): UnsubscribeFn {
+        const emitter = this.#emitter;
+
+        if (isEventInterceptable<T>(emitter)) {
+            return emitter.use((event, data, next, context) => {
+                this.#capture(event, data, context.priority, context.sync);
+                return next();
+            });
+        }
+
+        const unsubscribers = Array.from(this.#events!, (event) =>
+            emitter.on(event as EventKey<T>, (data) => this.#capture(event as EventKey<T>, data))
+        );
+        return () => {
+            let removed = true;
+            unsubscribers.forEach((unsubscribe) => {
+                removed = unsubscribe() && removed;
+            });
+            return removed;
+        };
+    }
+
+    #capture(
+        event: EventKey<T>,
+        data: T[EventKey<T>],
+        priority?: EventPriority,
+        sync?: boolean
+    ): void {
+        if (this.#events && !this.#events.has(event)) return;
+        if (this.#filter && !this.#filter(event, data)) return;
+
+        this.#recorded.push({
+            time: this.#clock.now() - this.#startTime,
+            event,
+            data,
+            ...(priority !== undefined && { priority }),
+            ...(sync !== undefined && { sync }),
+        });
+    }
+}
+
+export interface EventReplayerOptions {
+    readonly clock?: EventClock;
+    /** Playback rate; `2` replays twice as fast, `Infinity` emits everything back to back. */
+    readonly speed?: number;
+    /** Resolves after the given delay; injected together with the clock for deterministic tests. */
+    readonly wait?: (milliseconds: number) => Promise<void>;
+}
+
+const defaultWait = (milliseconds: number): Promise<void> =>
+    new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+/**
+ * Re-emits a recording into an emitter. `play()` drives itself with `wait`; `update()` emits
+ * whatever is due on the clock and suits frame loops or manual stepping.
+ */
+export class EventReplayer<T extends EventMap = EventMap> {
+    readonly #emitter: IEventEmitter<T>;
+    readonly #recording: EventRecording;
+    readonly #clock: EventClock;
+    readonly #wait: (milliseconds: number) => Promise<void>;
+    #speed: number;
+    #cursor = 0;
+    #startTime: number | undefined;
+    #generation = 0;
+
+    constructor(
+        emitter: IEventEmitter<T>,
+        recording: EventRecording,
+        options: EventReplayerOptions = {}
+    ) {
+        this.#emitter = emitter;
+        this.#recording = recording;
+        this.#clock = options.clock ?? performance;
+        this.#wait = options.wait ?? defaultWait;
+        this.#speed = 1;
+        this.speed = options.speed ?? 1;
+    }
+
+    get speed(): number {
+        return this.#speed;
+    }
+
+    set speed(value: number) {
+        if (!(value > 0)) {
+            throw new RangeError(`Replay speed must be positive, got ${value}`);
+        }
+        // Rebase so that changing speed mid-replay does not jump the cursor.
+        if (this.#startTime !== undefined) {
+            const elapsed =
+                this.#speed === Infinity
+                    ? (this.#recording.events[this.#cursor - 1]?.time ?? 0)
+                    : this.elapsed;
+            this.#speed = value;
+            this.#startTime =
+                value === Infinity ? this.#clock.now() : this.#clock.now() - elapsed / value;
+            return;
+        }
+        this.#speed = value;
+    }
+
+    get position(): number {
+        return this.#cursor;
+    }
+
+    get done(): boolean {
+        return this.#cursor >= this.#recording.events.length;
+    }
+
+    get started(): boolean {
+        return this.#startTime !== undefined;
+    }
+
+    /** Recording time reached so far, in the recording's own milliseconds. */
+    get elapsed(): number {
+        if (this.#startTime === undefined) return 0;
+        if (this.#speed === Infinity) return Infinity;
+        return (this.#clock.now() - this.#startTime) * this.#speed;
+    }
+
+    start(): this {
+        this.#startTime = this.#clock.now();
+        return this;
+    }
+
+    /** Emits every event that is due on the clock, in recorded order. */
+    async update(): Promise<number> {
+        if (this.#startTime === undefined) {
+            this.start();
+        }
+
+        const events = this.#recording.events;
+        const elapsed = this.elapsed;
+        let emitted = 0;
+
+        while (this.#cursor < events.length && events[this.#cursor].time <= elapsed) {
+            await this.#emit(events[this.#cursor++]);
+            emitted++;
+        }
+
+        return emitted;
+    }
+
+    /** Replays to the end, waiting between events to preserve the recorded timing. */
+    async play(): Promise<void> {
+        const generation = ++this.#generation;
+        if (this.#startTime === undefined) {
+            this.start();
+        }
+
+        const events = this.#recording.events;
+        while (this.#cursor < events.length) {
+            const delay = (events[this.#cursor].time - this.elapsed) / this.#speed;
+            if (delay > 0) {
+                await this.#wait(delay);
+                if (generation !== this.#generation) return;
+            }
+
+            await this.#emit(events[this.#cursor++]);
+            if (generation !== this.#generation) return;
+        }
+    }
+
+    /** Cancels a running `play()` after its current event; the cursor is kept. */
+    stop(): void {
+        this.#generation++;
+    }
+
+    reset(): void {
+        this.stop();
+        this.#cursor = 0;
+        this.#startTime = undefined;
+    }
+
+    async #emit(record: RecordedEvent): Promise<void> {
+        const event = record.event as EventKey<T>;
+        const data = record.data as T[EventKey<T>];
+        const options = record.priority ? { priority: record.priority } : {};
+
+        if (record.sync) {
+            this.#emitter.emitSync(event, data, options);
+        } else {
+            await this.#emitter.emit(event, data, options);
+        }
+    }
+}
+
+const isRecordedEvent = (value: unknown): value is RecordedEvent =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as RecordedEvent).time === 'number' &&
+    typeof (value as RecordedEvent).event === 'string';
+
+export const serializeRecording = (recording: EventRecording): string => JSON.stringify(recording);
+
+export const parseRecording = (json: string): EventRecording => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        throw new EventError('Recording is not valid JSON', { cause: error });
+    }
+
+    const recording = parsed as EventRecording;
+    if (
+        typeof parsed !== 'object' ||
+        parsed === null ||
+        !Array.isArray(recording.events) ||
+        !recording.events.every(isRecordedEvent)
+    ) {
+        throw new EventError('JSON does not contain an event recording');
+    }
+    if (recording.version !== EVENT_RECORDING_VERSION) {
+        throw new EventError(`Unsupported recording version ${recording.version}`);
+    }
+
+    return recording;
+};
+
+const PRIORITY_CODES: ReadonlyArray<EventPriority | undefined> = [
+    undefined,
+    'high',
+    'normal',
+    'low',
+];
+
+enum RecordFlag {
+    PriorityMask = 0b0011,
+    Sync = 0b0100,
+    HasSync = 0b1000,
+    HasData = 0b1_0000,
+}
+
+const toByteBuffer = (source: ByteBuffer | Uint8Array | ArrayBuffer): ByteBuffer => {
+    if (source instanceof ByteBuffer) {
+        return source;
+    }
+
+    const bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+    const buffer = ByteBuffer.alloc(Math.max(bytes.length, 1));
+    buffer.put(bytes);
+    return buffer.flip();
+};
+
+const parsePayload = (json: string, event: string): unknown => {
+    try {
+        return JSON.parse(json);
+    } catch (error) {
+        throw new EventError(`Invalid payload for ${event} in recording`, { cause: error });
+    }
+};
+
+/** Binary layout: header, event-name table, then one entry per event with a JSON payload. */
+export const encodeRecording = (recording: EventRecording): ByteBuffer => {
+    const names: string[] = [];
+    const nameIndex = new Map<string, number>();
+    for (const { event } of recording.events) {
+        if (!nameIndex.has(event)) {
+            nameIndex.set(event, names.length);
+            names.push(event);
+        }
+    }
+
+    const buffer = ByteBuffer.alloc(64);
+    buffer.putUint32(EVENT_RECORDING_MAGIC).putUint16(EVENT_RECORDING_VERSION);
+    buffer.putFloat64(recording.duration);
+
+    buffer.putVarInt(names.length);
+    for (const name of names) {
+        buffer.putString(name);
+    }
+
+    buffer.putVarInt(recording.events.length);
+    for (const { time, event, data, priority, sync } of recording.events) {
+        let flags = Math.max(0, PRIORITY_CODES.indexOf(priority));
+        if (sync !== undefined) flags |= RecordFlag.HasSync | (sync ? RecordFlag.Sync : 0);
+        if (data !== undefined) flags |= RecordFlag.HasData;
+
+        buffer.putFloat64(time).putVarInt(nameIndex.get(event)!).putUint8(flags);
+        if (data !== undefined) {
+            buffer.putString(JSON.stringify(data));
+        }
+    }
+
+    return buffer.flip();
+};
+
+export const decodeRecording = (source: ByteBuffer | Uint8Array | ArrayBuffer): EventRecording => {
+    const buffer = toByteBuffer(source);
+
+    const magic = buffer.getUint32();
+    if (magic !== EVENT_RECORDING_MAGIC) {
+        throw new EventError('Buffer does not contain an event recording');
+    }
+
+    const version = buffer.getUint16();
+    if (version !== EVENT_RECORDING_VERSION) {
+        throw new EventError(`Unsupported recording version ${version}`);
+    }
+
+    const duration = buffer.getFloat64();
+
+    const names: string[] = new Array(buffer.getVarInt());
+    for (let i = 0; i < names.length; i++) {
+        names[i] = buffer.getString();
+    }
+
+    const events: RecordedEvent[] = new Array(buffer.getVarInt());
+    for (let i = 0; i < events.length; i++) {
+        const time = buffer.getFloat64();
+        const index = buffer.getVarInt();
+        const event = names[index];
+        if (event === undefined) {
+            throw new EventError(`Unknown event index ${index} in recording`);
+        }
+
+        const flags = buffer.getUint8();
+        const priority = PRIORITY_CODES[flags & RecordFlag.PriorityMask];
+        events[i] = {
+            time,
+            event,
+            data: flags & RecordFlag.HasData ? parsePayload(buffer.getString(), event) : undefined,
+            ...(priority !== undefined && { priority }),
+            ...(flags & RecordFlag.HasSync && { sync: (flags & RecordFlag.Sync) !== 0 }),
+        };
+    }
+
+    return { version, duration, events };
+};
@@ -0,0 +1,147 @@
+import { EventError } from './errors';
+
+export interface Clock {
+    now(): number;
+}
+
+export type TimerHandle = unknown;
+
+/** Clock plus timers; everything time-based in the event and observer modules goes through one. */
+export interface TimeScheduler extends Clock {
+    setTimeout(callback: () => void, delay: number): TimerHandle;
+    clearTimeout(handle: TimerHandle): void;
+    setInterval(callback: () => void, interval: number): TimerHandle;
+    clearInterval(handle: TimerHandle): void;
+}
+
+export const realTimeScheduler: TimeScheduler = Object.freeze({
+    now: () => performance.now(),
+    setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay),
+    clearTimeout: (handle: TimerHandle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+    setInterval: (callback: () => void, interval: number) => setInterval(callback, interval),
+    clearInterval: (handle: TimerHandle) => clearInterval(handle as ReturnType<typeof setInterval>),
+});
+
+interface VirtualTimer {
+    readonly id: number;
+    readonly callback: () => void;
+    readonly interval?: number;
+    time: number;
+}
+
+const DEFAULT_FLUSH_LIMIT = 10000;
+
+/**
+ * Timers that only fire when time is advanced by hand. Timers due at the same instant run in
+ * the order they were scheduled, and `now()` reads the due time while each callback runs.
+ */
+export class VirtualTimeScheduler implements TimeScheduler {
+    readonly #timers = new Map<number, VirtualTimer>();
+    #now: number;
+    #nextId = 1;
+
+    constructor(startTime: number = 0) {
+        this.#now = startTime;
+    }
+
+    get pending(): number {
+        return this.#timers.size;
+    }
+
+    now(): number {
+        return this.#now;
+    }
+
+    setTimeout(callback: () => void, delay: number): TimerHandle {
+        return this.#add(callback, delay);
+    }
+
+    clearTimeout(handle: TimerHandle): void {
+        this.#timers.delete(handle as number);
+    }
+
+    setInterval(callback: () => void, interval: number): TimerHandle {
+        if (!(interval > 0)) {
+            throw new RangeError(`Interval must be positive, got ${interval}`);
+        }
+        return this.#add(callback, interval, interval);
+    }
+
+    clearInterval(handle: TimerHandle): void {
+        this.#timers.delete(handle as number);
+    }
+
+    /** Moves time forward, running every timer that falls due on the way. */
+    advanceBy(milliseconds: number): number {
+        if (!Number.isFinite(milliseconds) || milliseconds < 0) {
+            throw new RangeError(`Cannot advance virtual time by ${milliseconds}ms`);
+        }
+        return this.advanceTo(this.#now + milliseconds);
+    }
+
+    advanceTo(time: number): number {
+        let executed = 0;
+        for (let timer = this.#next(time); timer; timer = this.#next(time)) {
+            this.#run(timer);
+            executed++;
+        }
+        this.#now = Math.max(this.#now, time);
+        return executed;
+    }
+
+    /** Runs timers until none are left, jumping time to each one. */
+    flush(limit: number = DEFAULT_FLUSH_LIMIT): number {
+        let executed = 0;
+        for (let timer = this.#next(Infinity); timer; timer = this.#next(Infinity)) {
+            if (executed >= limit) {
+                throw new EventError(
+                    `Virtual time did not settle after ${limit} timers; is an interval still running?`
+                );
+            }
+            this.#run(timer);
+            executed++;
+        }
+        return executed;
+    }
+
+    reset(startTime: number = 0): void {
+        this.#timers.clear();
+        this.#now = startTime;
+    }
+
+    #add(callback: () => void, delay: number, interval?: number): number {
+        const id = this.#nextId++;
+        this.#timers.set(id, {
+            id,
+            callback,
+            interval,
+            time: this.#now + Math.max(0, delay || 0),
+        });
+        return id;
+    }
+
+    #next(limit: number): VirtualTimer | undefined {
+        let next: VirtualTimer | undefined;
+        for (const timer of this.#timers.values()) {
+            if (timer.time > limit) continue;
+            if (
+                !next ||
+                timer.time < next.time ||
+                (timer.time === next.time && timer.id < next.id)
+            ) {
+                next = timer;
+            }
+        }
+        return next;
+    }
+
+    #run(timer: VirtualTimer): void {
+        this.#now = Math.max(this.#now, timer.time);
+        if (timer.interval === undefined) {
+            this.#timers.delete(timer.id);
+        } else {
+            timer.time += timer.interval;
+        }
+        timer.callback();
+    }
+}
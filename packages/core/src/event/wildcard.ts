@@ -0,0 +1,211 @@
+import { EventMap, EventKey } from './definition';
+import { EventError } from './errors';
+
+export const EVENT_SEGMENT_SEPARATOR = '.';
+
+type Segments<S extends string> = S extends `${infer Head}.${infer Rest}`
+    ? [Head, ...Segments<Rest>]
+    : [S];
+
+type MatchSegments<K extends readonly string[], P extends readonly string[]> = P extends readonly [
+    '**',
+    ...infer PatternRest extends string[],
+]
+    ? MatchSegments<K, PatternRest> extends true
+        ? true
+        : K extends readonly [string, ...infer KeyRest extends string[]]
+          ? MatchSegments<KeyRest, P>
+          : false
+    : P extends readonly [infer PatternHead, ...infer PatternRest extends string[]]
+      ? K extends readonly [infer KeyHead, ...infer KeyRest extends string[]]
+          ? PatternHead extends '*' | KeyHead
+              ? MatchSegments<KeyRest, PatternRest>
+              : false
+          : false
+      : K extends readonly []
+        ? true
+        : false;
+
+/** Declared event names, without the `string` index signature inherited from `EventMap`. */
+export type KnownEventKey<T extends EventMap> = keyof {
+    [K in keyof T as string extends K ? never : K]: T[K];
+} &
+    string;
+
+/** Every pattern that matches `K`: any segment may be `*`, and `**` may end the pattern. */
+export type EventPatternOf<K extends string> = K extends `${infer Head}.${infer Rest}`
+    ? `${Head | '*'}.${EventPatternOf<Rest>}` | `${Head | '*'}.**` | '**'
+    : K | '*' | '**';
+
+export type EventPattern<T extends EventMap> = Extract<
+    EventPatternOf<KnownEventKey<T>>,
+    `${string}*${string}`
+>;
+
+export type EventKeysMatching<T extends EventMap, P extends string> = {
+    [K in KnownEventKey<T>]: MatchSegments<Segments<K>, Segments<P>> extends true ? K : never;
+}[KnownEventKey<T>];
+
+export type WildcardCallback<T extends EventMap, P extends string> = (
+    data: T[EventKeysMatching<T, P>],
+    event: EventKeysMatching<T, P>
+) => void | Promise<void>;
+
+export type AnyEventCallback<T extends EventMap> = WildcardCallback<T, '**'>;
+
+export type EventListener<T extends EventMap, K extends string> =
+    K extends EventKey<T> ? (data: T[K]) => void | Promise<void> : WildcardCallback<T, K>;
+
+export const isEventPattern = (event: string): boolean => event.includes('*');
+
+export function assertEventPattern(pattern: string): void {
+    for (const segment of pattern.split(EVENT_SEGMENT_SEPARATOR)) {
+        if (segment.length === 0) {
+            throw new EventError(`Event pattern "${pattern}" has an empty segment`);
+        }
+        if (segment.includes('*') && segment !== '*' && segment !== '**') {
+            throw new EventError(
+                `Event pattern "${pattern}" may only use "*" or "**" as whole segments`
+            );
+        }
+    }
+}
+
+interface PatternNode<V> {
+    readonly children: Map<string, PatternNode<V>>;
+    star?: PatternNode<V>;
+    globstar?: PatternNode<V>;
+    value?: V;
+}
+
+const createNode = <V>(): PatternNode<V> => ({ children: new Map() });
+
+const MATCH_CACHE_LIMIT = 1024;
+
+/**
+ * Segment trie for `.`-separated patterns: `*` matches one segment and `**` matches zero or
+ * more. Match results are cached per event name until a pattern is added or removed.
+ */
+export class PatternTrie<V> {
+    #root: PatternNode<V> = createNode();
+    #cache = new Map<string, ReadonlyArray<V>>();
+    #size = 0;
+
+    get size(): number {
+        return this.#size;
+    }
+
+    set(pattern: string, value: V): void {
+        let node = this.#root;
+        for (const segment of pattern.split(EVENT_SEGMENT_SEPARATOR)) {
+            node = this.#child(node, segment);
+        }
+
+        if (node.value === undefined) {
+            this.#size++;
+        }
+        node.value = value;
+        this.#cache.clear();
+    }
+
+    get(pattern: string): V | undefined {
+        let node: PatternNode<V> | undefined = this.#root;
+        for (const segment of pattern.split(EVENT_SEGMENT_SEPARATOR)) {
+            node = this.#next(node, segment);
+            if (!node) return undefined;
+        }
+        return node.value;
+    }
+
+    delete(pattern: string): boolean {
+        const path: Array<[PatternNode<V>, string]> = [];
+        let node: PatternNode<V> | undefined = this.#root;
+        for (const segment of pattern.split(EVENT_SEGMENT_SEPARATOR)) {
+            path.push([node, segment]);
+            node = this.#next(node, segment);
+            if (!node) return false;
+        }
+        if (node.value === undefined) return false;
+
+        node.value = undefined;
+        this.#size--;
+        this.#cache.clear();
+
+        // Prune the branch back up to the first node that is still in use.
+        for (let i = path.length - 1; i >= 0 && this.#isEmpty(node); i--) {
+            const [parent, segment] = path[i];
+            if (segment === '**') parent.globstar = undefined;
+            else if (segment === '*') parent.star = undefined;
+            else parent.children.delete(segment);
+            node = parent;
+        }
+        return true;
+    }
+
+    match(event: string): ReadonlyArray<V> {
+        const cached = this.#cache.get(event);
+        if (cached) return cached;
+
+        const found = new Set<V>();
+        if (this.#size > 0) {
+            this.#collect(this.#root, event.split(EVENT_SEGMENT_SEPARATOR), 0, found);
+        }
+
+        const result = Array.from(found);
+        if (this.#cache.size >= MATCH_CACHE_LIMIT) {
+            this.#cache.clear();
+        }
+        this.#cache.set(event, result);
+        return result;
+    }
+
+    clear(): void {
+        this.#root = createNode();
+        this.#cache.clear();
+        this.#size = 0;
+    }
+
+    #collect(node: PatternNode<V>, segments: string[], index: number, found: Set<V>): void {
+        if (node.globstar) {
+            for (let i = index; i <= segments.length; i++) {
+                this.#collect(node.globstar, segments, i, found);
+            }
+        }
+
+        if (index === segments.length) {
+            if (node.value !== undefined) found.add(node.value);
+            return;
+        }
+
+        const child = node.children.get(segments[index]);
+        if (child) this.#collect(child, segments, index + 1, found);
+        if (node.star) this.#collect(node.star, segments, index + 1, found);
+    }
+
+    #child(node: PatternNode<V>, segment: string): PatternNode<V> {
+        if (segment === '**') return (node.globstar ??= createNode());
+        if (segment === '*') return (node.star ??= createNode());
+
+        let child = node.children.get(segment);
+        if (!child) {
+            child = createNode();
+            node.children.set(segment, child);
+        }
+        return child;
+    }
+
+    #next(node: PatternNode<V>, segment: string): PatternNode<V> | undefined {
+        if (segment === '**') return node.globstar;
+        if (segment === '*') return node.star;
+        return node.children.get(segment);
+    }
+
+    #isEmpty(node: PatternNode<V>): boolean {
+        return (
+            node.value === undefined &&
+            node.children.size === 0 &&
+            node.star === undefined &&
+            node.globstar === undefined
+        );
+    }
+}
@@ -0,0 +1,201 @@
+import { ObserverId } from './definition';
+import { BackpressureOverflowError } from './errors';
+
+/**
+ * What happens to a value that arrives while an observer is busy and its queue is full:
+ * - `drop-newest` discards the incoming value
+ * - `drop-oldest` evicts the oldest queued value
+ * - `latest` keeps a single slot holding the most recent value
+ * - `error` rejects the notification with a `BackpressureOverflowError`
+ * - `await` makes `notify()` wait for room; `notifySync()` cannot wait and overflows instead
+ */
+export type BackpressureStrategy = 'drop-newest' | 'drop-oldest' | 'latest' | 'error' | 'await';
+
+export interface BackpressureOptions {
+    readonly strategy: BackpressureStrategy;
+    readonly bufferSize?: number;
+}
+
+export interface BackpressureMetrics {
+    readonly strategy: BackpressureStrategy;
+    readonly capacity: number;
+    readonly queueDepth: number;
+    readonly peakQueueDepth: number;
+    readonly waitingProducers: number;
+    readonly inFlight: boolean;
+    readonly delivered: number;
+    readonly dropped: number;
+    readonly overflows: number;
+}
+
+export const DEFAULT_BACKPRESSURE_BUFFER_SIZE = 100;
+
+interface WaitingProducer<T> {
+    readonly value: T;
+    readonly resolve: () => void;
+}
+
+/**
+ * Delivers values to one observer at a time: while a delivery is pending, new values queue up
+ * to `capacity` and the strategy decides what happens beyond that.
+ */
+export class BackpressureQueue<T = any> {
+    readonly #strategy: BackpressureStrategy;
+    readonly #capacity: number;
+    readonly #deliver: (value: T) => Promise<void>;
+    readonly #observerId?: ObserverId;
+    readonly #queue: T[] = [];
+    readonly #waiting: WaitingProducer<T>[] = [];
+    readonly #idleWaiters: Array<() => void> = [];
+    #inFlight = false;
+    #peakQueueDepth = 0;
+    #delivered = 0;
+    #dropped = 0;
+    #overflows = 0;
+
+    constructor(
+        options: BackpressureOptions,
+        deliver: (value: T) => Promise<void>,
+        observerId?: ObserverId
+    ) {
+        const bufferSize = options.bufferSize ?? DEFAULT_BACKPRESSURE_BUFFER_SIZE;
+        if (!Number.isInteger(bufferSize) || bufferSize < 1) {
+            throw new RangeError(
+                `Backpressure buffer size must be a positive integer, got ${bufferSize}`
+            );
+        }
+
+        this.#strategy = options.strategy;
+        this.#capacity = options.strategy === 'latest' ? 1 : bufferSize;
+        this.#deliver = deliver;
+        this.#observerId = observerId;
+    }
+
+    get metrics(): BackpressureMetrics {
+        return {
+            strategy: this.#strategy,
+            capacity: this.#capacity,
+            queueDepth: this.#queue.length,
+            peakQueueDepth: this.#peakQueueDepth,
+            waitingProducers: this.#waiting.length,
+            inFlight: this.#inFlight,
+            delivered: this.#delivered,
+            dropped: this.#dropped,
+            overflows: this.#overflows,
+        };
+    }
+
+    get idle(): boolean {
+        return !this.#inFlight && this.#queue.length === 0 && this.#waiting.length === 0;
+    }
+
+    /** Resolves once the value is delivered or queued; only the `await` strategy ever waits. */
+    push(value: T): Promise<void> | void {
+        if (this.#accept(value)) return;
+
+        if (this.#strategy === 'await') {
+            return new Promise<void>((resolve) => this.#waiting.push({ value, resolve }));
+        }
+
+        this.#overflow(value);
+    }
+
+    pushSync(value: T): void {
+        if (this.#accept(value)) return;
+        this.#overflow(value);
+    }
+
+    /** Resolves once every queued and waiting value has been delivered. */
+    drain(): Promise<void> {
+        if (this.idle) return Promise.resolve();
+        return new Promise<void>((resolve) => this.#idleWaiters.push(resolve));
+    }
+
+    /** Drops everything still queued and releases waiting producers without delivering. */
+    clear(): void {
+        this.#dropped += this.#queue.length + this.#waiting.length;
+        this.#queue.length = 0;
+        for (const producer of this.#waiting.splice(0)) {
+            producer.resolve();
+        }
+        if (!this.#inFlight) {
+            this.#settle();
+        }
+    }
+
+    #accept(value: T): boolean {
+        if (!this.#inFlight) {
+            this.#start(value);
+            return true;
+        }
+
+        if (this.#queue.length < this.#capacity && this.#waiting.length === 0) {
+            this.#enqueue(value);
+            return true;
+        }
+
+        return false;
+    }
+
+    #overflow(value: T): void {
+        switch (this.#strategy) {
+            case 'drop-newest':
+                this.#dropped++;
+                return;
+            case 'drop-oldest':
+            case 'latest':
+                this.#queue.shift();
+                this.#dropped++;
+                this.#enqueue(value);
+                return;
+            default:
+                this.#overflows++;
+                throw new BackpressureOverflowError(this.#capacity, this.#observerId);
+        }
+    }
+
+    #enqueue(value: T): void {
+        this.#queue.push(value);
+        this.#peakQueueDepth = Math.max(this.#peakQueueDepth, this.#queue.length);
+    }
+
+    #start(value: T): void {
+        this.#inFlight = true;
+
+        let delivery: Promise<void>;
+        try {
+            delivery = this.#deliver(value);
+        } catch {
+            delivery = Promise.resolve();
+        }
+
+        delivery
+            .catch(() => {})
+            .then(() => {
+                this.#delivered++;
+                this.#inFlight = false;
+                this.#next();
+            });
+    }
+
+    #next(): void {
+        const producer = this.#waiting.shift();
+        if (producer) {
+            this.#enqueue(producer.value);
+            producer.resolve();
+        }
+
+        if (this.#queue.length > 0) {
+            this.#start(this.#queue.shift()!);
+        } else {
+            this.#settle();
+        }
+    }
+
+    #settle(): void {
+        if (!this.idle) return;
+        for (const resolve of this.#idleWaiters.splice(0)) {
+            resolve();
+        }
+    }
+}
@@ -0,0 +1,86 @@
+import { EventEmitter, IEventEmitter } from '../event/event-emitter';
+import { EventKey, EventMap } from '../event/definition';
+import { IObservableSubject, SubjectOptions, UnobserveFn } from './definition';
+import { createSubject } from './factory';
+import { observe } from './interop';
+
+export interface EventTargetBridgeOptions extends SubjectOptions {
+    readonly listener?: AddEventListenerOptions;
+}
+
+/**
+ * Emits each event dispatched on `target`. Disposing the subject removes the listener; a `once`
+ * listener completes the subject after its first event.
+ */
+export function fromEventTarget<E extends Event = Event>(
+    target: EventTarget,
+    type: string,
+    options: EventTargetBridgeOptions = {}
+): IObservableSubject<E> {
+    const { listener: listenerOptions, ...subjectOptions } = options;
+    const subject = createSubject<E>(subjectOptions);
+
+    const listener = (event: Event) => {
+        if (subject.isCompleted()) return;
+        subject.notifySync(event as E);
+        if (listenerOptions?.once) {
+            void subject.complete();
+        }
+    };
+    target.addEventListener(type, listener, listenerOptions);
+
+    const originalDispose = subject.dispose.bind(subject);
+    subject.dispose = () => {
+        target.removeEventListener(type, listener, listenerOptions);
+        originalDispose();
+    };
+
+    return subject;
+}
+
+/** Emits every payload of `event` on `emitter` until the subject is disposed. */
+export function fromEmitter<T extends EventMap, K extends EventKey<T>>(
+    emitter: IEventEmitter<T>,
+    event: K,
+    options?: SubjectOptions
+): IObservableSubject<T[K]> {
+    const subject = createSubject<T[K]>(options);
+    const unsubscribe = emitter.on(event, (data) => {
+        if (!subject.isCompleted()) subject.notifySync(data);
+    });
+
+    const originalDispose = subject.dispose.bind(subject);
+    subject.dispose = () => {
+        unsubscribe();
+        originalDispose();
+    };
+
+    return subject;
+}
+
+/**
+ * Re-emits the subject's values as `event` on `emitter` (a fresh `EventEmitter` by default) and
+ * stops forwarding once the subject completes or errors. A listener that throws does not stop the
+ * bridge; its error goes to the emitter's `error` listeners, or is dropped when there are none.
+ */
+export function toEmitter<T extends EventMap, K extends EventKey<T>>(
+    subject: IObservableSubject<T[K]>,
+    event: K,
+    emitter: IEventEmitter<T> = new EventEmitter<T>()
+): IEventEmitter<T> {
+    const errorEvent = 'error' as EventKey<T>;
+    const report = (error: unknown) => {
+        if (event !== errorEvent && emitter.has(errorEvent)) {
+            emitter.emit(errorEvent, error as T[typeof errorEvent]).catch(() => undefined);
+        }
+    };
+
+    let unsubscribe: UnobserveFn | undefined;
+    unsubscribe = observe(subject, {
+        next: (value) => void emitter.emit(event, value).catch(report),
+        error: () => unsubscribe?.(),
+        complete: () => unsubscribe?.(),
+    });
+
+    return emitter;
+}
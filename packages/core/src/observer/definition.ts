@@ -1,3 +1,7 @@
+import { TimeScheduler, realTimeScheduler } from '../event/time-scheduler';
+import type { BackpressureOptions } from './backpressure';
+import { AsyncIterationOptions, DEFAULT_ASYNC_ITERATION_OPTIONS } from './interop';
+
 export type ObserverCallback<T> = (
     data: T,
     subject: IObservableSubject<any>
@@ -43,6 +47,10 @@ export interface ObserverOptions {
     readonly weakReference?: boolean;
     readonly errorHandling?: 'throw' | 'silent' | 'callback';
     readonly onError?: (error: Error, data: any, subject: IObservableSubject<any>) => void;
+    /** Overrides the subject's scheduler for this observer's debounce and throttle timing. */
+    readonly scheduler?: TimeScheduler;
+    /** Delivers to this observer one value at a time, queueing or dropping the rest. */
+    readonly backpressure?: BackpressureOptions;
 }
 
 export interface SubjectOptions {
@@ -66,10 +74,14 @@ export interface SubjectOptions {
         readonly enabled: boolean;
         readonly validator?: (data: any) => boolean;
     };
+    /** Timers and clock for debounce, throttle, replay and GC; swap in virtual time for tests. */
+    readonly scheduler?: TimeScheduler;
+    /** Buffering for `for await` consumers that fall behind. */
+    readonly asyncIteration?: AsyncIterationOptions;
 }
 
 export const DEFAULT_OBSERVER_OPTIONS: Required<
-    Omit<ObserverOptions, 'filter' | 'transform' | 'onError'>
+    Omit<ObserverOptions, 'filter' | 'transform' | 'onError' | 'scheduler' | 'backpressure'>
 > = Object.freeze({
     priority: 'normal',
     once: false,
@@ -108,6 +120,8 @@ export const DEFAULT_SUBJECT_OPTIONS: Required<Omit<SubjectOptions, 'validator'>
     validation: {
         enabled: false,
     },
+    scheduler: realTimeScheduler,
+    asyncIteration: DEFAULT_ASYNC_ITERATION_OPTIONS,
 } as const);
 
 export const PRIORITY_VALUES: Record<ObservationPriority, number> = {
@@ -153,6 +167,7 @@ export interface IObservableSubject<T = any> {
     getLastError(): Error | undefined;
     getMemoryUsage(): Record<string, number>;
     dispose(): void;
+    [Symbol.asyncIterator](): AsyncIterableIterator<T>;
 }
 
 export interface IObserver<T = any> {
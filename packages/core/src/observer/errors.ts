@@ -141,3 +141,15 @@ export class TransformError extends ObserverError {
         this.inputData = inputData;
     }
 }
+
+export class BackpressureOverflowError extends ObserverError {
+    public readonly observerId?: ObserverId;
+    public readonly capacity: number;
+
+    constructor(capacity: number, observerId?: ObserverId) {
+        super(`Observer queue is full. Capacity: ${capacity}`, 'BACKPRESSURE_OVERFLOW');
+        this.name = 'BackpressureOverflowError';
+        this.observerId = observerId;
+        this.capacity = capacity;
+    }
+}
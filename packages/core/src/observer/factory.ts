@@ -151,7 +151,7 @@ export class BehaviorSubject<T> extends Subject<T> {
         const unsubscribe = super.addObserver(callback, options);
 
         if (this.#hasValue) {
-            setTimeout(() => {
+            (options.scheduler ?? this.options.scheduler).setTimeout(() => {
                 callback(this.#currentValue, this);
             }, 0);
         }
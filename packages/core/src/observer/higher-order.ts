@@ -0,0 +1,473 @@
+import { DefaultEqualityComparer, EqualityComparer } from '@axrone/utility';
+import { IObservableSubject, SubjectId, SubjectOptions, UnobserveFn } from './definition';
+import { IMemoryManager } from './interfaces';
+import { MemoryManager } from './memory-manager';
+import { ObserverError } from './errors';
+import { createSubject } from './factory';
+import { OperatorObserver, observe } from './interop';
+
+export type ObservableInput<T> = IObservableSubject<T> | PromiseLike<T>;
+
+/** Tracks the inner subjects opened by operators when no memory manager is passed in. */
+export const operatorMemoryManager: IMemoryManager = new MemoryManager({ gcIntervalMs: 0 });
+
+// Operators forward every value with an unawaited notify, so bursts must not trip the limit.
+const DERIVED_SUBJECT_OPTIONS: SubjectOptions = Object.freeze({
+    concurrency: { enabled: false, maxConcurrent: 0 },
+});
+
+const toError = (error: unknown): Error =>
+    error instanceof Error ? error : new Error(String(error));
+
+const isObservableInputSubject = <T>(input: ObservableInput<T>): input is IObservableSubject<T> =>
+    typeof (input as IObservableSubject<T>).addObserver === 'function';
+
+function fromPromise<T>(promise: PromiseLike<T>): IObservableSubject<T> {
+    const subject = createSubject<T>(DERIVED_SUBJECT_OPTIONS);
+    Promise.resolve(promise)
+        .then(
+            async (value) => {
+                await subject.notify(value);
+                await subject.complete();
+            },
+            (error) => subject.error(toError(error))
+        )
+        .catch(() => {});
+    return subject;
+}
+
+interface InnerSubscription {
+    readonly subject: IObservableSubject<any>;
+    readonly owned: boolean;
+    unsubscribe?: UnobserveFn;
+}
+
+class OperatorScope {
+    readonly #memoryManager: IMemoryManager;
+    readonly #inner = new Set<InnerSubscription>();
+    readonly #references = new Map<SubjectId, number>();
+
+    constructor(memoryManager: IMemoryManager) {
+        this.#memoryManager = memoryManager;
+    }
+
+    get size(): number {
+        return this.#inner.size;
+    }
+
+    /** Inner subscriptions release themselves before their error or completion is passed on. */
+    subscribe<T>(input: ObservableInput<T>, observer: OperatorObserver<T>, owned = false): void {
+        const subject = isObservableInputSubject(input) ? input : fromPromise(input);
+        const inner: InnerSubscription = {
+            subject,
+            owned: owned || subject !== input,
+        };
+
+        this.#inner.add(inner);
+        this.#references.set(subject.id, (this.#references.get(subject.id) ?? 0) + 1);
+        this.#memoryManager.trackSubject(subject);
+
+        inner.unsubscribe = observe(subject, {
+            next: (value) => observer.next(value),
+            error: (error) => {
+                this.#release(inner);
+                observer.error(error);
+            },
+            complete: () => {
+                this.#release(inner);
+                observer.complete();
+            },
+        });
+
+        if (!this.#inner.has(inner)) {
+            inner.unsubscribe();
+        }
+    }
+
+    releaseAll(): void {
+        for (const inner of Array.from(this.#inner)) {
+            this.#release(inner);
+        }
+    }
+
+    #release(inner: InnerSubscription): void {
+        if (!this.#inner.delete(inner)) return;
+
+        inner.unsubscribe?.();
+
+        const references = (this.#references.get(inner.subject.id) ?? 1) - 1;
+        if (references > 0) {
+            this.#references.set(inner.subject.id, references);
+        } else {
+            this.#references.delete(inner.subject.id);
+            this.#memoryManager.untrackSubject(inner.subject.id);
+        }
+
+        if (inner.owned) {
+            inner.subject.dispose();
+        }
+    }
+}
+
+class OperatorSink<T> implements OperatorObserver<T> {
+    readonly #target: IObservableSubject<T>;
+    readonly #release: () => void;
+    #delivered: Promise<unknown> = Promise.resolve();
+    #closed = false;
+
+    constructor(target: IObservableSubject<T>, release: () => void) {
+        this.#target = target;
+        this.#release = release;
+    }
+
+    get closed(): boolean {
+        return this.#closed;
+    }
+
+    next(value: T): void {
+        if (this.#closed) return;
+        this.#delivered = Promise.allSettled([this.#delivered, this.#target.notify(value)]);
+    }
+
+    error(error: Error): void {
+        if (this.#closed) return;
+        this.#closed = true;
+        this.#release();
+        this.#delivered.then(() => this.#target.error(error)).catch(() => {});
+    }
+
+    complete(): void {
+        if (this.#closed) return;
+        this.#closed = true;
+        this.#release();
+        this.#delivered.then(() => this.#target.complete()).catch(() => {});
+    }
+
+    close(): void {
+        this.#closed = true;
+    }
+}
+
+/**
+ * Builds a derived subject. `setup` wires the upstream and returns its teardown, which runs
+ * together with the inner subscriptions once the result terminates or is disposed.
+ */
+function operate<U>(
+    memoryManager: IMemoryManager,
+    setup: (sink: OperatorSink<U>, scope: OperatorScope) => () => unknown
+): IObservableSubject<U> {
+    const target = createSubject<U>(DERIVED_SUBJECT_OPTIONS);
+    const scope = new OperatorScope(memoryManager);
+    let teardown: (() => unknown) | undefined;
+    let released = false;
+
+    const release = () => {
+        if (released) return;
+        released = true;
+        scope.releaseAll();
+        teardown?.();
+    };
+
+    const sink = new OperatorSink(target, release);
+    teardown = setup(sink, scope);
+    if (released) {
+        teardown();
+    }
+
+    const originalDispose = target.dispose.bind(target);
+    target.dispose = () => {
+        sink.close();
+        release();
+        originalDispose();
+    };
+
+    return target;
+}
+
+export function scan<T, U>(
+    source: IObservableSubject<T>,
+    accumulator: (accumulated: U, value: T, index: number) => U,
+    seed: U
+): IObservableSubject<U> {
+    return operate<U>(operatorMemoryManager, (sink) => {
+        let accumulated = seed;
+        let index = 0;
+
+        return observe(source, {
+            next: (value) => {
+                accumulated = accumulator(accumulated, value, index++);
+                sink.next(accumulated);
+            },
+            error: (error) => sink.error(error),
+            complete: () => sink.complete(),
+        });
+    });
+}
+
+export function distinctUntilChanged<T>(
+    source: IObservableSubject<T>,
+    comparer: EqualityComparer<T> = new DefaultEqualityComparer<T>()
+): IObservableSubject<T> {
+    return operate<T>(operatorMemoryManager, (sink) => {
+        let hasPrevious = false;
+        let previous: T;
+
+        return observe(source, {
+            next: (value) => {
+                if (hasPrevious && comparer.equals(previous, value)) return;
+                hasPrevious = true;
+                previous = value;
+                sink.next(value);
+            },
+            error: (error) => sink.error(error),
+            complete: () => sink.complete(),
+        });
+    });
+}
+
+/** Pairs values by index; completes once any completed source has nothing left queued. */
+export function zip<T extends unknown[]>(
+    ...sources: { [K in keyof T]: IObservableSubject<T[K]> }
+): IObservableSubject<T> {
+    return operate<T>(operatorMemoryManager, (sink) => {
+        const queues: unknown[][] = sources.map(() => []);
+        const completed = sources.map(() => false);
+
+        const checkCompletion = () => {
+            if (sources.length === 0 || completed.some((done, i) => done && !queues[i].length)) {
+                sink.complete();
+            }
+        };
+
+        const unsubscribers = (sources as IObservableSubject<unknown>[]).map((source, i) =>
+            observe(source, {
+                next: (value) => {
+                    queues[i].push(value);
+                    if (queues.every((queue) => queue.length > 0)) {
+                        sink.next(queues.map((queue) => queue.shift()) as T);
+                        checkCompletion();
+                    }
+                },
+                error: (error) => sink.error(error),
+                complete: () => {
+                    completed[i] = true;
+                    checkCompletion();
+                },
+            })
+        );
+
+        checkCompletion();
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    });
+}
+
+/** Emits only once every other source has a value; completes with `source` alone. */
+export function withLatestFrom<T, U extends unknown[]>(
+    source: IObservableSubject<T>,
+    ...others: { [K in keyof U]: IObservableSubject<U[K]> }
+): IObservableSubject<[T, ...U]> {
+    return operate<[T, ...U]>(operatorMemoryManager, (sink) => {
+        const latest: unknown[] = new Array(others.length);
+        const hasValue = others.map(() => false);
+
+        const unsubscribers = (others as IObservableSubject<unknown>[]).map((other, i) =>
+            observe(other, {
+                next: (value) => {
+                    latest[i] = value;
+                    hasValue[i] = true;
+                },
+                error: (error) => sink.error(error),
+                complete: () => {},
+            })
+        );
+
+        unsubscribers.push(
+            observe(source, {
+                next: (value) => {
+                    if (hasValue.every(Boolean)) {
+                        sink.next([value, ...latest] as [T, ...U]);
+                    }
+                },
+                error: (error) => sink.error(error),
+                complete: () => sink.complete(),
+            })
+        );
+
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    });
+}
+
+/** Projects each value to an inner source and only follows the most recent one. */
+export function switchMap<T, U>(
+    source: IObservableSubject<T>,
+    project: (value: T, index: number) => ObservableInput<U>,
+    memoryManager: IMemoryManager = operatorMemoryManager
+): IObservableSubject<U> {
+    return operate<U>(memoryManager, (sink, scope) => {
+        let sourceCompleted = false;
+        let index = 0;
+
+        return observe(source, {
+            next: (value) => {
+                scope.releaseAll();
+                scope.subscribe(project(value, index++), {
+                    next: (inner) => sink.next(inner),
+                    error: (error) => sink.error(error),
+                    complete: () => {
+                        if (sourceCompleted && scope.size === 0) sink.complete();
+                    },
+                });
+            },
+            error: (error) => sink.error(error),
+            complete: () => {
+                sourceCompleted = true;
+                if (scope.size === 0) sink.complete();
+            },
+        });
+    });
+}
+
+/** Projects each value to an inner source, following at most `concurrency` at once. */
+export function mergeMap<T, U>(
+    source: IObservableSubject<T>,
+    project: (value: T, index: number) => ObservableInput<U>,
+    concurrency: number = Infinity,
+    memoryManager: IMemoryManager = operatorMemoryManager
+): IObservableSubject<U> {
+    if (!(concurrency >= 1)) {
+        throw new ObserverError(
+            `Concurrency must be at least 1, got ${concurrency}`,
+            'INVALID_CONCURRENCY'
+        );
+    }
+
+    return operate<U>(memoryManager, (sink, scope) => {
+        const waiting: T[] = [];
+        let sourceCompleted = false;
+        let index = 0;
+
+        const drain = () => {
+            while (waiting.length > 0 && scope.size < concurrency && !sink.closed) {
+                start(waiting.shift()!);
+            }
+            if (sourceCompleted && scope.size === 0 && waiting.length === 0) {
+                sink.complete();
+            }
+        };
+
+        const start = (value: T) => {
+            scope.subscribe(project(value, index++), {
+                next: (inner) => sink.next(inner),
+                error: (error) => sink.error(error),
+                complete: drain,
+            });
+        };
+
+        return observe(source, {
+            next: (value) => {
+                if (scope.size < concurrency) {
+                    start(value);
+                } else {
+                    waiting.push(value);
+                }
+            },
+            error: (error) => sink.error(error),
+            complete: () => {
+                sourceCompleted = true;
+                drain();
+            },
+        });
+    });
+}
+
+/** `mergeMap` with a concurrency of one: inner sources run strictly in order. */
+export function concatMap<T, U>(
+    source: IObservableSubject<T>,
+    project: (value: T, index: number) => ObservableInput<U>,
+    memoryManager: IMemoryManager = operatorMemoryManager
+): IObservableSubject<U> {
+    return mergeMap(source, project, 1, memoryManager);
+}
+
+/**
+ * Lets up to `count` errors through before failing. A factory is called again for a fresh source
+ * on every retry, while a plain subject keeps being observed.
+ */
+export function retry<T>(
+    source: IObservableSubject<T> | (() => IObservableSubject<T>),
+    count: number = Infinity,
+    memoryManager: IMemoryManager = operatorMemoryManager
+): IObservableSubject<T> {
+    return operate<T>(memoryManager, (sink, scope) => {
+        let failures = 0;
+
+        if (typeof source !== 'function') {
+            return observe(source, {
+                next: (value) => sink.next(value),
+                error: (error) => {
+                    if (failures++ >= count) sink.error(error);
+                },
+                complete: () => sink.complete(),
+            });
+        }
+
+        const subscribe = () => {
+            scope.subscribe(
+                source(),
+                {
+                    next: (value) => sink.next(value),
+                    error: (error) => {
+                        if (failures++ < count) {
+                            subscribe();
+                        } else {
+                            sink.error(error);
+                        }
+                    },
+                    complete: () => sink.complete(),
+                },
+                true
+            );
+        };
+
+        subscribe();
+        return () => {};
+    });
+}
+
+/**
+ * Replaces an erroring source with the one returned by `handler`, or completes when it returns
+ * nothing. Errors from the replacement are passed on.
+ */
+export function catchError<T>(
+    source: IObservableSubject<T>,
+    handler: (error: Error, source: IObservableSubject<T>) => ObservableInput<T> | void,
+    memoryManager: IMemoryManager = operatorMemoryManager
+): IObservableSubject<T> {
+    return operate<T>(memoryManager, (sink, scope) => {
+        let upstream: UnobserveFn | undefined = observe(source, {
+            next: (value) => sink.next(value),
+            error: (error) => {
+                upstream?.();
+                upstream = undefined;
+
+                let fallback: ObservableInput<T> | void;
+                try {
+                    fallback = handler(error, source);
+                } catch (handlerError) {
+                    sink.error(toError(handlerError));
+                    return;
+                }
+
+                if (fallback === undefined) {
+                    sink.complete();
+                    return;
+                }
+
+                scope.subscribe(fallback, sink);
+            },
+            complete: () => sink.complete(),
+        });
+
+        return () => upstream?.();
+    });
+}
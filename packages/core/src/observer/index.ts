@@ -39,8 +39,16 @@ export {
     ConcurrencyLimitError,
     FilterError,
     TransformError,
+    BackpressureOverflowError,
 } from './errors';
 
+export type {
+    BackpressureStrategy,
+    BackpressureOptions,
+    BackpressureMetrics,
+} from './backpressure';
+export { BackpressureQueue, DEFAULT_BACKPRESSURE_BUFFER_SIZE } from './backpressure';
+
 // Interfaces
 export type {
     IObserverSubscription,
@@ -96,6 +104,40 @@ export {
     throttle,
 } from './operators';
 
+export type { ObservableInput } from './higher-order';
+export {
+    operatorMemoryManager,
+    scan,
+    distinctUntilChanged,
+    zip,
+    withLatestFrom,
+    switchMap,
+    mergeMap,
+    concatMap,
+    retry,
+    catchError,
+} from './higher-order';
+
+export type {
+    OperatorObserver,
+    InteropObservable,
+    InteropSubscription,
+    AsyncIterationOptions,
+} from './interop';
+export {
+    observableKey,
+    observe,
+    toInteropObservable,
+    toAsyncIterator,
+    DEFAULT_ASYNC_ITERATION_OPTIONS,
+} from './interop';
+
+export type { EventTargetBridgeOptions } from './bridges';
+export { fromEventTarget, fromEmitter, toEmitter } from './bridges';
+
+export type { Clock, TimeScheduler, TimerHandle } from '../event/time-scheduler';
+export { realTimeScheduler, VirtualTimeScheduler } from '../event/time-scheduler';
+
 import type {
     IObservableSubject,
     IObserver,
@@ -105,6 +147,7 @@ import type {
     SubjectOptions,
 } from './definition';
 import { createSubject } from './factory';
+import { TimeScheduler, realTimeScheduler } from '../event/time-scheduler';
 import { DEFAULT_OBSERVER_OPTIONS, DEFAULT_SUBJECT_OPTIONS } from './definition';
 
 export function isObservableSubject(value: unknown): value is IObservableSubject {
@@ -155,7 +198,11 @@ export class ObserverUtils {
         return subject;
     }
 
-    static fromArray<T>(array: T[], intervalMs: number = 0): IObservableSubject<T> {
+    static fromArray<T>(
+        array: T[],
+        intervalMs: number = 0,
+        scheduler: TimeScheduler = realTimeScheduler
+    ): IObservableSubject<T> {
         const subject = createSubject<T>();
 
         if (intervalMs === 0) {
@@ -163,11 +210,11 @@ export class ObserverUtils {
             subject.complete();
         } else {
             let index = 0;
-            const interval = setInterval(() => {
+            const interval = scheduler.setInterval(() => {
                 if (index < array.length) {
                     subject.notify(array[index++]);
                 } else {
-                    clearInterval(interval);
+                    scheduler.clearInterval(interval);
                     subject.complete();
                 }
             }, intervalMs);
@@ -198,38 +245,45 @@ export class ObserverUtils {
         return subject;
     }
 
-    static interval(intervalMs: number): IObservableSubject<number> {
+    static interval(
+        intervalMs: number,
+        scheduler: TimeScheduler = realTimeScheduler
+    ): IObservableSubject<number> {
         const subject = createSubject<number>();
         let count = 0;
 
-        const intervalId = setInterval(() => {
+        const intervalId = scheduler.setInterval(() => {
             subject.notify(count++);
         }, intervalMs);
 
         const originalDispose = subject.dispose.bind(subject);
         subject.dispose = () => {
-            clearInterval(intervalId);
+            scheduler.clearInterval(intervalId);
             originalDispose();
         };
 
         return subject;
     }
 
-    static timer(delayMs: number, intervalMs?: number): IObservableSubject<number> {
+    static timer(
+        delayMs: number,
+        intervalMs?: number,
+        scheduler: TimeScheduler = realTimeScheduler
+    ): IObservableSubject<number> {
         const subject = createSubject<number>();
         let count = 0;
 
-        const timeoutId = setTimeout(() => {
+        const timeoutId = scheduler.setTimeout(() => {
             subject.notify(count++);
 
             if (intervalMs !== undefined) {
-                const intervalId = setInterval(() => {
+                const intervalId = scheduler.setInterval(() => {
                     subject.notify(count++);
                 }, intervalMs);
 
                 const originalDispose = subject.dispose.bind(subject);
                 subject.dispose = () => {
-                    clearInterval(intervalId);
+                    scheduler.clearInterval(intervalId);
                     originalDispose();
                 };
             } else {
@@ -239,7 +293,7 @@ export class ObserverUtils {
 
         const originalDispose = subject.dispose.bind(subject);
         subject.dispose = () => {
-            clearTimeout(timeoutId);
+            scheduler.clearTimeout(timeoutId);
             originalDispose();
         };
 
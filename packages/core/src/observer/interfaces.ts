@@ -1,3 +1,5 @@
+import type { EqualityComparer } from '@axrone/utility';
+import type { BackpressureMetrics } from './backpressure';
 import {
     ObserverCallback,
     UnobserveFn,
@@ -37,6 +39,8 @@ export interface IObserverRegistry {
 
     getObserversForSubject(subjectId: SubjectId): ReadonlyArray<IObserverSubscription>;
 
+    getQueueMetrics(observerId: ObserverId): BackpressureMetrics | undefined;
+
     getActiveObserverCount(): number;
 
     getSubjectCount(): number;
@@ -204,9 +208,41 @@ export interface IObserverChain<T = any> {
     map<U>(transform: (data: T, subject: IObservableSubject<T>) => U): IObserverChain<U>;
     debounce(ms: number): IObserverChain<T>;
     throttle(ms: number): IObserverChain<T>;
+    /**
+     * On a chain created with a scheduler, delivers arrays of up to `maxSize` values, flushed when
+     * full and every `flushIntervalMs`. Otherwise it sets the observer's `buffering` option.
+     */
     buffer(maxSize: number, flushIntervalMs: number): IObserverChain<T[]>;
     take(count: number): IObserverChain<T>;
     takeUntil(predicate: (data: T, subject: IObservableSubject<T>) => boolean): IObserverChain<T>;
+    scan<U>(
+        accumulator: (accumulated: U, value: T, index: number) => U,
+        seed: U
+    ): IObserverChain<U>;
+    distinctUntilChanged(comparer?: EqualityComparer<T>): IObserverChain<T>;
+    switchMap<U>(
+        project: (value: T, index: number) => IObservableSubject<U> | PromiseLike<U>
+    ): IObserverChain<U>;
+    mergeMap<U>(
+        project: (value: T, index: number) => IObservableSubject<U> | PromiseLike<U>,
+        concurrency?: number
+    ): IObserverChain<U>;
+    concatMap<U>(
+        project: (value: T, index: number) => IObservableSubject<U> | PromiseLike<U>
+    ): IObserverChain<U>;
+    zip<U extends unknown[]>(
+        ...others: { [K in keyof U]: IObservableSubject<U[K]> }
+    ): IObserverChain<[T, ...U]>;
+    withLatestFrom<U extends unknown[]>(
+        ...others: { [K in keyof U]: IObservableSubject<U[K]> }
+    ): IObserverChain<[T, ...U]>;
+    retry(count?: number): IObserverChain<T>;
+    catchError(
+        handler: (
+            error: Error,
+            source: IObservableSubject<T>
+        ) => IObservableSubject<T> | PromiseLike<T> | void
+    ): IObserverChain<T>;
     subscribe(callback: ObserverCallback<T>): UnobserveFn;
 }
 
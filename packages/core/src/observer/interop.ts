@@ -0,0 +1,211 @@
+import { IObservableSubject, UnobserveFn } from './definition';
+import { BackpressureOverflowError } from './errors';
+
+/** `Symbol.observable` where the runtime or a polyfill defines it, otherwise the `@@observable` fallback. */
+export const observableKey: symbol | '@@observable' =
+    (typeof Symbol === 'function' && (Symbol as { readonly observable?: symbol }).observable) ||
+    '@@observable';
+
+export interface OperatorObserver<T> {
+    next(value: T): void;
+    error(error: Error): void;
+    complete(): void;
+}
+
+export interface InteropSubscription {
+    readonly closed: boolean;
+    unsubscribe(): void;
+}
+
+/** The minimal shape other observable libraries consume through `Symbol.observable`. */
+export interface InteropObservable<T> {
+    subscribe(observer?: Partial<OperatorObserver<T>> | ((value: T) => void)): InteropSubscription;
+}
+
+export interface AsyncIterationOptions {
+    readonly bufferSize: number;
+    readonly strategy: 'drop-newest' | 'drop-oldest' | 'latest' | 'error';
+}
+
+export const DEFAULT_ASYNC_ITERATION_OPTIONS: AsyncIterationOptions = Object.freeze({
+    bufferSize: 100,
+    strategy: 'drop-oldest',
+});
+
+/**
+ * Splits a subject's single callback back into next/error/complete: completion arrives as a
+ * callback on a completed subject, errors through `onError`.
+ */
+export function observe<T>(
+    source: IObservableSubject<T>,
+    observer: OperatorObserver<T>
+): UnobserveFn {
+    if (source.isCompleted()) {
+        observer.complete();
+        return () => false;
+    }
+
+    let closed = false;
+    const removeObserver = source.addObserver(
+        (data) => {
+            if (closed) return;
+            if (source.isCompleted()) {
+                closed = true;
+                observer.complete();
+                return;
+            }
+            observer.next(data);
+        },
+        {
+            errorHandling: 'callback',
+            onError: (error) => {
+                if (!closed) observer.error(error);
+            },
+        }
+    );
+
+    return () => {
+        closed = true;
+        return removeObserver();
+    };
+}
+
+export function toInteropObservable<T>(source: IObservableSubject<T>): InteropObservable<T> {
+    const interop: InteropObservable<T> = {
+        subscribe(observerOrNext) {
+            const observer =
+                typeof observerOrNext === 'function'
+                    ? { next: observerOrNext }
+                    : (observerOrNext ?? {});
+            let closed = false;
+            let unsubscribe: UnobserveFn | undefined;
+
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                unsubscribe?.();
+            };
+
+            unsubscribe = observe(source, {
+                next: (value) => observer.next?.(value),
+                error: (error) => {
+                    close();
+                    observer.error?.(error);
+                },
+                complete: () => {
+                    close();
+                    observer.complete?.();
+                },
+            });
+            if (closed) unsubscribe();
+
+            return {
+                get closed() {
+                    return closed;
+                },
+                unsubscribe: close,
+            };
+        },
+    };
+
+    (interop as any)[observableKey] = () => interop;
+    return interop;
+}
+
+/**
+ * Subscribes immediately and buffers values until they are pulled. Buffered values are still
+ * yielded after completion or an error; an error then rejects the following `next()`.
+ */
+export function toAsyncIterator<T>(
+    source: IObservableSubject<T>,
+    options: Partial<AsyncIterationOptions> = {}
+): AsyncIterableIterator<T> {
+    const { bufferSize, strategy } = { ...DEFAULT_ASYNC_ITERATION_OPTIONS, ...options };
+    const capacity = strategy === 'latest' ? 1 : bufferSize;
+    if (!(capacity >= 1)) {
+        throw new RangeError(`Async iteration buffer size must be at least 1, got ${bufferSize}`);
+    }
+
+    const buffer: T[] = [];
+    const pulls: Array<{
+        resolve: (result: IteratorResult<T>) => void;
+        reject: (error: Error) => void;
+    }> = [];
+    let done = false;
+    let failure: Error | undefined;
+    let unsubscribe: UnobserveFn | undefined;
+
+    const finish = (error?: Error) => {
+        if (done) return;
+        done = true;
+        failure = error;
+        unsubscribe?.();
+
+        for (const pull of pulls.splice(0)) {
+            if (failure) {
+                pull.reject(failure);
+                failure = undefined;
+            } else {
+                pull.resolve({ value: undefined, done: true });
+            }
+        }
+    };
+
+    unsubscribe = observe(source, {
+        next: (value) => {
+            const pull = pulls.shift();
+            if (pull) {
+                pull.resolve({ value, done: false });
+                return;
+            }
+
+            if (buffer.length < capacity) {
+                buffer.push(value);
+                return;
+            }
+
+            switch (strategy) {
+                case 'drop-newest':
+                    return;
+                case 'drop-oldest':
+                case 'latest':
+                    buffer.shift();
+                    buffer.push(value);
+                    return;
+                default:
+                    finish(new BackpressureOverflowError(capacity));
+            }
+        },
+        error: (error) => finish(error),
+        complete: () => finish(),
+    });
+    if (done) unsubscribe();
+
+    return {
+        next(): Promise<IteratorResult<T>> {
+            if (buffer.length > 0) {
+                return Promise.resolve({ value: buffer.shift()!, done: false });
+            }
+            if (failure) {
+                const error = failure;
+                failure = undefined;
+                return Promise.reject(error);
+            }
+            if (done) {
+                return Promise.resolve({ value: undefined, done: true });
+            }
+            return new Promise((resolve, reject) => pulls.push({ resolve, reject }));
+        },
+
+        return(): Promise<IteratorResult<T>> {
+            buffer.length = 0;
+            failure = undefined;
+            finish();
+            return Promise.resolve({ value: undefined, done: true });
+        },
+
+        [Symbol.asyncIterator]() {
+            return this;
+        },
+    };
+}
@@ -9,17 +9,45 @@ import {
 import { IObserverChain, ISubjectGroup, IObserverConnection } from './interfaces';
 import { Subject } from './subject';
 import { createSubject } from './factory';
+import { TimeScheduler, realTimeScheduler } from '../event/time-scheduler';
+import { ObserverExecutionError } from './errors';
+import type { EqualityComparer } from '@axrone/utility';
+import {
+    ObservableInput,
+    catchError,
+    concatMap,
+    distinctUntilChanged,
+    mergeMap,
+    retry,
+    scan,
+    switchMap,
+    withLatestFrom,
+    zip,
+} from './higher-order';
+
+interface ChainOperation {
+    readonly type:
+        | 'filter'
+        | 'map'
+        | 'debounce'
+        | 'throttle'
+        | 'buffer'
+        | 'take'
+        | 'takeUntil'
+        | 'operator';
+    readonly fn?: Function;
+    readonly value?: any;
+}
 
 export class ObserverChain<T = any> implements IObserverChain<T> {
     readonly #subject: IObservableSubject<T>;
-    readonly #operations: Array<{
-        type: 'filter' | 'map' | 'debounce' | 'throttle' | 'buffer' | 'take' | 'takeUntil';
-        fn?: Function;
-        value?: any;
-    }> = [];
+    readonly #scheduler: TimeScheduler | undefined;
+    readonly #operations: ChainOperation[] = [];
 
-    constructor(subject: IObservableSubject<T>) {
+    /** Without a scheduler, debounce and throttle use the subject's. */
+    constructor(subject: IObservableSubject<T>, scheduler?: TimeScheduler) {
         this.#subject = subject;
+        this.#scheduler = scheduler;
     }
 
     filter(predicate: (data: T, subject: IObservableSubject<T>) => boolean): IObserverChain<T> {
@@ -57,14 +85,144 @@ export class ObserverChain<T = any> implements IObserverChain<T> {
         return this;
     }
 
+    scan<U>(
+        accumulator: (accumulated: U, value: T, index: number) => U,
+        seed: U
+    ): IObserverChain<U> {
+        return this.#lift((source) => scan(source, accumulator, seed));
+    }
+
+    distinctUntilChanged(comparer?: EqualityComparer<T>): IObserverChain<T> {
+        return this.#lift((source) => distinctUntilChanged(source, comparer));
+    }
+
+    switchMap<U>(project: (value: T, index: number) => ObservableInput<U>): IObserverChain<U> {
+        return this.#lift((source) => switchMap(source, project));
+    }
+
+    mergeMap<U>(
+        project: (value: T, index: number) => ObservableInput<U>,
+        concurrency?: number
+    ): IObserverChain<U> {
+        return this.#lift((source) => mergeMap(source, project, concurrency));
+    }
+
+    concatMap<U>(project: (value: T, index: number) => ObservableInput<U>): IObserverChain<U> {
+        return this.#lift((source) => concatMap(source, project));
+    }
+
+    zip<U extends unknown[]>(
+        ...others: { [K in keyof U]: IObservableSubject<U[K]> }
+    ): IObserverChain<[T, ...U]> {
+        return this.#lift((source) => zip<[T, ...U]>(source, ...others));
+    }
+
+    withLatestFrom<U extends unknown[]>(
+        ...others: { [K in keyof U]: IObservableSubject<U[K]> }
+    ): IObserverChain<[T, ...U]> {
+        return this.#lift((source) => withLatestFrom<T, U>(source, ...others));
+    }
+
+    retry(count?: number): IObserverChain<T> {
+        return this.#lift((source) => retry(source, count));
+    }
+
+    catchError(
+        handler: (error: Error, source: IObservableSubject<T>) => ObservableInput<T> | void
+    ): IObserverChain<T> {
+        return this.#lift((source) => catchError(source, handler));
+    }
+
+    /**
+     * Operators before a higher-order step are applied to an intermediate subject, so each
+     * subscription builds its own pipeline and tears it down on unsubscribe.
+     */
     subscribe(callback: ObserverCallback<T>): UnobserveFn {
-        const options: Partial<ObserverOptions> = {};
+        const teardowns: Array<() => void> = [];
+        let source: IObservableSubject<any> = this.#subject;
+        let segment: ChainOperation[] = [];
+
+        for (const op of this.#operations) {
+            if (op.type !== 'operator') {
+                segment.push(op);
+                continue;
+            }
+
+            if (segment.length > 0) {
+                source = this.#materialize(source, segment, teardowns);
+                segment = [];
+            }
+
+            const derived: IObservableSubject<any> = op.fn!(source);
+            teardowns.push(() => derived.dispose());
+            source = derived;
+        }
+
+        const unsubscribe = this.#subscribeSegment(source, segment, callback);
+        if (teardowns.length === 0) {
+            return unsubscribe;
+        }
+
+        return () => {
+            const removed = unsubscribe();
+            teardowns.reverse().forEach((teardown) => teardown());
+            teardowns.length = 0;
+            return removed;
+        };
+    }
+
+    #lift<U>(
+        operator: (source: IObservableSubject<T>) => IObservableSubject<U>
+    ): IObserverChain<U> {
+        this.#operations.push({ type: 'operator', fn: operator });
+        return this as unknown as IObserverChain<U>;
+    }
+
+    #materialize(
+        source: IObservableSubject<any>,
+        segment: ChainOperation[],
+        teardowns: Array<() => void>
+    ): IObservableSubject<any> {
+        const intermediate = createSubject<any>({
+            concurrency: { enabled: false, maxConcurrent: 0 },
+        });
+        const unsubscribe = this.#subscribeSegment(
+            source,
+            segment,
+            (data, subject) => {
+                if (subject.isCompleted()) {
+                    void intermediate.complete().catch(() => {});
+                } else {
+                    void intermediate.notify(data).catch(() => {});
+                }
+            },
+            {
+                errorHandling: 'callback',
+                onError: (error) => void intermediate.error(error).catch(() => {}),
+            }
+        );
+
+        teardowns.push(() => {
+            unsubscribe();
+            intermediate.dispose();
+        });
+        return intermediate;
+    }
+
+    #subscribeSegment(
+        subject: IObservableSubject<any>,
+        segment: ReadonlyArray<ChainOperation>,
+        callback: ObserverCallback<any>,
+        baseOptions: Partial<ObserverOptions> = {}
+    ): UnobserveFn {
+        const options: Partial<ObserverOptions> = { ...baseOptions };
         let transformFn: Function | undefined;
         let filterFn: Function | undefined;
         let takeCount = 0;
         let takeUntilFn: Function | undefined;
+        let buffering: { maxSize: number; flushIntervalMs: number } | undefined;
 
-        for (const op of this.#operations) {
+        for (const op of segment) {
             switch (op.type) {
                 case 'filter':
                     filterFn = this.#combineFilters(filterFn, op.fn!);
@@ -79,11 +237,7 @@ export class ObserverChain<T = any> implements IObserverChain<T> {
                     (options as any).throttleMs = op.value;
                     break;
                 case 'buffer':
-                    (options as any).buffering = {
-                        enabled: true,
-                        maxSize: op.value.maxSize,
-                        flushIntervalMs: op.value.flushIntervalMs,
-                    };
+                    buffering = op.value;
                     break;
                 case 'take':
                     takeCount = op.value;
@@ -102,12 +256,20 @@ export class ObserverChain<T = any> implements IObserverChain<T> {
             (options as any).transform = transformFn;
         }
 
+        if (this.#scheduler) {
+            (options as any).scheduler = this.#scheduler;
+        }
+
         let wrappedCallback = callback;
         let callCount = 0;
         let unsubscribe: UnobserveFn | undefined;
 
         if (takeCount > 0 || takeUntilFn) {
             wrappedCallback = (data: T, subject: IObservableSubject<T>) => {
+                if (subject.isCompleted()) {
+                    return callback(data, subject);
+                }
+
                 callCount++;
 
                 if (takeUntilFn && takeUntilFn(data, subject)) {
@@ -123,10 +285,98 @@ export class ObserverChain<T = any> implements IObserverChain<T> {
             };
         }
 
-        unsubscribe = this.#subject.addObserver(wrappedCallback, options);
+        if (buffering && this.#scheduler) {
+            const { observer, dispose } = this.#createBuffer(
+                wrappedCallback as ObserverCallback<any>,
+                buffering.maxSize,
+                buffering.flushIntervalMs,
+                this.#scheduler,
+                options
+            );
+            const removeObserver = subject.addObserver(observer, options);
+            unsubscribe = () => {
+                dispose();
+                return removeObserver();
+            };
+            return unsubscribe;
+        }
+
+        if (buffering) {
+            (options as any).buffering = { enabled: true, ...buffering };
+        }
+
+        unsubscribe = subject.addObserver(wrappedCallback, options);
         return unsubscribe;
     }
 
+    #createBuffer(
+        callback: ObserverCallback<T[]>,
+        maxSize: number,
+        flushIntervalMs: number,
+        scheduler: TimeScheduler,
+        options: Partial<ObserverOptions>
+    ): { observer: ObserverCallback<T>; dispose: () => void } {
+        const observerId: ObserverId = Symbol('BufferedObserver');
+        let items: T[] = [];
+        let lastSubject: IObservableSubject<any> = this.#subject;
+
+        // Interval flushes run outside any notification, so failures go through the observer's
+        // error handling here; rejected promises are only reported to `onError`.
+        const report = (error: unknown, batch: T[], raise: boolean): void => {
+            if (options.errorHandling === 'callback' && options.onError) {
+                options.onError(error as Error, batch, lastSubject);
+            } else if (raise && (options.errorHandling ?? 'throw') === 'throw') {
+                throw new ObserverExecutionError(observerId, error as Error, {
+                    timestamp: Date.now(),
+                    data: batch,
+                    type: 'update',
+                    source: lastSubject.id,
+                });
+            }
+        };
+
+        const flush = (): void => {
+            if (items.length === 0) return;
+            const batch = items;
+            items = [];
+            try {
+                const result = callback(batch, lastSubject);
+                if (result instanceof Promise) {
+                    result.catch((error) => report(error, batch, false));
+                }
+            } catch (error) {
+                report(error, batch, true);
+            }
+        };
+
+        const intervalId =
+            flushIntervalMs > 0 ? scheduler.setInterval(flush, flushIntervalMs) : undefined;
+        if (typeof intervalId === 'object' && intervalId !== null && 'unref' in intervalId) {
+            (intervalId as any).unref();
+        }
+
+        return {
+            observer: (data, subject) => {
+                lastSubject = subject;
+                if (subject.isCompleted()) {
+                    flush();
+                    return callback(data as any, subject);
+                }
+
+                items.push(data);
+                if (items.length >= maxSize) {
+                    flush();
+                }
+            },
+            dispose: () => {
+                if (intervalId !== undefined) {
+                    scheduler.clearInterval(intervalId);
+                }
+                items = [];
+            },
+        };
+    }
+
     #combineFilters(existing: Function | undefined, newFilter: Function): Function {
         if (!existing) return newFilter;
         return (data: any, subject: any) => existing(data, subject) && newFilter(data, subject);
@@ -288,8 +538,11 @@ export class ObserverConnection<TSource = any, TTarget = any>
     }
 }
 
-export function chain<T>(subject: IObservableSubject<T>): IObserverChain<T> {
-    return new ObserverChain<T>(subject);
+export function chain<T>(
+    subject: IObservableSubject<T>,
+    scheduler?: TimeScheduler
+): IObserverChain<T> {
+    return new ObserverChain<T>(subject, scheduler);
 }
 
 export function group<T>(...subjects: IObservableSubject<T>[]): ISubjectGroup<T> {
@@ -340,13 +593,17 @@ export function map<T, U>(
     return pipe(source, transform);
 }
 
-export function debounce<T>(source: IObservableSubject<T>, ms: number): IObservableSubject<T> {
+export function debounce<T>(
+    source: IObservableSubject<T>,
+    ms: number,
+    scheduler: TimeScheduler = realTimeScheduler
+): IObservableSubject<T> {
     const target = createSubject<T>();
-    let timeoutId: ReturnType<typeof setTimeout>;
+    let timeoutId: unknown;
 
     source.addObserver((data) => {
-        clearTimeout(timeoutId);
-        timeoutId = setTimeout(() => {
+        scheduler.clearTimeout(timeoutId);
+        timeoutId = scheduler.setTimeout(() => {
             target.notify(data);
         }, ms);
     });
@@ -354,13 +611,17 @@ export function debounce<T>(source: IObservableSubject<T>, ms: number): IObserva
     return target;
 }
 
-export function throttle<T>(source: IObservableSubject<T>, ms: number): IObservableSubject<T> {
+export function throttle<T>(
+    source: IObservableSubject<T>,
+    ms: number,
+    scheduler: TimeScheduler = realTimeScheduler
+): IObservableSubject<T> {
     const target = createSubject<T>();
-    let lastEmission = 0;
+    let lastEmission: number | undefined;
 
     source.addObserver((data) => {
-        const now = Date.now();
-        if (now - lastEmission >= ms) {
+        const now = scheduler.now();
+        if (lastEmission === undefined || now - lastEmission >= ms) {
             lastEmission = now;
             target.notify(data);
         }
@@ -9,9 +9,13 @@ import {
 } from './definition';
 import { ObserverNotFoundError } from './errors';
 import { IObserverRegistry, IObserverSubscription, IMemoryManager } from './interfaces';
+import type { BackpressureMetrics } from './backpressure';
+import type { ISubject } from './subject';
 
 interface RegisteredObserver<T = any> extends IObserverSubscription<T> {
     readonly unsubscribe: UnobserveFn;
+    /** The id the subject itself assigned, when it exposes one. */
+    readonly subjectObserverId?: ObserverId;
 }
 
 export class ObserverRegistry implements IObserverRegistry {
@@ -57,6 +61,7 @@ export class ObserverRegistry implements IObserverRegistry {
             bufferSize: options.buffering?.maxSize ?? 0,
             replayEnabled: options.replay?.enabled ?? false,
             unsubscribe,
+            subjectObserverId: (subject as Partial<ISubject<T>>).getObserverId?.(unsubscribe),
         };
 
         this.#observers.set(observerId, registeredObserver);
@@ -140,6 +145,27 @@ export class ObserverRegistry implements IObserverRegistry {
         return observers;
     }
 
+    getQueueMetrics(observerId: ObserverId): BackpressureMetrics | undefined {
+        const observer = this.#observers.get(observerId);
+        if (observer?.subjectObserverId === undefined) {
+            return undefined;
+        }
+
+        const subject = observer.subject as Partial<ISubject>;
+        return subject.getBackpressureMetrics?.(observer.subjectObserverId);
+    }
+
+    getQueueDepths(): ReadonlyMap<ObserverId, number> {
+        const depths = new Map<ObserverId, number>();
+        for (const observerId of this.#observers.keys()) {
+            const metrics = this.getQueueMetrics(observerId);
+            if (metrics) {
+                depths.set(observerId, metrics.queueDepth);
+            }
+        }
+        return depths;
+    }
+
     getActiveObserverCount(): number {
         let activeCount = 0;
         for (const observer of this.#observers.values()) {
@@ -1,5 +1,6 @@
 import { PriorityQueue } from '@axrone/utility';
 import { EventEmitter, IEventEmitter } from '../event';
+import { TimeScheduler, TimerHandle } from '../event/time-scheduler';
 import {
     ObserverCallback,
     UnobserveFn,
@@ -26,7 +27,10 @@ import {
     ConcurrencyLimitError,
     FilterError,
     TransformError,
+    BackpressureOverflowError,
 } from './errors';
+import { BackpressureMetrics, BackpressureQueue } from './backpressure';
+import { InteropObservable, observableKey, toAsyncIterator, toInteropObservable } from './interop';
 import {
     IObserverSubscription,
     IObserverMetrics,
@@ -38,9 +42,10 @@ import {
 
 interface InternalObserver<T = any> extends IObserver<T> {
     readonly priority: number;
-    debounceTimer?: ReturnType<typeof setTimeout>;
+    debounceTimer?: TimerHandle;
     throttleLastExecution?: number;
     buffer?: IObserverBuffer<T>;
+    backpressure?: BackpressureQueue<T>;
     readonly filter?: (data: T, subject: IObservableSubject<T>) => boolean;
     readonly transform?: (data: T, subject: IObservableSubject<T>) => any | Promise<any>;
     executionCount: number;
@@ -128,11 +133,15 @@ export interface ISubject<T = any> extends IObservableSubject<T> {
     getReplayBuffer(): ReadonlyArray<T>;
     clearReplayBuffer(): void;
     getMemoryUsage(): Record<string, number>;
+    /** Resolves the handle returned by `addObserver` to the observer's id on this subject. */
+    getObserverId(unsubscribe: UnobserveFn): ObserverId | undefined;
+    getBackpressureMetrics(observerId: ObserverId): BackpressureMetrics | undefined;
 }
 
 export class Subject<T = any> implements ISubject<T> {
     readonly #id: SubjectId = Symbol('Subject');
     readonly #observers = new Map<ObserverId, InternalObserver<T>>();
+    readonly #observerIds = new WeakMap<UnobserveFn, ObserverId>();
     readonly #options: Required<SubjectOptions>;
     readonly #eventEmitter: IEventEmitter;
     #replayBuffer?: ReplayBuffer<T>;
@@ -140,7 +149,7 @@ export class Subject<T = any> implements ISubject<T> {
     #isDisposed = false;
     #lastError?: Error;
     #lifecycle?: ISubjectLifecycle;
-    #gcIntervalId?: ReturnType<typeof setInterval>;
+    #gcIntervalId?: TimerHandle;
     #concurrentNotifications = 0;
 
     #metrics: {
@@ -261,7 +270,15 @@ export class Subject<T = any> implements ISubject<T> {
                 notificationPromises.push(notificationPromise);
             }
 
-            await Promise.allSettled(notificationPromises);
+            const results = await Promise.allSettled(notificationPromises);
+            const overflow = results.find(
+                (result): result is PromiseRejectedResult =>
+                    result.status === 'rejected' &&
+                    result.reason instanceof BackpressureOverflowError
+            );
+            if (overflow) {
+                throw overflow.reason;
+            }
 
             const endTime = performance.now();
             const executionTime = endTime - startTime;
@@ -318,10 +335,20 @@ export class Subject<T = any> implements ISubject<T> {
             }
 
             const observerArray = Array.from(this.#observers.values());
+            let overflow: BackpressureOverflowError | undefined;
 
             for (const observer of observerArray) {
                 if (!observer.isActive) continue;
-                this.#notifyObserverSync(observer, data);
+                try {
+                    this.#notifyObserverSync(observer, data);
+                } catch (error) {
+                    if (!(error instanceof BackpressureOverflowError)) throw error;
+                    overflow ??= error;
+                }
+            }
+
+            if (overflow) {
+                throw overflow;
             }
 
             const endTime = performance.now();
@@ -362,6 +389,7 @@ export class Subject<T = any> implements ISubject<T> {
         for (const observer of this.#observers.values()) {
             if (observer.isActive) {
                 try {
+                    await observer.backpressure?.drain();
                     await observer.callback(undefined as any, this);
                 } catch (error) {}
             }
@@ -444,12 +472,20 @@ export class Subject<T = any> implements ISubject<T> {
             internalObserver.buffer = new ObserverBuffer<T>(mergedOptions.buffering.maxSize);
         }
 
+        if (options.backpressure) {
+            internalObserver.backpressure = new BackpressureQueue<T>(
+                options.backpressure,
+                (data) => this.#executeObserver(internalObserver, data),
+                observerId
+            );
+        }
+
         this.#observers.set(observerId, internalObserver);
 
         if (this.#replayBuffer && mergedOptions.replay.enabled) {
             const replayData = this.#replayBuffer.getLast(mergedOptions.replay.bufferSize);
             for (const data of replayData) {
-                setTimeout(() => {
+                this.#options.scheduler.setTimeout(() => {
                     if (internalObserver.isActive) {
                         this.#notifyObserver(internalObserver, data).catch(() => {});
                     }
@@ -461,7 +497,9 @@ export class Subject<T = any> implements ISubject<T> {
             this.#lifecycle.onObserverAdded(internalObserver as IObserverSubscription, this);
         }
 
-        return () => this.removeObserverById(observerId);
+        const unsubscribe = () => this.removeObserverById(observerId);
+        this.#observerIds.set(unsubscribe, observerId);
+        return unsubscribe;
     }
 
     removeObserver(observer: ObserverCallback<T>): boolean {
@@ -480,9 +518,10 @@ export class Subject<T = any> implements ISubject<T> {
         }
 
         observer.isActive = false;
+        observer.backpressure?.clear();
 
         if (observer.debounceTimer) {
-            clearTimeout(observer.debounceTimer);
+            this.#schedulerFor(observer).clearTimeout(observer.debounceTimer);
         }
 
         this.#observers.delete(observerId);
@@ -519,6 +558,22 @@ export class Subject<T = any> implements ISubject<T> {
         return this.#lastError;
     }
 
+    [observableKey](): InteropObservable<T> {
+        return toInteropObservable(this);
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return toAsyncIterator(this, this.#options.asyncIteration);
+    }
+
+    getObserverId(unsubscribe: UnobserveFn): ObserverId | undefined {
+        return this.#observerIds.get(unsubscribe);
+    }
+
+    getBackpressureMetrics(observerId: ObserverId): BackpressureMetrics | undefined {
+        return this.#observers.get(observerId)?.backpressure?.metrics;
+    }
+
     getReplayBuffer(): ReadonlyArray<T> {
         return this.#replayBuffer?.getAll() ?? [];
     }
@@ -538,6 +593,9 @@ export class Subject<T = any> implements ISubject<T> {
             if (observer.buffer) {
                 bufferCount += observer.buffer.size();
             }
+            if (observer.backpressure) {
+                bufferCount += observer.backpressure.metrics.queueDepth;
+            }
         }
         usage[OBSERVER_MEMORY_SYMBOLS.observationQueues.toString()] = bufferCount;
 
@@ -553,8 +611,9 @@ export class Subject<T = any> implements ISubject<T> {
 
         for (const observer of this.#observers.values()) {
             observer.isActive = false;
+            observer.backpressure?.clear();
             if (observer.debounceTimer) {
-                clearTimeout(observer.debounceTimer);
+                this.#schedulerFor(observer).clearTimeout(observer.debounceTimer);
             }
         }
         this.#observers.clear();
@@ -562,7 +621,7 @@ export class Subject<T = any> implements ISubject<T> {
         this.#replayBuffer?.clear();
 
         if (this.#gcIntervalId) {
-            clearInterval(this.#gcIntervalId);
+            this.#options.scheduler.clearInterval(this.#gcIntervalId);
         }
 
         this.#eventEmitter.dispose();
@@ -611,19 +670,19 @@ export class Subject<T = any> implements ISubject<T> {
 
             if (observer.options.debounceMs > 0) {
                 if (observer.debounceTimer) {
-                    clearTimeout(observer.debounceTimer);
+                    this.#schedulerFor(observer).clearTimeout(observer.debounceTimer);
                 }
 
-                (observer as any).debounceTimer = setTimeout(() => {
-                    this.#executeObserver(observer, transformedData);
+                (observer as any).debounceTimer = this.#schedulerFor(observer).setTimeout(() => {
+                    this.#deliver(observer, transformedData).catch(() => {});
                 }, observer.options.debounceMs);
                 return;
             }
 
             if (observer.options.throttleMs > 0) {
-                const now = Date.now();
+                const now = this.#schedulerFor(observer).now();
                 if (
-                    observer.throttleLastExecution &&
+                    observer.throttleLastExecution !== undefined &&
                     now - observer.throttleLastExecution < observer.options.throttleMs
                 ) {
                     return;
@@ -631,8 +690,9 @@ export class Subject<T = any> implements ISubject<T> {
                 (observer as any).throttleLastExecution = now;
             }
 
-            await this.#executeObserver(observer, transformedData);
+            await this.#deliver(observer, transformedData);
         } catch (error) {
+            if (error instanceof BackpressureOverflowError) throw error;
             throw new ObserverExecutionError(observer.id, error as Error, {
                 timestamp: Date.now(),
                 data,
@@ -666,6 +726,7 @@ export class Subject<T = any> implements ISubject<T> {
 
             this.#executeObserverSync(observer, transformedData);
         } catch (error) {
+            if (error instanceof BackpressureOverflowError) throw error;
             throw new ObserverExecutionError(observer.id, error as Error, {
                 timestamp: Date.now(),
                 data,
@@ -675,6 +736,22 @@ export class Subject<T = any> implements ISubject<T> {
         }
     }
 
+    async #deliver(observer: InternalObserver<T>, data: T): Promise<void> {
+        if (observer.backpressure) {
+            await observer.backpressure.push(data);
+        } else {
+            await this.#executeObserver(observer, data);
+        }
+    }
+
+    #deliverSync(observer: InternalObserver<T>, data: T): void {
+        if (observer.backpressure) {
+            observer.backpressure.pushSync(data);
+        } else {
+            this.#executeObserverSyncImmediate(observer, data);
+        }
+    }
+
     async #executeObserver(observer: InternalObserver<T>, data: T): Promise<void> {
         const startTime = performance.now();
 
@@ -699,19 +776,19 @@ export class Subject<T = any> implements ISubject<T> {
     #executeObserverSync(observer: InternalObserver<T>, data: T): void {
         if (observer.options.debounceMs > 0) {
             if (observer.debounceTimer) {
-                clearTimeout(observer.debounceTimer);
+                this.#schedulerFor(observer).clearTimeout(observer.debounceTimer);
             }
 
-            (observer as any).debounceTimer = setTimeout(() => {
-                this.#executeObserverSyncImmediate(observer, data);
+            (observer as any).debounceTimer = this.#schedulerFor(observer).setTimeout(() => {
+                this.#deliverSync(observer, data);
             }, observer.options.debounceMs);
             return;
         }
 
         if (observer.options.throttleMs > 0) {
-            const now = Date.now();
+            const now = this.#schedulerFor(observer).now();
             if (
-                observer.throttleLastExecution &&
+                observer.throttleLastExecution !== undefined &&
                 now - observer.throttleLastExecution < observer.options.throttleMs
             ) {
                 return;
@@ -719,7 +796,7 @@ export class Subject<T = any> implements ISubject<T> {
             observer.throttleLastExecution = now;
         }
 
-        this.#executeObserverSyncImmediate(observer, data);
+        this.#deliverSync(observer, data);
     }
 
     #executeObserverSyncImmediate(observer: InternalObserver<T>, data: T): void {
@@ -746,7 +823,7 @@ export class Subject<T = any> implements ISubject<T> {
     }
 
     #startGarbageCollection(): void {
-        this.#gcIntervalId = setInterval(() => {
+        this.#gcIntervalId = this.#options.scheduler.setInterval(() => {
             this.#runGarbageCollection();
         }, this.#options.memoryManagement.gcIntervalMs);
     }
@@ -769,6 +846,10 @@ export class Subject<T = any> implements ISubject<T> {
         }
     }
 
+    #schedulerFor(observer: InternalObserver<T>): TimeScheduler {
+        return observer.options.scheduler ?? this.#options.scheduler;
+    }
+
     #throwIfDisposed(): void {
         if (this.#isDisposed) {
             throw new SubjectDisposedError(this.#id);
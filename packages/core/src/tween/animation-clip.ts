@@ -0,0 +1,303 @@
+import { Easing, EasingFunction } from './easing-functions';
+import { Interpolation } from './interpolation';
+import {
+    AnimationClipConfig,
+    AnimationClipJSON,
+    AnimationTrackJSON,
+    AnimationWrapMode,
+    Keyframe,
+    KeyframeInterpolation,
+    TrackValue,
+} from './types';
+
+export function resolveEasing(name: string): EasingFunction {
+    const [category, variant] = name.split('.');
+    const easing = (Easing as Record<string, Record<string, EasingFunction>>)[category]?.[variant];
+
+    if (typeof easing !== 'function') {
+        throw new Error(`Unknown easing "${name}"`);
+    }
+
+    return easing;
+}
+
+function dimensionOf(value: TrackValue): number {
+    return typeof value === 'number' ? 1 : value.length;
+}
+
+function componentOf(value: TrackValue, index: number): number {
+    return typeof value === 'number' ? value : value[index];
+}
+
+function cloneValue(value: TrackValue): TrackValue {
+    return typeof value === 'number' ? value : Array.from(value);
+}
+
+export class AnimationTrack {
+    readonly path: string;
+    readonly keyframes: readonly Keyframe[];
+    readonly dimension: number;
+    readonly scalar: boolean;
+
+    private _easings: Array<EasingFunction | undefined>;
+    private _inTangents: number[][];
+    private _outTangents: number[][];
+
+    constructor(path: string, keyframes: readonly Keyframe[]) {
+        if (!path) {
+            throw new Error('Animation track path must not be empty');
+        }
+        if (keyframes.length === 0) {
+            throw new Error(`Animation track "${path}" needs at least one keyframe`);
+        }
+
+        const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+        const scalar = typeof sorted[0].value === 'number';
+        const dimension = dimensionOf(sorted[0].value);
+
+        for (const key of sorted) {
+            if (!Number.isFinite(key.time) || key.time < 0) {
+                throw new RangeError(
+                    `Keyframe time must be a non-negative number, got ${key.time}`
+                );
+            }
+            if (
+                (typeof key.value === 'number') !== scalar ||
+                dimensionOf(key.value) !== dimension
+            ) {
+                throw new Error(`Keyframes of track "${path}" must all have the same value shape`);
+            }
+        }
+
+        this.path = path;
+        this.scalar = scalar;
+        this.dimension = dimension;
+        this.keyframes = Object.freeze(
+            sorted.map((key) =>
+                Object.freeze({
+                    ...key,
+                    value: cloneValue(key.value),
+                    ...(key.inTangent !== undefined && { inTangent: cloneValue(key.inTangent) }),
+                    ...(key.outTangent !== undefined && { outTangent: cloneValue(key.outTangent) }),
+                })
+            )
+        );
+        this._easings = sorted.map((key) => (key.easing ? resolveEasing(key.easing) : undefined));
+        this._inTangents = sorted.map((key, i) => this._tangent(i, key.inTangent));
+        this._outTangents = sorted.map((key, i) => this._tangent(i, key.outTangent));
+    }
+
+    get startTime(): number {
+        return this.keyframes[0].time;
+    }
+
+    get endTime(): number {
+        return this.keyframes[this.keyframes.length - 1].time;
+    }
+
+    sample(time: number): TrackValue {
+        const keys = this.keyframes;
+        const last = keys.length - 1;
+
+        if (time <= keys[0].time) return cloneValue(keys[0].value);
+        if (time >= keys[last].time) return cloneValue(keys[last].value);
+
+        const index = this._findSegment(time);
+        const from = keys[index];
+        const to = keys[index + 1];
+        const interpolation: KeyframeInterpolation = from.interpolation ?? 'linear';
+
+        if (interpolation === 'step') {
+            return cloneValue(from.value);
+        }
+
+        const duration = to.time - from.time;
+        const progress = (time - from.time) / duration;
+        const k = this._easings[index]?.(progress) ?? progress;
+
+        if (this.scalar) {
+            return this._sampleComponent(index, 0, k, duration, interpolation);
+        }
+
+        const result = new Array<number>(this.dimension);
+        for (let c = 0; c < this.dimension; c++) {
+            result[c] = this._sampleComponent(index, c, k, duration, interpolation);
+        }
+        return result;
+    }
+
+    toJSON(): AnimationTrackJSON {
+        return {
+            path: this.path,
+            keyframes: this.keyframes.map((key) => ({ ...key })),
+        };
+    }
+
+    private _findSegment(time: number): number {
+        let low = 0;
+        let high = this.keyframes.length - 1;
+
+        while (high - low > 1) {
+            const mid = (low + high) >> 1;
+            if (this.keyframes[mid].time <= time) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+
+        return low;
+    }
+
+    private _sampleComponent(
+        index: number,
+        component: number,
+        k: number,
+        duration: number,
+        interpolation: KeyframeInterpolation
+    ): number {
+        const a = componentOf(this.keyframes[index].value, component);
+        const b = componentOf(this.keyframes[index + 1].value, component);
+
+        if (interpolation === 'bezier') {
+            const out = this._outTangents[index][component];
+            const into = this._inTangents[index + 1][component];
+            return Interpolation.Bezier(
+                [a, a + (out * duration) / 3, b - (into * duration) / 3, b],
+                k
+            );
+        }
+
+        return Interpolation.Linear([a, b], k);
+    }
+
+    private _tangent(index: number, explicit: TrackValue | undefined): number[] {
+        const tangent = new Array<number>(this.dimension);
+
+        if (explicit !== undefined) {
+            if (dimensionOf(explicit) !== this.dimension) {
+                throw new Error(`Tangents of track "${this.path}" must match its value shape`);
+            }
+            for (let c = 0; c < this.dimension; c++) {
+                tangent[c] = componentOf(explicit, c);
+            }
+            return tangent;
+        }
+
+        const keys = this.keyframes;
+        const prev = keys[Math.max(index - 1, 0)];
+        const next = keys[Math.min(index + 1, keys.length - 1)];
+        const span = next.time - prev.time;
+
+        for (let c = 0; c < this.dimension; c++) {
+            tangent[c] =
+                span > 0 ? (componentOf(next.value, c) - componentOf(prev.value, c)) / span : 0;
+        }
+        return tangent;
+    }
+}
+
+export class AnimationClip {
+    readonly name: string;
+    wrapMode: AnimationWrapMode;
+
+    private _tracks = new Map<string, AnimationTrack>();
+    private _duration?: number;
+
+    constructor(
+        name: string,
+        tracks: readonly AnimationTrack[] = [],
+        config: AnimationClipConfig = {}
+    ) {
+        if (config.duration !== undefined && !(config.duration >= 0)) {
+            throw new RangeError(`Clip duration must be non-negative, got ${config.duration}`);
+        }
+
+        this.name = name;
+        this.wrapMode = config.wrapMode ?? 'once';
+        this._duration = config.duration;
+
+        for (const track of tracks) {
+            this._tracks.set(track.path, track);
+        }
+    }
+
+    /** The explicit duration, or the time of the last keyframe across all tracks. */
+    get duration(): number {
+        if (this._duration !== undefined) return this._duration;
+
+        let duration = 0;
+        for (const track of this._tracks.values()) {
+            duration = Math.max(duration, track.endTime);
+        }
+        return duration;
+    }
+
+    get tracks(): readonly AnimationTrack[] {
+        return Array.from(this._tracks.values());
+    }
+
+    addTrack(path: string, keyframes: readonly Keyframe[]): AnimationTrack {
+        const track = new AnimationTrack(path, keyframes);
+        this._tracks.set(path, track);
+        return track;
+    }
+
+    getTrack(path: string): AnimationTrack | undefined {
+        return this._tracks.get(path);
+    }
+
+    removeTrack(path: string): boolean {
+        return this._tracks.delete(path);
+    }
+
+    /** Maps playback time onto the clip's own timeline according to its wrap mode. */
+    localTime(time: number): number {
+        const duration = this.duration;
+        if (duration <= 0) return 0;
+
+        switch (this.wrapMode) {
+            case 'loop':
+                return ((time % duration) + duration) % duration;
+            case 'pingpong': {
+                const cycle = ((time % (duration * 2)) + duration * 2) % (duration * 2);
+                return cycle > duration ? duration * 2 - cycle : cycle;
+            }
+            default:
+                return Math.min(Math.max(time, 0), duration);
+        }
+    }
+
+    sample(time: number, out = new Map<string, TrackValue>()): Map<string, TrackValue> {
+        const local = this.localTime(time);
+
+        for (const track of this._tracks.values()) {
+            out.set(track.path, track.sample(local));
+        }
+
+        return out;
+    }
+
+    toJSON(): AnimationClipJSON {
+        return {
+            name: this.name,
+            ...(this._duration !== undefined && { duration: this._duration }),
+            wrapMode: this.wrapMode,
+            tracks: this.tracks.map((track) => track.toJSON()),
+        };
+    }
+
+    static fromJSON(json: AnimationClipJSON | string): AnimationClip {
+        const data: AnimationClipJSON = typeof json === 'string' ? JSON.parse(json) : json;
+
+        if (!data || typeof data.name !== 'string' || !Array.isArray(data.tracks)) {
+            throw new Error('Invalid animation clip JSON');
+        }
+
+        return new AnimationClip(
+            data.name,
+            data.tracks.map((track) => new AnimationTrack(track.path, track.keyframes)),
+            { duration: data.duration, wrapMode: data.wrapMode }
+        );
+    }
+}
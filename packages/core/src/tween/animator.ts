@@ -0,0 +1,503 @@
+import { EventEmitter } from '../event/event-emitter';
+import { AnimationClip, AnimationTrack } from './animation-clip';
+import {
+    AnimationBlendMode,
+    AnimationLayerConfig,
+    AnimationPlayOptions,
+    AnimatorEventMap,
+    IGroupable,
+    TrackValue,
+} from './types';
+
+const BASE_LAYER = 'base';
+const VECTOR_KEYS = ['x', 'y', 'z', 'w'] as const;
+
+interface ClipState {
+    readonly clip: AnimationClip;
+    time: number;
+    speed: number;
+    weight: number;
+    targetWeight: number;
+    fadeRate: number;
+    finished: boolean;
+}
+
+interface AnimationLayer {
+    readonly name: string;
+    readonly blendMode: AnimationBlendMode;
+    readonly mask?: ReadonlySet<string>;
+    weight: number;
+    states: ClipState[];
+}
+
+interface PropertyBinding {
+    get(dimension: number): number[] | undefined;
+    set(value: readonly number[], scalar: boolean): void;
+}
+
+function hasSetter(object: object, key: string): boolean {
+    for (let proto: object | null = object; proto; proto = Object.getPrototypeOf(proto)) {
+        const descriptor = Object.getOwnPropertyDescriptor(proto, key);
+        if (descriptor) return descriptor.set !== undefined;
+    }
+    return false;
+}
+
+function copyOf(value: any): any {
+    if (typeof value?.clone === 'function') return value.clone();
+    if (Array.isArray(value) || ArrayBuffer.isView(value)) return (value as any).slice();
+    return Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+function readComponents(value: any, dimension: number): number[] | undefined {
+    if (typeof value === 'number') return [value];
+    if (value === null || typeof value !== 'object') return undefined;
+
+    const components = new Array<number>(dimension);
+    const indexed = Array.isArray(value) || ArrayBuffer.isView(value);
+    for (let i = 0; i < dimension; i++) {
+        components[i] = Number((indexed ? (value as any)[i] : value[VECTOR_KEYS[i]]) ?? 0);
+    }
+    return components;
+}
+
+function writeComponents(target: any, value: readonly number[]): void {
+    const indexed = Array.isArray(target) || ArrayBuffer.isView(target);
+    for (let i = 0; i < value.length; i++) {
+        target[indexed ? i : VECTOR_KEYS[i]] = value[i];
+    }
+}
+
+/**
+ * Resolves a dotted path such as `position.x`. Accessor roots are written back through their
+ * setter with a modified copy, so components like `Transform` notice the change.
+ */
+function createBinding(target: any, path: string): PropertyBinding {
+    const segments = path.split('.');
+    const rootKey = segments[0];
+    const leafKey = segments[segments.length - 1];
+    const writeBack = hasSetter(target, rootKey);
+
+    const walk = (from: any, count: number) => {
+        let current = from;
+        for (let i = 1; i < count && current != null; i++) {
+            current = current[segments[i]];
+        }
+        return current;
+    };
+
+    return {
+        get(dimension) {
+            return readComponents(walk(target[rootKey], segments.length), dimension);
+        },
+
+        set(value, scalar) {
+            if (segments.length === 1 && scalar) {
+                target[rootKey] = value[0];
+                return;
+            }
+
+            const root = writeBack ? copyOf(target[rootKey]) : target[rootKey];
+            if (root == null) return;
+
+            if (segments.length === 1) {
+                writeComponents(root, value);
+            } else {
+                const holder = walk(root, segments.length - 1);
+                if (holder == null) return;
+                if (scalar) {
+                    holder[leafKey] = value[0];
+                } else {
+                    writeComponents(holder[leafKey], value);
+                }
+            }
+
+            if (writeBack) {
+                target[rootKey] = root;
+            }
+        },
+    };
+}
+
+function toComponents(value: TrackValue): readonly number[] {
+    return typeof value === 'number' ? [value] : value;
+}
+
+let _nextId = 0;
+
+/**
+ * Plays clips on a target object. Layers are applied in the order they were added: an
+ * `override` layer blends towards its clips by the layer weight, an `additive` layer adds each
+ * clip's offset from its first keyframe. Within a layer, clip weights are normalised once they
+ * exceed 1; below that the remainder keeps the pose from the layers underneath.
+ */
+export class Animator extends EventEmitter<AnimatorEventMap> implements IGroupable {
+    readonly id: number = _nextId++;
+
+    private _target: object;
+    private _layers: AnimationLayer[] = [];
+    private _bindings = new Map<string, PropertyBinding>();
+    private _restValues = new Map<string, { value: number[]; scalar: boolean }>();
+    private _isPlaying = false;
+    private _isPaused = false;
+    private _lastTime?: number;
+    private _elapsed = 0;
+    private _timeScale = 1;
+
+    constructor(target: object) {
+        super();
+        this._target = target;
+        this.addLayer(BASE_LAYER);
+    }
+
+    getTarget(): object {
+        return this._target;
+    }
+
+    addLayer(name: string, config: AnimationLayerConfig = {}): this {
+        if (this._layers.some((layer) => layer.name === name)) {
+            throw new Error(`Animation layer "${name}" already exists`);
+        }
+
+        this._layers.push({
+            name,
+            blendMode: config.blendMode ?? 'override',
+            mask: config.mask ? new Set(config.mask) : undefined,
+            weight: config.weight ?? 1,
+            states: [],
+        });
+
+        return this;
+    }
+
+    setLayerWeight(name: string, weight: number): this {
+        this._layer(name).weight = weight;
+        return this;
+    }
+
+    getLayerWeight(name: string): number {
+        return this._layer(name).weight;
+    }
+
+    /**
+     * Makes `clip` the only clip on its layer. With a `fadeDuration` the other clips fade out
+     * while this one fades in; otherwise they are replaced immediately.
+     */
+    play(clip: AnimationClip, options: AnimationPlayOptions = {}): this {
+        const layer = this._layer(options.layer ?? BASE_LAYER);
+        const { fadeDuration = 0, weight = 1 } = options;
+        const state = this._state(layer, clip, options);
+
+        if (fadeDuration > 0) {
+            for (const other of layer.states) {
+                if (other !== state) this._fade(other, 0, fadeDuration);
+            }
+            this._fade(state, weight, fadeDuration);
+        } else {
+            layer.states = [state];
+            this._fade(state, weight, 0);
+        }
+
+        return this;
+    }
+
+    crossFade(
+        clip: AnimationClip,
+        duration: number,
+        options: Omit<AnimationPlayOptions, 'fadeDuration'> = {}
+    ): this {
+        return this.play(clip, { ...options, fadeDuration: duration });
+    }
+
+    /** Sets the weight of `clip` on its layer, leaving the other clips there untouched. */
+    blend(
+        clip: AnimationClip,
+        weight: number,
+        options: Omit<AnimationPlayOptions, 'weight'> = {}
+    ): this {
+        const layer = this._layer(options.layer ?? BASE_LAYER);
+        const state = this._state(layer, clip, options);
+        this._fade(state, weight, options.fadeDuration ?? 0);
+        this._prune(layer);
+        return this;
+    }
+
+    getClipWeight(clip: AnimationClip, layer = BASE_LAYER): number {
+        return this._layer(layer).states.find((state) => state.clip === clip)?.weight ?? 0;
+    }
+
+    getClipTime(clip: AnimationClip, layer = BASE_LAYER): number | undefined {
+        return this._layer(layer).states.find((state) => state.clip === clip)?.time;
+    }
+
+    isPlaying(): boolean {
+        return this._isPlaying;
+    }
+
+    start(time?: number): this {
+        if (this._isPlaying) return this;
+
+        this._isPlaying = true;
+        this._isPaused = false;
+        this._lastTime = time;
+        this.emitSync('start', undefined);
+
+        return this;
+    }
+
+    stop(): this {
+        if (!this._isPlaying) return this;
+
+        this._isPlaying = false;
+        this._isPaused = false;
+        this.emitSync('stop', undefined);
+
+        return this;
+    }
+
+    pause(): this {
+        if (!this._isPlaying || this._isPaused) return this;
+
+        this._isPaused = true;
+        this.emitSync('pause', undefined);
+
+        return this;
+    }
+
+    resume(): this {
+        if (!this._isPaused) return this;
+
+        this._isPaused = false;
+        this._lastTime = undefined;
+        this.emitSync('resume', undefined);
+
+        return this;
+    }
+
+    setTimeScale(scale: number): this {
+        this._timeScale = scale;
+        return this;
+    }
+
+    update(time?: number): this {
+        if (!this._isPlaying || this._isPaused) return this;
+
+        const now = time ?? performance.now();
+        const delta = this._lastTime === undefined ? 0 : now - this._lastTime;
+        this._lastTime = now;
+
+        return this.advance(delta);
+    }
+
+    /** Steps every clip by `delta` milliseconds and applies the blended pose. */
+    advance(delta: number): this {
+        const scaled = delta * this._timeScale;
+        const finished: Array<{ clip: string; layer: string }> = [];
+
+        this._elapsed += scaled;
+
+        for (const layer of this._layers) {
+            for (const state of layer.states) {
+                state.time += scaled * state.speed;
+                this._stepFade(state, Math.abs(scaled));
+
+                if (
+                    !state.finished &&
+                    state.clip.wrapMode === 'once' &&
+                    (state.speed >= 0 ? state.time >= state.clip.duration : state.time <= 0)
+                ) {
+                    state.finished = true;
+                    finished.push({ clip: state.clip.name, layer: layer.name });
+                }
+            }
+            this._prune(layer);
+        }
+
+        this.evaluate();
+        this.emitSync('update', this._elapsed);
+
+        for (const event of finished) {
+            this.emitSync('finished', event);
+        }
+
+        return this;
+    }
+
+    /** Writes the current blend of all layers to the target without advancing time. */
+    evaluate(): this {
+        for (const path of this._animatedPaths()) {
+            const blended = this._blendPath(path);
+            if (blended) {
+                this._binding(path).set(blended.value, blended.scalar);
+            }
+        }
+
+        return this;
+    }
+
+    /** Writes back the values the target had before it was first animated. */
+    restore(): this {
+        for (const [path, rest] of this._restValues) {
+            this._binding(path).set(rest.value, rest.scalar);
+        }
+        this._restValues.clear();
+
+        return this;
+    }
+
+    private _layer(name: string): AnimationLayer {
+        const layer = this._layers.find((candidate) => candidate.name === name);
+        if (!layer) {
+            throw new Error(`Unknown animation layer "${name}"`);
+        }
+        return layer;
+    }
+
+    private _state(
+        layer: AnimationLayer,
+        clip: AnimationClip,
+        options: AnimationPlayOptions
+    ): ClipState {
+        let state = layer.states.find((candidate) => candidate.clip === clip);
+
+        if (!state) {
+            state = {
+                clip,
+                time: options.startTime ?? 0,
+                speed: options.speed ?? 1,
+                weight: 0,
+                targetWeight: 0,
+                fadeRate: 0,
+                finished: false,
+            };
+            layer.states.push(state);
+            return state;
+        }
+
+        if (options.startTime !== undefined) {
+            state.time = options.startTime;
+            state.finished = false;
+        }
+        if (options.speed !== undefined) {
+            state.speed = options.speed;
+        }
+        return state;
+    }
+
+    private _fade(state: ClipState, weight: number, duration: number): void {
+        if (!(duration >= 0)) {
+            throw new RangeError(`Fade duration must be non-negative, got ${duration}`);
+        }
+
+        state.targetWeight = weight;
+
+        if (duration === 0) {
+            state.weight = weight;
+            state.fadeRate = 0;
+        } else {
+            state.fadeRate = Math.abs(weight - state.weight) / duration;
+        }
+    }
+
+    private _stepFade(state: ClipState, delta: number): void {
+        if (state.fadeRate === 0) return;
+
+        const step = state.fadeRate * delta;
+        const remaining = state.targetWeight - state.weight;
+
+        if (Math.abs(remaining) <= step) {
+            state.weight = state.targetWeight;
+            state.fadeRate = 0;
+        } else {
+            state.weight += Math.sign(remaining) * step;
+        }
+    }
+
+    private _prune(layer: AnimationLayer): void {
+        layer.states = layer.states.filter((state) => state.weight > 0 || state.targetWeight > 0);
+    }
+
+    private _animatedPaths(): Set<string> {
+        const paths = new Set<string>();
+
+        for (const layer of this._layers) {
+            for (const state of layer.states) {
+                for (const track of state.clip.tracks) {
+                    if (!layer.mask || layer.mask.has(track.path)) {
+                        paths.add(track.path);
+                    }
+                }
+            }
+        }
+
+        return paths;
+    }
+
+    private _binding(path: string): PropertyBinding {
+        let binding = this._bindings.get(path);
+        if (!binding) {
+            binding = createBinding(this._target, path);
+            this._bindings.set(path, binding);
+        }
+        return binding;
+    }
+
+    private _restValue(path: string, track: AnimationTrack): number[] {
+        let rest = this._restValues.get(path);
+        if (!rest) {
+            const value =
+                this._binding(path).get(track.dimension) ??
+                Array.from(toComponents(track.keyframes[0].value));
+            rest = { value, scalar: track.scalar };
+            this._restValues.set(path, rest);
+        }
+        return rest.value;
+    }
+
+    private _blendPath(path: string): { value: number[]; scalar: boolean } | undefined {
+        let result: number[] | undefined;
+        let scalar = true;
+
+        for (const layer of this._layers) {
+            if (layer.weight <= 0 || (layer.mask && !layer.mask.has(path))) continue;
+
+            let accumulated: number[] | undefined;
+            let totalWeight = 0;
+
+            for (const state of layer.states) {
+                const track = state.clip.getTrack(path);
+                if (!track || state.weight <= 0) continue;
+
+                result ??= Array.from(this._restValue(path, track));
+                scalar = track.scalar;
+                accumulated ??= new Array<number>(track.dimension).fill(0);
+
+                const value = toComponents(track.sample(state.clip.localTime(state.time)));
+                const reference = toComponents(track.keyframes[0].value);
+
+                for (let c = 0; c < accumulated.length; c++) {
+                    const component =
+                        layer.blendMode === 'additive' ? value[c] - reference[c] : value[c];
+                    accumulated[c] += component * state.weight;
+                }
+                totalWeight += state.weight;
+            }
+
+            if (!accumulated || !result) continue;
+
+            if (layer.blendMode === 'additive') {
+                for (let c = 0; c < accumulated.length; c++) {
+                    result[c] += accumulated[c] * layer.weight;
+                }
+            } else {
+                const amount = layer.weight * Math.min(totalWeight, 1);
+                for (let c = 0; c < accumulated.length; c++) {
+                    const target = accumulated[c] / totalWeight;
+                    result[c] += (target - result[c]) * amount;
+                }
+            }
+        }
+
+        return result && { value: result, scalar };
+    }
+}
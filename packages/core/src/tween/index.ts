@@ -10,3 +10,5 @@ export * from './utils';
 export * from './implementations/primitive-tween';
 export * from './implementations/array-tween';
 export * from './implementations/object-tween';
+export * from './animation-clip';
+export * from './animator';
@@ -173,3 +173,64 @@ export type SpringConfig = {
     readonly velocity?: number;
     readonly precision?: number;
 };
+
+export type TrackValue = number | readonly number[];
+
+export type KeyframeInterpolation = 'step' | 'linear' | 'bezier';
+
+export type AnimationWrapMode = 'once' | 'loop' | 'pingpong';
+
+/**
+ * Tangents are slopes in value units per millisecond; bezier segments derive them from the
+ * neighbouring keys when omitted. `easing` names an `Easing` curve such as `'Cubic.InOut'`.
+ */
+export type Keyframe = {
+    readonly time: number;
+    readonly value: TrackValue;
+    readonly interpolation?: KeyframeInterpolation;
+    readonly easing?: string;
+    readonly inTangent?: TrackValue;
+    readonly outTangent?: TrackValue;
+};
+
+export type AnimationTrackJSON = {
+    readonly path: string;
+    readonly keyframes: readonly Keyframe[];
+};
+
+export type AnimationClipJSON = {
+    readonly name: string;
+    readonly duration?: number;
+    readonly wrapMode?: AnimationWrapMode;
+    readonly tracks: readonly AnimationTrackJSON[];
+};
+
+export type AnimationClipConfig = {
+    readonly duration?: number;
+    readonly wrapMode?: AnimationWrapMode;
+};
+
+export type AnimationBlendMode = 'override' | 'additive';
+
+export type AnimationLayerConfig = {
+    readonly weight?: number;
+    readonly blendMode?: AnimationBlendMode;
+    readonly mask?: readonly string[];
+};
+
+export type AnimationPlayOptions = {
+    readonly layer?: string;
+    readonly fadeDuration?: number;
+    readonly speed?: number;
+    readonly startTime?: number;
+    readonly weight?: number;
+};
+
+export type AnimatorEventMap = {
+    start: void;
+    stop: void;
+    pause: void;
+    resume: void;
+    update: number;
+    finished: { clip: string; layer: string };
+};
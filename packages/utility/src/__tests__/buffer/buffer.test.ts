@@ -199,4 +199,24 @@ describe('ByteBuffer core — professional tests', () => {
         const writable: any = ro;
         expect(() => writable.putUint8(2)).toThrow(ReadOnlyBufferError);
     });
+
+    it('growing past the initial capacity keeps an open limit in step', () => {
+        const b = ByteBuffer.alloc(8);
+        const initialCapacity = b.capacity;
+        const count = initialCapacity / 4 + 8;
+
+        for (let i = 0; i < count; i++) {
+            b.putUint32(i);
+        }
+
+        expect(b.position).toBe(count * 4);
+        expect(b.limit).toBe(b.capacity);
+
+        b.flip();
+        const values: number[] = [];
+        while (b.hasRemaining) {
+            values.push(b.getUint32());
+        }
+        expect(values).toEqual(Array.from({ length: count }, (_, i) => i));
+    });
 });
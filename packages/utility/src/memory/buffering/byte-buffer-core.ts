@@ -190,6 +190,8 @@ export class ByteBuffer implements IByteBuffer {
 
         new Uint8Array(newBuffer).set(this.u8Array);
 
+        const limitWasOpen = this.limitPos === this.buffer.byteLength;
+
         if (this.pooled) {
             ByteBuffer.pool.release(this.buffer);
         }
@@ -200,6 +202,10 @@ export class ByteBuffer implements IByteBuffer {
             u8Array: new Uint8Array(newBuffer),
         });
 
+        if (limitWasOpen) {
+            this.limitPos = newBuffer.byteLength;
+        }
+
         this.typedArrayCache.clear();
     }
 